@@ -0,0 +1,177 @@
+/**
+ * Locker Bridge Agent
+ * Runs on the school network next to the locker controllers.
+ * Pulls signed commands from the locker-bridge edge function, relays them to
+ * each controller over WebSocket and reports the controllers' signed
+ * acknowledgements and alarm events back. The agent never holds the controller key, so it
+ * cannot forge commands or acks.
+ *
+ * Usage:
+ *   LOCKER_BRIDGE_URL=https://<project>.supabase.co/functions/v1/locker-bridge \
+ *   LOCKER_BRIDGE_SECRET=... \
+ *   deno run --allow-net --allow-env bridge/agent.ts
+ */
+
+import {
+  SignedAck,
+  SignedCommand,
+  SignedDeviceEvent,
+  requestPayload,
+  sign,
+} from '../supabase/functions/_shared/locker-signing.ts';
+
+interface DispatchedCommand {
+  controllerId: string;
+  endpoint: string;
+  command: SignedCommand;
+}
+
+const BRIDGE_URL = Deno.env.get('LOCKER_BRIDGE_URL');
+const BRIDGE_SECRET = Deno.env.get('LOCKER_BRIDGE_SECRET');
+const POLL_INTERVAL_MS = Number(Deno.env.get('BRIDGE_POLL_INTERVAL_MS') ?? 2000);
+
+if (!BRIDGE_URL || !BRIDGE_SECRET) {
+  console.error('LOCKER_BRIDGE_URL and LOCKER_BRIDGE_SECRET must be set');
+  Deno.exit(1);
+}
+
+// Open controller sockets and commands waiting for a socket to open
+const sockets = new Map<string, WebSocket>();
+const outbox = new Map<string, SignedCommand[]>();
+let pendingAcks: SignedAck[] = [];
+let pendingEvents: SignedDeviceEvent[] = [];
+
+/**
+ * Call the bridge function with a signed request body
+ */
+async function callBridge<T>(body: Record<string, unknown>): Promise<T> {
+  const rawBody = JSON.stringify(body);
+  const timestamp = new Date().toISOString();
+
+  const response = await fetch(BRIDGE_URL!, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-bridge-timestamp': timestamp,
+      'x-bridge-signature': await sign(BRIDGE_SECRET!, requestPayload(timestamp, rawBody)),
+    },
+    body: rawBody,
+  });
+
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Bridge request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+/**
+ * Get (or open) the WebSocket for a controller
+ */
+function connect(controllerId: string, endpoint: string): WebSocket {
+  const existing = sockets.get(controllerId);
+  if (existing && existing.readyState <= WebSocket.OPEN) return existing;
+
+  console.log(`Connecting to controller ${controllerId} at ${endpoint}`);
+  const socket = new WebSocket(endpoint);
+  sockets.set(controllerId, socket);
+
+  socket.onopen = () => {
+    const queued = outbox.get(controllerId) ?? [];
+    outbox.delete(controllerId);
+    queued.forEach(command => socket.send(JSON.stringify(command)));
+  };
+
+  socket.onmessage = (event) => {
+    try {
+      const message = JSON.parse(event.data);
+      // Controllers send command acks and unprompted alarm events on the same socket
+      if ('commandId' in message) {
+        pendingAcks.push(message as SignedAck);
+      } else {
+        pendingEvents.push(message as SignedDeviceEvent);
+      }
+    } catch {
+      console.warn(`Ignoring malformed message from controller ${controllerId}`);
+    }
+  };
+
+  socket.onclose = () => {
+    console.warn(`Controller ${controllerId} disconnected`);
+    sockets.delete(controllerId);
+  };
+
+  socket.onerror = () => {
+    console.error(`Socket error on controller ${controllerId}`);
+  };
+
+  return socket;
+}
+
+/**
+ * Deliver a command now, or once the controller socket opens
+ */
+function deliver({ controllerId, endpoint, command }: DispatchedCommand) {
+  const socket = connect(controllerId, endpoint);
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(command));
+  } else {
+    outbox.set(controllerId, [...(outbox.get(controllerId) ?? []), command]);
+  }
+}
+
+/**
+ * One bridge cycle: report acks and alarm events collected since the last
+ * cycle, then pull new commands
+ */
+async function tick() {
+  const connected = [...sockets.entries()]
+    .filter(([, socket]) => socket.readyState === WebSocket.OPEN)
+    .map(([id]) => id);
+
+  if (pendingAcks.length > 0) {
+    const acks = pendingAcks;
+    pendingAcks = [];
+    try {
+      await callBridge({ action: 'report', acks, controllers: connected });
+      console.log(`Reported ${acks.length} acknowledgement(s)`);
+    } catch (error) {
+      // Keep the acks for the next cycle
+      pendingAcks = [...acks, ...pendingAcks];
+      throw error;
+    }
+  }
+
+  if (pendingEvents.length > 0) {
+    const events = pendingEvents;
+    pendingEvents = [];
+    try {
+      await callBridge({ action: 'events', events, controllers: connected });
+      console.log(`Reported ${events.length} alarm event(s)`);
+    } catch (error) {
+      // Keep the events for the next cycle
+      pendingEvents = [...events, ...pendingEvents];
+      throw error;
+    }
+  }
+
+  const { commands } = await callBridge<{ commands: DispatchedCommand[] }>({
+    action: 'pull',
+    controllers: connected,
+  });
+  commands.forEach(deliver);
+  if (commands.length > 0) {
+    console.log(`Relayed ${commands.length} command(s)`);
+  }
+}
+
+console.log(`Locker bridge agent polling every ${POLL_INTERVAL_MS}ms`);
+
+while (true) {
+  try {
+    await tick();
+  } catch (error) {
+    console.error('Bridge cycle failed:', error instanceof Error ? error.message : error);
+  }
+  await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+}
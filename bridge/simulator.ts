@@ -0,0 +1,182 @@
+/**
+ * Locker Bank Simulator
+ * Software stand-in for a hardware locker controller so the bridge can be
+ * developed and tested without real locks. Speaks the same signed WebSocket
+ * protocol as a controller and keeps the state of each slot in memory.
+ * A plain HTTP GET returns the current slot states; a POST to /events
+ * raises an alarm event (forced open, door ajar, low battery) on a slot.
+ *
+ * Usage:
+ *   LOCKER_CONTROLLER_SECRET=... deno run --allow-net --allow-env bridge/simulator.ts
+ *
+ * Point a locker_controllers row's endpoint at ws://localhost:<SIM_PORT>.
+ *
+ * Simulate an alarm:
+ *   curl -X POST localhost:8787/events -d '{"slot": 3, "type": "forced_open"}'
+ *   curl -X POST localhost:8787/events -d '{"slot": 3, "type": "low_battery", "detail": "12%"}'
+ *
+ * Options (env):
+ *   SIM_PORT          port to listen on (default 8787)
+ *   SIM_SLOTS         number of lockers in the bank (default 24)
+ *   SIM_LATENCY_MS    mechanical delay before acknowledging (default 300)
+ *   SIM_FAILURE_RATE  probability (0-1) that a lock jams (default 0)
+ *   SIM_CONTROLLER_ID id of the locker_controllers row (default sim-1)
+ */
+
+import {
+  DeviceEventType,
+  SignedAck,
+  SignedCommand,
+  SignedDeviceEvent,
+  ackPayload,
+  commandPayload,
+  deviceEventPayload,
+  isFresh,
+  sign,
+  verify,
+} from '../supabase/functions/_shared/locker-signing.ts';
+
+type SlotState = 'locked' | 'unlocked';
+
+const SECRET = Deno.env.get('LOCKER_CONTROLLER_SECRET');
+const PORT = Number(Deno.env.get('SIM_PORT') ?? 8787);
+const SLOTS = Number(Deno.env.get('SIM_SLOTS') ?? 24);
+const LATENCY_MS = Number(Deno.env.get('SIM_LATENCY_MS') ?? 300);
+const FAILURE_RATE = Number(Deno.env.get('SIM_FAILURE_RATE') ?? 0);
+const CONTROLLER_ID = Deno.env.get('SIM_CONTROLLER_ID') ?? 'sim-1';
+
+const EVENT_TYPES: DeviceEventType[] = ['forced_open', 'door_ajar', 'low_battery'];
+
+if (!SECRET) {
+  console.error('LOCKER_CONTROLLER_SECRET must be set');
+  Deno.exit(1);
+}
+
+// Every slot starts locked, like a freshly powered bank
+const slots: SlotState[] = Array.from({ length: SLOTS }, () => 'locked');
+
+// Command ids already executed, so a replayed command is not applied twice
+const executed = new Set<string>();
+
+// Connected bridge agents; alarm events go to all of them
+const agents = new Set<WebSocket>();
+
+/**
+ * Build a signed acknowledgement for a command
+ */
+async function buildAck(
+  commandId: string,
+  result: SignedAck['result'],
+  state: SlotState,
+  error?: string,
+): Promise<SignedAck> {
+  const unsigned = { commandId, result, state, error, reportedAt: new Date().toISOString() };
+  return { ...unsigned, signature: await sign(SECRET!, ackPayload(unsigned)) };
+}
+
+/**
+ * Validate and execute a single command
+ */
+async function handleCommand(command: SignedCommand): Promise<SignedAck> {
+  const { signature, ...unsigned } = command;
+  const current = slots[command.slot] ?? 'locked';
+
+  if (!(await verify(SECRET!, commandPayload(unsigned), signature)) || !isFresh(command.issuedAt)) {
+    console.warn(`Rejected command ${command.id}: bad signature or stale`);
+    return buildAck(command.id, 'failed', current, 'invalid_signature');
+  }
+
+  if (command.slot < 0 || command.slot >= SLOTS) {
+    return buildAck(command.id, 'failed', current, 'unknown_slot');
+  }
+
+  if (executed.has(command.id)) {
+    return buildAck(command.id, 'confirmed', current);
+  }
+
+  // Simulate the time the lock mechanism takes to move
+  await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+  if (Math.random() < FAILURE_RATE) {
+    console.warn(`Slot ${command.slot} (${command.lockerId}) jammed on ${command.action}`);
+    return buildAck(command.id, 'failed', current, 'jammed');
+  }
+
+  slots[command.slot] = command.action === 'lock' ? 'locked' : 'unlocked';
+  executed.add(command.id);
+  console.log(`Slot ${command.slot} (${command.lockerId}) -> ${slots[command.slot]}`);
+  return buildAck(command.id, 'confirmed', slots[command.slot]);
+}
+
+/**
+ * Build a signed alarm event for a slot
+ */
+async function buildEvent(slot: number, type: DeviceEventType, detail?: string): Promise<SignedDeviceEvent> {
+  const unsigned = {
+    id: crypto.randomUUID(),
+    controllerId: CONTROLLER_ID,
+    slot,
+    type,
+    detail,
+    occurredAt: new Date().toISOString(),
+  };
+  return { ...unsigned, signature: await sign(SECRET!, deviceEventPayload(unsigned)) };
+}
+
+/**
+ * Raise an alarm event from a POST /events request
+ */
+async function handleEventRequest(req: Request): Promise<Response> {
+  const { slot, type, detail } = await req.json().catch(() => ({}));
+
+  if (!Number.isInteger(slot) || slot < 0 || slot >= SLOTS || !EVENT_TYPES.includes(type)) {
+    return new Response(
+      JSON.stringify({ error: `slot must be 0-${SLOTS - 1} and type one of ${EVENT_TYPES.join(', ')}` }),
+      { status: 400, headers: { 'Content-Type': 'application/json' } },
+    );
+  }
+
+  const event = await buildEvent(slot, type, detail);
+  agents.forEach(socket => socket.send(JSON.stringify(event)));
+  console.log(`Slot ${slot} raised ${type}${detail ? ` (${detail})` : ''} to ${agents.size} agent(s)`);
+
+  return new Response(JSON.stringify({ event, delivered: agents.size }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve({ port: PORT }, (req) => {
+  if (req.method === 'POST' && new URL(req.url).pathname === '/events') {
+    return handleEventRequest(req);
+  }
+
+  if (req.headers.get('upgrade') !== 'websocket') {
+    return new Response(JSON.stringify({ slots }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req);
+
+  socket.onopen = () => {
+    agents.add(socket);
+    console.log('Bridge agent connected');
+  };
+  socket.onclose = () => {
+    agents.delete(socket);
+    console.log('Bridge agent disconnected');
+  };
+
+  socket.onmessage = async (event) => {
+    try {
+      const ack = await handleCommand(JSON.parse(event.data) as SignedCommand);
+      socket.send(JSON.stringify(ack));
+    } catch (error) {
+      console.error('Failed to handle command:', error);
+    }
+  };
+
+  return response;
+});
+
+console.log(`Simulating a ${SLOTS}-slot locker bank on ws://localhost:${PORT}`);
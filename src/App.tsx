@@ -25,6 +25,8 @@ const StudentDashboard = lazy(() => import("@/pages/StudentDashboard"));
 const TeacherDashboard = lazy(() => import("@/pages/TeacherDashboard"));
 const AdminDashboard = lazy(() => import("@/pages/AdminDashboard"));
 const Feedback = lazy(() => import("@/pages/Feedback"));
+const LockerKiosk = lazy(() => import("@/pages/LockerKiosk"));
+const DeskKiosk = lazy(() => import("@/pages/DeskKiosk"));
 const NotFound = lazy(() => import("@/pages/NotFound"));
 
 // Preload functions for route prefetching on hover
@@ -140,6 +142,14 @@ const AppRoutes = () => {
           path="/feedback"
           element={<Feedback />}
         />
+        <Route
+          path="/locker-kiosk"
+          element={<LockerKiosk />}
+        />
+        <Route
+          path="/desk/:deskId"
+          element={<DeskKiosk />}
+        />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </Suspense>
@@ -112,7 +112,9 @@ export const ActivityLog: React.FC<ActivityLogProps> = ({
                             'text-xs px-1.5 py-0.5 rounded-full',
                             log.userRole === 'teacher' 
                               ? 'bg-primary/10 text-primary' 
-                              : 'bg-secondary text-secondary-foreground'
+                              : log.userRole === 'system'
+                                ? 'bg-accent text-accent-foreground'
+                                : 'bg-secondary text-secondary-foreground'
                           )}
                         >
                           {log.userRole}
@@ -0,0 +1,318 @@
+/**
+ * Admin Desk Registry
+ * Register the physical desk terminals by room and seat, reserve a desk for
+ * a student where seating is fixed, and provision kiosk device tokens
+ */
+
+import React, { useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { useDesks } from '@/hooks/useDesks';
+import { kioskUrl } from '@/lib/api/deskSession';
+import { Desk } from '@/types';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Monitor, Plus, Pencil, Trash2, Loader2, KeyRound, Copy, ShieldOff } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface DeskRegistryProps {
+  desks: ReturnType<typeof useDesks>;
+}
+
+// Select value for a desk not reserved for anyone
+const SHARED = 'shared';
+
+const emptyForm = { id: '', room: '', seat: '', studentId: SHARED };
+
+const DeskRegistry: React.FC<DeskRegistryProps> = ({ desks: registry }) => {
+  const { desks, deviceTokens, createDesk, updateDesk, deleteDesk, provisionDeskToken, revokeDeskToken } = registry;
+  const { students } = useApp();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Desk | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  // Freshly issued kiosk link, shown once
+  const [issued, setIssued] = useState<{ deskId: string; url: string } | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (desk: Desk) => {
+    setEditing(desk);
+    setForm({
+      id: desk.id,
+      room: desk.room,
+      seat: desk.seat ?? '',
+      studentId: desk.assignedStudentId ?? SHARED,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.id.trim() || !form.room.trim()) {
+      toast.error('Desk label and room are required');
+      return;
+    }
+
+    const fields = {
+      room: form.room.trim(),
+      seat: form.seat.trim() || null,
+      assignedStudentId: form.studentId === SHARED ? null : form.studentId,
+    };
+
+    setIsSaving(true);
+    const success = editing
+      ? await updateDesk(editing.id, fields)
+      : await createDesk({ id: form.id.trim(), ...fields });
+    setIsSaving(false);
+
+    if (success) {
+      toast.success(editing ? 'Desk updated' : 'Desk added', { description: `Desk ${form.id.trim()}` });
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleDelete = async (desk: Desk) => {
+    if (!confirm(`Remove desk ${desk.id} from the registry?`)) return;
+    if (await deleteDesk(desk.id)) {
+      toast.success('Desk removed', { description: `Desk ${desk.id}` });
+    }
+  };
+
+  const handleProvision = async (desk: Desk) => {
+    const provisioned = deviceTokens.some(t => t.desk_id === desk.id);
+    if (provisioned && !confirm(`Issue a new kiosk token for desk ${desk.id}? The terminal's current token stops working.`)) return;
+
+    const token = await provisionDeskToken(desk.id);
+    if (token) setIssued({ deskId: desk.id, url: kioskUrl(desk.id, token) });
+  };
+
+  const handleRevoke = async (desk: Desk) => {
+    if (!confirm(`Revoke the kiosk token for desk ${desk.id}? Students can no longer sign in there.`)) return;
+    if (await revokeDeskToken(desk.id)) {
+      toast.success('Kiosk token revoked', { description: `Desk ${desk.id}` });
+    }
+  };
+
+  const copyIssuedUrl = async () => {
+    if (!issued) return;
+    try {
+      await navigator.clipboard.writeText(issued.url);
+      toast.success('Kiosk link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const studentName = (id: string | null) =>
+    id ? students.find(s => s.id === id)?.name ?? 'Unknown student' : 'Shared';
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Monitor size={18} />
+              Desk Registry
+            </CardTitle>
+            <CardDescription>{desks.length} desks registered</CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreate}>
+            <Plus size={14} className="mr-1" />
+            Add Desk
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {desks.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No desks yet. Add one for each desk terminal.
+          </p>
+        ) : (
+          <ScrollArea className="h-[320px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Desk</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Seat</TableHead>
+                  <TableHead>Reserved for</TableHead>
+                  <TableHead>Kiosk</TableHead>
+                  <TableHead className="w-[160px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {desks.map(desk => {
+                  const token = deviceTokens.find(t => t.desk_id === desk.id);
+                  return (
+                    <TableRow key={desk.id}>
+                      <TableCell className="font-mono">{desk.id}</TableCell>
+                      <TableCell>{desk.room}</TableCell>
+                      <TableCell>{desk.seat ?? '—'}</TableCell>
+                      <TableCell>{studentName(desk.assignedStudentId)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {token ? `Since ${format(new Date(token.issued_at), 'MMM d')}` : 'Not provisioned'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Provision kiosk token"
+                          onClick={() => handleProvision(desk)}
+                        >
+                          <KeyRound size={14} />
+                        </Button>
+                        {token && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8"
+                            title="Revoke kiosk token"
+                            onClick={() => handleRevoke(desk)}
+                          >
+                            <ShieldOff size={14} />
+                          </Button>
+                        )}
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEdit(desk)}>
+                          <Pencil size={14} />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          onClick={() => handleDelete(desk)}
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit Desk ${editing.id}` : 'Add Desk'}</DialogTitle>
+            <DialogDescription>
+              Use the label printed on the desk so the room board matches the room
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="desk-id">Desk label</Label>
+                <Input
+                  id="desk-id"
+                  placeholder="e.g., B12-04"
+                  value={form.id}
+                  disabled={!!editing}
+                  onChange={(e) => setForm({ ...form, id: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="desk-room">Room</Label>
+                <Input
+                  id="desk-room"
+                  placeholder="e.g., B12"
+                  value={form.room}
+                  onChange={(e) => setForm({ ...form, room: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="desk-seat">Seat (optional)</Label>
+              <Input
+                id="desk-seat"
+                placeholder="e.g., Row 1, seat 4"
+                value={form.seat}
+                onChange={(e) => setForm({ ...form, seat: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reserved for</Label>
+              <Select value={form.studentId} onValueChange={(v) => setForm({ ...form, studentId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={SHARED}>Shared desk</SelectItem>
+                  {students.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 size={16} className="mr-2 animate-spin" />}
+              {editing ? 'Save' : 'Add Desk'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!issued} onOpenChange={(open) => !open && setIssued(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Kiosk Link for Desk {issued?.deskId}</DialogTitle>
+            <DialogDescription>
+              Open this link once on the desk terminal to provision it. It is shown only now; issue a new token if it is lost.
+            </DialogDescription>
+          </DialogHeader>
+          <Input readOnly value={issued?.url ?? ''} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIssued(null)}>
+              Done
+            </Button>
+            <Button onClick={copyIssuedUrl}>
+              <Copy size={14} className="mr-2" />
+              Copy Link
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DeskRegistry;
@@ -0,0 +1,249 @@
+/**
+ * Admin Locker Analytics
+ * Usage over a rolling window: how long lockers stand open, when lockers are
+ * busiest, and which lockers in each bank see the most contention
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { useLockerZones } from '@/hooks/useLockerZones';
+import { useLockerAnalytics, LockerUsage } from '@/hooks/useLockerAnalytics';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Clock, Flame, Timer, RefreshCw, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface LockerAnalyticsProps {
+  zones: ReturnType<typeof useLockerZones>;
+}
+
+// Key used for lockers that are not placed in a bank
+const NO_BANK = 'none';
+
+const WINDOWS = [7, 30, 90];
+
+const hourlyConfig = {
+  unlocks: { label: 'Unlocks', color: 'hsl(var(--success))' },
+  locks: { label: 'Locks', color: 'hsl(var(--danger))' },
+} satisfies ChartConfig;
+
+const openConfig = {
+  avgOpenHours: { label: 'Avg. hours open', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const contestedConfig = {
+  status_changes: { label: 'Lock/unlock changes', color: 'hsl(var(--primary))' },
+  unlock_requests: { label: 'Unlock requests', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+const formatHour = (hour: number) => format(new Date(2000, 0, 1, hour), 'ha');
+
+const contention = (usage: LockerUsage) => usage.status_changes + usage.unlock_requests;
+
+const LockerAnalytics: React.FC<LockerAnalyticsProps> = ({ zones }) => {
+  const { getBankPath } = zones;
+  const [days, setDays] = useState(30);
+  const [selectedBank, setSelectedBank] = useState<string | null>(null);
+  const { analytics, isLoading, refreshAnalytics } = useLockerAnalytics(days);
+
+  const bankName = useCallback((bankId: string) =>
+    bankId === NO_BANK ? 'No zone' : getBankPath(bankId) ?? 'Unknown bank', [getBankPath]);
+
+  // Lockers grouped by bank, busiest banks first
+  const byBank = useMemo(() => {
+    const groups = new Map<string, LockerUsage[]>();
+    analytics?.lockers.forEach(usage => {
+      const key = usage.bank_id ?? NO_BANK;
+      groups.set(key, [...(groups.get(key) ?? []), usage]);
+    });
+    return [...groups.entries()]
+      .map(([bankId, lockers]) => ({ bankId, lockers }))
+      .sort((a, b) => b.lockers.reduce((n, l) => n + contention(l), 0) - a.lockers.reduce((n, l) => n + contention(l), 0));
+  }, [analytics]);
+
+  const openByBank = useMemo(() => byBank.map(({ bankId, lockers }) => ({
+    bank: bankName(bankId),
+    avgOpenHours: Math.round((lockers.reduce((n, l) => n + Number(l.open_hours), 0) / lockers.length) * 10) / 10,
+  })), [byBank, bankName]);
+
+  const peakHour = useMemo(() => {
+    if (!analytics) return null;
+    const busiest = analytics.hourly.reduce<{ hour: number; total: number } | null>((best, h) => {
+      const total = h.unlocks + h.locks;
+      return total > 0 && (!best || total > best.total) ? { hour: h.hour, total } : best;
+    }, null);
+    return busiest?.hour ?? null;
+  }, [analytics]);
+
+  const activeBank = selectedBank && byBank.some(g => g.bankId === selectedBank)
+    ? selectedBank
+    : byBank[0]?.bankId ?? null;
+
+  const mostContested = useMemo(() => {
+    const group = byBank.find(g => g.bankId === activeBank);
+    return (group?.lockers ?? [])
+      .filter(l => contention(l) > 0)
+      .sort((a, b) => contention(b) - contention(a))
+      .slice(0, 5);
+  }, [byBank, activeBank]);
+
+  const totalOpenHours = analytics?.lockers.reduce((n, l) => n + Number(l.open_hours), 0) ?? 0;
+
+  if (isLoading && !analytics) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 size={24} className="animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {analytics && `Since ${format(new Date(analytics.since), 'MMM d, yyyy')}`}
+        </p>
+        <div className="flex items-center gap-2">
+          <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOWS.map(d => (
+                <SelectItem key={d} value={String(d)}>Last {d} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={refreshAnalytics} disabled={isLoading} title="Refresh">
+            <RefreshCw size={16} className={isLoading ? 'animate-spin' : undefined} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Peak usage hours */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Clock size={18} />
+              Peak Usage Hours
+            </CardTitle>
+            <CardDescription>
+              {peakHour !== null
+                ? `Busiest around ${formatHour(peakHour)}`
+                : 'No lock or unlock activity in this period'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={hourlyConfig} className="h-[240px] w-full aspect-auto">
+              <BarChart data={analytics?.hourly ?? []}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="hour" tickFormatter={formatHour} tickLine={false} axisLine={false} interval={2} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload[0]?.payload.hour)} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="unlocks" stackId="a" fill="var(--color-unlocks)" />
+                <Bar dataKey="locks" stackId="a" fill="var(--color-locks)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Open duration per bank */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Timer size={18} />
+              Open Duration
+            </CardTitle>
+            <CardDescription>
+              Average hours each locker stood unlocked, per bank · {Math.round(totalOpenHours)}h in total
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {openByBank.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No lockers yet</p>
+            ) : (
+              <ChartContainer config={openConfig} className="h-[240px] w-full aspect-auto">
+                <BarChart data={openByBank} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="bank" tickLine={false} axisLine={false} width={120} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="avgOpenHours" fill="var(--color-avgOpenHours)" radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Most-contested lockers per bank */}
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Flame size={18} />
+              Most Contested Lockers
+            </CardTitle>
+            <CardDescription>Lockers with the most lock/unlock changes and unlock requests</CardDescription>
+          </div>
+          {byBank.length > 0 && (
+            <Select value={activeBank ?? undefined} onValueChange={setSelectedBank}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Select bank" />
+              </SelectTrigger>
+              <SelectContent>
+                {byBank.map(({ bankId }) => (
+                  <SelectItem key={bankId} value={bankId}>{bankName(bankId)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardHeader>
+        <CardContent>
+          {mostContested.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No activity in this bank</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+              <ChartContainer config={contestedConfig} className="h-[220px] w-full aspect-auto">
+                <BarChart data={mostContested}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="locker_id" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="status_changes" stackId="a" fill="var(--color-status_changes)" />
+                  <Bar dataKey="unlock_requests" stackId="a" fill="var(--color-unlock_requests)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+              <ol className="space-y-2">
+                {mostContested.map((usage, index) => (
+                  <li key={usage.locker_id} className="flex items-center justify-between gap-2 p-2 rounded-lg bg-secondary/50 text-sm">
+                    <span className="flex items-center gap-2">
+                      <span className="text-muted-foreground w-4">{index + 1}.</span>
+                      <span className="font-mono font-medium">{usage.locker_id}</span>
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <Badge variant="outline">{usage.status_changes} changes</Badge>
+                      {usage.unlock_requests > 0 && (
+                        <Badge variant="outline" className="border-warning/50 text-warning">
+                          {usage.unlock_requests} requests
+                        </Badge>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LockerAnalytics;
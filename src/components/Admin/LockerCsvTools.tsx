@@ -0,0 +1,279 @@
+/**
+ * Admin Locker CSV Tools
+ * Bulk import lockers from CSV (with a dry-run preview) and export the
+ * current locker/assignment table
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useApp } from '@/contexts/AppContext';
+import { Locker, NewLocker } from '@/types';
+import { Student } from '@/hooks/useLockerSystem';
+import { parseCsv, toCsv, downloadCsv } from '@/lib/csv';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Upload, Download, Loader2, FileSpreadsheet } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const TEMPLATE = 'id,location,student_username\nlocker-A1,"Row A, Position 1",jdoe\nlocker-A2,"Row A, Position 2",\n';
+
+interface ImportRow {
+  line: number;
+  id: string;
+  location: string;
+  username: string;
+  action: 'create' | 'update';
+  student: Student | null;
+  errors: string[];
+}
+
+/**
+ * Validate parsed CSV rows against the current lockers and students
+ */
+const validateRows = (cells: string[][], lockers: Locker[], students: Student[]): ImportRow[] => {
+  const [header, ...body] = cells;
+  const columns = header.map(h => h.trim().toLowerCase());
+  const idCol = columns.indexOf('id');
+  const locationCol = columns.indexOf('location');
+  const usernameCol = columns.findIndex(c => c === 'student_username' || c === 'username');
+
+  if (idCol === -1 || locationCol === -1) {
+    return [{
+      line: 1, id: '', location: '', username: '', action: 'create', student: null,
+      errors: ['Header must include "id" and "location" columns'],
+    }];
+  }
+
+  const seenIds = new Map<string, number>();
+  const seenStudents = new Map<string, number>();
+
+  return body.map((cell, index) => {
+    const line = index + 2;
+    const id = (cell[idCol] ?? '').trim();
+    const location = (cell[locationCol] ?? '').trim();
+    const username = usernameCol === -1 ? '' : (cell[usernameCol] ?? '').trim();
+    const errors: string[] = [];
+
+    if (!id) errors.push('Missing id');
+    if (!location) errors.push('Missing location');
+
+    if (id && seenIds.has(id)) errors.push(`Duplicate id (also on line ${seenIds.get(id)})`);
+    if (id) seenIds.set(id, line);
+
+    let student: Student | null = null;
+    if (username) {
+      student = students.find(s => s.username.toLowerCase() === username.toLowerCase()) ?? null;
+      if (!student) {
+        errors.push(`Unknown student "${username}"`);
+      } else {
+        if (seenStudents.has(student.id)) {
+          errors.push(`Student already assigned on line ${seenStudents.get(student.id)}`);
+        }
+        seenStudents.set(student.id, line);
+
+        const current = lockers.find(l => l.studentId === student!.id && l.id !== id);
+        if (current) errors.push(`Student already has locker ${current.id}`);
+
+        if (lockers.some(l => l.id === id && l.outOfService && l.studentId !== student!.id)) {
+          errors.push('Locker is out of service');
+        }
+      }
+    }
+
+    return {
+      line,
+      id,
+      location,
+      username,
+      action: lockers.some(l => l.id === id) ? 'update' : 'create',
+      student,
+      errors,
+    };
+  });
+};
+
+interface LockerCsvToolsProps {
+  // Resolves a locker's bank to its zone path for the export
+  getBankPath: (bankId: string | null) => string | null;
+}
+
+const LockerCsvTools: React.FC<LockerCsvToolsProps> = ({ getBankPath }) => {
+  const { lockers, students, importLockers } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  // Dry run: re-validated on every edit, nothing is written until Import
+  const rows = useMemo(() => {
+    const cells = parseCsv(csvText);
+    return cells.length === 0 ? [] : validateRows(cells, lockers, students);
+  }, [csvText, lockers, students]);
+
+  const errorCount = rows.filter(r => r.errors.length > 0).length;
+  const createCount = rows.filter(r => r.errors.length === 0 && r.action === 'create').length;
+  const updateCount = rows.filter(r => r.errors.length === 0 && r.action === 'update').length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCsvText(await file.text());
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (rows.length === 0 || errorCount > 0) return;
+
+    const newLockers: NewLocker[] = rows.map(row => ({
+      id: row.id,
+      location: row.location,
+      studentId: row.student?.id ?? null,
+      studentName: row.student?.name ?? 'Unassigned',
+      bankId: null,
+    }));
+
+    setImporting(true);
+    const success = await importLockers(newLockers);
+    setImporting(false);
+
+    if (success) {
+      toast.success('Lockers Imported', { description: `${createCount} created, ${updateCount} updated` });
+      setCsvText('');
+      setIsOpen(false);
+    }
+  };
+
+  const handleExport = () => {
+    const header = ['id', 'location', 'zone', 'status', 'student_username', 'student_name'];
+    const body = lockers.map(locker => {
+      const student = students.find(s => s.id === locker.studentId);
+      return [
+        locker.id,
+        locker.location,
+        getBankPath(locker.bankId) ?? '',
+        locker.status,
+        student?.username ?? '',
+        locker.studentId ? locker.studentName : '',
+      ];
+    });
+    downloadCsv(`lockers-${format(new Date(), 'yyyy-MM-dd')}.csv`, toCsv([header, ...body]));
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Upload size={16} className="mr-1" />
+        Import
+      </Button>
+      <Button variant="outline" onClick={handleExport} disabled={lockers.length === 0}>
+        <Download size={16} className="mr-1" />
+        Export
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet size={18} />
+              Import Lockers from CSV
+            </DialogTitle>
+            <DialogDescription>
+              Columns: id, location, student_username (optional). Existing lockers are updated.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="csv-text">Paste CSV or choose a file</Label>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setCsvText(TEMPLATE)}>
+                  Use template
+                </Button>
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload size={14} className="mr-1" />
+                    Choose file
+                    <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+                  </label>
+                </Button>
+              </div>
+            </div>
+            <Textarea
+              id="csv-text"
+              rows={5}
+              className="font-mono text-xs"
+              placeholder={TEMPLATE}
+              value={csvText}
+              onChange={(e) => setCsvText(e.target.value)}
+            />
+
+            {rows.length > 0 && (
+              <>
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <Badge variant="secondary">{createCount} new</Badge>
+                  <Badge variant="secondary">{updateCount} updated</Badge>
+                  {errorCount > 0 && <Badge variant="destructive">{errorCount} with errors</Badge>}
+                </div>
+                <ScrollArea className="h-[260px] rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">Line</TableHead>
+                        <TableHead>Locker</TableHead>
+                        <TableHead>Location</TableHead>
+                        <TableHead>Student</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map(row => (
+                        <TableRow key={row.line} className={row.errors.length > 0 ? 'bg-destructive/5' : undefined}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell className="font-mono text-xs">{row.id}</TableCell>
+                          <TableCell>{row.location}</TableCell>
+                          <TableCell>{row.student?.name ?? row.username}</TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <span className="text-destructive text-xs">{row.errors.join('; ')}</span>
+                            ) : (
+                              <Badge variant="outline" className="text-xs">
+                                {row.action === 'create' ? 'Create' : 'Update'}
+                              </Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={importing || rows.length === 0 || errorCount > 0}>
+              {importing && <Loader2 size={16} className="mr-2 animate-spin" />}
+              Import {rows.length > 0 && errorCount === 0 ? `${rows.length} Lockers` : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default LockerCsvTools;
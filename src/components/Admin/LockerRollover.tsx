@@ -0,0 +1,273 @@
+/**
+ * Admin Locker Rollover
+ * Year-end wizard: release every locker assignment and allocate lockers to the
+ * coming year's classes by a chosen rule, with a full preview before commit
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useApp } from '@/contexts/AppContext';
+import { planRollover, RolloverClass, RolloverRule } from '@/lib/lockerRollover';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface Class {
+  id: string;
+  name: string;
+  year: number;
+}
+
+interface StudentClass {
+  student_id: string;
+  class_id: string;
+}
+
+const RULE_LABELS: Record<RolloverRule, string> = {
+  same_bank: 'Same bank for the same class',
+  by_class: 'Class by class (A–Z)',
+  alphabetical: 'Alphabetical (all students)',
+};
+
+interface LockerRolloverProps {
+  // Resolves a locker's bank to its zone path for the preview
+  getBankPath: (bankId: string | null) => string | null;
+}
+
+const LockerRollover: React.FC<LockerRolloverProps> = ({ getBankPath }) => {
+  const { lockers, students, rolloverLockers } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [step, setStep] = useState<'setup' | 'preview'>('setup');
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [studentClasses, setStudentClasses] = useState<StudentClass[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedClassIds, setSelectedClassIds] = useState<string[]>([]);
+  const [rule, setRule] = useState<RolloverRule>('same_bank');
+  const [running, setRunning] = useState(false);
+
+  const fetchClasses = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [classesRes, enrollmentsRes] = await Promise.all([
+        supabase.from('classes').select('*').order('year', { ascending: false }),
+        supabase.from('student_classes').select('student_id, class_id'),
+      ]);
+
+      if (classesRes.error) throw classesRes.error;
+      if (enrollmentsRes.error) throw enrollmentsRes.error;
+
+      setClasses(classesRes.data || []);
+      setStudentClasses(enrollmentsRes.data || []);
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+      toast.error('Failed to load classes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) fetchClasses();
+  }, [isOpen, fetchClasses]);
+
+  // Class members as the planner sees them, in the order classes are listed
+  const rolloverClasses = useMemo((): RolloverClass[] => classes.map(cls => ({
+    id: cls.id,
+    name: cls.name,
+    students: studentClasses
+      .filter(sc => sc.class_id === cls.id)
+      .map(sc => students.find(s => s.id === sc.student_id))
+      .filter((s): s is NonNullable<typeof s> => !!s)
+      .map(s => ({ id: s.id, name: s.name })),
+  })), [classes, studentClasses, students]);
+
+  const plan = useMemo(
+    () => planRollover(lockers, rolloverClasses.filter(c => selectedClassIds.includes(c.id)), rule),
+    [lockers, rolloverClasses, selectedClassIds, rule]
+  );
+
+  const releasedCount = lockers.filter(l => l.studentId).length;
+
+  const toggleClass = (classId: string) => {
+    setSelectedClassIds(prev =>
+      prev.includes(classId) ? prev.filter(id => id !== classId) : [...prev, classId]
+    );
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setStep('setup');
+      setSelectedClassIds([]);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setRunning(true);
+    const success = await rolloverLockers(plan.allocations);
+    setRunning(false);
+
+    if (success) {
+      toast.success('Rollover Complete', {
+        description: `${releasedCount} assignments released, ${plan.allocations.length} lockers allocated`,
+      });
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <CalendarClock size={16} className="mr-1" />
+        Rollover
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <CalendarClock size={18} />
+              Year-End Locker Rollover
+            </DialogTitle>
+            <DialogDescription>
+              {step === 'setup'
+                ? 'Choose the classes that get lockers next year and how to allocate them.'
+                : 'Review the allocation. Nothing changes until you confirm.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === 'setup' ? (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Allocation rule</Label>
+                <Select value={rule} onValueChange={(value) => setRule(value as RolloverRule)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RULE_LABELS) as RolloverRule[]).map(key => (
+                      <SelectItem key={key} value={key}>{RULE_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Classes</Label>
+                {isLoading ? (
+                  <div className="flex justify-center py-8">
+                    <Loader2 className="animate-spin text-muted-foreground" />
+                  </div>
+                ) : classes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4">No classes yet. Create classes and enrol students first.</p>
+                ) : (
+                  <ScrollArea className="h-[260px] rounded-md border p-2">
+                    {rolloverClasses.map(cls => (
+                      <label
+                        key={cls.id}
+                        className="flex items-center gap-3 rounded-md px-2 py-2 hover:bg-muted cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={selectedClassIds.includes(cls.id)}
+                          onCheckedChange={() => toggleClass(cls.id)}
+                        />
+                        <span className="flex-1">{cls.name}</span>
+                        <Badge variant="secondary">{cls.students.length} students</Badge>
+                      </label>
+                    ))}
+                  </ScrollArea>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{releasedCount} assignments released</Badge>
+                <Badge variant="secondary">{plan.allocations.length} lockers allocated</Badge>
+                {plan.unallocated.length > 0 && (
+                  <Badge variant="destructive">{plan.unallocated.length} students without a locker</Badge>
+                )}
+                <Badge variant="outline">{plan.freeLockers} lockers left free</Badge>
+              </div>
+
+              <ScrollArea className="h-[260px] rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Locker</TableHead>
+                      <TableHead>Zone</TableHead>
+                      <TableHead>Student</TableHead>
+                      <TableHead>Class</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.allocations.map(allocation => (
+                      <TableRow key={allocation.lockerId}>
+                        <TableCell className="font-mono text-xs">{allocation.lockerId}</TableCell>
+                        <TableCell className="text-muted-foreground">{getBankPath(allocation.bankId) ?? 'Unzoned'}</TableCell>
+                        <TableCell>{allocation.studentName}</TableCell>
+                        <TableCell>{allocation.className}</TableCell>
+                      </TableRow>
+                    ))}
+                    {plan.unallocated.map(student => (
+                      <TableRow key={student.studentId} className="bg-destructive/5">
+                        <TableCell className="text-destructive text-xs">No locker</TableCell>
+                        <TableCell />
+                        <TableCell>{student.studentName}</TableCell>
+                        <TableCell>{student.className}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+
+              <p className="flex items-start gap-2 text-sm text-warning">
+                <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                Every current assignment is released, including students not in the chosen classes.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            {step === 'setup' ? (
+              <>
+                <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={() => setStep('preview')} disabled={selectedClassIds.length === 0}>
+                  Preview
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep('setup')} disabled={running}>
+                  Back
+                </Button>
+                <Button onClick={handleConfirm} disabled={running}>
+                  {running && <Loader2 size={16} className="mr-2 animate-spin" />}
+                  Run Rollover
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default LockerRollover;
@@ -0,0 +1,364 @@
+/**
+ * Admin Locker Schedules
+ * Create and manage recurring lock/unlock rules that run on the server
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useLockerSchedules, LockerSchedule, LockerScheduleInput } from '@/hooks/useLockerSchedules';
+import { useLockerZones, ZoneLevel } from '@/hooks/useLockerZones';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarClock, Plus, Pencil, Trash2, Lock, LockOpen, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface LockerSchedulesProps {
+  zones: ReturnType<typeof useLockerZones>;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const defaultForm = (): LockerScheduleInput => ({
+  name: '',
+  action: 'lock',
+  building_id: null,
+  floor_id: null,
+  bank_id: null,
+  days_of_week: [1, 2, 3, 4, 5],
+  start_time: '08:00',
+  end_time: '15:30',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+});
+
+/**
+ * Format a schedule's days as a short label, e.g. "Mon–Fri"
+ */
+const formatDays = (days: number[]): string => {
+  const sorted = [...days].sort();
+  if (sorted.length === 7) return 'Every day';
+  if (sorted.join() === '1,2,3,4,5') return 'Mon–Fri';
+  if (sorted.join() === '0,6') return 'Weekends';
+  return sorted.map(d => WEEKDAYS[d]).join(', ');
+};
+
+// Select value for the zone a schedule targets, e.g. "floor:<id>"
+const zoneValue = (schedule: Pick<LockerScheduleInput, 'building_id' | 'floor_id' | 'bank_id'>) =>
+  schedule.bank_id ? `bank:${schedule.bank_id}` :
+  schedule.floor_id ? `floor:${schedule.floor_id}` :
+  schedule.building_id ? `building:${schedule.building_id}` :
+  'all';
+
+const LockerSchedules: React.FC<LockerSchedulesProps> = ({ zones }) => {
+  const { schedules, timezones, isLoading, createSchedule, updateSchedule, deleteSchedule } = useLockerSchedules();
+  const { getScope } = zones;
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<LockerSchedule | null>(null);
+  const [form, setForm] = useState<LockerScheduleInput>(defaultForm);
+  const [saving, setSaving] = useState(false);
+
+  // Every building, floor and bank; sorting by path lists each under its parent
+  const zoneOptions = useMemo(() => {
+    const entries: [ZoneLevel, string][] = [
+      ...zones.buildings.map(b => ['building', b.id] as [ZoneLevel, string]),
+      ...zones.floors.map(f => ['floor', f.id] as [ZoneLevel, string]),
+      ...zones.banks.map(b => ['bank', b.id] as [ZoneLevel, string]),
+    ];
+    return entries
+      .map(([level, id]) => ({ value: `${level}:${id}`, label: getScope(level, id)?.label ?? '' }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [zones.buildings, zones.floors, zones.banks, getScope]);
+
+  // A saved timezone the server no longer lists still shows as selected
+  const timezoneOptions = timezones.includes(form.timezone) ? timezones : [form.timezone, ...timezones];
+
+  // Read from the current layout, so renamed zones show their new names
+  const zoneLabel = (schedule: LockerSchedule) => {
+    const [level, id] = zoneValue(schedule).split(':') as [ZoneLevel | 'all', string];
+    return level === 'all' ? 'all lockers' : getScope(level, id)?.label ?? 'a deleted zone';
+  };
+
+  const setZone = (value: string) => {
+    const [level, id] = value.split(':') as [ZoneLevel | 'all', string];
+    setForm({
+      ...form,
+      building_id: level === 'building' ? id : null,
+      floor_id: level === 'floor' ? id : null,
+      bank_id: level === 'bank' ? id : null,
+    });
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(defaultForm());
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (schedule: LockerSchedule) => {
+    setEditing(schedule);
+    setForm({
+      name: schedule.name,
+      action: schedule.action,
+      building_id: schedule.building_id,
+      floor_id: schedule.floor_id,
+      bank_id: schedule.bank_id,
+      days_of_week: schedule.days_of_week,
+      start_time: schedule.start_time.slice(0, 5),
+      end_time: schedule.end_time?.slice(0, 5) ?? null,
+      timezone: schedule.timezone,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Schedule name is required');
+      return;
+    }
+    if (form.days_of_week.length === 0) {
+      toast.error('Select at least one day');
+      return;
+    }
+    if (form.end_time && form.end_time <= form.start_time) {
+      toast.error('End time must be after start time');
+      return;
+    }
+
+    const input: LockerScheduleInput = {
+      ...form,
+      name: form.name.trim(),
+      end_time: form.end_time || null,
+    };
+
+    setSaving(true);
+    const success = editing
+      ? await updateSchedule(editing.id, input)
+      : await createSchedule(input);
+    setSaving(false);
+
+    if (success) {
+      if (editing) toast.success('Schedule updated');
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleDelete = async (schedule: LockerSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return;
+    await deleteSchedule(schedule.id);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <CalendarClock size={18} className="text-primary" />
+              Locker Schedules
+            </CardTitle>
+            <CardDescription>
+              Lock or unlock lockers automatically at set times
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={openCreate}>
+            <Plus size={16} className="mr-1" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No schedules yet. Add a rule to lock lockers during lessons or overnight.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map(schedule => (
+              <div
+                key={schedule.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {schedule.action === 'lock' ? (
+                    <Lock size={16} className="text-danger flex-shrink-0" />
+                  ) : (
+                    <LockOpen size={16} className="text-success flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm truncate">{schedule.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.action === 'lock' ? 'Lock' : 'Unlock'}{' '}
+                      {zoneLabel(schedule)}
+                      {' · '}{formatDays(schedule.days_of_week)}
+                      {' · '}{schedule.start_time.slice(0, 5)}
+                      {schedule.end_time ? `–${schedule.end_time.slice(0, 5)}` : ''}
+                      {' '}({schedule.timezone})
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {schedule.last_started_on && (
+                    <Badge variant="outline" className="text-xs">
+                      Last run {schedule.last_started_on}
+                    </Badge>
+                  )}
+                  <Switch
+                    checked={schedule.is_enabled}
+                    onCheckedChange={(checked) => updateSchedule(schedule.id, { is_enabled: checked })}
+                    aria-label={schedule.is_enabled ? 'Disable schedule' : 'Enable schedule'}
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(schedule)}>
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    onClick={() => handleDelete(schedule)}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+            <DialogDescription>
+              The action is applied when the window opens and reversed when it closes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="e.g. Lesson hours"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select
+                  value={form.action}
+                  onValueChange={(value) => setForm({ ...form, action: value as LockerScheduleInput['action'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="lock">Lock</SelectItem>
+                    <SelectItem value="unlock">Unlock</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Zone</Label>
+                <Select value={zoneValue(form)} onValueChange={setZone}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All lockers</SelectItem>
+                    {zoneOptions.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start flex-wrap"
+                value={form.days_of_week.map(String)}
+                onValueChange={(values) => setForm({ ...form, days_of_week: values.map(Number) })}
+              >
+                {WEEKDAYS.map((day, index) => (
+                  <ToggleGroupItem key={day} value={String(index)} size="sm">
+                    {day}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-start">Start</Label>
+                <Input
+                  id="schedule-start"
+                  type="time"
+                  value={form.start_time}
+                  onChange={(e) => setForm({ ...form, start_time: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-end">End (optional)</Label>
+                <Input
+                  id="schedule-end"
+                  type="time"
+                  value={form.end_time ?? ''}
+                  onChange={(e) => setForm({ ...form, end_time: e.target.value || null })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Timezone</Label>
+              <Select value={form.timezone} onValueChange={(timezone) => setForm({ ...form, timezone })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timezoneOptions.map(timezone => (
+                    <SelectItem key={timezone} value={timezone}>{timezone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 size={16} className="mr-2 animate-spin" />}
+              {editing ? 'Save Changes' : 'Create Schedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LockerSchedules;
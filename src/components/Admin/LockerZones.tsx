@@ -0,0 +1,150 @@
+/**
+ * Admin Locker Zones
+ * Manage the building -> floor -> bank layout that lockers are placed in
+ */
+
+import React, { useState } from 'react';
+import { Locker } from '@/types';
+import { useLockerZones, ZoneLevel } from '@/hooks/useLockerZones';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Building2, Layers, Archive, Plus, Trash2 } from 'lucide-react';
+
+interface LockerZonesProps {
+  zones: ReturnType<typeof useLockerZones>;
+  lockers: Locker[];
+}
+
+/**
+ * Inline "name + add" row used at every level of the tree
+ */
+const AddRow: React.FC<{ placeholder: string; onAdd: (name: string) => Promise<boolean> }> = ({ placeholder, onAdd }) => {
+  const [name, setName] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    if (await onAdd(name.trim())) setName('');
+  };
+
+  return (
+    <form onSubmit={handleAdd} className="flex gap-2">
+      <Input
+        placeholder={placeholder}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="h-8 text-sm"
+      />
+      <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!name.trim()}>
+        <Plus size={14} />
+      </Button>
+    </form>
+  );
+};
+
+const LockerZones: React.FC<LockerZonesProps> = ({ zones, lockers }) => {
+  const { buildings, floors, banks, createBuilding, createFloor, createBank, deleteZone } = zones;
+
+  const handleDelete = async (level: ZoneLevel, id: string, name: string) => {
+    const warning = level === 'bank'
+      ? `Delete bank "${name}"? Its lockers will no longer belong to a zone.`
+      : `Delete ${level} "${name}" and everything inside it? Lockers are kept but lose their zone.`;
+    if (!confirm(warning)) return;
+    await deleteZone(level, id);
+  };
+
+  const lockerCount = (bankId: string) => lockers.filter(l => l.bankId === bankId).length;
+
+  return (
+    <div className="space-y-4">
+      <AddRow placeholder="New building name" onAdd={createBuilding} />
+
+      <ScrollArea className="h-[400px] pr-3">
+        {buildings.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No buildings yet. Add one to start organising lockers.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {buildings.map(building => {
+              const buildingFloors = floors.filter(f => f.building_id === building.id);
+              return (
+                <div key={building.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium flex items-center gap-2">
+                      <Building2 size={16} className="text-primary" />
+                      {building.name}
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-destructive"
+                      onClick={() => handleDelete('building', building.id, building.name)}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </div>
+
+                  <div className="pl-4 space-y-3">
+                    {buildingFloors.map(floor => {
+                      const floorBanks = banks.filter(b => b.floor_id === floor.id);
+                      return (
+                        <div key={floor.id} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm flex items-center gap-2">
+                              <Layers size={14} className="text-muted-foreground" />
+                              {floor.name}
+                            </span>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7 text-destructive"
+                              onClick={() => handleDelete('floor', floor.id, floor.name)}
+                            >
+                              <Trash2 size={14} />
+                            </Button>
+                          </div>
+
+                          <div className="pl-5 space-y-1">
+                            {floorBanks.map(bank => (
+                              <div key={bank.id} className="flex items-center justify-between">
+                                <span className="text-sm flex items-center gap-2">
+                                  <Archive size={14} className="text-muted-foreground" />
+                                  {bank.name}
+                                  <Badge variant="secondary" className="text-xs">
+                                    {lockerCount(bank.id)} lockers
+                                  </Badge>
+                                </span>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-7 w-7 text-destructive"
+                                  onClick={() => handleDelete('bank', bank.id, bank.name)}
+                                >
+                                  <Trash2 size={14} />
+                                </Button>
+                              </div>
+                            ))}
+                            <AddRow placeholder="New bank" onAdd={(name) => createBank(floor.id, name)} />
+                          </div>
+                        </div>
+                      );
+                    })}
+                    <AddRow
+                      placeholder="New floor"
+                      onAdd={(name) => createFloor(building.id, name, buildingFloors.length)}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default LockerZones;
@@ -1 +1,7 @@
 export { default as SeedMaterials } from './SeedMaterials';
+export { default as LockerSchedules } from './LockerSchedules';
+export { default as LockerZones } from './LockerZones';
+export { default as LockerCsvTools } from './LockerCsvTools';
+export { default as LockerAnalytics } from './LockerAnalytics';
+export { default as LockerRollover } from './LockerRollover';
+export { default as DeskRegistry } from './DeskRegistry';
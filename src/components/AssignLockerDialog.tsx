@@ -0,0 +1,186 @@
+/**
+ * AssignLockerDialog Component
+ * Assigns, clears or transfers a locker and shows its assignment history
+ * Used in both teacher and admin dashboards
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Locker } from '@/types';
+import { useApp } from '@/contexts/AppContext';
+import { useLockerAssignments, LockerAssignment } from '@/hooks/useLockerAssignments';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowRightLeft, History, Loader2, Wrench } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const END_REASON_LABELS: Record<NonNullable<LockerAssignment['end_reason']>, string> = {
+  unassigned: 'Unassigned',
+  reassigned: 'Reassigned',
+  transferred: 'Transferred',
+  locker_deleted: 'Locker deleted',
+};
+
+interface AssignLockerDialogProps {
+  // Locker being assigned; the dialog is open while this is set
+  locker: Locker | null;
+  onClose: () => void;
+}
+
+export const AssignLockerDialog: React.FC<AssignLockerDialogProps> = ({ locker, onClose }) => {
+  const { lockers, students, assignLocker, transferLocker } = useApp();
+  const { history, isLoading: historyLoading } = useLockerAssignments(locker?.id ?? null);
+  const [selectedStudentId, setSelectedStudentId] = useState('unassigned');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setSelectedStudentId(locker?.studentId || 'unassigned');
+  }, [locker]);
+
+  const studentId = selectedStudentId === 'unassigned' ? null : selectedStudentId;
+  const student = students.find(s => s.id === studentId);
+  // The selected student's current locker, if it is a different one
+  const otherLocker = studentId ? lockers.find(l => l.studentId === studentId && l.id !== locker?.id) : undefined;
+  const isTransfer = !!otherLocker;
+  const blockedByHolder = isTransfer && !!locker?.studentId;
+  // Out-of-service lockers can be cleared but not given to anyone
+  const blockedByService = !!locker?.outOfService && !!studentId && studentId !== locker.studentId;
+
+  const handleSubmit = async () => {
+    if (!locker) return;
+
+    setIsSubmitting(true);
+    const success = isTransfer
+      ? await transferLocker(studentId!, locker.id)
+      : await assignLocker(locker.id, studentId);
+    setIsSubmitting(false);
+
+    if (success) {
+      toast.success(isTransfer ? 'Locker Transferred' : 'Locker Assigned', {
+        description: isTransfer
+          ? `${student?.name} moved from ${otherLocker!.id} to ${locker.id}`
+          : `Locker ${locker.id} assigned to ${student?.name || 'Unassigned'}`,
+      });
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!locker} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Assign Locker</DialogTitle>
+          <DialogDescription>
+            Assign locker {locker?.id} to a student
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Current Assignment</Label>
+            <p className="text-sm text-muted-foreground">
+              {locker?.studentId ? locker.studentName : 'Unassigned'}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assign-student">Assign to Student</Label>
+            <Select value={selectedStudentId} onValueChange={setSelectedStudentId}>
+              <SelectTrigger id="assign-student">
+                <SelectValue placeholder="Select a student..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {students.map((s) => {
+                  const current = lockers.find(l => l.studentId === s.id);
+                  return (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name} ({s.username}){current && current.id !== locker?.id ? ` · has ${current.id}` : ''}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            {students.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No registered students found
+              </p>
+            )}
+          </div>
+
+          {blockedByService && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-warning/30 bg-warning/5 text-sm text-warning">
+              <Wrench size={16} className="mt-0.5 flex-shrink-0" />
+              <span>Locker {locker?.id} is out of service. Return it to service before assigning it.</span>
+            </div>
+          )}
+
+          {isTransfer && !blockedByService && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border bg-secondary/50 text-sm">
+              <ArrowRightLeft size={16} className="mt-0.5 flex-shrink-0 text-primary" />
+              {blockedByHolder ? (
+                <span>
+                  {student?.name} already has locker {otherLocker!.id}. Unassign {locker?.studentName} from
+                  this locker before transferring.
+                </span>
+              ) : (
+                <span>
+                  {student?.name} already has locker {otherLocker!.id}. Transferring releases it and unlocks
+                  both lockers so their belongings can be moved.
+                </span>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <History size={14} />
+              Assignment History
+            </Label>
+            {historyLoading ? (
+              <Loader2 size={16} className="animate-spin text-muted-foreground" />
+            ) : history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Never assigned</p>
+            ) : (
+              <ScrollArea className="max-h-40">
+                <ul className="space-y-1 text-sm">
+                  {history.map(entry => (
+                    <li key={entry.id} className="flex justify-between gap-2">
+                      <span className="font-medium truncate">{entry.student_name}</span>
+                      <span className="text-muted-foreground text-xs whitespace-nowrap">
+                        {format(new Date(entry.assigned_at), 'MMM d, yyyy')}
+                        {' – '}
+                        {entry.released_at ? format(new Date(entry.released_at), 'MMM d, yyyy') : 'now'}
+                        {entry.end_reason && ` · ${END_REASON_LABELS[entry.end_reason]}`}
+                        {entry.transferred_to && ` to ${entry.transferred_to}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || blockedByHolder || blockedByService}>
+            {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+            {isTransfer ? `Transfer from ${otherLocker!.id}` : 'Assign Locker'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignLockerDialog;
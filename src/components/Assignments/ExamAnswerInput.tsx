@@ -0,0 +1,181 @@
+/**
+ * ExamAnswerInput Component
+ * The student's answer widget for each question kind
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ExamQuestion } from '@/hooks/useAssignments';
+import { EssayOptions, ExamAnswer, MatchingOptions, countWords } from '@/lib/examQuestions';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type ExamAnswerInputProps = {
+  question: ExamQuestion;
+  value: ExamAnswer | undefined;
+  onChange: (value: ExamAnswer) => void;
+};
+
+export const ExamAnswerInput: React.FC<ExamAnswerInputProps> = ({ question, value, onChange }) => {
+  switch (question.question_type) {
+    case 'multiple_choice': {
+      const options = (question.options as string[] | null) ?? [];
+      return (
+        <RadioGroup value={(value as string) ?? ''} onValueChange={onChange}>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-secondary">
+              <RadioGroupItem value={option} id={`option-${index}`} />
+              <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
+                {option}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    }
+
+    case 'true_false':
+      return (
+        <RadioGroup
+          value={value === undefined ? '' : String(value)}
+          onValueChange={(v) => onChange(v === 'true')}
+          className="grid grid-cols-2 gap-3"
+        >
+          {['true', 'false'].map(option => (
+            <div key={option} className="flex items-center space-x-2 p-3 rounded-lg border hover:bg-secondary">
+              <RadioGroupItem value={option} id={`option-${option}`} />
+              <Label htmlFor={`option-${option}`} className="flex-1 cursor-pointer">
+                {option === 'true' ? 'True' : 'False'}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case 'short_answer':
+      return (
+        <Input
+          placeholder="Enter your answer..."
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    case 'numeric':
+      // Kept as typed; the grader reads it as a number
+      return (
+        <Input
+          inputMode="decimal"
+          placeholder="Enter a number..."
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="max-w-xs font-mono"
+        />
+      );
+
+    case 'matching': {
+      const { prompts, choices } = question.options as MatchingOptions;
+      const picked = (value as string[]) ?? prompts.map(() => '');
+      return (
+        <div className="space-y-2">
+          {prompts.map((prompt, i) => (
+            <div key={i} className="grid grid-cols-2 items-center gap-3 rounded-lg border p-3">
+              <span>{prompt}</span>
+              <Select
+                value={picked[i] || undefined}
+                onValueChange={(choice) => onChange(prompts.map((_, j) => (j === i ? choice : picked[j] ?? '')))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map(choice => (
+                    <SelectItem key={choice} value={choice}>{choice}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const items = (value as string[]) ?? (question.options as string[]);
+      const move = (from: number, to: number) => {
+        const next = [...items];
+        [next[from], next[to]] = [next[to], next[from]];
+        onChange(next);
+      };
+      return (
+        <div className="space-y-2">
+          {items.map((item, i) => (
+            <div key={item} className="flex items-center gap-2 rounded-lg border p-2">
+              <span className="w-6 text-center text-sm text-muted-foreground">{i + 1}</span>
+              <span className="flex-1">{item}</span>
+              <Button size="icon" variant="ghost" disabled={i === 0} onClick={() => move(i, i - 1)} title="Move up">
+                <ArrowUp size={14} />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                disabled={i === items.length - 1}
+                onClick={() => move(i, i + 1)}
+                title="Move down"
+              >
+                <ArrowDown size={14} />
+              </Button>
+            </div>
+          ))}
+          {value === undefined && (
+            <Button size="sm" variant="outline" onClick={() => onChange(items)}>
+              Keep this order
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    case 'essay': {
+      const text = (value as string) ?? '';
+      const wordLimit = (question.options as EssayOptions | null)?.word_limit ?? null;
+      const words = countWords(text);
+      return (
+        <div className="space-y-1">
+          <Textarea
+            placeholder="Write your answer..."
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            className="min-h-[280px]"
+          />
+          <p className={cn('text-xs text-right text-muted-foreground', wordLimit && words > wordLimit && 'text-destructive')}>
+            {words} {wordLimit ? `/ ${wordLimit} ` : ''}words
+          </p>
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <Textarea
+          placeholder="Enter your answer..."
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          className="min-h-[150px]"
+        />
+      );
+  }
+};
+
+export default ExamAnswerInput;
@@ -0,0 +1,235 @@
+/**
+ * ExamQuestionEditor Component
+ * The answer part of the new-question form, for each question kind
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { QuestionDraft } from '@/lib/examQuestions';
+import { Plus, X, ArrowRight } from 'lucide-react';
+
+type ExamQuestionEditorProps = {
+  draft: QuestionDraft;
+  onChange: (changes: Partial<QuestionDraft>) => void;
+};
+
+type ItemListProps = {
+  label: string;
+  items: string[];
+  placeholder: (index: number) => string;
+  marker?: (index: number) => string;
+  minItems: number;
+  onChange: (items: string[]) => void;
+};
+
+const ItemList: React.FC<ItemListProps> = ({ label, items, placeholder, marker, minItems, onChange }) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    {items.map((item, i) => (
+      <div key={i} className="flex gap-2">
+        {marker && <span className="w-6 text-sm text-muted-foreground pt-2">{marker(i)}</span>}
+        <Input
+          value={item}
+          onChange={(e) => onChange(items.map((v, j) => (j === i ? e.target.value : v)))}
+          placeholder={placeholder(i)}
+        />
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          disabled={items.length <= minItems}
+          onClick={() => onChange(items.filter((_, j) => j !== i))}
+        >
+          <X size={14} />
+        </Button>
+      </div>
+    ))}
+    <Button type="button" size="sm" variant="outline" onClick={() => onChange([...items, ''])}>
+      <Plus size={14} className="mr-1" />
+      Add
+    </Button>
+  </div>
+);
+
+const letter = (i: number) => `${String.fromCharCode(65 + i)}.`;
+
+export const ExamQuestionEditor: React.FC<ExamQuestionEditorProps> = ({ draft, onChange }) => {
+  switch (draft.question_type) {
+    case 'multiple_choice':
+      return (
+        <>
+          <ItemList
+            label="Options"
+            items={draft.items}
+            marker={letter}
+            placeholder={(i) => `Option ${String.fromCharCode(65 + i)}`}
+            minItems={2}
+            onChange={(items) => onChange({ items, answer: items.includes(draft.answer) ? draft.answer : '' })}
+          />
+          <div className="space-y-2">
+            <Label>Correct Answer</Label>
+            <Select value={draft.answer} onValueChange={(answer) => onChange({ answer })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select correct option" />
+              </SelectTrigger>
+              <SelectContent>
+                {draft.items.filter(o => o.trim()).map((opt, i) => (
+                  <SelectItem key={i} value={opt}>{opt}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </>
+      );
+
+    case 'true_false':
+      return (
+        <div className="space-y-2">
+          <Label>Correct Answer</Label>
+          <RadioGroup value={draft.answer} onValueChange={(answer) => onChange({ answer })} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="true" id="draft-true" />
+              <Label htmlFor="draft-true" className="font-normal">True</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="false" id="draft-false" />
+              <Label htmlFor="draft-false" className="font-normal">False</Label>
+            </div>
+          </RadioGroup>
+        </div>
+      );
+
+    case 'short_answer':
+      return (
+        <div className="space-y-1">
+          <ItemList
+            label="Accepted Answers"
+            items={draft.items}
+            placeholder={(i) => (i === 0 ? 'e.g., photosynthesis' : 'Another accepted spelling or form')}
+            minItems={1}
+            onChange={(items) => onChange({ items })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Case and spacing are ignored. Other answers are left for you to mark.
+          </p>
+        </div>
+      );
+
+    case 'numeric':
+      return (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="draft-value">Correct Value</Label>
+            <Input
+              id="draft-value"
+              type="number"
+              inputMode="decimal"
+              value={draft.answer}
+              onChange={(e) => onChange({ answer: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="draft-tolerance">Tolerance (±)</Label>
+            <Input
+              id="draft-tolerance"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={draft.tolerance}
+              onChange={(e) => onChange({ tolerance: e.target.value })}
+            />
+          </div>
+        </div>
+      );
+
+    case 'matching':
+      return (
+        <div className="space-y-2">
+          <Label>Pairs</Label>
+          {draft.items.map((prompt, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <Input
+                value={prompt}
+                onChange={(e) => onChange({ items: draft.items.map((v, j) => (j === i ? e.target.value : v)) })}
+                placeholder={`Prompt ${i + 1}`}
+              />
+              <ArrowRight size={14} className="shrink-0 text-muted-foreground" />
+              <Input
+                value={draft.matches[i] ?? ''}
+                onChange={(e) => onChange({ matches: draft.items.map((_, j) => (j === i ? e.target.value : draft.matches[j] ?? '')) })}
+                placeholder={`Match ${i + 1}`}
+              />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                disabled={draft.items.length <= 2}
+                onClick={() => onChange({
+                  items: draft.items.filter((_, j) => j !== i),
+                  matches: draft.matches.filter((_, j) => j !== i),
+                })}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => onChange({ items: [...draft.items, ''], matches: [...draft.matches, ''] })}
+          >
+            <Plus size={14} className="mr-1" />
+            Add Pair
+          </Button>
+          <p className="text-xs text-muted-foreground">Students see the matches shuffled.</p>
+        </div>
+      );
+
+    case 'ordering':
+      return (
+        <div className="space-y-1">
+          <ItemList
+            label="Items in the Correct Order"
+            items={draft.items}
+            marker={(i) => `${i + 1}.`}
+            placeholder={(i) => `Item ${i + 1}`}
+            minItems={2}
+            onChange={(items) => onChange({ items })}
+          />
+          <p className="text-xs text-muted-foreground">Students see the items shuffled.</p>
+        </div>
+      );
+
+    case 'essay':
+      return (
+        <div className="space-y-2">
+          <Label htmlFor="draft-word-limit">Word Limit (optional)</Label>
+          <Input
+            id="draft-word-limit"
+            type="number"
+            min={1}
+            value={draft.answer}
+            onChange={(e) => onChange({ answer: e.target.value })}
+            placeholder="No limit"
+          />
+          <p className="text-xs text-muted-foreground">Essays are always marked by you.</p>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default ExamQuestionEditor;
@@ -4,14 +4,11 @@
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { useExams } from '@/hooks/useExams';
+import { useExams, getExamDeadline } from '@/hooks/useExams';
 import { useGrades } from '@/hooks/useGrades';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
@@ -46,6 +43,8 @@ import {
 import { format, formatDistanceToNow, differenceInSeconds, isFuture, isPast } from 'date-fns';
 import { cn } from '@/lib/utils';
 import type { ExamQuestion } from '@/hooks/useAssignments';
+import { ExamAnswer, isAnswered } from '@/lib/examQuestions';
+import ExamAnswerInput from './ExamAnswerInput';
 
 const StudentExams: React.FC = () => {
   const {
@@ -63,8 +62,10 @@ const StudentExams: React.FC = () => {
   const [activeExamId, setActiveExamId] = useState<string | null>(null);
   const [activeSubmissionId, setActiveSubmissionId] = useState<string | null>(null);
   const [questions, setQuestions] = useState<ExamQuestion[]>([]);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Record<string, ExamAnswer>>({});
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  // The active attempt's personal deadline
+  const [activeDeadline, setActiveDeadline] = useState<Date | null>(null);
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [showSubmitConfirm, setShowSubmitConfirm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -74,6 +75,13 @@ const StudentExams: React.FC = () => {
   const getSubmission = (examId: string) =>
     examSubmissions.find(s => s.exam_id === examId);
 
+  // Started but out of time, whether or not the submit reached the server
+  const isTimeUp = (examId: string) => {
+    const exam = exams.find(e => e.id === examId);
+    const submission = getSubmission(examId);
+    return !!exam && !!submission && getExamDeadline(exam, submission.started_at) <= new Date();
+  };
+
   const getGrade = (examId: string) => {
     const submission = getSubmission(examId);
     if (!submission) return null;
@@ -82,11 +90,10 @@ const StudentExams: React.FC = () => {
 
   // Timer countdown
   useEffect(() => {
-    if (!activeExam || !activeExamId) return;
+    if (!activeDeadline) return;
 
     const updateTimer = () => {
-      const endTime = new Date(activeExam.scheduled_end);
-      const remaining = differenceInSeconds(endTime, new Date());
+      const remaining = differenceInSeconds(activeDeadline, new Date());
       setTimeRemaining(Math.max(0, remaining));
 
       if (remaining <= 0 && activeSubmissionId) {
@@ -98,7 +105,7 @@ const StudentExams: React.FC = () => {
     updateTimer();
     const interval = setInterval(updateTimer, 1000);
     return () => clearInterval(interval);
-  }, [activeExam, activeExamId, activeSubmissionId]);
+  }, [activeDeadline, activeSubmissionId]);
 
   // Auto-save answers
   useEffect(() => {
@@ -111,13 +118,15 @@ const StudentExams: React.FC = () => {
   }, [answers, activeSubmissionId, saveExamAnswers]);
 
   const handleStartExam = async (examId: string) => {
+    const exam = exams.find(e => e.id === examId);
     const submission = await startExam(examId);
-    if (submission) {
+    if (exam && submission) {
       const examQuestions = await getExamQuestions(examId);
       setQuestions(examQuestions);
-      setAnswers((submission.answers as Record<string, string>) || {});
+      setAnswers((submission.answers as Record<string, ExamAnswer>) || {});
       setActiveExamId(examId);
       setActiveSubmissionId(submission.id);
+      setActiveDeadline(getExamDeadline(exam, submission.started_at));
       setCurrentQuestionIndex(0);
     }
   };
@@ -126,11 +135,12 @@ const StudentExams: React.FC = () => {
     if (!activeSubmissionId) return;
 
     setIsSubmitting(true);
-    await submitExam(activeSubmissionId, answers);
+    await submitExam(activeSubmissionId, answers, isAutoSubmit);
     setIsSubmitting(false);
     setShowSubmitConfirm(false);
     setActiveExamId(null);
     setActiveSubmissionId(null);
+    setActiveDeadline(null);
     setQuestions([]);
     setAnswers({});
   };
@@ -146,10 +156,10 @@ const StudentExams: React.FC = () => {
   };
 
   const upcomingExams = exams.filter(e => isFuture(new Date(e.scheduled_start)));
-  const activeExams = exams.filter(e => isExamAccessible(e) && !getSubmission(e.id)?.submitted_at);
+  const activeExams = exams.filter(e => isExamAccessible(e) && !getSubmission(e.id)?.submitted_at && !isTimeUp(e.id));
   const completedExams = exams.filter(e => {
     const submission = getSubmission(e.id);
-    return submission?.submitted_at || isPast(new Date(e.scheduled_end));
+    return submission?.submitted_at || isTimeUp(e.id) || isPast(new Date(e.scheduled_end));
   });
 
   if (isLoading) {
@@ -163,7 +173,7 @@ const StudentExams: React.FC = () => {
   // Active exam taking interface
   if (activeExamId && questions.length > 0) {
     const currentQuestion = questions[currentQuestionIndex];
-    const answeredCount = Object.keys(answers).length;
+    const answeredCount = questions.filter(q => isAnswered(answers[q.id])).length;
     const progress = (answeredCount / questions.length) * 100;
 
     return (
@@ -176,6 +186,7 @@ const StudentExams: React.FC = () => {
                 <h3 className="font-semibold">{activeExam?.title}</h3>
                 <p className="text-sm text-muted-foreground">
                   Question {currentQuestionIndex + 1} of {questions.length}
+                  {activeDeadline && <> · Due {format(activeDeadline, 'h:mm a')}</>}
                 </p>
               </div>
               <div className="flex items-center gap-4">
@@ -208,28 +219,12 @@ const StudentExams: React.FC = () => {
           <CardContent className="space-y-4">
             <p className="text-base">{currentQuestion.question_text}</p>
 
-            {currentQuestion.question_type === 'multiple_choice' && currentQuestion.options ? (
-              <RadioGroup
-                value={answers[currentQuestion.id] || ''}
-                onValueChange={(value) => setAnswers(prev => ({ ...prev, [currentQuestion.id]: value }))}
-              >
-                {currentQuestion.options.map((option, index) => (
-                  <div key={index} className="flex items-center space-x-2 p-3 rounded-lg hover:bg-secondary">
-                    <RadioGroupItem value={option} id={`option-${index}`} />
-                    <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
-                      {option}
-                    </Label>
-                  </div>
-                ))}
-              </RadioGroup>
-            ) : (
-              <Textarea
-                placeholder="Enter your answer..."
-                value={answers[currentQuestion.id] || ''}
-                onChange={(e) => setAnswers(prev => ({ ...prev, [currentQuestion.id]: e.target.value }))}
-                className="min-h-[150px]"
-              />
-            )}
+            <ExamAnswerInput
+              key={currentQuestion.id}
+              question={currentQuestion}
+              value={answers[currentQuestion.id]}
+              onChange={(value) => setAnswers(prev => ({ ...prev, [currentQuestion.id]: value }))}
+            />
           </CardContent>
         </Card>
 
@@ -246,7 +241,7 @@ const StudentExams: React.FC = () => {
             {questions.map((q, i) => (
               <Button
                 key={q.id}
-                variant={i === currentQuestionIndex ? 'default' : answers[q.id] ? 'secondary' : 'outline'}
+                variant={i === currentQuestionIndex ? 'default' : isAnswered(answers[q.id]) ? 'secondary' : 'outline'}
                 size="sm"
                 className="w-8 h-8 p-0"
                 onClick={() => setCurrentQuestionIndex(i)}
@@ -302,35 +297,41 @@ const StudentExams: React.FC = () => {
             Available Now
           </h3>
           <div className="grid gap-4 md:grid-cols-2">
-            {activeExams.map(exam => (
-              <Card key={exam.id} className="border-success/50 bg-success/5">
-                <CardHeader className="pb-2">
-                  <div className="flex items-start justify-between gap-2">
-                    <CardTitle className="text-base">{exam.title}</CardTitle>
-                    <Badge className="bg-success">Live</Badge>
-                  </div>
-                  <CardDescription>
-                    {exam.subject?.name} • {exam.class?.name}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-2 text-sm text-muted-foreground mb-4">
-                    <div className="flex justify-between">
-                      <span>Duration:</span>
-                      <span>{exam.duration_minutes} minutes</span>
+            {activeExams.map(exam => {
+              const submission = getSubmission(exam.id);
+
+              return (
+                <Card key={exam.id} className="border-success/50 bg-success/5">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-base">{exam.title}</CardTitle>
+                      <Badge className="bg-success">Live</Badge>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Ends:</span>
-                      <span>{format(new Date(exam.scheduled_end), 'h:mm a')}</span>
+                    <CardDescription>
+                      {exam.subject?.name} • {exam.class?.name}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2 text-sm text-muted-foreground mb-4">
+                      <div className="flex justify-between">
+                        <span>Duration:</span>
+                        <span>{exam.duration_minutes} minutes</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>{submission ? 'Your deadline:' : 'Ends:'}</span>
+                        <span>
+                          {format(submission ? getExamDeadline(exam, submission.started_at) : new Date(exam.scheduled_end), 'h:mm a')}
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                  <Button className="w-full" onClick={() => handleStartExam(exam.id)}>
-                    <Play size={16} className="mr-2" />
-                    Start Exam
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
+                    <Button className="w-full" onClick={() => handleStartExam(exam.id)}>
+                      <Play size={16} className="mr-2" />
+                      {submission ? 'Resume Exam' : 'Start Exam'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </div>
       )}
@@ -14,6 +14,7 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Dialog,
@@ -55,10 +56,28 @@ import {
   Play,
   Eye,
   Calendar,
+  Upload,
+  X,
+  Wand2,
 } from 'lucide-react';
 import { format, isFuture, isPast } from 'date-fns';
 import { toast } from 'sonner';
-import type { Exam, ExamQuestion } from '@/hooks/useAssignments';
+import { cn } from '@/lib/utils';
+import type { Exam, ExamQuestion, GradeBreakdownItem } from '@/hooks/useAssignments';
+import {
+  ExamAnswer,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  QuestionDraft,
+  QuestionDraftError,
+  QuestionType,
+  buildQuestion,
+  describeAnswerKey,
+  emptyQuestionDraft,
+  formatAnswer,
+} from '@/lib/examQuestions';
+import ExamQuestionEditor from './ExamQuestionEditor';
+import { EXAM_TOOLS, EXAM_TOOL_LABELS } from '@/hooks/useExamToolPolicy';
 
 interface Class {
   id: string;
@@ -71,6 +90,262 @@ interface Subject {
   code: string;
 }
 
+interface Material {
+  id: string;
+  title: string;
+  subject_id: string;
+}
+
+interface ExamModeOptionsProps {
+  idPrefix: string;
+  autoExamMode: boolean;
+  lockLockers: boolean;
+  onChange: (changes: { auto_exam_mode?: boolean; lock_lockers?: boolean }) => void;
+}
+
+/**
+ * Scheduled exam mode for the class, and optional locker lockdown with it
+ */
+const ExamModeOptions: React.FC<ExamModeOptionsProps> = ({ idPrefix, autoExamMode, lockLockers, onChange }) => (
+  <div className="space-y-2 rounded-lg border p-3">
+    <div className="flex items-center gap-2">
+      <Switch
+        id={`${idPrefix}-auto-exam-mode`}
+        checked={autoExamMode}
+        onCheckedChange={(c) => onChange({ auto_exam_mode: c })}
+      />
+      <Label htmlFor={`${idPrefix}-auto-exam-mode`}>Exam mode for the class during the exam</Label>
+    </div>
+    <div className="flex items-center gap-2">
+      <Switch
+        id={`${idPrefix}-lock-lockers`}
+        checked={autoExamMode && lockLockers}
+        disabled={!autoExamMode}
+        onCheckedChange={(c) => onChange({ lock_lockers: c })}
+      />
+      <Label htmlFor={`${idPrefix}-lock-lockers`}>Lock the students' lockers too</Label>
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Starts and ends automatically once published. End it early from Exam Sessions on the dashboard.
+    </p>
+  </div>
+);
+
+type ExamToolChanges = {
+  allowed_tools?: string[];
+  allowed_material_ids?: string[];
+  formula_sheet_path?: string | null;
+  formula_sheet_name?: string | null;
+};
+
+interface ExamToolOptionsProps {
+  idPrefix: string;
+  subjectId: string;
+  materials: Material[];
+  allowedTools: string[];
+  allowedMaterialIds: string[];
+  formulaSheetName: string | null;
+  onChange: (changes: ExamToolChanges) => void;
+}
+
+const toggle = (list: string[], value: string, on: boolean) =>
+  on ? [...list, value] : list.filter(v => v !== value);
+
+/**
+ * Desk tools and library materials students may use while the exam runs
+ */
+const ExamToolOptions: React.FC<ExamToolOptionsProps> = ({
+  idPrefix,
+  subjectId,
+  materials,
+  allowedTools,
+  allowedMaterialIds,
+  formulaSheetName,
+  onChange,
+}) => {
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Materials for the exam's subject, plus any already allowed from elsewhere
+  const shown = materials.filter(m => !subjectId || m.subject_id === subjectId || allowedMaterialIds.includes(m.id));
+
+  const uploadFormulaSheet = async (file: File) => {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `formula-sheets/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+
+    setIsUploading(true);
+    const { error } = await supabase.storage.from('learning-materials').upload(filePath, file);
+    setIsUploading(false);
+
+    if (error) {
+      toast.error('Failed to upload formula sheet', { description: error.message });
+      console.error('Error uploading formula sheet:', error);
+      return;
+    }
+    onChange({ formula_sheet_path: filePath, formula_sheet_name: file.name });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <Label>Allowed during the exam</Label>
+      <div className="grid grid-cols-2 gap-2">
+        {EXAM_TOOLS.map(tool => (
+          <div key={tool} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-tool-${tool}`}
+              checked={allowedTools.includes(tool)}
+              onCheckedChange={(c) => onChange({ allowed_tools: toggle(allowedTools, tool, c === true) })}
+            />
+            <Label htmlFor={`${idPrefix}-tool-${tool}`} className="font-normal">{EXAM_TOOL_LABELS[tool]}</Label>
+          </div>
+        ))}
+      </div>
+      {allowedTools.includes('formula_sheet') && (
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor={`${idPrefix}-formula-sheet`}
+            className={cn(
+              'flex flex-1 items-center gap-2 rounded-md border px-3 py-2 text-sm font-normal cursor-pointer hover:bg-muted',
+              isUploading && 'pointer-events-none opacity-60'
+            )}
+          >
+            {isUploading ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+            <span className="truncate">{formulaSheetName ?? 'Upload formula sheet (PDF or image)'}</span>
+          </Label>
+          <input
+            id={`${idPrefix}-formula-sheet`}
+            type="file"
+            accept="application/pdf,image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) uploadFormulaSheet(file);
+              e.target.value = '';
+            }}
+          />
+          {formulaSheetName && (
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              title="Remove formula sheet"
+              onClick={() => onChange({ formula_sheet_path: null, formula_sheet_name: null })}
+            >
+              <X size={14} />
+            </Button>
+          )}
+        </div>
+      )}
+      {shown.length > 0 && (
+        <ScrollArea className="h-[120px] rounded-md border p-2">
+          <div className="space-y-2">
+            {shown.map(material => (
+              <div key={material.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${idPrefix}-material-${material.id}`}
+                  checked={allowedMaterialIds.includes(material.id)}
+                  onCheckedChange={(c) =>
+                    onChange({ allowed_material_ids: toggle(allowedMaterialIds, material.id, c === true) })
+                  }
+                />
+                <Label htmlFor={`${idPrefix}-material-${material.id}`} className="font-normal line-clamp-1">
+                  {material.title}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Anything left unticked is hidden from the desk while the exam's session runs.
+      </p>
+    </div>
+  );
+};
+
+type GradeDraft = {
+  score: number;
+  feedback: string;
+  breakdown: GradeBreakdownItem[] | null;
+};
+
+const BREAKDOWN_STATUS_LABELS: Record<GradeBreakdownItem['status'], string> = {
+  correct: 'Correct',
+  partial: 'Part marks',
+  incorrect: 'Incorrect',
+  unanswered: 'Unanswered',
+  needs_marking: 'To mark',
+  marked: 'Marked',
+};
+
+// The exam score a breakdown adds up to, scaled to the exam's max score
+const breakdownScore = (items: GradeBreakdownItem[], maxScore: number) => {
+  const total = items.reduce((sum, item) => sum + item.max_points, 0);
+  const earned = items.reduce((sum, item) => sum + (item.points ?? 0), 0);
+  return total > 0 ? Math.round((earned / total) * maxScore * 100) / 100 : 0;
+};
+
+interface GradeBreakdownProps {
+  items: GradeBreakdownItem[];
+  questions: ExamQuestion[];
+  answers: Record<string, ExamAnswer>;
+  onMark: (questionId: string, points: number | null) => void;
+}
+
+/**
+ * Per-question scores from the auto-grader; subjective items take a mark
+ */
+const GradeBreakdown: React.FC<GradeBreakdownProps> = ({ items, questions, answers, onMark }) => (
+  <div className="space-y-2">
+    {items.map((item, index) => {
+      const question = questions.find(q => q.id === item.question_id);
+      const markable = item.status === 'needs_marking' || item.status === 'marked';
+      return (
+        <div key={item.question_id} className="rounded-md border p-2 text-sm space-y-1">
+          <div className="flex items-start justify-between gap-2">
+            <span className="font-medium line-clamp-2">
+              {index + 1}. {question?.question_text ?? 'Deleted question'}
+            </span>
+            <Badge
+              variant="outline"
+              className={cn(
+                'shrink-0',
+                item.status === 'correct' && 'text-success border-success',
+                item.status === 'partial' && 'text-primary border-primary',
+                item.status === 'incorrect' && 'text-destructive border-destructive',
+                item.status === 'needs_marking' && 'text-warning border-warning'
+              )}
+            >
+              {BREAKDOWN_STATUS_LABELS[item.status]}
+            </Badge>
+          </div>
+          {question && formatAnswer(question, answers[item.question_id]) && (
+            <p className="text-muted-foreground whitespace-pre-wrap">{formatAnswer(question, answers[item.question_id])}</p>
+          )}
+          {markable ? (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={item.max_points}
+                step="0.5"
+                className="h-8 w-24"
+                value={item.points ?? ''}
+                onChange={(e) => {
+                  const points = parseFloat(e.target.value);
+                  onMark(item.question_id, Number.isFinite(points) ? Math.min(Math.max(points, 0), item.max_points) : null);
+                }}
+              />
+              <span className="text-xs text-muted-foreground">/ {item.max_points} pts</span>
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">{item.points ?? 0} / {item.max_points} pts</p>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
 const TeacherExams: React.FC = () => {
   const {
     exams,
@@ -84,16 +359,18 @@ const TeacherExams: React.FC = () => {
     updateExamQuestion,
     deleteExamQuestion,
   } = useExams();
-  const { getExamSubmissions, gradeSubmission, updateGrade, publishGrades } = useGrades();
+  const { getExamSubmissions, gradeSubmission, updateGrade, publishGrades, autoGradeExam } = useGrades();
 
   const [classes, setClasses] = useState<Class[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [materials, setMaterials] = useState<Material[]>([]);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [editingExam, setEditingExam] = useState<Exam | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [managingExam, setManagingExam] = useState<Exam | null>(null);
   const [questions, setQuestions] = useState<ExamQuestion[]>([]);
   const [gradingExam, setGradingExam] = useState<Exam | null>(null);
+  const [gradingQuestions, setGradingQuestions] = useState<ExamQuestion[]>([]);
   const [submissions, setSubmissions] = useState<any[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -107,27 +384,29 @@ const TeacherExams: React.FC = () => {
     duration_minutes: 60,
     is_online: true,
     auto_submit: true,
+    auto_exam_mode: true,
+    lock_lockers: false,
+    allowed_tools: [] as string[],
+    allowed_material_ids: [] as string[],
+    formula_sheet_path: null as string | null,
+    formula_sheet_name: null as string | null,
     max_score: 100,
   });
 
-  const [questionForm, setQuestionForm] = useState({
-    question_text: '',
-    question_type: 'multiple_choice',
-    options: ['', '', '', ''],
-    correct_answer: '',
-    points: 1,
-  });
+  const [questionForm, setQuestionForm] = useState<QuestionDraft>(emptyQuestionDraft());
 
-  const [gradeData, setGradeData] = useState<Record<string, { score: number; feedback: string }>>({});
+  const [gradeData, setGradeData] = useState<Record<string, GradeDraft>>({});
 
   useEffect(() => {
     const fetchData = async () => {
-      const [classesRes, subjectsRes] = await Promise.all([
+      const [classesRes, subjectsRes, materialsRes] = await Promise.all([
         supabase.from('classes').select('id, name'),
         supabase.from('subjects').select('id, name, code'),
+        supabase.from('learning_materials').select('id, title, subject_id').order('title'),
       ]);
       setClasses(classesRes.data || []);
       setSubjects(subjectsRes.data || []);
+      setMaterials(materialsRes.data || []);
     };
     fetchData();
   }, []);
@@ -143,18 +422,18 @@ const TeacherExams: React.FC = () => {
       duration_minutes: 60,
       is_online: true,
       auto_submit: true,
+      auto_exam_mode: true,
+      lock_lockers: false,
+      allowed_tools: [],
+      allowed_material_ids: [],
+      formula_sheet_path: null,
+      formula_sheet_name: null,
       max_score: 100,
     });
   };
 
   const resetQuestionForm = () => {
-    setQuestionForm({
-      question_text: '',
-      question_type: 'multiple_choice',
-      options: ['', '', '', ''],
-      correct_answer: '',
-      points: 1,
-    });
+    setQuestionForm(emptyQuestionDraft(questionForm.question_type));
   };
 
   const handleCreate = async () => {
@@ -174,6 +453,12 @@ const TeacherExams: React.FC = () => {
       duration_minutes: formData.duration_minutes,
       is_online: formData.is_online,
       auto_submit: formData.auto_submit,
+      auto_exam_mode: formData.auto_exam_mode,
+      lock_lockers: formData.auto_exam_mode && formData.lock_lockers,
+      allowed_tools: formData.allowed_tools,
+      allowed_material_ids: formData.allowed_material_ids,
+      formula_sheet_path: formData.formula_sheet_path,
+      formula_sheet_name: formData.formula_sheet_name,
       max_score: formData.max_score,
     });
     setIsSubmitting(false);
@@ -198,6 +483,12 @@ const TeacherExams: React.FC = () => {
       scheduled_end: new Date(formData.scheduled_end).toISOString(),
       duration_minutes: formData.duration_minutes,
       auto_submit: formData.auto_submit,
+      auto_exam_mode: formData.auto_exam_mode,
+      lock_lockers: formData.auto_exam_mode && formData.lock_lockers,
+      allowed_tools: formData.allowed_tools,
+      allowed_material_ids: formData.allowed_material_ids,
+      formula_sheet_path: formData.formula_sheet_path,
+      formula_sheet_name: formData.formula_sheet_name,
       max_score: formData.max_score,
     });
     setIsSubmitting(false);
@@ -227,14 +518,23 @@ const TeacherExams: React.FC = () => {
   const handleAddQuestion = async () => {
     if (!managingExam || !questionForm.question_text) return;
 
-    const filteredOptions = questionForm.options.filter(o => o.trim());
-    
+    let built: ReturnType<typeof buildQuestion>;
+    try {
+      built = buildQuestion(questionForm);
+    } catch (error) {
+      if (error instanceof QuestionDraftError) {
+        toast.error(error.message);
+        return;
+      }
+      throw error;
+    }
+
     const success = await addExamQuestion({
       exam_id: managingExam.id,
       question_text: questionForm.question_text,
       question_type: questionForm.question_type,
-      options: questionForm.question_type === 'multiple_choice' ? filteredOptions : undefined,
-      correct_answer: questionForm.correct_answer || undefined,
+      options: built.options,
+      correct_answer: built.correct_answer,
       points: questionForm.points,
       order_index: questions.length,
     });
@@ -254,21 +554,47 @@ const TeacherExams: React.FC = () => {
     setQuestions(qs);
   };
 
-  const openGrading = async (exam: Exam) => {
-    setGradingExam(exam);
+  const loadGradingSubmissions = async (exam: Exam) => {
     const subs = await getExamSubmissions(exam.id);
     setSubmissions(subs);
-    
-    const initial: Record<string, { score: number; feedback: string }> = {};
+
+    const initial: Record<string, GradeDraft> = {};
     subs.forEach(sub => {
       initial[sub.id] = {
         score: sub.grade?.score || 0,
         feedback: sub.grade?.feedback || '',
+        breakdown: sub.grade?.breakdown ?? null,
       };
     });
     setGradeData(initial);
   };
 
+  const openGrading = async (exam: Exam) => {
+    setGradingExam(exam);
+    const [qs] = await Promise.all([getExamQuestions(exam.id), loadGradingSubmissions(exam)]);
+    setGradingQuestions(qs);
+  };
+
+  // A teacher's mark for a subjective item; clearing it puts the item back to be marked
+  const handleMarkQuestion = (submissionId: string, questionId: string, points: number | null) => {
+    if (!gradingExam) return;
+    setGradeData(prev => {
+      const breakdown = (prev[submissionId].breakdown ?? []).map(item =>
+        item.question_id === questionId
+          ? { ...item, points, status: points === null ? 'needs_marking' as const : 'marked' as const }
+          : item
+      );
+      return {
+        ...prev,
+        [submissionId]: {
+          ...prev[submissionId],
+          breakdown,
+          score: breakdownScore(breakdown, gradingExam.max_score),
+        },
+      };
+    });
+  };
+
   const handleGradeSubmission = async (submission: any) => {
     const data = gradeData[submission.id];
     if (!gradingExam || data.score === undefined) return;
@@ -277,6 +603,7 @@ const TeacherExams: React.FC = () => {
       await updateGrade(submission.grade.id, {
         score: data.score,
         feedback: data.feedback,
+        ...(data.breakdown && { breakdown: data.breakdown }),
       });
     } else {
       await gradeSubmission({
@@ -288,20 +615,42 @@ const TeacherExams: React.FC = () => {
       });
     }
 
-    const subs = await getExamSubmissions(gradingExam.id);
-    setSubmissions(subs);
+    await loadGradingSubmissions(gradingExam);
+  };
+
+  const toMark = (submissionId: string) =>
+    gradeData[submissionId]?.breakdown?.filter(item => item.status === 'needs_marking').length ?? 0;
+
+  const handleAutoGrade = async () => {
+    if (!gradingExam) return;
+
+    setIsSubmitting(true);
+    const success = await autoGradeExam(gradingExam.id);
+    setIsSubmitting(false);
+
+    if (success) {
+      await loadGradingSubmissions(gradingExam);
+    }
   };
 
   const handlePublishGrades = async () => {
-    const gradeIds = submissions
-      .filter(s => s.grade && !s.grade.is_published)
+    // Grades with items still to mark stay drafts
+    const ready = submissions.filter(s => s.grade && !s.grade.is_published);
+    const gradeIds = ready
+      .filter(s => !s.grade.breakdown?.some((item: GradeBreakdownItem) => item.status === 'needs_marking'))
       .map(s => s.grade.id);
-    
+
+    const held = ready.length - gradeIds.length;
+    if (held > 0) {
+      toast.warning(held === 1 ? '1 grade has questions to mark' : `${held} grades have questions to mark`, {
+        description: 'They stay unpublished until marked',
+      });
+    }
+
     if (gradeIds.length > 0) {
       await publishGrades(gradeIds);
       if (gradingExam) {
-        const subs = await getExamSubmissions(gradingExam.id);
-        setSubmissions(subs);
+        await loadGradingSubmissions(gradingExam);
       }
     }
   };
@@ -455,6 +804,21 @@ const TeacherExams: React.FC = () => {
                   <Label htmlFor="auto_submit">Auto-submit on time end</Label>
                 </div>
               </div>
+              <ExamModeOptions
+                idPrefix="create"
+                autoExamMode={formData.auto_exam_mode}
+                lockLockers={formData.lock_lockers}
+                onChange={(changes) => setFormData({ ...formData, ...changes })}
+              />
+              <ExamToolOptions
+                idPrefix="create"
+                subjectId={formData.subject_id}
+                materials={materials}
+                allowedTools={formData.allowed_tools}
+                allowedMaterialIds={formData.allowed_material_ids}
+                formulaSheetName={formData.formula_sheet_name}
+                onChange={(changes) => setFormData({ ...formData, ...changes })}
+              />
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
@@ -549,6 +913,12 @@ const TeacherExams: React.FC = () => {
                           duration_minutes: exam.duration_minutes,
                           is_online: exam.is_online,
                           auto_submit: exam.auto_submit,
+                          auto_exam_mode: exam.auto_exam_mode,
+                          lock_lockers: exam.lock_lockers,
+                          allowed_tools: exam.allowed_tools,
+                          allowed_material_ids: exam.allowed_material_ids,
+                          formula_sheet_path: exam.formula_sheet_path,
+                          formula_sheet_name: exam.formula_sheet_name,
                           max_score: exam.max_score,
                         });
                       }}
@@ -628,6 +998,21 @@ const TeacherExams: React.FC = () => {
                 />
               </div>
             </div>
+            <ExamModeOptions
+              idPrefix="edit"
+              autoExamMode={formData.auto_exam_mode}
+              lockLockers={formData.lock_lockers}
+              onChange={(changes) => setFormData({ ...formData, ...changes })}
+            />
+            <ExamToolOptions
+              idPrefix="edit"
+              subjectId={formData.subject_id}
+              materials={materials}
+              allowedTools={formData.allowed_tools}
+              allowedMaterialIds={formData.allowed_material_ids}
+              formulaSheetName={formData.formula_sheet_name}
+              onChange={(changes) => setFormData({ ...formData, ...changes })}
+            />
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setEditingExam(null)}>Cancel</Button>
@@ -658,16 +1043,20 @@ const TeacherExams: React.FC = () => {
                       <div className="flex-1">
                         <p className="font-medium">Q{index + 1}: {q.question_text}</p>
                         <p className="text-xs text-muted-foreground mt-1">
-                          {q.question_type} • {q.points} points
+                          {QUESTION_TYPE_LABELS[q.question_type] ?? q.question_type} • {q.points} points
                         </p>
-                        {q.options && (
+                        {q.question_type === 'multiple_choice' && Array.isArray(q.options) ? (
                           <div className="mt-2 text-sm">
-                            {q.options.map((opt, i) => (
+                            {(q.options as string[]).map((opt, i) => (
                               <p key={i} className={opt === q.correct_answer ? 'text-success' : ''}>
                                 {String.fromCharCode(65 + i)}. {opt}
                               </p>
                             ))}
                           </div>
+                        ) : (
+                          <p className={cn('mt-2 text-sm', describeAnswerKey(q) ? 'text-success' : 'text-muted-foreground')}>
+                            {describeAnswerKey(q) ?? 'Marked by hand'}
+                          </p>
                         )}
                       </div>
                       <Button
@@ -702,15 +1091,19 @@ const TeacherExams: React.FC = () => {
                       <Label>Type</Label>
                       <Select
                         value={questionForm.question_type}
-                        onValueChange={(v) => setQuestionForm({ ...questionForm, question_type: v })}
+                        onValueChange={(v) => setQuestionForm({
+                          ...emptyQuestionDraft(v as QuestionType),
+                          question_text: questionForm.question_text,
+                          points: questionForm.points,
+                        })}
                       >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                          <SelectItem value="short_answer">Short Answer</SelectItem>
-                          <SelectItem value="essay">Essay</SelectItem>
+                          {QUESTION_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -723,45 +1116,10 @@ const TeacherExams: React.FC = () => {
                       />
                     </div>
                   </div>
-                  {questionForm.question_type === 'multiple_choice' && (
-                    <>
-                      <div className="space-y-2">
-                        <Label>Options</Label>
-                        {questionForm.options.map((opt, i) => (
-                          <div key={i} className="flex gap-2">
-                            <span className="w-6 text-sm text-muted-foreground pt-2">
-                              {String.fromCharCode(65 + i)}.
-                            </span>
-                            <Input
-                              value={opt}
-                              onChange={(e) => {
-                                const newOptions = [...questionForm.options];
-                                newOptions[i] = e.target.value;
-                                setQuestionForm({ ...questionForm, options: newOptions });
-                              }}
-                              placeholder={`Option ${String.fromCharCode(65 + i)}`}
-                            />
-                          </div>
-                        ))}
-                      </div>
-                      <div className="space-y-2">
-                        <Label>Correct Answer</Label>
-                        <Select
-                          value={questionForm.correct_answer}
-                          onValueChange={(v) => setQuestionForm({ ...questionForm, correct_answer: v })}
-                        >
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select correct option" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {questionForm.options.filter(o => o.trim()).map((opt, i) => (
-                              <SelectItem key={i} value={opt}>{opt}</SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </div>
-                    </>
-                  )}
+                  <ExamQuestionEditor
+                    draft={questionForm}
+                    onChange={(changes) => setQuestionForm(prev => ({ ...prev, ...changes }))}
+                  />
                   <Button onClick={handleAddQuestion} disabled={!questionForm.question_text}>
                     <Plus size={14} className="mr-2" />
                     Add Question
@@ -782,7 +1140,7 @@ const TeacherExams: React.FC = () => {
           <DialogHeader>
             <DialogTitle>Grade Exam: {gradingExam?.title}</DialogTitle>
             <DialogDescription>
-              Review and grade student exam submissions
+              Objective questions are scored on submission; mark the rest and review before publishing
             </DialogDescription>
           </DialogHeader>
           <ScrollArea className="h-[400px] pr-4">
@@ -802,6 +1160,9 @@ const TeacherExams: React.FC = () => {
                           {sub.is_auto_submitted && (
                             <Badge variant="outline" className="text-warning border-warning">Auto</Badge>
                           )}
+                          {toMark(sub.id) > 0 && (
+                            <Badge variant="outline" className="text-warning border-warning">{toMark(sub.id)} to mark</Badge>
+                          )}
                           {sub.grade?.is_published && (
                             <Badge className="bg-success">Published</Badge>
                           )}
@@ -812,6 +1173,14 @@ const TeacherExams: React.FC = () => {
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-3">
+                      {gradeData[sub.id]?.breakdown && (
+                        <GradeBreakdown
+                          items={gradeData[sub.id].breakdown}
+                          questions={gradingQuestions}
+                          answers={sub.answers}
+                          onMark={(questionId, points) => handleMarkQuestion(sub.id, questionId, points)}
+                        />
+                      )}
                       <div className="grid grid-cols-2 gap-4">
                         <div className="space-y-2">
                           <Label>Score (max {gradingExam?.max_score})</Label>
@@ -822,7 +1191,7 @@ const TeacherExams: React.FC = () => {
                             value={gradeData[sub.id]?.score || 0}
                             onChange={(e) => setGradeData(prev => ({
                               ...prev,
-                              [sub.id]: { ...prev[sub.id], score: parseInt(e.target.value) || 0 }
+                              [sub.id]: { ...prev[sub.id], score: parseFloat(e.target.value) || 0 }
                             }))}
                           />
                         </div>
@@ -853,6 +1222,10 @@ const TeacherExams: React.FC = () => {
           </ScrollArea>
           <DialogFooter>
             <Button variant="outline" onClick={() => setGradingExam(null)}>Close</Button>
+            <Button variant="outline" onClick={handleAutoGrade} disabled={isSubmitting || submissions.length === 0}>
+              {isSubmitting ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Wand2 size={14} className="mr-2" />}
+              Re-run Auto-grading
+            </Button>
             <Button onClick={handlePublishGrades}>
               <Send size={14} className="mr-2" />
               Publish All Grades
@@ -55,6 +55,8 @@ interface Class {
   id: string;
   name: string;
   year: number;
+  // Home room, used to scope exam sessions by room
+  room: string | null;
   created_at: string;
 }
 
@@ -86,6 +88,7 @@ const ClassManagement: React.FC = () => {
 
   // Form states
   const [newClassName, setNewClassName] = useState('');
+  const [newClassRoom, setNewClassRoom] = useState('');
   const [editClass, setEditClass] = useState<Class | null>(null);
   const [enrollClassId, setEnrollClassId] = useState<string | null>(null);
   const [selectedStudents, setSelectedStudents] = useState<string[]>([]);
@@ -150,12 +153,14 @@ const ClassManagement: React.FC = () => {
       const { error } = await supabase.from('classes').insert({
         name: newClassName.trim(),
         year: new Date().getFullYear(),
+        room: newClassRoom.trim() || null,
       });
 
       if (error) throw error;
 
       toast.success('Class created successfully');
       setNewClassName('');
+      setNewClassRoom('');
       setIsAddClassOpen(false);
       fetchData();
     } catch (error) {
@@ -177,7 +182,7 @@ const ClassManagement: React.FC = () => {
     try {
       const { error } = await supabase
         .from('classes')
-        .update({ name: editClass.name.trim() })
+        .update({ name: editClass.name.trim(), room: editClass.room?.trim() || null })
         .eq('id', editClass.id);
 
       if (error) throw error;
@@ -353,6 +358,16 @@ const ClassManagement: React.FC = () => {
                   onKeyDown={(e) => e.key === 'Enter' && handleAddClass()}
                 />
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="class-room">Room (optional)</Label>
+                <Input
+                  id="class-room"
+                  placeholder="e.g., B12"
+                  value={newClassRoom}
+                  onChange={(e) => setNewClassRoom(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddClass()}
+                />
+              </div>
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setIsAddClassOpen(false)}>
@@ -395,6 +410,11 @@ const ClassManagement: React.FC = () => {
                     <Badge variant="outline" className="ml-1">
                       {cls.year}
                     </Badge>
+                    {cls.room && (
+                      <Badge variant="outline" className="ml-1">
+                        Room {cls.room}
+                      </Badge>
+                    )}
                   </div>
                 </AccordionTrigger>
                 <AccordionContent>
@@ -471,7 +491,7 @@ const ClassManagement: React.FC = () => {
           <DialogHeader>
             <DialogTitle>Edit Class</DialogTitle>
             <DialogDescription>
-              Update the class name
+              Update the class name and room
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -483,6 +503,15 @@ const ClassManagement: React.FC = () => {
                 onChange={(e) => setEditClass(prev => prev ? { ...prev, name: e.target.value } : null)}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-class-room">Room (optional)</Label>
+              <Input
+                id="edit-class-room"
+                placeholder="e.g., B12"
+                value={editClass?.room || ''}
+                onChange={(e) => setEditClass(prev => prev ? { ...prev, room: e.target.value } : null)}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsEditClassOpen(false)}>
@@ -1,16 +1,21 @@
 /**
  * DeskInterface Component
  * Simulates a smart desk with two modes: Normal and Exam
- * Shows available actions and restrictions based on current mode
+ * Shows available actions and restrictions based on current mode, opens the
+ * offline desk tools, and sends the desk's heartbeat to the room board
  */
 
 import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from './StatusBadge';
 import { ResearchBrowser } from './ResearchBrowser';
 import { ExamMaterialsBrowser } from './ExamMaterialsBrowser';
+import { DeskToolDialog, FormulaSheetViewer } from './ExamTools';
 import { useApp } from '@/contexts/AppContext';
+import { useDeskHeartbeat } from '@/hooks/useDesks';
+import { useExamToolPolicy, EXAM_TOOL_LABELS, DeskTool } from '@/hooks/useExamToolPolicy';
 import { 
   Monitor, 
   Search, 
@@ -19,20 +24,49 @@ import {
   Globe, 
   Ban,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  Calculator,
+  Ruler,
+  Sigma
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
+const DESK_TOOL_ICONS: Record<DeskTool, React.ReactNode> = {
+  calculator: <Calculator size={16} className="mr-2" />,
+  unit_converter: <Ruler size={16} className="mr-2" />,
+  formula_sheet: <Sigma size={16} className="mr-2" />,
+};
+
+type DeskInterfaceProps = {
+  // Registered desk this terminal is; defaults to the student's reserved desk
+  deskId?: string;
+};
+
 /**
  * DeskInterface Component
  * Displays the smart desk UI with mode-specific actions
  */
-export const DeskInterface: React.FC = () => {
-  const { examMode, performResearch, performExamAction } = useApp();
+export const DeskInterface: React.FC<DeskInterfaceProps> = ({ deskId }) => {
+  const { examMode, globalExamMode, examSessions, deskMode, performResearch, performExamAction } = useApp();
+  const { deskId: activeDeskId } = useDeskHeartbeat(deskId, deskMode);
+  const { policy, isAllowed, recordToolUse } = useExamToolPolicy();
   const [lastAction, setLastAction] = useState<{ success: boolean; message: string } | null>(null);
   const [showBrowser, setShowBrowser] = useState(false);
   const [showExamTools, setShowExamTools] = useState(false);
+  const [openTool, setOpenTool] = useState<DeskTool | null>(null);
+
+  // Local tools available right now; the formula sheet only when an exam provides one
+  const deskTools: DeskTool[] = [
+    ...(['calculator', 'unit_converter'] as const).filter(isAllowed),
+    ...(policy.formulaSheets.length > 0 ? ['formula_sheet' as const] : []),
+  ];
+
+  const handleOpenTool = (tool: DeskTool) => {
+    setShowExamTools(false);
+    setOpenTool(tool);
+    recordToolUse(tool, activeDeskId);
+  };
 
   /**
    * Handle research action button click
@@ -88,7 +122,9 @@ export const DeskInterface: React.FC = () => {
             <Monitor size={24} />
           </div>
           <div>
-            <h3 className="font-semibold text-lg">Smart Desk Terminal</h3>
+            <h3 className="font-semibold text-lg">
+              {activeDeskId ? `Desk ${activeDeskId}` : 'Smart Desk Terminal'}
+            </h3>
             <p className="text-sm text-muted-foreground">
               {examMode ? 'Restricted access - Exam in progress' : 'Full access - Normal operation'}
             </p>
@@ -106,7 +142,11 @@ export const DeskInterface: React.FC = () => {
           <div className="flex items-start gap-3 p-4 bg-warning/10 border border-warning/20 rounded-lg animate-fade-in">
             <AlertCircle className="text-warning flex-shrink-0 mt-0.5\" size={20} />
             <div>
-              <h4 className="font-medium text-warning">Exam Mode Active</h4>
+              <h4 className="font-medium text-warning">
+                {globalExamMode || examSessions.length === 0
+                  ? 'Exam Mode Active'
+                  : `Exam in progress: ${examSessions.map(s => s.title).join(', ')}`}
+              </h4>
               <p className="text-sm text-muted-foreground mt-1">
                 Non-academic features are temporarily disabled. Only exam-related actions are permitted.
                 Contact your teacher if you need assistance.
@@ -169,6 +209,24 @@ export const DeskInterface: React.FC = () => {
             <p className="text-sm text-muted-foreground mb-4">
               Access exam-specific tools, submit answers, and view exam materials.
             </p>
+            {policy.restricted && (
+              <div className="flex flex-wrap gap-1.5 mb-4">
+                {policy.tools.length === 0 && policy.materials.length === 0 ? (
+                  <span className="text-xs text-muted-foreground">No tools allowed during this exam</span>
+                ) : (
+                  <>
+                    {policy.tools.map(tool => (
+                      <Badge key={tool} variant="secondary" className="text-xs">{EXAM_TOOL_LABELS[tool]}</Badge>
+                    ))}
+                    {policy.materials.length > 0 && (
+                      <Badge variant="secondary" className="text-xs">
+                        {policy.materials.length} {policy.materials.length === 1 ? 'material' : 'materials'}
+                      </Badge>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
             <Button 
               onClick={handleExamAction}
               variant="outline"
@@ -180,6 +238,21 @@ export const DeskInterface: React.FC = () => {
           </div>
         </div>
 
+        {/* Offline desk tools */}
+        {deskTools.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Desk Tools</h4>
+            <div className="flex flex-wrap gap-2">
+              {deskTools.map(tool => (
+                <Button key={tool} variant="outline" size="sm" onClick={() => handleOpenTool(tool)}>
+                  {DESK_TOOL_ICONS[tool]}
+                  {EXAM_TOOL_LABELS[tool]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Last action feedback */}
         {lastAction && (
           <div 
@@ -207,7 +280,21 @@ export const DeskInterface: React.FC = () => {
 
       {/* Exam materials browser overlay */}
       {showExamTools && (
-        <ExamMaterialsBrowser onClose={() => setShowExamTools(false)} />
+        <ExamMaterialsBrowser
+          policy={policy}
+          deskTools={deskTools}
+          onOpenTool={handleOpenTool}
+          onClose={() => setShowExamTools(false)}
+        />
+      )}
+
+      {/* Offline desk tools */}
+      <DeskToolDialog
+        tool={openTool === 'formula_sheet' ? null : openTool}
+        onClose={() => setOpenTool(null)}
+      />
+      {openTool === 'formula_sheet' && (
+        <FormulaSheetViewer sheets={policy.formulaSheets} onClose={() => setOpenTool(null)} />
       )}
     </Card>
   );
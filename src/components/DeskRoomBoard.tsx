@@ -0,0 +1,129 @@
+/**
+ * DeskRoomBoard Component
+ * Live board of registered desks grouped by room, showing which desks are
+ * online, idle, in exam mode or offline and who is at each one
+ */
+
+import React, { useMemo, useState } from 'react';
+import { useDesks } from '@/hooks/useDesks';
+import { Desk, DeskStatus } from '@/types';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Monitor, MonitorOff, Moon, FileText, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES: Record<DeskStatus, { label: string; className: string; icon: typeof Monitor }> = {
+  online: { label: 'Online', className: 'border-success/40 bg-success/10 text-success', icon: Monitor },
+  idle: { label: 'Idle', className: 'border-border bg-muted text-muted-foreground', icon: Moon },
+  exam: { label: 'Exam mode', className: 'border-warning/40 bg-warning/10 text-warning', icon: FileText },
+  offline: { label: 'Offline', className: 'border-dashed border-border text-muted-foreground', icon: MonitorOff },
+};
+
+const STATUS_ORDER: DeskStatus[] = ['online', 'idle', 'exam', 'offline'];
+
+interface DeskRoomBoardProps {
+  desks: ReturnType<typeof useDesks>;
+}
+
+export const DeskRoomBoard: React.FC<DeskRoomBoardProps> = ({ desks: registry }) => {
+  const { desks, isLoading, getStatus } = registry;
+  const [room, setRoom] = useState<string>('all');
+
+  const rooms = useMemo(() => [...new Set(desks.map(d => d.room))].sort(), [desks]);
+
+  const visibleRooms = room === 'all' ? rooms : rooms.filter(r => r === room);
+
+  const counts = useMemo(() => {
+    const result: Record<DeskStatus, number> = { online: 0, idle: 0, exam: 0, offline: 0 };
+    desks
+      .filter(d => room === 'all' || d.room === room)
+      .forEach(d => { result[getStatus(d)] += 1; });
+    return result;
+  }, [desks, room, getStatus]);
+
+  const renderDesk = (desk: Desk) => {
+    const status = getStatus(desk);
+    const { label, className, icon: Icon } = STATUS_STYLES[status];
+
+    return (
+      <div
+        key={desk.id}
+        className={cn('rounded-lg border p-3 space-y-1', className)}
+        title={desk.lastHeartbeatAt
+          ? `Last heartbeat ${formatDistanceToNow(desk.lastHeartbeatAt, { addSuffix: true })}`
+          : 'No heartbeat yet'}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-mono text-sm font-semibold">{desk.id}</span>
+          <Icon size={14} />
+        </div>
+        {desk.seat && <p className="text-xs">Seat {desk.seat}</p>}
+        <p className="text-xs truncate text-foreground">
+          {status === 'offline' ? label : desk.currentUserName ?? 'Signed out'}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Monitor size={18} />
+              Room Board
+            </CardTitle>
+            <CardDescription>Desk terminals report in every 30 seconds</CardDescription>
+          </div>
+          <Select value={room} onValueChange={setRoom}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All rooms" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All rooms</SelectItem>
+              {rooms.map(r => (
+                <SelectItem key={r} value={r}>Room {r}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {STATUS_ORDER.map(status => (
+            <Badge key={status} variant="outline" className={cn('text-xs', STATUS_STYLES[status].className)}>
+              {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="animate-spin text-muted-foreground" />
+          </div>
+        ) : desks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No desks registered yet</p>
+        ) : (
+          visibleRooms.map(r => (
+            <div key={r} className="space-y-2">
+              <h4 className="text-sm font-medium">Room {r}</h4>
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+                {desks.filter(d => d.room === r).map(renderDesk)}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeskRoomBoard;
@@ -0,0 +1,128 @@
+/**
+ * DualControlQueue Component
+ * Realtime list of safety-critical actions waiting for a second approver
+ * Others approve or reject; the proposer can only withdraw their own
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDualControl, describeDualControlAction, DualControlRequest } from '@/hooks/useDualControl';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { UsersRound, Check, X, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+export const DualControlQueue: React.FC = () => {
+  const { profile } = useAuth();
+  const { pendingRequests, isLoading, approveRequest, rejectRequest } = useDualControl();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [, setNow] = useState(Date.now());
+
+  // Re-render so countdowns stay current and expired proposals drop out
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleApprove = async (request: DualControlRequest) => {
+    setBusyId(request.id);
+    const success = await approveRequest(request.id);
+    setBusyId(null);
+
+    if (success) {
+      toast.success('Approved', { description: `${describeDualControlAction(request)} is now in effect` });
+    }
+  };
+
+  const handleReject = async (request: DualControlRequest) => {
+    setBusyId(request.id);
+    const success = await rejectRequest(request.id);
+    setBusyId(null);
+
+    if (success) {
+      toast.success(request.proposed_by === profile?.id ? 'Proposal Withdrawn' : 'Proposal Rejected', {
+        description: describeDualControlAction(request),
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <UsersRound size={18} className="text-primary" />
+          Awaiting Second Approval
+          {pendingRequests.length > 0 && (
+            <Badge variant="destructive" className="ml-auto">{pendingRequests.length}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Bulk lock/unlock and exam mode changes need a second teacher or admin
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 size={16} className="animate-spin text-muted-foreground" />
+        ) : pendingRequests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing waiting for approval</p>
+        ) : (
+          pendingRequests.map(request => {
+            const isOwn = request.proposed_by === profile?.id;
+            return (
+              <div key={request.id} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm">{describeDualControlAction(request)}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    expires {formatDistanceToNow(new Date(request.expires_at), { addSuffix: true })}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Proposed by {isOwn ? 'you' : request.proposed_by_name} · {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                </p>
+                {isOwn ? (
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">Waiting for another teacher or admin</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReject(request)}
+                      disabled={busyId === request.id}
+                    >
+                      <X size={14} className="mr-1" />
+                      Withdraw
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => handleApprove(request)}
+                      disabled={busyId === request.id}
+                    >
+                      {busyId === request.id ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Check size={14} className="mr-1" />}
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReject(request)}
+                      disabled={busyId === request.id}
+                    >
+                      <X size={14} className="mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DualControlQueue;
@@ -1,7 +1,9 @@
 /**
  * ExamMaterialsBrowser Component
  * Provides access to exam materials and educational tools from the web
- * Uses Firecrawl API to search and display relevant content
+ * Uses Firecrawl API to search and display relevant content; during an exam
+ * only the tools and library materials the exam allows are offered, and the
+ * offline desk tools take the place of the web quick access tools
  */
 
 import React, { useState, useEffect } from 'react';
@@ -25,12 +27,16 @@ import {
   FlaskConical,
   BookText,
   History,
-  Filter
+  Filter,
+  Ruler,
+  Sigma
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { firecrawlApi } from '@/lib/api/firecrawl';
+import { supabase } from '@/integrations/supabase/client';
 import { Badge } from '@/components/ui/badge';
+import { ExamToolPolicy, DeskTool, EXAM_TOOL_LABELS } from '@/hooks/useExamToolPolicy';
 
 type SubjectCategory = 'all' | 'math' | 'science' | 'english' | 'history';
 
@@ -43,6 +49,11 @@ const subjectCategories: { id: SubjectCategory; name: string; icon: React.ReactN
 ];
 
 type ExamMaterialsBrowserProps = {
+  // Omitted outside exams: everything is available
+  policy?: ExamToolPolicy;
+  // Offline desk tools available right now
+  deskTools?: DeskTool[];
+  onOpenTool?: (tool: DeskTool) => void;
   onClose: () => void;
 };
 
@@ -63,6 +74,21 @@ type QuickAccessTool = {
   searchQuery: string;
 };
 
+const deskToolDetails: Record<DeskTool, { description: string; icon: React.ReactNode }> = {
+  calculator: {
+    description: 'Scientific calculator, works offline',
+    icon: <Calculator className="text-primary" size={20} />,
+  },
+  unit_converter: {
+    description: 'Convert between units of measurement',
+    icon: <Ruler className="text-success" size={20} />,
+  },
+  formula_sheet: {
+    description: "Your teacher's formula sheet for this exam",
+    icon: <Sigma className="text-warning" size={20} />,
+  },
+};
+
 const quickAccessTools: QuickAccessTool[] = [
   {
     id: 'formulas',
@@ -94,7 +120,9 @@ const quickAccessTools: QuickAccessTool[] = [
   },
 ];
 
-export const ExamMaterialsBrowser: React.FC<ExamMaterialsBrowserProps> = ({ onClose }) => {
+export const ExamMaterialsBrowser: React.FC<ExamMaterialsBrowserProps> = ({ policy, deskTools = [], onOpenTool, onClose }) => {
+  const restricted = policy?.restricted ?? false;
+  const webAllowed = !restricted || policy.tools.includes('web_search');
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [results, setResults] = useState<SearchResult[]>([]);
@@ -183,6 +211,14 @@ export const ExamMaterialsBrowser: React.FC<ExamMaterialsBrowserProps> = ({ onCl
     }
   };
 
+  /**
+   * Open an allowed library material from storage
+   */
+  const openMaterial = (filePath: string) => {
+    const { data } = supabase.storage.from('learning-materials').getPublicUrl(filePath);
+    window.open(data.publicUrl, '_blank', 'noopener,noreferrer');
+  };
+
   /**
    * Navigate back in the browser
    */
@@ -213,74 +249,146 @@ export const ExamMaterialsBrowser: React.FC<ExamMaterialsBrowserProps> = ({ onCl
         </p>
       </div>
 
-      {/* Subject filters */}
-      <div className="space-y-2">
-        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-          <Filter size={14} />
-          <span>Filter by subject:</span>
+      {/* Offline desk tools */}
+      {onOpenTool && deskTools.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-muted-foreground">Desk Tools</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {deskTools.map((tool) => (
+              <Card
+                key={tool}
+                className="cursor-pointer hover:border-primary/40 transition-colors"
+                onClick={() => onOpenTool(tool)}
+              >
+                <CardContent className="p-4 flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                    {deskToolDetails[tool].icon}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-sm">{EXAM_TOOL_LABELS[tool]}</h4>
+                    <p className="text-xs text-muted-foreground mt-0.5">{deskToolDetails[tool].description}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
         </div>
-        <div className="flex flex-wrap gap-2">
-          {subjectCategories.map((subject) => (
-            <Badge
-              key={subject.id}
-              variant={selectedSubject === subject.id ? 'default' : 'outline'}
-              className={cn(
-                'cursor-pointer transition-colors flex items-center gap-1.5 px-3 py-1.5',
-                selectedSubject === subject.id 
-                  ? 'bg-primary text-primary-foreground' 
-                  : 'hover:bg-muted'
-              )}
-              onClick={() => setSelectedSubject(subject.id)}
-            >
-              {subject.icon}
-              {subject.name}
-            </Badge>
-          ))}
+      )}
+
+      {/* Library materials the exam allows */}
+      {restricted && policy.materials.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-muted-foreground">Allowed Materials</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {policy.materials.map((material) => (
+              <Card
+                key={material.id}
+                className={cn(
+                  'transition-colors',
+                  material.file_url ? 'cursor-pointer hover:border-primary/40' : 'opacity-60'
+                )}
+                onClick={() => material.file_url && openMaterial(material.file_url)}
+              >
+                <CardContent className="p-4 flex items-start gap-3">
+                  <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                    <FileText className="text-primary" size={20} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium text-sm line-clamp-1">{material.title}</h4>
+                    <p className="text-xs text-muted-foreground mt-0.5 truncate">
+                      {material.file_name ?? 'No file attached'}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
+
+      {restricted && !webAllowed && policy.materials.length === 0 && deskTools.length === 0 && (
+        <div className="flex flex-col items-center gap-2 rounded-lg border border-dashed p-6 text-center">
+          <BookOpen className="text-muted-foreground" size={32} />
+          <p className="text-sm text-muted-foreground">
+            This exam does not allow any tools, reference materials or web resources.
+          </p>
+        </div>
+      )}
+
+      {webAllowed && (
+        <>
+          {/* Subject filters */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Filter size={14} />
+              <span>Filter by subject:</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {subjectCategories.map((subject) => (
+                <Badge
+                  key={subject.id}
+                  variant={selectedSubject === subject.id ? 'default' : 'outline'}
+                  className={cn(
+                    'cursor-pointer transition-colors flex items-center gap-1.5 px-3 py-1.5',
+                    selectedSubject === subject.id 
+                      ? 'bg-primary text-primary-foreground' 
+                      : 'hover:bg-muted'
+                  )}
+                  onClick={() => setSelectedSubject(subject.id)}
+                >
+                  {subject.icon}
+                  {subject.name}
+                </Badge>
+              ))}
+            </div>
+          </div>
 
-      {/* Search bar */}
-      <div className="flex gap-2">
-        <Input
-          type="text"
-          placeholder={`Search ${selectedSubject === 'all' ? 'all' : selectedSubject} materials...`}
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-          className="flex-1"
-        />
-        <Button onClick={() => handleSearch()} disabled={isLoading}>
-          <Search size={16} className="mr-2" />
-          Search
-        </Button>
-      </div>
+          {/* Search bar */}
+          <div className="flex gap-2">
+            <Input
+              type="text"
+              placeholder={`Search ${selectedSubject === 'all' ? 'all' : selectedSubject} materials...`}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              className="flex-1"
+            />
+            <Button onClick={() => handleSearch()} disabled={isLoading}>
+              <Search size={16} className="mr-2" />
+              Search
+            </Button>
+          </div>
 
-      {/* Quick access tools */}
-      <div className="space-y-3">
-        <h3 className="text-sm font-medium text-muted-foreground">Quick Access Tools</h3>
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-          {quickAccessTools.map((tool) => (
-            <Card 
-              key={tool.id}
-              className="cursor-pointer hover:border-primary/40 transition-colors"
-              onClick={() => {
-                setSearchQuery(tool.name);
-                handleSearch(tool.searchQuery);
-              }}
-            >
-              <CardContent className="p-4 flex items-start gap-3">
-                <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
-                  {tool.icon}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <h4 className="font-medium text-sm">{tool.name}</h4>
-                  <p className="text-xs text-muted-foreground mt-0.5">{tool.description}</p>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </div>
+          {/* Web quick access tools, replaced by the desk tools during exams */}
+          {!restricted && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-muted-foreground">Quick Access Tools</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {quickAccessTools.map((tool) => (
+                  <Card 
+                    key={tool.id}
+                    className="cursor-pointer hover:border-primary/40 transition-colors"
+                    onClick={() => {
+                      setSearchQuery(tool.name);
+                      handleSearch(tool.searchQuery);
+                    }}
+                  >
+                    <CardContent className="p-4 flex items-start gap-3">
+                      <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center flex-shrink-0">
+                        {tool.icon}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h4 className="font-medium text-sm">{tool.name}</h4>
+                        <p className="text-xs text-muted-foreground mt-0.5">{tool.description}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 
@@ -406,7 +514,7 @@ export const ExamMaterialsBrowser: React.FC<ExamMaterialsBrowserProps> = ({ onCl
             <span className="text-sm font-medium">Exam Materials Browser</span>
           </div>
 
-          {viewMode !== 'home' && (
+          {viewMode !== 'home' && webAllowed && (
             <div className="flex-1 max-w-md mx-4">
               <div className="flex gap-2">
                 <Input
@@ -438,7 +546,7 @@ export const ExamMaterialsBrowser: React.FC<ExamMaterialsBrowserProps> = ({ onCl
         <div className="flex items-center justify-between px-4 py-2 border-t bg-card text-xs text-muted-foreground">
           <div className="flex items-center gap-2">
             <Clock size={12} />
-            <span>Exam-approved resources only</span>
+            <span>{restricted ? 'Only what this exam allows' : 'Exam-approved resources only'}</span>
           </div>
           <div className="flex items-center gap-2">
             <CheckCircle2 size={12} className="text-success" />
@@ -0,0 +1,321 @@
+/**
+ * ExamSessionsPanel Component
+ * Running exam sessions, each restricting only the classes and rooms it
+ * names. A teacher proposes one and it starts once a second teacher or admin
+ * approves it; several can run at once. Only the starter or an admin can end
+ * it. Sessions for published exams are started and ended by the scheduler, and
+ * ending one early is the override of the exam's author. Each session shows
+ * how often its students opened the offline desk tools.
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useApp } from '@/contexts/AppContext';
+import { ExamSession } from '@/types';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { FileText, Plus, Square, Loader2, DoorOpen, GraduationCap, CalendarClock, Lock, Calculator } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+interface Class {
+  id: string;
+  name: string;
+  room: string | null;
+}
+
+export const ExamSessionsPanel: React.FC = () => {
+  const { currentUser, examSessions, startExamSession, endExamSession } = useApp();
+  const [classes, setClasses] = useState<Class[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [selectedClassIds, setSelectedClassIds] = useState<string[]>([]);
+  const [selectedRooms, setSelectedRooms] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Desk tool uses per running session
+  const [toolUses, setToolUses] = useState<Record<string, number>>({});
+
+  const sessionKey = examSessions.map(s => s.id).join(',');
+
+  const fetchClasses = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('classes')
+      .select('id, name, room')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching classes:', error);
+      return;
+    }
+    setClasses(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchClasses();
+  }, [fetchClasses]);
+
+  useEffect(() => {
+    const sessionIds = sessionKey ? sessionKey.split(',') : [];
+    if (sessionIds.length === 0) {
+      setToolUses({});
+      return;
+    }
+
+    const fetchToolUses = async () => {
+      const { data, error } = await supabase
+        .from('exam_tool_uses')
+        .select('session_id')
+        .in('session_id', sessionIds);
+
+      if (error) {
+        console.error('Error fetching exam tool uses:', error);
+        return;
+      }
+      const counts: Record<string, number> = {};
+      (data || []).forEach(row => {
+        counts[row.session_id] = (counts[row.session_id] ?? 0) + 1;
+      });
+      setToolUses(counts);
+    };
+    fetchToolUses();
+
+    const channel = supabase
+      .channel('exam_tool_uses-changes')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'exam_tool_uses' },
+        (payload) => {
+          const sessionId = (payload.new as { session_id: string | null }).session_id;
+          if (sessionId && sessionIds.includes(sessionId)) {
+            setToolUses(prev => ({ ...prev, [sessionId]: (prev[sessionId] ?? 0) + 1 }));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionKey]);
+
+  const rooms = useMemo(
+    () => [...new Set(classes.map(c => c.room).filter((r): r is string => !!r))].sort(),
+    [classes]
+  );
+
+  // "10A, 10B · Room B12" for a session's scope
+  const describeScope = (session: ExamSession) => {
+    const classNames = session.classIds.map(id => classes.find(c => c.id === id)?.name ?? 'Unknown class');
+    const roomNames = session.rooms.map(r => `Room ${r}`);
+    return [...classNames, ...roomNames];
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const openDialog = () => {
+    setTitle('');
+    setSelectedClassIds([]);
+    setSelectedRooms([]);
+    fetchClasses();
+    setIsDialogOpen(true);
+  };
+
+  const handleStart = async () => {
+    if (!title.trim()) {
+      toast.error('Please enter a title');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const success = await startExamSession(title.trim(), selectedClassIds, selectedRooms);
+    setIsSubmitting(false);
+
+    if (success) {
+      toast.success('Waiting for a second approval', {
+        description: `${title.trim()} starts once another teacher or admin approves it`,
+      });
+      setIsDialogOpen(false);
+    }
+  };
+
+  const handleEnd = async (session: ExamSession) => {
+    setBusyId(session.id);
+    const success = await endExamSession(session.id);
+    setBusyId(null);
+
+    if (success) {
+      toast.success('Exam Session Ended', {
+        description: session.examId
+          ? `${session.title} will not restart before its next scheduled window`
+          : session.title,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileText size={18} className={examSessions.length > 0 ? 'text-warning' : 'text-muted-foreground'} />
+          Exam Sessions
+          {examSessions.length > 0 && (
+            <Badge variant="secondary" className="ml-auto">{examSessions.length} running</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Restrict only the students of the chosen classes or rooms
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {examSessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exam sessions running</p>
+        ) : (
+          examSessions.map(session => (
+            <div key={session.id} className="p-3 rounded-lg border border-warning/40 bg-warning/5 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">{session.title}</span>
+                {(session.startedBy === currentUser?.id || currentUser?.role === 'admin') && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleEnd(session)}
+                    disabled={busyId === session.id}
+                  >
+                    {busyId === session.id ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Square size={14} className="mr-1" />}
+                    {session.examId ? 'End Early' : 'End'}
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {describeScope(session).map(label => (
+                  <Badge key={label} variant="outline" className="text-xs">{label}</Badge>
+                ))}
+                {session.endsAt && (
+                  <Badge variant="secondary" className="text-xs">
+                    <CalendarClock size={12} className="mr-1" />
+                    Scheduled until {format(session.endsAt, 'h:mm a')}
+                  </Badge>
+                )}
+                {session.lockedLockerCount > 0 && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Lock size={12} className="mr-1" />
+                    {session.lockedLockerCount} lockers locked
+                  </Badge>
+                )}
+                {toolUses[session.id] > 0 && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Calculator size={12} className="mr-1" />
+                    {toolUses[session.id]} desk tool uses
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Started by {session.startedByName} · {formatDistanceToNow(session.startedAt, { addSuffix: true })}
+              </p>
+            </div>
+          ))
+        )}
+
+        <Button variant="outline" className="w-full" onClick={openDialog}>
+          <Plus size={16} className="mr-2" />
+          Start Exam Session
+        </Button>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Start Exam Session</DialogTitle>
+            <DialogDescription>
+              Once a second teacher or admin approves, students enrolled in a chosen class, or in a class taught in a chosen room, are restricted until you end it
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="exam-session-title">Title</Label>
+              <Input
+                id="exam-session-title"
+                placeholder="e.g., Year 10 Maths mock"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Classes</Label>
+              {classes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No classes yet</p>
+              ) : (
+                <ScrollArea className="h-[160px] rounded-md border p-2">
+                  {classes.map(cls => (
+                    <label
+                      key={cls.id}
+                      className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selectedClassIds.includes(cls.id)}
+                        onCheckedChange={() => setSelectedClassIds(prev => toggle(prev, cls.id))}
+                      />
+                      <GraduationCap size={14} className="text-muted-foreground" />
+                      <span className="text-sm flex-1">{cls.name}</span>
+                    </label>
+                  ))}
+                </ScrollArea>
+              )}
+            </div>
+
+            {rooms.length > 0 && (
+              <div className="space-y-2">
+                <Label>Rooms</Label>
+                <div className="flex flex-wrap gap-2">
+                  {rooms.map(room => (
+                    <label
+                      key={room}
+                      className="flex items-center gap-2 rounded-md border px-2 py-1.5 hover:bg-muted cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selectedRooms.includes(room)}
+                        onCheckedChange={() => setSelectedRooms(prev => toggle(prev, room))}
+                      />
+                      <DoorOpen size={14} className="text-muted-foreground" />
+                      <span className="text-sm">{room}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleStart}
+              disabled={isSubmitting || (selectedClassIds.length === 0 && selectedRooms.length === 0)}
+            >
+              {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+              Propose Session
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ExamSessionsPanel;
@@ -0,0 +1,36 @@
+/**
+ * DeskToolDialog Component
+ * Opens the calculator or the unit converter over the desk
+ */
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScientificCalculator } from './ScientificCalculator';
+import { UnitConverter } from './UnitConverter';
+import { EXAM_TOOL_LABELS } from '@/hooks/useExamToolPolicy';
+
+type DeskToolDialogProps = {
+  tool: 'calculator' | 'unit_converter' | null;
+  onClose: () => void;
+};
+
+export const DeskToolDialog: React.FC<DeskToolDialogProps> = ({ tool, onClose }) => (
+  <Dialog open={!!tool} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="max-w-sm">
+      <DialogHeader>
+        <DialogTitle>{tool && EXAM_TOOL_LABELS[tool]}</DialogTitle>
+        <DialogDescription>Works on this desk without a network connection</DialogDescription>
+      </DialogHeader>
+      {tool === 'calculator' && <ScientificCalculator />}
+      {tool === 'unit_converter' && <UnitConverter />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default DeskToolDialog;
@@ -0,0 +1,135 @@
+/**
+ * FormulaSheetViewer Component
+ * Shows the formula sheets teachers uploaded for the running exams. Sheets
+ * are fetched through the service worker cache, so they open offline once
+ * the desk has loaded them.
+ */
+
+import React, { Suspense, lazy, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FormulaSheet, formulaSheetUrl } from '@/hooks/useExamToolPolicy';
+import { X, Loader2, FileText, AlertCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const PDFReader = lazy(() => import('@/components/LearningLibrary/PDFReader'));
+
+type FormulaSheetViewerProps = {
+  sheets: FormulaSheet[];
+  onClose: () => void;
+};
+
+export const FormulaSheetViewer: React.FC<FormulaSheetViewerProps> = ({ sheets, onClose }) => {
+  const [selectedId, setSelectedId] = useState(sheets[0]?.exam_id ?? null);
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sheet = sheets.find(s => s.exam_id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!sheet) return;
+    let cancelled = false;
+    setBlob(null);
+    setError(null);
+
+    fetch(formulaSheetUrl(sheet))
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.blob();
+      })
+      .then(data => {
+        if (!cancelled) setBlob(data);
+      })
+      .catch(err => {
+        console.error('Error loading formula sheet:', err);
+        if (!cancelled) setError('The formula sheet could not be loaded on this desk.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sheet]);
+
+  const imageUrl = useMemo(
+    () => (blob && blob.type.startsWith('image/') ? URL.createObjectURL(blob) : null),
+    [blob],
+  );
+
+  useEffect(() => {
+    return () => {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+    };
+  }, [imageUrl]);
+
+  const renderSheet = () => {
+    if (error) {
+      return (
+        <div className="flex flex-col items-center justify-center gap-3 py-16 text-center text-muted-foreground">
+          <AlertCircle size={32} />
+          <p>{error}</p>
+        </div>
+      );
+    }
+
+    if (!blob) {
+      return (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="animate-spin text-primary" size={32} />
+        </div>
+      );
+    }
+
+    if (imageUrl) {
+      return <img src={imageUrl} alt={sheet?.title} className="mx-auto max-w-full" draggable={false} />;
+    }
+
+    return (
+      <Suspense fallback={
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="animate-spin text-primary" size={32} />
+        </div>
+      }>
+        <PDFReader blob={blob} title={`${sheet?.title} formula sheet`} onClose={onClose} />
+      </Suspense>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 backdrop-blur-sm animate-fade-in">
+      <div className="h-full flex flex-col max-w-4xl mx-auto">
+        <div className="flex items-center gap-2 p-3 border-b bg-card">
+          <div className="flex-1 flex items-center gap-2">
+            <FileText className="text-primary" size={18} />
+            <span className="text-sm font-medium">Formula Sheet</span>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose}>
+            <X size={18} />
+          </Button>
+        </div>
+
+        {sheets.length > 1 && (
+          <div className="flex flex-wrap gap-2 p-3 border-b">
+            {sheets.map(s => (
+              <Button
+                key={s.exam_id}
+                size="sm"
+                variant={s.exam_id === selectedId ? 'default' : 'outline'}
+                className={cn(s.exam_id !== selectedId && 'text-muted-foreground')}
+                onClick={() => setSelectedId(s.exam_id)}
+              >
+                {s.title}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto p-4">
+          {sheet ? renderSheet() : (
+            <p className="py-16 text-center text-muted-foreground">No formula sheet for this exam.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FormulaSheetViewer;
@@ -0,0 +1,152 @@
+/**
+ * ScientificCalculator Component
+ * Offline scientific calculator for the desk; expressions are parsed
+ * locally, never sent anywhere
+ */
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { evaluateExpression, formatResult, AngleMode, CalculatorError } from '@/lib/calculator';
+import { Delete } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type Key = {
+  label: string;
+  // Text inserted into the expression; defaults to the label
+  insert?: string;
+  // Digits when omitted
+  variant?: 'function' | 'operator';
+};
+
+const KEYS: Key[] = [
+  { label: 'sin', insert: 'sin(', variant: 'function' },
+  { label: 'cos', insert: 'cos(', variant: 'function' },
+  { label: 'tan', insert: 'tan(', variant: 'function' },
+  { label: 'xʸ', insert: '^', variant: 'function' },
+  { label: '√', insert: 'sqrt(', variant: 'function' },
+  { label: 'sin⁻¹', insert: 'asin(', variant: 'function' },
+  { label: 'cos⁻¹', insert: 'acos(', variant: 'function' },
+  { label: 'tan⁻¹', insert: 'atan(', variant: 'function' },
+  { label: 'x²', insert: '^2', variant: 'function' },
+  { label: 'n!', insert: '!', variant: 'function' },
+  { label: 'ln', insert: 'ln(', variant: 'function' },
+  { label: 'log', insert: 'log(', variant: 'function' },
+  { label: 'π', variant: 'function' },
+  { label: 'e', variant: 'function' },
+  { label: 'Ans', insert: 'ans', variant: 'function' },
+  { label: '7' }, { label: '8' }, { label: '9' },
+  { label: '(', variant: 'operator' },
+  { label: ')', variant: 'operator' },
+  { label: '4' }, { label: '5' }, { label: '6' },
+  { label: '×', variant: 'operator' },
+  { label: '÷', variant: 'operator' },
+  { label: '1' }, { label: '2' }, { label: '3' },
+  { label: '+', variant: 'operator' },
+  { label: '−', variant: 'operator' },
+  { label: '0' }, { label: '.' },
+  { label: '×10ˣ', insert: '×10^', variant: 'operator' },
+  { label: '%', variant: 'operator' },
+];
+
+export const ScientificCalculator: React.FC = () => {
+  const [expression, setExpression] = useState('');
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ans, setAns] = useState(0);
+  const [angle, setAngle] = useState<AngleMode>('deg');
+  // Last calculated expression, shown above the input
+  const [lastExpression, setLastExpression] = useState<string | null>(null);
+
+  const insert = (text: string) => {
+    setExpression(prev => prev + text);
+    setError(null);
+  };
+
+  const backspace = () => setExpression(prev => prev.slice(0, -1));
+
+  const clear = () => {
+    setExpression('');
+    setResult(null);
+    setError(null);
+  };
+
+  const calculate = () => {
+    if (!expression.trim()) return;
+    try {
+      const value = evaluateExpression(expression, angle, ans);
+      const formatted = formatResult(value);
+      setAns(value);
+      setResult(formatted);
+      setError(null);
+      setLastExpression(expression);
+    } catch (err) {
+      setError(err instanceof CalculatorError ? err.message : 'Cannot calculate that');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Display */}
+      <div className="rounded-lg border bg-muted/40 p-3 space-y-1">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <button
+            type="button"
+            className="rounded px-1.5 py-0.5 font-medium hover:bg-muted"
+            onClick={() => setAngle(angle === 'deg' ? 'rad' : 'deg')}
+            title="Switch angle unit"
+          >
+            {angle === 'deg' ? 'DEG' : 'RAD'}
+          </button>
+          {lastExpression && <span className="truncate">{lastExpression} =</span>}
+        </div>
+        <Input
+          value={expression}
+          onChange={(e) => {
+            setExpression(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => e.key === 'Enter' && calculate()}
+          placeholder="0"
+          autoFocus
+          autoComplete="off"
+          spellCheck={false}
+          className="h-10 border-0 bg-transparent px-0 text-right font-mono text-lg shadow-none focus-visible:ring-0"
+          aria-label="Expression"
+        />
+        <div
+          className={cn('text-right font-mono text-2xl font-semibold min-h-8', error && 'text-base text-danger')}
+          aria-live="polite"
+        >
+          {error ?? result ?? ''}
+        </div>
+      </div>
+
+      {/* Keypad */}
+      <div className="grid grid-cols-5 gap-1.5">
+        {KEYS.map(key => (
+          <Button
+            key={key.label}
+            type="button"
+            variant={key.variant === 'function' ? 'secondary' : key.variant === 'operator' ? 'outline' : 'ghost'}
+            className={cn('h-10 px-0', !key.variant && 'border bg-card text-base font-medium')}
+            onClick={() => insert(key.insert ?? key.label)}
+          >
+            {key.label}
+          </Button>
+        ))}
+        <Button type="button" variant="outline" className="h-10 px-0" onClick={backspace} title="Delete">
+          <Delete size={16} />
+        </Button>
+        <Button type="button" variant="outline" className="h-10 px-0 text-danger" onClick={clear}>
+          AC
+        </Button>
+        <Button type="button" className="col-span-4 h-10" onClick={calculate}>
+          =
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ScientificCalculator;
@@ -0,0 +1,118 @@
+/**
+ * UnitConverter Component
+ * Offline unit converter for the desk
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { UNITS, UNIT_CATEGORY_LABELS, UnitCategory, convertUnit } from '@/lib/unitConversion';
+import { formatResult } from '@/lib/calculator';
+import { ArrowLeftRight } from 'lucide-react';
+
+export const UnitConverter: React.FC = () => {
+  const [category, setCategory] = useState<UnitCategory>('length');
+  const [fromId, setFromId] = useState(UNITS.length[2].id);
+  const [toId, setToId] = useState(UNITS.length[3].id);
+  const [value, setValue] = useState('1');
+
+  const units = UNITS[category];
+  const from = units.find(u => u.id === fromId) ?? units[0];
+  const to = units.find(u => u.id === toId) ?? units[1];
+
+  const result = useMemo(() => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? formatResult(convertUnit(parsed, from, to)) : null;
+  }, [value, from, to]);
+
+  const changeCategory = (next: UnitCategory) => {
+    setCategory(next);
+    setFromId(UNITS[next][0].id);
+    setToId(UNITS[next][1].id);
+  };
+
+  const swap = () => {
+    setFromId(to.id);
+    setToId(from.id);
+    if (result !== null) setValue(result);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Quantity</Label>
+        <Select value={category} onValueChange={(v) => changeCategory(v as UnitCategory)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(UNITS) as UnitCategory[]).map(c => (
+              <SelectItem key={c} value={c}>{UNIT_CATEGORY_LABELS[c]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="convert-value">From</Label>
+          <Input
+            id="convert-value"
+            type="number"
+            inputMode="decimal"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="font-mono"
+          />
+          <Select value={from.id} onValueChange={setFromId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {units.map(u => (
+                <SelectItem key={u.id} value={u.id}>{u.label} ({u.symbol})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button type="button" variant="ghost" size="icon" className="mb-12" onClick={swap} title="Swap units">
+          <ArrowLeftRight size={16} />
+        </Button>
+
+        <div className="space-y-2">
+          <Label>To</Label>
+          <div className="flex h-10 items-center rounded-md border bg-muted/40 px-3 font-mono" aria-live="polite">
+            {result ?? '—'}
+          </div>
+          <Select value={to.id} onValueChange={setToId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {units.map(u => (
+                <SelectItem key={u.id} value={u.id}>{u.label} ({u.symbol})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {result !== null && (
+        <p className="text-center text-sm text-muted-foreground">
+          {value} {from.symbol} = {result} {to.symbol}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UnitConverter;
@@ -0,0 +1,8 @@
+/**
+ * Offline Desk Tools Components Index
+ */
+
+export { DeskToolDialog } from './DeskToolDialog';
+export { FormulaSheetViewer } from './FormulaSheetViewer';
+export { ScientificCalculator } from './ScientificCalculator';
+export { UnitConverter } from './UnitConverter';
@@ -5,11 +5,13 @@
  */
 
 import React from 'react';
-import { Locker } from '@/types';
+import { Locker, LockerCommandState } from '@/types';
+import { UnlockRequest } from '@/hooks/useUnlockRequests';
 import { StatusBadge } from './StatusBadge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Lock, Unlock, MapPin, User } from 'lucide-react';
+import { Lock, Unlock, MapPin, User, RotateCcw, KeyRound, Hand, Clock, Wrench, History } from 'lucide-react';
+import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
 
 interface LockerCardProps {
@@ -18,15 +20,46 @@ interface LockerCardProps {
   isOwner?: boolean;
   // Callback for toggling locker status
   onToggle?: () => void;
+  // Callback for asking a teacher to open a staff-locked locker (owner only)
+  onRequestUnlock?: () => void;
+  // The owner's latest unlock request for this locker
+  unlockRequest?: UnlockRequest | null;
   // Callback for locking (teacher only)
   onLock?: () => void;
   // Callback for unlocking (teacher only)
   onUnlock?: () => void;
+  // Callback for re-sending a failed hardware command (teacher only)
+  onRetry?: () => void;
+  // Callback for issuing a one-time kiosk unlock code (teacher only)
+  onIssueCode?: () => void;
+  // Callback for opening the maintenance ticket (teacher only)
+  onMaintenance?: () => void;
+  // Callback for opening the locker's history timeline (teacher only)
+  onHistory?: () => void;
   // Whether to show teacher controls
   showTeacherControls?: boolean;
   className?: string;
 }
 
+/**
+ * Describe the last hardware command for the card's status line
+ */
+const getCommandMessage = (state: LockerCommandState, isLocked: boolean): string => {
+  const action = isLocked ? 'Lock' : 'Unlock';
+  switch (state) {
+    case 'requested':
+      return `${action} requested`;
+    case 'pending':
+      return 'Waiting for the lock to respond';
+    case 'timed_out':
+      return `${action} not confirmed - the lock did not respond`;
+    case 'jammed':
+      return `${action} failed - the lock reported a fault`;
+    default:
+      return '';
+  }
+};
+
 /**
  * LockerCard Component
  * Renders a visual representation of a locker with controls
@@ -35,12 +68,26 @@ export const LockerCard: React.FC<LockerCardProps> = ({
   locker,
   isOwner = false,
   onToggle,
+  onRequestUnlock,
+  unlockRequest,
   onLock,
   onUnlock,
+  onRetry,
+  onIssueCode,
+  onMaintenance,
+  onHistory,
   showTeacherControls = false,
   className,
 }) => {
   const isLocked = locker.status === 'locked';
+  const isConfirmed = locker.commandState === 'confirmed';
+  const hasFault = locker.commandState === 'timed_out' || locker.commandState === 'jammed';
+  // Locked by a teacher or a schedule rather than by the student themselves
+  const lockedByStaff = isLocked && !!locker.lockedBy && locker.lockedBy !== locker.studentId;
+  const requestPending = unlockRequest?.status === 'pending';
+  const timedUnlockUntil = !isLocked && unlockRequest?.status === 'approved' && !unlockRequest.relocked_at
+    ? unlockRequest.relock_at
+    : null;
   
   return (
     <Card 
@@ -55,7 +102,8 @@ export const LockerCard: React.FC<LockerCardProps> = ({
       <div 
         className={cn(
           'absolute top-0 left-0 right-0 h-1',
-          isLocked ? 'bg-danger' : 'bg-success'
+          locker.outOfService ? 'bg-muted-foreground' : hasFault ? 'bg-warning' : isLocked ? 'bg-danger' : 'bg-success',
+          !isConfirmed && !hasFault && 'animate-pulse'
         )}
       />
       
@@ -75,7 +123,10 @@ export const LockerCard: React.FC<LockerCardProps> = ({
               <span>{locker.id}</span>
             </CardTitle>
           </div>
-          <StatusBadge variant={isLocked ? 'locked' : 'unlocked'} size="sm" />
+          <div className="flex flex-col items-end gap-1">
+            <StatusBadge variant={isLocked ? 'locked' : 'unlocked'} size="sm" />
+            {locker.outOfService && <StatusBadge variant="out_of_service" size="sm" />}
+          </div>
         </div>
       </CardHeader>
       
@@ -98,15 +149,70 @@ export const LockerCard: React.FC<LockerCardProps> = ({
             </div>
           )}
         </div>
+
+        {/* Hardware command status - only shown until the lock confirms */}
+        {!isConfirmed && (
+          <div
+            className={cn(
+              'flex items-start gap-2 p-2 rounded-md text-xs',
+              hasFault ? 'bg-danger/10 text-danger' : 'bg-muted text-muted-foreground'
+            )}
+          >
+            <StatusBadge variant={locker.commandState as Exclude<LockerCommandState, 'confirmed'>} size="sm" />
+            <div className="flex-1 pt-0.5">
+              <p>{getCommandMessage(locker.commandState, isLocked)}</p>
+              {hasFault && locker.commandError && (
+                <p className="opacity-80">{locker.commandError}</p>
+              )}
+            </div>
+          </div>
+        )}
         
+        {/* Out of service - the owner cannot operate it */}
+        {isOwner && locker.outOfService && (
+          <div className="flex items-start gap-2 p-2 rounded-md text-xs bg-warning/10 text-warning">
+            <Wrench size={14} className="mt-0.5" />
+            <p className="flex-1">This locker is out of service for maintenance. Ask a teacher if you need your things.</p>
+          </div>
+        )}
+
+        {/* Unlock request status - owner only */}
+        {isOwner && unlockRequest && (requestPending || timedUnlockUntil || (isLocked && unlockRequest.status === 'denied')) && (
+          <div className="flex items-start gap-2 p-2 rounded-md text-xs bg-muted text-muted-foreground">
+            {timedUnlockUntil ? <Clock size={14} className="mt-0.5" /> : <Hand size={14} className="mt-0.5" />}
+            <div className="flex-1">
+              {requestPending && <p>Unlock requested - waiting for a teacher</p>}
+              {timedUnlockUntil && <p>Unlocked until {format(new Date(timedUnlockUntil), 'h:mm a')}, then re-locks automatically</p>}
+              {unlockRequest.status === 'denied' && <p className="text-danger">Your unlock request was denied</p>}
+              {!requestPending && unlockRequest.response_message && (
+                <p className="opacity-80">"{unlockRequest.response_message}"</p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Controls */}
         <div className="flex gap-2">
+          {/* Staff-locked: the owner can only ask for access */}
+          {isOwner && lockedByStaff && onRequestUnlock && !locker.outOfService && (
+            <Button
+              onClick={onRequestUnlock}
+              variant="default"
+              className="flex-1"
+              disabled={requestPending}
+            >
+              <Hand size={16} className="mr-2" />
+              {requestPending ? 'Request Pending' : 'Request Unlock'}
+            </Button>
+          )}
+
           {/* Owner toggle button */}
-          {isOwner && onToggle && (
+          {isOwner && onToggle && !(lockedByStaff && onRequestUnlock) && (
             <Button
               onClick={onToggle}
               variant={isLocked ? 'default' : 'secondary'}
               className="flex-1"
+              disabled={locker.outOfService}
             >
               {isLocked ? (
                 <>
@@ -145,6 +251,46 @@ export const LockerCard: React.FC<LockerCardProps> = ({
                 <Lock size={14} className="mr-1" />
                 Lock
               </Button>
+              {hasFault && onRetry && (
+                <Button
+                  onClick={onRetry}
+                  variant="outline"
+                  size="sm"
+                  title="Re-send the last command to the lock"
+                >
+                  <RotateCcw size={14} />
+                </Button>
+              )}
+              {onIssueCode && (
+                <Button
+                  onClick={onIssueCode}
+                  variant="outline"
+                  size="sm"
+                  title="Issue a one-time kiosk unlock code"
+                >
+                  <KeyRound size={14} />
+                </Button>
+              )}
+              {onMaintenance && (
+                <Button
+                  onClick={onMaintenance}
+                  variant={locker.outOfService ? 'secondary' : 'outline'}
+                  size="sm"
+                  title={locker.outOfService ? 'View maintenance ticket' : 'Take out of service'}
+                >
+                  <Wrench size={14} />
+                </Button>
+              )}
+              {onHistory && (
+                <Button
+                  onClick={onHistory}
+                  variant="outline"
+                  size="sm"
+                  title="View locker history"
+                >
+                  <History size={14} />
+                </Button>
+              )}
             </div>
           )}
         </div>
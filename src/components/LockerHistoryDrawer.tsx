@@ -0,0 +1,113 @@
+/**
+ * LockerHistoryDrawer Component
+ * Side drawer with a locker's full timeline: every lock, unlock, assignment
+ * and service change, who made it and when
+ */
+
+import React from 'react';
+import { Locker } from '@/types';
+import { useLockerEvents, LockerEventType } from '@/hooks/useLockerEvents';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Lock,
+  Unlock,
+  UserPlus,
+  UserMinus,
+  Wrench,
+  CheckCircle2,
+  PlusCircle,
+  Trash2,
+  History,
+  Loader2,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+interface LockerHistoryDrawerProps {
+  // Locker whose history is shown; the drawer is open while this is set
+  locker: Locker | null;
+  onClose: () => void;
+}
+
+const EVENT_DISPLAY: Record<LockerEventType, { label: string; icon: React.ElementType; className: string }> = {
+  added: { label: 'Locker added', icon: PlusCircle, className: 'text-primary' },
+  deleted: { label: 'Locker removed', icon: Trash2, className: 'text-destructive' },
+  locked: { label: 'Locked', icon: Lock, className: 'text-danger' },
+  unlocked: { label: 'Unlocked', icon: Unlock, className: 'text-success' },
+  assigned: { label: 'Assigned', icon: UserPlus, className: 'text-primary' },
+  unassigned: { label: 'Unassigned', icon: UserMinus, className: 'text-muted-foreground' },
+  out_of_service: { label: 'Out of service', icon: Wrench, className: 'text-warning' },
+  back_in_service: { label: 'Back in service', icon: CheckCircle2, className: 'text-success' },
+};
+
+export const LockerHistoryDrawer: React.FC<LockerHistoryDrawerProps> = ({ locker, onClose }) => {
+  const { events, isLoading } = useLockerEvents(locker?.id ?? null);
+
+  return (
+    <Sheet open={!!locker} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History size={18} />
+            Locker {locker?.id} History
+          </SheetTitle>
+          <SheetDescription>
+            {locker?.location}
+            {locker?.studentName && locker.studentName !== 'Unassigned' && ` · ${locker.studentName}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6 mt-4">
+          {isLoading && events.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 size={20} className="animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No history recorded yet</p>
+          ) : (
+            <ol className="relative border-l border-border ml-3 space-y-5 pb-4">
+              {events.map(event => {
+                const display = EVENT_DISPLAY[event.event];
+                const Icon = display.icon;
+                return (
+                  <li key={event.id} className="ml-6">
+                    <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-background border border-border">
+                      <Icon size={12} className={display.className} />
+                    </span>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className={cn('text-sm font-medium', display.className)}>{display.label}</p>
+                      {event.student_name && (
+                        <span className="text-sm text-muted-foreground">
+                          {event.event === 'unassigned' ? 'from' : event.event === 'assigned' ? 'to' : '·'} {event.student_name}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1.5">
+                      {event.actor_name}
+                      <Badge variant="outline" className="text-[10px] px-1.5 py-0 capitalize">
+                        {event.actor_role}
+                      </Badge>
+                    </p>
+                    <time className="text-xs text-muted-foreground">
+                      {format(new Date(event.created_at), 'MMM d, yyyy h:mm:ss a')}
+                    </time>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LockerHistoryDrawer;
@@ -0,0 +1,183 @@
+/**
+ * LockerIncidentPanel Component
+ * Realtime alarm panel for forced-open, door-ajar and low-battery incidents
+ * Staff acknowledge an incident, keep notes on it and close it once resolved.
+ * Renders nothing while there are no active incidents.
+ */
+
+import React, { useState } from 'react';
+import { useLockerIncidents, LockerIncident, INCIDENT_LABELS } from '@/hooks/useLockerIncidents';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Siren, Eye, MessageSquarePlus, CheckCircle2, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+type NoteMode = 'note' | 'close';
+
+const SEVERITY_STYLES: Record<LockerIncident['severity'], string> = {
+  critical: 'border-destructive/50 bg-destructive/5',
+  warning: 'border-warning/50 bg-warning/5',
+  info: 'border-border',
+};
+
+export const LockerIncidentPanel: React.FC = () => {
+  const { activeIncidents, isLoading, acknowledgeIncident, closeIncident, addNote } = useLockerIncidents();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [noteTarget, setNoteTarget] = useState<{ incident: LockerIncident; mode: NoteMode } | null>(null);
+  const [noteText, setNoteText] = useState('');
+
+  if (isLoading || activeIncidents.length === 0) return null;
+
+  const openCount = activeIncidents.filter(i => i.status === 'open').length;
+
+  const handleAcknowledge = async (incident: LockerIncident) => {
+    setBusyId(incident.id);
+    const success = await acknowledgeIncident(incident.id);
+    setBusyId(null);
+
+    if (success) {
+      toast.success('Incident Acknowledged', { description: `Locker ${incident.locker_id}` });
+    }
+  };
+
+  const handleSubmitNote = async () => {
+    if (!noteTarget) return;
+    const { incident, mode } = noteTarget;
+
+    setBusyId(incident.id);
+    const success = mode === 'close'
+      ? await closeIncident(incident.id, noteText.trim())
+      : await addNote(incident.id, noteText.trim());
+    setBusyId(null);
+
+    if (success) {
+      if (mode === 'close') {
+        toast.success('Incident Closed', { description: `Locker ${incident.locker_id}` });
+      }
+      setNoteTarget(null);
+      setNoteText('');
+    }
+  };
+
+  return (
+    <Card className={cn('border-2', openCount > 0 ? 'border-destructive' : 'border-warning')}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Siren size={18} className={cn(openCount > 0 ? 'text-destructive animate-pulse' : 'text-warning')} />
+          Locker Alarms
+          {openCount > 0 && (
+            <Badge variant="destructive" className="ml-auto">{openCount} new</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Reported by the locker hardware</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {activeIncidents.map(incident => (
+          <div key={incident.id} className={cn('p-3 rounded-lg border space-y-2', SEVERITY_STYLES[incident.severity])}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-sm">
+                {INCIDENT_LABELS[incident.event_type]} · Locker {incident.locker_id}
+              </span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {formatDistanceToNow(new Date(incident.last_event_at), { addSuffix: true })}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {incident.event_count > 1 && `${incident.event_count} events · `}
+              {incident.last_detail && `${incident.last_detail} · `}
+              {incident.status === 'acknowledged'
+                ? `Acknowledged by ${incident.acknowledged_by_name}`
+                : 'Not yet acknowledged'}
+            </p>
+
+            {incident.notes.length > 0 && (
+              <ul className="space-y-1 border-l-2 pl-2">
+                {incident.notes.map(note => (
+                  <li key={note.id} className="text-xs">
+                    <span className="font-medium">{note.author_name}:</span> {note.note}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              {incident.status === 'open' && (
+                <Button size="sm" onClick={() => handleAcknowledge(incident)} disabled={busyId === incident.id}>
+                  <Eye size={14} className="mr-1" />
+                  Acknowledge
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setNoteTarget({ incident, mode: 'note' })}
+                disabled={busyId === incident.id}
+              >
+                <MessageSquarePlus size={14} className="mr-1" />
+                Note
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setNoteTarget({ incident, mode: 'close' })}
+                disabled={busyId === incident.id}
+              >
+                <CheckCircle2 size={14} className="mr-1" />
+                Close
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!noteTarget} onOpenChange={(open) => !open && setNoteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{noteTarget?.mode === 'close' ? 'Close Incident' : 'Add Note'}</DialogTitle>
+            <DialogDescription>
+              {noteTarget && `${INCIDENT_LABELS[noteTarget.incident.event_type]} · locker ${noteTarget.incident.locker_id}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="incident-note">
+              {noteTarget?.mode === 'close' ? 'What was found and done' : 'Note'}
+            </Label>
+            <Textarea
+              id="incident-note"
+              rows={3}
+              placeholder={noteTarget?.mode === 'close'
+                ? 'e.g., Door checked, latch intact, student had forgotten to close it'
+                : 'e.g., Caretaker on the way'}
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNoteTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitNote} disabled={!noteText.trim() || busyId === noteTarget?.incident.id}>
+              {busyId === noteTarget?.incident.id && <Loader2 size={16} className="mr-2 animate-spin" />}
+              {noteTarget?.mode === 'close' ? 'Close Incident' : 'Add Note'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LockerIncidentPanel;
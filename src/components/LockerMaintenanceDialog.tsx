@@ -0,0 +1,130 @@
+/**
+ * LockerMaintenanceDialog Component
+ * Takes a locker out of service with a maintenance ticket, or resolves the
+ * open ticket, and lists the locker's past tickets
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Locker } from '@/types';
+import { useLockerMaintenance } from '@/hooks/useLockerMaintenance';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Wrench, History, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface LockerMaintenanceDialogProps {
+  // Locker being serviced; the dialog is open while this is set
+  locker: Locker | null;
+  onClose: () => void;
+}
+
+export const LockerMaintenanceDialog: React.FC<LockerMaintenanceDialogProps> = ({ locker, onClose }) => {
+  const { tickets, openTicket, isLoading, reportIssue, resolveIssue } = useLockerMaintenance(locker?.id ?? null);
+  const [text, setText] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setText('');
+  }, [locker]);
+
+  const pastTickets = tickets.filter(t => t.resolved_at);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const success = openTicket ? await resolveIssue(text.trim()) : await reportIssue(text.trim());
+    setIsSubmitting(false);
+    if (success) onClose();
+  };
+
+  return (
+    <Dialog open={!!locker} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wrench size={18} />
+            Maintenance
+          </DialogTitle>
+          <DialogDescription>
+            {openTicket
+              ? `Locker ${locker?.id} is out of service`
+              : `Take locker ${locker?.id} out of service. It is skipped by assignment and bulk lock/unlock until resolved.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <Loader2 size={16} className="animate-spin text-muted-foreground" />
+          ) : openTicket ? (
+            <div className="p-3 rounded-lg border bg-secondary/50 text-sm space-y-1">
+              <p>{openTicket.issue}</p>
+              <p className="text-xs text-muted-foreground">
+                Reported by {openTicket.reported_by_name} · {format(new Date(openTicket.reported_at), 'MMM d, yyyy h:mm a')}
+              </p>
+            </div>
+          ) : null}
+
+          <div className="space-y-2">
+            <Label htmlFor="maintenance-text">{openTicket ? 'Resolution note (optional)' : 'Issue'}</Label>
+            <Textarea
+              id="maintenance-text"
+              rows={3}
+              placeholder={openTicket ? 'e.g., Replaced the latch' : 'e.g., Door does not close, latch broken'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+
+          {pastTickets.length > 0 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <History size={14} />
+                Past Tickets
+              </Label>
+              <ScrollArea className="max-h-40">
+                <ul className="space-y-2 text-sm">
+                  {pastTickets.map(ticket => (
+                    <li key={ticket.id}>
+                      <p className="truncate">{ticket.issue}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(ticket.reported_at), 'MMM d, yyyy')}
+                        {' – '}
+                        {format(new Date(ticket.resolved_at!), 'MMM d, yyyy')}
+                        {ticket.resolution_note && ` · ${ticket.resolution_note}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={openTicket ? 'default' : 'destructive'}
+            onClick={handleSubmit}
+            disabled={isSubmitting || isLoading || (!openTicket && !text.trim())}
+          >
+            {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+            {openTicket ? 'Return to Service' : 'Take Out of Service'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LockerMaintenanceDialog;
@@ -0,0 +1,111 @@
+/**
+ * LockerPinCard Component
+ * Lets a student set or change the PIN used at locker-bank kiosks
+ */
+
+import React, { useState } from 'react';
+import { useLockerCodes } from '@/hooks/useLockerCodes';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const PIN_PATTERN = /^\d{4,8}$/;
+
+export const LockerPinCard: React.FC = () => {
+  const { hasPin, setLockerPin } = useLockerCodes();
+  const [isEditing, setIsEditing] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setPin('');
+    setConfirmPin('');
+    setIsEditing(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!PIN_PATTERN.test(pin)) {
+      toast.error('PIN must be 4 to 8 digits');
+      return;
+    }
+    if (pin !== confirmPin) {
+      toast.error('PINs do not match');
+      return;
+    }
+
+    setSaving(true);
+    const success = await setLockerPin(pin);
+    setSaving(false);
+
+    if (success) reset();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <KeyRound size={16} className="text-primary" />
+          Kiosk PIN
+        </CardTitle>
+        <CardDescription>
+          {hasPin
+            ? 'Use your PIN to open your locker at the locker-bank kiosk'
+            : 'Set a PIN to open your locker at the locker-bank kiosk'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <form onSubmit={handleSave} className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="locker-pin">New PIN</Label>
+                <Input
+                  id="locker-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  maxLength={8}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="locker-pin-confirm">Confirm</Label>
+                <Input
+                  id="locker-pin-confirm"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  maxLength={8}
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                />
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" className="flex-1" onClick={reset}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" className="flex-1" disabled={saving}>
+                {saving && <Loader2 size={14} className="mr-2 animate-spin" />}
+                Save PIN
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => setIsEditing(true)}>
+            {hasPin ? 'Change PIN' : 'Set PIN'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LockerPinCard;
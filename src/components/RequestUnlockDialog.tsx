@@ -0,0 +1,85 @@
+/**
+ * RequestUnlockDialog Component
+ * Lets a student ask a teacher to open their staff-locked locker
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Locker } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Hand, Loader2 } from 'lucide-react';
+
+const MAX_REASON_LENGTH = 500;
+
+interface RequestUnlockDialogProps {
+  // Locker to request access to; the dialog is open while this is set
+  locker: Locker | null;
+  onClose: () => void;
+  onSubmit: (reason: string) => Promise<boolean>;
+}
+
+export const RequestUnlockDialog: React.FC<RequestUnlockDialogProps> = ({ locker, onClose, onSubmit }) => {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!locker) setReason('');
+  }, [locker]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    const success = await onSubmit(reason.trim());
+    setIsSubmitting(false);
+    if (success) onClose();
+  };
+
+  return (
+    <Dialog open={!!locker} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Hand size={18} />
+            Request Unlock
+          </DialogTitle>
+          <DialogDescription>
+            Locker {locker?.id} was locked by a teacher. Tell them why you need access.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="unlock-reason">Reason</Label>
+          <Textarea
+            id="unlock-reason"
+            rows={3}
+            maxLength={MAX_REASON_LENGTH}
+            placeholder="e.g., I left my calculator inside before the maths exam"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {reason.length}/{MAX_REASON_LENGTH}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !reason.trim()}>
+            {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+            Send Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RequestUnlockDialog;
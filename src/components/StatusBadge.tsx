@@ -5,11 +5,23 @@
  */
 
 import React from 'react';
-import { Lock, Unlock, BookOpen, FileText, AlertTriangle } from 'lucide-react';
+import { Lock, Unlock, BookOpen, FileText, AlertTriangle, Hourglass, Loader2, TimerOff, OctagonAlert, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 // Badge variant types
-type BadgeVariant = 'locked' | 'unlocked' | 'exam' | 'normal' | 'warning';
+type BadgeVariant =
+  | 'locked'
+  | 'unlocked'
+  | 'exam'
+  | 'normal'
+  | 'warning'
+  // Locker command lifecycle states
+  | 'requested'
+  | 'pending'
+  | 'timed_out'
+  | 'jammed'
+  // Locker taken out of service for maintenance
+  | 'out_of_service';
 
 interface StatusBadgeProps {
   variant: BadgeVariant;
@@ -36,6 +48,16 @@ const getIcon = (variant: BadgeVariant, size: number) => {
       return <BookOpen {...iconProps} />;
     case 'warning':
       return <AlertTriangle {...iconProps} />;
+    case 'requested':
+      return <Hourglass {...iconProps} />;
+    case 'pending':
+      return <Loader2 {...iconProps} className="flex-shrink-0 animate-spin" />;
+    case 'timed_out':
+      return <TimerOff {...iconProps} />;
+    case 'jammed':
+      return <OctagonAlert {...iconProps} />;
+    case 'out_of_service':
+      return <Wrench {...iconProps} />;
     default:
       return null;
   }
@@ -56,6 +78,16 @@ const getDefaultLabel = (variant: BadgeVariant): string => {
       return 'Normal Mode';
     case 'warning':
       return 'Warning';
+    case 'requested':
+      return 'Requested';
+    case 'pending':
+      return 'Pending';
+    case 'timed_out':
+      return 'Timed Out';
+    case 'jammed':
+      return 'Jammed';
+    case 'out_of_service':
+      return 'Out of Service';
     default:
       return '';
   }
@@ -89,6 +121,11 @@ export const StatusBadge: React.FC<StatusBadgeProps> = ({
     exam: 'status-exam',
     normal: 'status-normal',
     warning: 'status-exam', // Reuse exam styling for warnings
+    requested: 'status-pending',
+    pending: 'status-pending',
+    timed_out: 'status-fault',
+    jammed: 'status-fault',
+    out_of_service: 'status-maintenance',
   };
   
   return (
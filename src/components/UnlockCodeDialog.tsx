@@ -0,0 +1,108 @@
+/**
+ * UnlockCodeDialog Component
+ * Issues a one-time kiosk unlock code for a locker and shows it once
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Locker } from '@/types';
+import { useLockerCodes, IssuedUnlockCode } from '@/hooks/useLockerCodes';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+const VALIDITY_OPTIONS = [5, 15, 60, 240];
+
+interface UnlockCodeDialogProps {
+  // Locker to issue a code for; the dialog is open while this is set
+  locker: Locker | null;
+  onClose: () => void;
+}
+
+export const UnlockCodeDialog: React.FC<UnlockCodeDialogProps> = ({ locker, onClose }) => {
+  const { issueUnlockCode } = useLockerCodes();
+  const [validMinutes, setValidMinutes] = useState('15');
+  const [issued, setIssued] = useState<IssuedUnlockCode | null>(null);
+  const [issuing, setIssuing] = useState(false);
+
+  // Never keep a code around once the dialog is closed
+  useEffect(() => {
+    if (!locker) setIssued(null);
+  }, [locker]);
+
+  const handleIssue = async () => {
+    if (!locker) return;
+    setIssuing(true);
+    setIssued(await issueUnlockCode(locker.id, Number(validMinutes)));
+    setIssuing(false);
+  };
+
+  return (
+    <Dialog open={!!locker} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound size={18} />
+            One-Time Unlock Code
+          </DialogTitle>
+          <DialogDescription>
+            {locker && `Locker ${locker.id}${locker.studentName ? ` · ${locker.studentName}` : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {issued ? (
+          <div className="text-center space-y-2 py-4">
+            <p className="font-mono text-4xl font-bold tracking-[0.3em]">{issued.code}</p>
+            <p className="text-sm text-muted-foreground">
+              Valid for one use until {format(new Date(issued.expires_at), 'HH:mm')}.
+              It will not be shown again.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label>Valid for</Label>
+            <Select value={validMinutes} onValueChange={setValidMinutes}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VALIDITY_OPTIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes > 60 ? 's' : ''}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          {issued ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleIssue} disabled={issuing}>
+                {issuing && <Loader2 size={16} className="mr-2 animate-spin" />}
+                Issue Code
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnlockCodeDialog;
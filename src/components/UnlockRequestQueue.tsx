@@ -0,0 +1,164 @@
+/**
+ * UnlockRequestQueue Component
+ * Realtime list of students' pending locker unlock requests
+ * Teachers approve (optionally as a timed unlock) or deny with a message
+ */
+
+import React, { useState } from 'react';
+import { useUnlockRequests, UnlockRequest } from '@/hooks/useUnlockRequests';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Hand, Check, X, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+
+// 'none' keeps the locker open until someone locks it again
+const DURATION_OPTIONS = [
+  { value: 'none', label: 'Until re-locked' },
+  { value: '5', label: '5 minutes' },
+  { value: '15', label: '15 minutes' },
+  { value: '30', label: '30 minutes' },
+  { value: '60', label: '1 hour' },
+];
+
+export const UnlockRequestQueue: React.FC = () => {
+  const { pendingRequests, isLoading, approveRequest, denyRequest } = useUnlockRequests();
+  const [durations, setDurations] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [denyTarget, setDenyTarget] = useState<UnlockRequest | null>(null);
+  const [denyMessage, setDenyMessage] = useState('');
+
+  const handleApprove = async (request: UnlockRequest) => {
+    const duration = durations[request.id] ?? '15';
+    setBusyId(request.id);
+    const success = await approveRequest(request.id, duration === 'none' ? null : Number(duration));
+    setBusyId(null);
+
+    if (success) {
+      toast.success('Request Approved', {
+        description: duration === 'none'
+          ? `Locker ${request.locker_id} unlocked for ${request.student_name}`
+          : `Locker ${request.locker_id} unlocked for ${duration} min`,
+      });
+    }
+  };
+
+  const handleDeny = async () => {
+    if (!denyTarget) return;
+    setBusyId(denyTarget.id);
+    const success = await denyRequest(denyTarget.id, denyMessage.trim());
+    setBusyId(null);
+
+    if (success) {
+      toast.success('Request Denied', { description: `${denyTarget.student_name} has been notified` });
+      setDenyTarget(null);
+      setDenyMessage('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Hand size={18} className="text-primary" />
+          Unlock Requests
+          {pendingRequests.length > 0 && (
+            <Badge variant="destructive" className="ml-auto">{pendingRequests.length}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Students asking for access to a locked locker</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <Loader2 size={16} className="animate-spin text-muted-foreground" />
+        ) : pendingRequests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pending requests</p>
+        ) : (
+          pendingRequests.map(request => (
+            <div key={request.id} className="p-3 rounded-lg border space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">{request.student_name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {request.locker_id} · {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                </span>
+              </div>
+              <p className="text-sm text-muted-foreground">{request.reason}</p>
+              <div className="flex gap-2">
+                <Select
+                  value={durations[request.id] ?? '15'}
+                  onValueChange={(value) => setDurations(prev => ({ ...prev, [request.id]: value }))}
+                >
+                  <SelectTrigger className="h-8 flex-1 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" onClick={() => handleApprove(request)} disabled={busyId === request.id}>
+                  <Check size={14} className="mr-1" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDenyTarget(request)}
+                  disabled={busyId === request.id}
+                >
+                  <X size={14} className="mr-1" />
+                  Deny
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={!!denyTarget} onOpenChange={(open) => !open && setDenyTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deny Unlock Request</DialogTitle>
+            <DialogDescription>
+              {denyTarget && `${denyTarget.student_name} · locker ${denyTarget.locker_id}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="deny-message">Message to the student</Label>
+            <Textarea
+              id="deny-message"
+              rows={3}
+              placeholder="e.g., Lockers stay closed until the exam ends at 11:00"
+              value={denyMessage}
+              onChange={(e) => setDenyMessage(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDenyTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeny} disabled={busyId === denyTarget?.id}>
+              {busyId === denyTarget?.id && <Loader2 size={16} className="mr-2 animate-spin" />}
+              Deny Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default UnlockRequestQueue;
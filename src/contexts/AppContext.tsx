@@ -6,9 +6,10 @@
  */
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { Locker, LogEntry, DeskMode, Notification, NotificationType } from '@/types';
+import { Locker, NewLocker, LockerScope, LogEntry, DeskMode, Notification, NotificationType, ExamSession } from '@/types';
 import { useAuth, UserProfile } from '@/contexts/AuthContext';
 import { useLockerSystem, Student } from '@/hooks/useLockerSystem';
+import { RolloverAllocation } from '@/lib/lockerRollover';
 
 const generateId = (): string => {
   return Math.random().toString(36).substring(2, 11) + Date.now().toString(36);
@@ -17,7 +18,13 @@ const generateId = (): string => {
 interface AppContextType {
   currentUser: UserProfile | null;
   lockers: Locker[];
+  // Exam restrictions apply to the current user: school-wide exam mode, or a
+  // running session covering one of their classes or rooms
   examMode: boolean;
+  // The school-wide switch alone
+  globalExamMode: boolean;
+  // Running sessions; for a student, only the ones covering them
+  examSessions: ExamSession[];
   deskMode: DeskMode;
   logs: LogEntry[];
   notifications: Notification[];
@@ -25,18 +32,25 @@ interface AppContextType {
   students: Student[];
   logout: () => void;
   toggleLocker: (lockerId: string) => void;
-  lockAllLockers: () => void;
+  lockAllLockers: (scope?: LockerScope) => void;
+  unlockAllLockers: (scope?: LockerScope) => void;
   unlockLocker: (lockerId: string) => void;
   lockLocker: (lockerId: string) => void;
+  retryLockerCommand: (lockerId: string) => void;
   toggleExamMode: () => void;
+  startExamSession: (title: string, classIds: string[], rooms: string[]) => Promise<boolean>;
+  endExamSession: (sessionId: string) => Promise<boolean>;
   performResearch: () => { success: boolean; message: string };
   performExamAction: () => { success: boolean; message: string };
   markNotificationRead: (notificationId: string) => void;
   clearNotifications: () => void;
-  addLocker: (locker: Omit<Locker, 'status'> & { location: string }) => Promise<boolean>;
+  addLocker: (locker: NewLocker) => Promise<boolean>;
   updateLocker: (lockerId: string, updates: Partial<Locker>) => Promise<boolean>;
   deleteLocker: (lockerId: string) => Promise<boolean>;
   assignLocker: (lockerId: string, studentId: string | null) => Promise<boolean>;
+  transferLocker: (studentId: string, toLockerId: string) => Promise<boolean>;
+  importLockers: (rows: NewLocker[]) => Promise<boolean>;
+  rolloverLockers: (allocations: RolloverAllocation[]) => Promise<boolean>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -50,23 +64,34 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const {
     lockers,
     logs,
-    examMode,
+    examMode: globalExamMode,
+    examSessions,
+    myExamSessions,
     isLoading,
     students,
     lockLocker: dbLockLocker,
     unlockLocker: dbUnlockLocker,
     toggleLocker: dbToggleLocker,
+    retryLockerCommand: dbRetryLockerCommand,
     lockAllLockers: dbLockAllLockers,
+    unlockAllLockers: dbUnlockAllLockers,
     toggleExamMode: dbToggleExamMode,
+    startExamSession,
+    endExamSession,
     addLocker,
     updateLocker,
     deleteLocker,
     assignLocker: dbAssignLocker,
+    transferLocker,
+    importLockers,
+    rolloverLockers,
     addLog,
   } = useLockerSystem();
   
   const [notifications, setNotifications] = useState<Notification[]>([]);
 
+  const examMode = globalExamMode || myExamSessions.length > 0;
+
   // Derive desk mode from exam mode
   const deskMode: DeskMode = examMode ? 'exam' : 'normal';
 
@@ -98,7 +123,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
 
   const logout = useCallback(async () => {
     if (profile) {
-      await addLog('LOGOUT', `${profile.name} logged out`, profile);
+      await addLog('LOGOUT', `${profile.name} logged out`);
     }
     await signOut();
   }, [profile, addLog, signOut]);
@@ -115,10 +140,18 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     dbUnlockLocker(lockerId);
   }, [dbUnlockLocker]);
 
-  const lockAllLockers = useCallback(() => {
-    dbLockAllLockers();
+  const retryLockerCommand = useCallback((lockerId: string) => {
+    dbRetryLockerCommand(lockerId);
+  }, [dbRetryLockerCommand]);
+
+  const lockAllLockers = useCallback((scope?: LockerScope) => {
+    dbLockAllLockers(scope);
   }, [dbLockAllLockers]);
 
+  const unlockAllLockers = useCallback((scope?: LockerScope) => {
+    dbUnlockAllLockers(scope);
+  }, [dbUnlockAllLockers]);
+
   const toggleExamMode = useCallback(() => {
     dbToggleExamMode();
   }, [dbToggleExamMode]);
@@ -129,26 +162,31 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
     
     if (examMode) {
-      addLog('RESEARCH_BLOCKED', 'Attempted research during exam mode', profile);
+      addLog(
+        'RESEARCH_BLOCKED',
+        globalExamMode
+          ? 'Attempted research during exam mode'
+          : `Attempted research during exam session ${myExamSessions.map(s => `"${s.title}"`).join(', ')}`
+      );
       return { 
         success: false, 
         message: '⚠️ Research access is disabled during exam mode. Only exam-related actions are permitted.' 
       };
     }
     
-    addLog('RESEARCH_ACCESS', 'Accessed research resources', profile);
+    addLog('RESEARCH_ACCESS', 'Accessed research resources');
     return { 
       success: true, 
       message: '✓ Research access granted. You can browse academic resources.' 
     };
-  }, [profile, examMode, addLog]);
+  }, [profile, examMode, globalExamMode, myExamSessions, addLog]);
 
   const performExamAction = useCallback((): { success: boolean; message: string } => {
     if (!profile) {
       return { success: false, message: 'You must be logged in.' };
     }
     
-    addLog('EXAM_ACTION', 'Performed exam-related action', profile);
+    addLog('EXAM_ACTION', 'Performed exam-related action');
     return { 
       success: true, 
       message: '✓ Exam action completed successfully.' 
@@ -163,6 +201,8 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     currentUser: profile,
     lockers,
     examMode,
+    globalExamMode,
+    examSessions: profile?.role === 'student' ? myExamSessions : examSessions,
     deskMode,
     logs,
     notifications,
@@ -171,9 +211,13 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     logout,
     toggleLocker,
     lockAllLockers,
+    unlockAllLockers,
     unlockLocker,
     lockLocker,
+    retryLockerCommand,
     toggleExamMode,
+    startExamSession,
+    endExamSession,
     performResearch,
     performExamAction,
     markNotificationRead,
@@ -182,6 +226,9 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     updateLocker,
     deleteLocker,
     assignLocker,
+    transferLocker,
+    importLockers,
+    rolloverLockers,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
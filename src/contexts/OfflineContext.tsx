@@ -4,7 +4,7 @@
  */
 
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { registerServiceWorker } from '@/lib/offline/serviceWorker';
+import { registerServiceWorker, clearUserCaches } from '@/lib/offline/serviceWorker';
 import {
   getAllMaterialsMetadata,
   downloadAndSaveMaterial,
@@ -14,6 +14,7 @@ import {
   getFile,
   updateLastAccessed,
   getPendingSyncItems,
+  clearUserData,
   MaterialMetadata,
 } from '@/lib/offline/indexedDB';
 import { supabase } from '@/integrations/supabase/client';
@@ -39,6 +40,7 @@ interface OfflineContextType {
   checkForUpdates: () => Promise<void>;
   refreshDownloadedMaterials: () => Promise<void>;
   downloadMultipleMaterials: (materials: LearningMaterial[]) => Promise<void>;
+  clearOfflineData: () => Promise<void>;
 }
 
 interface LearningMaterial {
@@ -324,6 +326,17 @@ export const OfflineProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, [isOnline, toast]);
 
+  // Remove every trace of the current user from offline storage
+  const clearOfflineData = useCallback(async (): Promise<void> => {
+    try {
+      await Promise.all([clearUserData(), clearUserCaches()]);
+    } catch (error) {
+      console.error('Error clearing offline data:', error);
+    }
+    setUpdatesAvailable(new Map());
+    await Promise.all([refreshDownloadedMaterials(), refreshPendingSyncCount()]);
+  }, [refreshDownloadedMaterials, refreshPendingSyncCount]);
+
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
     isOnline,
@@ -339,6 +352,7 @@ export const OfflineProvider: React.FC<{ children: React.ReactNode }> = ({ child
     checkForUpdates,
     refreshDownloadedMaterials,
     downloadMultipleMaterials,
+    clearOfflineData,
   }), [
     isOnline,
     isServiceWorkerReady,
@@ -353,6 +367,7 @@ export const OfflineProvider: React.FC<{ children: React.ReactNode }> = ({ child
     checkForUpdates,
     refreshDownloadedMaterials,
     downloadMultipleMaterials,
+    clearOfflineData,
   ]);
 
   return (
@@ -6,6 +6,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import type { AnswerKey, ExamAnswer, QuestionOptions, QuestionType } from '@/lib/examQuestions';
 
 export interface Assignment {
   id: string;
@@ -46,6 +47,16 @@ export interface Exam {
   duration_minutes: number;
   is_online: boolean;
   auto_submit: boolean;
+  // Scheduler runs an exam session for the class during the exam window
+  auto_exam_mode: boolean;
+  // ...and locks the enrolled students' lockers while it runs
+  lock_lockers: boolean;
+  // Desk tools and library materials students may use while it runs
+  allowed_tools: string[];
+  allowed_material_ids: string[];
+  // Formula sheet in the learning-materials bucket, shown when allowed
+  formula_sheet_path: string | null;
+  formula_sheet_name: string | null;
   max_score: number;
   is_published: boolean;
   created_at: string;
@@ -58,9 +69,10 @@ export interface ExamQuestion {
   id: string;
   exam_id: string;
   question_text: string;
-  question_type: string;
-  options: string[] | null;
-  correct_answer: string | null;
+  question_type: QuestionType;
+  options: QuestionOptions | null;
+  // Never sent to students
+  correct_answer: AnswerKey | null;
   points: number;
   order_index: number;
 }
@@ -72,9 +84,18 @@ export interface ExamSubmission {
   started_at: string;
   submitted_at: string | null;
   is_auto_submitted: boolean;
-  answers: Record<string, string>;
+  answers: Record<string, ExamAnswer>;
 }
 
+// One exam question in a grade, scored by the auto-grader or the teacher.
+// points is null until a teacher marks a subjective item.
+export type GradeBreakdownItem = {
+  question_id: string;
+  max_points: number;
+  points: number | null;
+  status: 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'needs_marking' | 'marked';
+};
+
 export interface Grade {
   id: string;
   student_id: string;
@@ -84,6 +105,8 @@ export interface Grade {
   score: number;
   max_score: number;
   feedback: string | null;
+  // Per-question scores for exam grades
+  breakdown: GradeBreakdownItem[] | null;
   is_published: boolean;
   graded_at: string;
 }
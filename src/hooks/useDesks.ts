@@ -0,0 +1,292 @@
+/**
+ * Hooks for the desk registry
+ * Admins register desks by room; each desk terminal sends a heartbeat and
+ * teachers watch the resulting online / idle / exam status live
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Desk, DbDesk, DeskMode, DeskStatus, dbDeskToDesk } from '@/types';
+import { toast } from 'sonner';
+
+// A terminal beats every HEARTBEAT_MS and counts as offline after missing two
+export const HEARTBEAT_MS = 30_000;
+const OFFLINE_AFTER_MS = HEARTBEAT_MS * 2 + 10_000;
+
+// No keyboard, mouse or touch input for this long marks the desk idle
+export const IDLE_AFTER_MS = 5 * 60_000;
+
+export interface NewDesk {
+  id: string;
+  room: string;
+  seat: string | null;
+  assignedStudentId: string | null;
+}
+
+// Kiosk provisioning of a desk, visible to admins
+export interface DeskDeviceToken {
+  desk_id: string;
+  issued_at: string;
+  last_used_at: string | null;
+}
+
+export const getDeskStatus = (desk: Desk, now: number): DeskStatus => {
+  if (!desk.lastHeartbeatAt || now - desk.lastHeartbeatAt.getTime() > OFFLINE_AFTER_MS) return 'offline';
+  if (desk.mode === 'exam') return 'exam';
+  return desk.isIdle ? 'idle' : 'online';
+};
+
+// Room, then desk id, as the registry query orders them
+const byRoom = (a: Desk, b: Desk) => a.room.localeCompare(b.room) || a.id.localeCompare(b.id);
+
+export function useDesks() {
+  const { profile } = useAuth();
+  const [desks, setDesks] = useState<Desk[]>([]);
+  const [deviceTokens, setDeviceTokens] = useState<DeskDeviceToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Re-evaluated periodically so desks drop to offline without a database change
+  const [now, setNow] = useState(() => Date.now());
+
+  const fetchDesks = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('desks')
+        .select('*')
+        .order('room')
+        .order('id');
+
+      if (error) throw error;
+      setDesks((data as DbDesk[] || []).map(dbDeskToDesk));
+
+      if (profile.role === 'admin') {
+        const { data: tokens, error: tokensError } = await supabase
+          .from('desk_device_tokens')
+          .select('desk_id, issued_at, last_used_at');
+
+        if (tokensError) throw tokensError;
+        setDeviceTokens(tokens || []);
+      }
+    } catch (error) {
+      console.error('Error fetching desks:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchDesks();
+      setIsLoading(false);
+    };
+
+    if (profile) {
+      loadData();
+    }
+  }, [profile, fetchDesks]);
+
+  // Every terminal's heartbeat updates its row, so changes are applied in
+  // place rather than refetching the registry
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel('desks-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'desks' },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            const desk = dbDeskToDesk(payload.new as DbDesk);
+            setDesks(prev => [...prev.filter(d => d.id !== desk.id), desk].sort(byRoom));
+          } else if (payload.eventType === 'UPDATE') {
+            const desk = dbDeskToDesk(payload.new as DbDesk);
+            setDesks(prev => prev.map(d => (d.id === desk.id ? desk : d)).sort(byRoom));
+          } else if (payload.eventType === 'DELETE') {
+            setDesks(prev => prev.filter(d => d.id !== payload.old.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 15_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const createDesk = async (desk: NewDesk) => {
+    const { error } = await supabase.from('desks').insert({
+      id: desk.id,
+      room: desk.room,
+      seat: desk.seat,
+      assigned_student_id: desk.assignedStudentId,
+    });
+
+    if (error) {
+      toast.error('Failed to add desk', { description: error.message });
+      console.error('Error creating desk:', error);
+      return false;
+    }
+
+    await fetchDesks();
+    return true;
+  };
+
+  const updateDesk = async (id: string, changes: Omit<NewDesk, 'id'>) => {
+    const { error } = await supabase
+      .from('desks')
+      .update({
+        room: changes.room,
+        seat: changes.seat,
+        assigned_student_id: changes.assignedStudentId,
+      })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to update desk', { description: error.message });
+      console.error('Error updating desk:', error);
+      return false;
+    }
+
+    await fetchDesks();
+    return true;
+  };
+
+  const deleteDesk = async (id: string) => {
+    const { error } = await supabase.from('desks').delete().eq('id', id);
+
+    if (error) {
+      toast.error('Failed to delete desk', { description: error.message });
+      console.error('Error deleting desk:', error);
+      return false;
+    }
+
+    await fetchDesks();
+    return true;
+  };
+
+  // Returns the plain token, shown to the admin once
+  const provisionDeskToken = async (id: string) => {
+    const { data, error } = await supabase.rpc('provision_desk_token', { p_desk_id: id });
+
+    if (error) {
+      toast.error('Failed to provision desk terminal', { description: error.message });
+      console.error('Error provisioning desk token:', error);
+      return null;
+    }
+
+    await fetchDesks();
+    return data;
+  };
+
+  const revokeDeskToken = async (id: string) => {
+    const { error } = await supabase.rpc('revoke_desk_token', { p_desk_id: id });
+
+    if (error) {
+      toast.error('Failed to revoke desk terminal', { description: error.message });
+      console.error('Error revoking desk token:', error);
+      return false;
+    }
+
+    await fetchDesks();
+    return true;
+  };
+
+  const getStatus = useCallback((desk: Desk) => getDeskStatus(desk, now), [now]);
+
+  return {
+    desks,
+    deviceTokens,
+    isLoading,
+    getStatus,
+    createDesk,
+    updateDesk,
+    deleteDesk,
+    provisionDeskToken,
+    revokeDeskToken,
+    refreshDesks: fetchDesks,
+  };
+}
+
+/**
+ * Heartbeat for the desk this terminal is. Without a desk id it reports as
+ * the desk reserved for the signed-in student, if there is one. The mode
+ * the server records is its own; the local one only triggers an early beat
+ * when it changes.
+ */
+export function useDeskHeartbeat(deskId: string | undefined, localMode: DeskMode) {
+  const { profile } = useAuth();
+  const [resolvedDeskId, setResolvedDeskId] = useState<string | null>(deskId ?? null);
+  const [isIdle, setIsIdle] = useState(false);
+  const lastInputRef = useRef(Date.now());
+
+  useEffect(() => {
+    if (deskId) {
+      setResolvedDeskId(deskId);
+      return;
+    }
+    if (!profile || profile.role !== 'student') {
+      setResolvedDeskId(null);
+      return;
+    }
+
+    supabase
+      .from('desks')
+      .select('id')
+      .eq('assigned_student_id', profile.id)
+      .order('id')
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error finding assigned desk:', error);
+        setResolvedDeskId(data?.id ?? null);
+      });
+  }, [deskId, profile]);
+
+  // Track input to tell an attended desk from an idle one
+  useEffect(() => {
+    const markActive = () => {
+      lastInputRef.current = Date.now();
+      setIsIdle(false);
+    };
+    const events = ['keydown', 'pointerdown', 'pointermove', 'touchstart'] as const;
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const timer = setInterval(() => {
+      if (Date.now() - lastInputRef.current >= IDLE_AFTER_MS) setIsIdle(true);
+    }, 15_000);
+
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(timer);
+    };
+  }, []);
+
+  // Beat immediately, whenever idle or mode changes, then on the interval
+  useEffect(() => {
+    if (!profile || !resolvedDeskId) return;
+
+    const beat = async () => {
+      const { error } = await supabase.rpc('desk_heartbeat', {
+        p_desk_id: resolvedDeskId,
+        p_idle: isIdle,
+      });
+
+      if (error) {
+        console.error('Desk heartbeat failed:', error);
+      }
+    };
+
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [profile, resolvedDeskId, isIdle, localMode]);
+
+  return { deskId: resolvedDeskId, isIdle };
+}
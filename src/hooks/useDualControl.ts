@@ -0,0 +1,144 @@
+/**
+ * Hook for two-person authorization of safety-critical actions
+ * Locking/unlocking all lockers, switching exam mode and starting exam
+ * sessions are proposed by one teacher/admin and only run once a different
+ * one approves in time
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export type DualControlAction = 'lock_all' | 'unlock_all' | 'exam_mode_on' | 'exam_mode_off' | 'exam_session_start';
+
+export interface DualControlRequest {
+  id: string;
+  action: DualControlAction;
+  scope_bank_ids: string[] | null;
+  scope_label: string | null;
+  // Session an exam_session_start proposal starts
+  exam_title: string | null;
+  exam_class_ids: string[] | null;
+  exam_rooms: string[] | null;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled' | 'expired';
+  proposed_by: string;
+  proposed_by_name: string;
+  expires_at: string;
+  resolved_by: string | null;
+  resolved_by_name: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Human-readable summary of a proposal, e.g. "Lock all lockers in Main › Floor 1"
+ */
+export const describeDualControlAction = (
+  request: Pick<DualControlRequest, 'action' | 'scope_label' | 'exam_title'>
+): string => {
+  const scope = request.scope_label ? ` in ${request.scope_label}` : '';
+  switch (request.action) {
+    case 'lock_all':
+      return `Lock all lockers${scope}`;
+    case 'unlock_all':
+      return `Unlock all lockers${scope}`;
+    case 'exam_mode_on':
+      return 'Enable exam mode';
+    case 'exam_mode_off':
+      return 'Disable exam mode';
+    case 'exam_session_start':
+      return `Start exam session "${request.exam_title}" for ${request.scope_label}`;
+  }
+};
+
+export function useDualControl() {
+  const { profile } = useAuth();
+  const [requests, setRequests] = useState<DualControlRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchRequests = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('dual_control_requests')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setRequests((data || []) as DualControlRequest[]);
+    } catch (error) {
+      console.error('Error fetching dual control requests:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchRequests();
+      setIsLoading(false);
+    };
+
+    if (profile) {
+      loadData();
+    }
+  }, [profile, fetchRequests]);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel('dual-control-requests-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'dual_control_requests' },
+        () => fetchRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile, fetchRequests]);
+
+  // Second approval: the proposed action runs server-side
+  const approveRequest = async (requestId: string) => {
+    const { error } = await supabase.rpc('approve_dual_control_action', { p_request_id: requestId });
+
+    if (error) {
+      toast.error('Failed to approve', { description: error.message });
+      console.error('Error approving dual control request:', error);
+      return false;
+    }
+
+    await fetchRequests();
+    return true;
+  };
+
+  // Rejects someone else's proposal, or withdraws your own
+  const rejectRequest = async (requestId: string) => {
+    const { error } = await supabase.rpc('reject_dual_control_action', { p_request_id: requestId });
+
+    if (error) {
+      toast.error('Failed to reject', { description: error.message });
+      console.error('Error rejecting dual control request:', error);
+      return false;
+    }
+
+    await fetchRequests();
+    return true;
+  };
+
+  return {
+    requests,
+    // Expired proposals stay 'pending' until the scheduler sweeps them
+    pendingRequests: requests.filter(r => r.status === 'pending' && new Date(r.expires_at) > new Date()),
+    isLoading,
+    approveRequest,
+    rejectRequest,
+    refreshRequests: fetchRequests,
+  };
+}
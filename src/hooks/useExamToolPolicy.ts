@@ -0,0 +1,146 @@
+/**
+ * Hook for the desk tools and materials the signed-in student may use
+ * Resolved server-side from the exams whose sessions currently cover them.
+ * Uses of the offline desk tools are recorded against those sessions, and
+ * queued for sync while the desk has no network.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useApp } from '@/contexts/AppContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import { useSyncQueue } from '@/hooks/useSyncQueue';
+
+export type ExamTool = 'calculator' | 'unit_converter' | 'formula_sheet' | 'web_search';
+
+export const EXAM_TOOLS: ExamTool[] = ['calculator', 'unit_converter', 'formula_sheet', 'web_search'];
+
+// Tools that run on the desk itself, without a network
+export type DeskTool = Exclude<ExamTool, 'web_search'>;
+
+export const EXAM_TOOL_LABELS: Record<ExamTool, string> = {
+  calculator: 'Calculator',
+  unit_converter: 'Unit converter',
+  formula_sheet: 'Formula sheet',
+  web_search: 'Web search',
+};
+
+export interface ExamMaterial {
+  id: string;
+  title: string;
+  file_url: string | null;
+  file_name: string | null;
+  file_type: string | null;
+}
+
+export interface FormulaSheet {
+  exam_id: string;
+  title: string;
+  // Path in the learning-materials bucket
+  file_path: string;
+  file_name: string | null;
+}
+
+export interface ExamToolPolicy {
+  // False outside exams: everything on the desk is available
+  restricted: boolean;
+  tools: ExamTool[];
+  materials: ExamMaterial[];
+  formulaSheets: FormulaSheet[];
+}
+
+const UNRESTRICTED: ExamToolPolicy = { restricted: false, tools: [], materials: [], formulaSheets: [] };
+const NOTHING_ALLOWED: ExamToolPolicy = { restricted: true, tools: [], materials: [], formulaSheets: [] };
+
+export const formulaSheetUrl = (sheet: FormulaSheet) =>
+  supabase.storage.from('learning-materials').getPublicUrl(sheet.file_path).data.publicUrl;
+
+export function useExamToolPolicy() {
+  const { examMode, globalExamMode, examSessions } = useApp();
+  const { isOnline } = useOffline();
+  const { queueAction } = useSyncQueue();
+  const [policy, setPolicy] = useState<ExamToolPolicy>(UNRESTRICTED);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Refetch when a covering session starts or ends
+  const sessionKey = examSessions.map(s => s.id).sort().join(',');
+
+  const fetchPolicy = useCallback(async () => {
+    if (!examMode) {
+      setPolicy(UNRESTRICTED);
+      return;
+    }
+
+    setIsLoading(true);
+    const { data, error } = await supabase.rpc('get_exam_tool_policy');
+
+    if (error) {
+      // Offline or failing: keep the exam's last known policy, otherwise
+      // fail closed and offer nothing rather than everything
+      console.error('Error fetching exam tool policy:', error);
+      setPolicy(prev => (prev.restricted ? prev : NOTHING_ALLOWED));
+    } else {
+      const result = data as unknown as Partial<ExamToolPolicy> & { formula_sheets?: FormulaSheet[] };
+      const formulaSheets = result.formula_sheets ?? [];
+      setPolicy(result.restricted
+        ? { restricted: true, tools: result.tools ?? [], materials: result.materials ?? [], formulaSheets }
+        : UNRESTRICTED);
+
+      // Warm the service worker cache so the sheets open if the network drops
+      formulaSheets.forEach(sheet => {
+        fetch(formulaSheetUrl(sheet)).catch(() => {
+          // Fetched again when opened
+        });
+      });
+    }
+    setIsLoading(false);
+  }, [examMode]);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, [fetchPolicy, globalExamMode, sessionKey]);
+
+  const isAllowed = useCallback(
+    (tool: ExamTool) => !policy.restricted || policy.tools.includes(tool),
+    [policy],
+  );
+
+  /**
+   * Record that a desk tool was opened. Outside exams nothing is recorded.
+   */
+  const recordToolUse = useCallback(async (tool: DeskTool, deskId?: string | null) => {
+    if (!examMode) return;
+
+    const args = {
+      p_tool: tool,
+      p_session_ids: examSessions.map(s => s.id),
+      p_used_at: new Date().toISOString(),
+      p_desk_id: deskId ?? undefined,
+    };
+
+    if (isOnline) {
+      const { error } = await supabase.rpc('record_exam_tool_use', args);
+      if (!error) return;
+      console.error('Error recording exam tool use:', error);
+    }
+
+    const { data } = await supabase.auth.getSession();
+    await queueAction({
+      endpoint: `${import.meta.env.VITE_SUPABASE_URL}/rest/v1/rpc/record_exam_tool_use`,
+      method: 'POST',
+      body: args,
+      headers: {
+        apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        Authorization: `Bearer ${data.session?.access_token}`,
+      },
+    });
+  }, [examMode, examSessions, isOnline, queueAction]);
+
+  return {
+    policy,
+    isLoading,
+    isAllowed,
+    recordToolUse,
+    refreshPolicy: fetchPolicy,
+  };
+}
@@ -7,6 +7,15 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import type { Exam, ExamQuestion, ExamSubmission } from './useAssignments';
+import type { AnswerKey, ExamAnswer, QuestionOptions, QuestionType } from '@/lib/examQuestions';
+
+// A student's own deadline: the exam's duration from when they started,
+// but no later than the end of the exam window
+export const getExamDeadline = (exam: Exam, startedAt: string) =>
+  new Date(Math.min(
+    new Date(startedAt).getTime() + exam.duration_minutes * 60 * 1000,
+    new Date(exam.scheduled_end).getTime(),
+  ));
 
 export function useExams() {
   const { profile } = useAuth();
@@ -47,7 +56,7 @@ export function useExams() {
       if (error) throw error;
       setExamSubmissions((data || []).map(s => ({
         ...s,
-        answers: (s.answers as Record<string, string>) || {},
+        answers: (s.answers as Record<string, ExamAnswer>) || {},
       })));
     } catch (error: any) {
       console.error('Error fetching exam submissions:', error);
@@ -87,9 +96,28 @@ export function useExams() {
       return null;
     }
 
+    // Submits on time while the tab is open; a server job finalises
+    // attempts left open once the deadline has passed
+    const scheduleAutoSubmit = (submissionId: string, startedAt: string) => {
+      if (!exam.auto_submit || autoSubmitTimers.current.has(examId)) return;
+
+      const timeUntilDeadline = getExamDeadline(exam, startedAt).getTime() - Date.now();
+      if (timeUntilDeadline > 0) {
+        const timer = setTimeout(() => {
+          autoSubmitExam(examId, submissionId);
+        }, timeUntilDeadline);
+        autoSubmitTimers.current.set(examId, timer);
+      }
+    };
+
     // Check if already started
     const existingSubmission = examSubmissions.find(s => s.exam_id === examId);
     if (existingSubmission) {
+      if (!existingSubmission.submitted_at && getExamDeadline(exam, existingSubmission.started_at) <= new Date()) {
+        toast.error('Your time for this exam is up');
+        return null;
+      }
+      scheduleAutoSubmit(existingSubmission.id, existingSubmission.started_at);
       return existingSubmission;
     }
 
@@ -108,18 +136,8 @@ export function useExams() {
       
       await fetchExamSubmissions();
       
-      // Setup auto-submit timer
-      if (exam.auto_submit) {
-        const endTime = new Date(exam.scheduled_end).getTime();
-        const timeUntilEnd = endTime - Date.now();
-        
-        if (timeUntilEnd > 0) {
-          const timer = setTimeout(() => {
-            autoSubmitExam(examId, data.id);
-          }, timeUntilEnd);
-          autoSubmitTimers.current.set(examId, timer);
-        }
-      }
+      // The server stamps started_at, so the deadline runs from its clock
+      scheduleAutoSubmit(data.id, data.started_at);
       
       return data;
     } catch (error: any) {
@@ -129,7 +147,7 @@ export function useExams() {
     }
   };
 
-  const saveExamAnswers = async (submissionId: string, answers: Record<string, string>) => {
+  const saveExamAnswers = async (submissionId: string, answers: Record<string, ExamAnswer>) => {
     try {
       const { error } = await supabase
         .from('exam_submissions')
@@ -144,18 +162,24 @@ export function useExams() {
     }
   };
 
-  const submitExam = async (submissionId: string, answers: Record<string, string>) => {
+  const submitExam = async (submissionId: string, answers: Record<string, ExamAnswer>, isAutoSubmitted = false) => {
     try {
       const { error } = await supabase
         .from('exam_submissions')
         .update({
           answers,
           submitted_at: new Date().toISOString(),
-          is_auto_submitted: false,
+          is_auto_submitted: isAutoSubmitted,
         })
         .eq('id', submissionId);
 
       if (error) throw error;
+
+      const examId = examSubmissions.find(s => s.id === submissionId)?.exam_id;
+      if (examId && autoSubmitTimers.current.has(examId)) {
+        clearTimeout(autoSubmitTimers.current.get(examId));
+        autoSubmitTimers.current.delete(examId);
+      }
       
       toast.success('Exam submitted successfully');
       await fetchExamSubmissions();
@@ -198,7 +222,7 @@ export function useExams() {
         return (data || []).map((q: any) => ({
           ...q,
           correct_answer: null,
-          options: q.options as string[] | null,
+          options: q.options as QuestionOptions | null,
         }));
       }
 
@@ -213,7 +237,9 @@ export function useExams() {
       
       return (data || []).map(q => ({
         ...q,
-        options: q.options as string[] | null,
+        question_type: q.question_type as QuestionType,
+        options: q.options as QuestionOptions | null,
+        correct_answer: q.correct_answer as AnswerKey | null,
       }));
     } catch (error: any) {
       console.error('Error fetching exam questions:', error);
@@ -232,6 +258,12 @@ export function useExams() {
     duration_minutes?: number;
     is_online?: boolean;
     auto_submit?: boolean;
+    auto_exam_mode?: boolean;
+    lock_lockers?: boolean;
+    allowed_tools?: string[];
+    allowed_material_ids?: string[];
+    formula_sheet_path?: string | null;
+    formula_sheet_name?: string | null;
     max_score?: number;
   }) => {
     if (!profile) return null;
@@ -303,9 +335,9 @@ export function useExams() {
   const addExamQuestion = async (data: {
     exam_id: string;
     question_text: string;
-    question_type?: string;
-    options?: string[];
-    correct_answer?: string;
+    question_type?: QuestionType;
+    options?: QuestionOptions | null;
+    correct_answer?: AnswerKey | null;
     points?: number;
     order_index?: number;
   }) => {
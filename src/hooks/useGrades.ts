@@ -6,7 +6,8 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import type { Grade, AssignmentSubmission, ExamSubmission } from './useAssignments';
+import type { Grade, GradeBreakdownItem, AssignmentSubmission, ExamSubmission } from './useAssignments';
+import type { ExamAnswer } from '@/lib/examQuestions';
 
 export interface GradeWithDetails extends Grade {
   assignment?: {
@@ -44,7 +45,10 @@ export function useGrades() {
       const enrichedGrades: GradeWithDetails[] = [];
       
       for (const grade of gradesData || []) {
-        let enriched: GradeWithDetails = { ...grade };
+        let enriched: GradeWithDetails = {
+          ...grade,
+          breakdown: grade.breakdown as GradeBreakdownItem[] | null,
+        };
 
         if (grade.assignment_submission_id) {
           const { data: submission } = await supabase
@@ -147,6 +151,7 @@ export function useGrades() {
     score?: number;
     feedback?: string;
     is_published?: boolean;
+    breakdown?: GradeBreakdownItem[];
   }) => {
     try {
       const { error } = await supabase
@@ -185,6 +190,29 @@ export function useGrades() {
     }
   };
 
+  // Re-score an exam's unpublished grades from its answer key; subjective
+  // marks already given are kept
+  const autoGradeExam = async (examId: string) => {
+    try {
+      const { data, error } = await supabase
+        .rpc('auto_grade_exam', { p_exam_id: examId });
+
+      if (error) throw error;
+
+      toast.success('Auto-grading complete', {
+        description: `${data} submission${data === 1 ? '' : 's'} graded`,
+      });
+      await fetchGrades();
+      return true;
+    } catch (error) {
+      console.error('Error auto-grading exam:', error);
+      toast.error('Failed to auto-grade exam', {
+        description: error instanceof Error ? error.message : 'An unexpected error occurred',
+      });
+      return false;
+    }
+  };
+
   // Get all submissions for grading (teachers)
   const getAssignmentSubmissions = async (assignmentId: string) => {
     try {
@@ -251,8 +279,12 @@ export function useGrades() {
 
         enriched.push({
           ...submission,
+          answers: (submission.answers as Record<string, ExamAnswer>) || {},
           student,
-          grade: existingGrade,
+          grade: existingGrade && {
+            ...existingGrade,
+            breakdown: existingGrade.breakdown as GradeBreakdownItem[] | null,
+          },
         });
       }
       
@@ -269,6 +301,7 @@ export function useGrades() {
     gradeSubmission,
     updateGrade,
     publishGrades,
+    autoGradeExam,
     getAssignmentSubmissions,
     getExamSubmissions,
     refreshGrades: fetchGrades,
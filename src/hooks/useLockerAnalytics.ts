@@ -0,0 +1,61 @@
+/**
+ * Hook for locker usage analytics
+ * Aggregated server-side from the locker event history over a rolling window
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface LockerHourlyUsage {
+  // Hour of day in the viewer's time zone, 0-23
+  hour: number;
+  unlocks: number;
+  locks: number;
+}
+
+export interface LockerUsage {
+  locker_id: string;
+  bank_id: string | null;
+  // Hours the locker stood unlocked within the window
+  open_hours: number;
+  status_changes: number;
+  unlock_requests: number;
+}
+
+export interface LockerAnalytics {
+  since: string;
+  hourly: LockerHourlyUsage[];
+  lockers: LockerUsage[];
+}
+
+export function useLockerAnalytics(days: number) {
+  const [analytics, setAnalytics] = useState<LockerAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    setIsLoading(true);
+    const { data, error } = await supabase.rpc('get_locker_analytics', {
+      p_days: days,
+      p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+
+    if (error) {
+      toast.error('Failed to load locker analytics', { description: error.message });
+      console.error('Error fetching locker analytics:', error);
+    } else {
+      setAnalytics(data as unknown as LockerAnalytics);
+    }
+    setIsLoading(false);
+  }, [days]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  return {
+    analytics,
+    isLoading,
+    refreshAnalytics: fetchAnalytics,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Hook for a locker's assignment history
+ * History rows are written server-side whenever a locker changes holder
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LockerAssignment {
+  id: string;
+  locker_id: string;
+  student_id: string;
+  student_name: string;
+  assigned_by: string | null;
+  assigned_at: string;
+  released_by: string | null;
+  released_at: string | null;
+  end_reason: 'unassigned' | 'reassigned' | 'transferred' | 'locker_deleted' | null;
+  transferred_to: string | null;
+}
+
+export function useLockerAssignments(lockerId: string | null) {
+  const [history, setHistory] = useState<LockerAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    if (!lockerId) {
+      setHistory([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('locker_assignments')
+        .select('*')
+        .eq('locker_id', lockerId)
+        .order('assigned_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory((data || []) as LockerAssignment[]);
+    } catch (error) {
+      console.error('Error fetching assignment history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [lockerId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    history,
+    isLoading,
+    refreshHistory: fetchHistory,
+  };
+}
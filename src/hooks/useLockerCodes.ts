@@ -0,0 +1,105 @@
+/**
+ * Hook for kiosk locker access: student PINs and one-time unlock codes
+ * Codes and PINs are hashed and checked server-side; the plain code is only
+ * returned once, when it is issued
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface IssuedUnlockCode {
+  id: string;
+  code: string;
+  expires_at: string;
+}
+
+export interface KioskUnlockResult {
+  success: boolean;
+  error?: string;
+  method?: 'pin' | 'code';
+  locker_id?: string;
+  attempts_remaining?: number;
+  locked_out?: boolean;
+}
+
+/**
+ * Unlock a locker from a kiosk; works without a signed-in user
+ */
+export async function unlockWithCode(lockerId: string, code: string): Promise<KioskUnlockResult> {
+  const { data, error } = await supabase.rpc('unlock_locker_with_code', {
+    p_locker_id: lockerId,
+    p_code: code,
+  });
+
+  if (error) {
+    console.error('Error unlocking locker with code:', error);
+    return { success: false, error: 'Could not reach the locker system' };
+  }
+
+  return data as unknown as KioskUnlockResult;
+}
+
+export function useLockerCodes() {
+  const { profile } = useAuth();
+  const [hasPin, setHasPin] = useState(false);
+
+  const fetchPinStatus = useCallback(async () => {
+    if (!profile || profile.role !== 'student') return;
+
+    const { data, error } = await supabase
+      .from('locker_pins')
+      .select('updated_at')
+      .eq('student_id', profile.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching PIN status:', error);
+      return;
+    }
+
+    setHasPin(!!data);
+  }, [profile]);
+
+  useEffect(() => {
+    fetchPinStatus();
+  }, [fetchPinStatus]);
+
+  // Set or change the current student's kiosk PIN
+  const setLockerPin = async (pin: string) => {
+    const { error } = await supabase.rpc('set_locker_pin', { p_pin: pin });
+
+    if (error) {
+      toast.error('Failed to set PIN', { description: error.message });
+      console.error('Error setting locker PIN:', error);
+      return false;
+    }
+
+    toast.success(hasPin ? 'Locker PIN changed' : 'Locker PIN set');
+    setHasPin(true);
+    return true;
+  };
+
+  // Issue a one-time code for a locker (teacher/admin only - enforced by the RPC)
+  const issueUnlockCode = async (lockerId: string, validMinutes = 15): Promise<IssuedUnlockCode | null> => {
+    const { data, error } = await supabase.rpc('issue_locker_unlock_code', {
+      p_locker_id: lockerId,
+      p_valid_minutes: validMinutes,
+    });
+
+    if (error) {
+      toast.error('Failed to issue unlock code', { description: error.message });
+      console.error('Error issuing unlock code:', error);
+      return null;
+    }
+
+    return data as unknown as IssuedUnlockCode;
+  };
+
+  return {
+    hasPin,
+    setLockerPin,
+    issueUnlockCode,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Hook for a locker's event history
+ * Events are recorded server-side on every lock, unlock, assignment and
+ * service change, whichever path made it
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type LockerEventType =
+  | 'added'
+  | 'deleted'
+  | 'locked'
+  | 'unlocked'
+  | 'assigned'
+  | 'unassigned'
+  | 'out_of_service'
+  | 'back_in_service';
+
+export interface LockerEvent {
+  id: string;
+  locker_id: string;
+  event: LockerEventType;
+  status: string;
+  student_name: string | null;
+  actor_id: string | null;
+  actor_name: string;
+  actor_role: string;
+  created_at: string;
+}
+
+export function useLockerEvents(lockerId: string | null) {
+  const [events, setEvents] = useState<LockerEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    if (!lockerId) {
+      setEvents([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('locker_events')
+        .select('*')
+        .eq('locker_id', lockerId)
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      setEvents((data || []) as LockerEvent[]);
+    } catch (error) {
+      console.error('Error fetching locker events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [lockerId]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  useEffect(() => {
+    if (!lockerId) return;
+
+    const channel = supabase
+      .channel(`locker-events-${lockerId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'locker_events', filter: `locker_id=eq.${lockerId}` },
+        () => fetchEvents()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [lockerId, fetchEvents]);
+
+  return {
+    events,
+    isLoading,
+    refreshEvents: fetchEvents,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Hook for locker alarm incidents
+ * Controllers report forced-open, door-ajar and low-battery events through
+ * the locker bridge; each one opens (or adds to) an incident that staff
+ * acknowledge and close with notes
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export type DeviceEventType = 'forced_open' | 'door_ajar' | 'low_battery';
+
+export interface LockerIncidentNote {
+  id: string;
+  incident_id: string;
+  locker_id: string;
+  note: string;
+  author_id: string;
+  author_name: string;
+  created_at: string;
+}
+
+export interface LockerIncident {
+  id: string;
+  locker_id: string;
+  event_type: DeviceEventType;
+  severity: 'critical' | 'warning' | 'info';
+  status: 'open' | 'acknowledged' | 'closed';
+  event_count: number;
+  last_detail: string | null;
+  first_event_at: string;
+  last_event_at: string;
+  acknowledged_by: string | null;
+  acknowledged_by_name: string | null;
+  acknowledged_at: string | null;
+  closed_by: string | null;
+  closed_by_name: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  notes: LockerIncidentNote[];
+}
+
+export const INCIDENT_LABELS: Record<DeviceEventType, string> = {
+  forced_open: 'Forced open',
+  door_ajar: 'Door left ajar',
+  low_battery: 'Low battery',
+};
+
+export function useLockerIncidents() {
+  const { profile } = useAuth();
+  const [incidents, setIncidents] = useState<LockerIncident[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Active incidents plus the most recently closed ones
+  const fetchIncidents = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('locker_incidents')
+        .select('*, notes:locker_incident_notes(*)')
+        .order('last_event_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setIncidents(((data || []) as LockerIncident[]).map(incident => ({
+        ...incident,
+        notes: [...incident.notes].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      })));
+    } catch (error) {
+      console.error('Error fetching locker incidents:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchIncidents();
+      setIsLoading(false);
+    };
+
+    if (profile) {
+      loadData();
+    }
+  }, [profile, fetchIncidents]);
+
+  // Alert on every new incident, then keep the list in sync
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel('locker-incidents-changes')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'locker_incidents' },
+        (payload) => {
+          const incident = payload.new as LockerIncident;
+          const message = `${INCIDENT_LABELS[incident.event_type]}: locker ${incident.locker_id}`;
+          const options = { description: incident.last_detail ?? 'Reported by the locker controller' };
+          if (incident.severity === 'critical') {
+            toast.error(message, { ...options, duration: Infinity });
+          } else {
+            toast.warning(message, options);
+          }
+          fetchIncidents();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'locker_incidents' },
+        () => fetchIncidents()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'locker_incident_notes' },
+        () => fetchIncidents()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile, fetchIncidents]);
+
+  const acknowledgeIncident = async (incidentId: string, note?: string) => {
+    const { error } = await supabase.rpc('acknowledge_locker_incident', {
+      p_incident_id: incidentId,
+      p_note: note,
+    });
+
+    if (error) {
+      toast.error('Failed to acknowledge incident', { description: error.message });
+      console.error('Error acknowledging incident:', error);
+      return false;
+    }
+
+    await fetchIncidents();
+    return true;
+  };
+
+  const closeIncident = async (incidentId: string, note: string) => {
+    const { error } = await supabase.rpc('close_locker_incident', {
+      p_incident_id: incidentId,
+      p_note: note,
+    });
+
+    if (error) {
+      toast.error('Failed to close incident', { description: error.message });
+      console.error('Error closing incident:', error);
+      return false;
+    }
+
+    await fetchIncidents();
+    return true;
+  };
+
+  const addNote = async (incidentId: string, note: string) => {
+    const { error } = await supabase.rpc('add_locker_incident_note', {
+      p_incident_id: incidentId,
+      p_note: note,
+    });
+
+    if (error) {
+      toast.error('Failed to add note', { description: error.message });
+      console.error('Error adding incident note:', error);
+      return false;
+    }
+
+    await fetchIncidents();
+    return true;
+  };
+
+  return {
+    incidents,
+    activeIncidents: incidents.filter(i => i.status !== 'closed'),
+    isLoading,
+    acknowledgeIncident,
+    closeIncident,
+    addNote,
+    refreshIncidents: fetchIncidents,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Hook for a locker's maintenance tickets
+ * Reporting an issue takes the locker out of service server-side until the
+ * ticket is resolved
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+export interface MaintenanceTicket {
+  id: string;
+  locker_id: string;
+  issue: string;
+  reported_by: string;
+  reported_by_name: string;
+  reported_at: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+}
+
+export function useLockerMaintenance(lockerId: string | null) {
+  const [tickets, setTickets] = useState<MaintenanceTicket[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchTickets = useCallback(async () => {
+    if (!lockerId) {
+      setTickets([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('locker_maintenance_tickets')
+        .select('*')
+        .eq('locker_id', lockerId)
+        .order('reported_at', { ascending: false });
+
+      if (error) throw error;
+      setTickets((data || []) as MaintenanceTicket[]);
+    } catch (error) {
+      console.error('Error fetching maintenance tickets:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [lockerId]);
+
+  useEffect(() => {
+    fetchTickets();
+  }, [fetchTickets]);
+
+  // Open a ticket and take the locker out of service
+  const reportIssue = async (issue: string) => {
+    if (!lockerId) return false;
+
+    const { error } = await supabase.rpc('report_locker_issue', {
+      p_locker_id: lockerId,
+      p_issue: issue,
+    });
+
+    if (error) {
+      toast.error('Failed to report issue', { description: error.message });
+      console.error('Error reporting locker issue:', error);
+      return false;
+    }
+
+    toast.success('Locker Out of Service', { description: `Locker ${lockerId} is out of service` });
+    await fetchTickets();
+    return true;
+  };
+
+  // Close the open ticket and return the locker to service
+  const resolveIssue = async (note: string) => {
+    if (!lockerId) return false;
+
+    const { error } = await supabase.rpc('resolve_locker_issue', {
+      p_locker_id: lockerId,
+      p_resolution_note: note,
+    });
+
+    if (error) {
+      toast.error('Failed to resolve issue', { description: error.message });
+      console.error('Error resolving locker issue:', error);
+      return false;
+    }
+
+    toast.success('Locker Back in Service', { description: `Locker ${lockerId} is available again` });
+    await fetchTickets();
+    return true;
+  };
+
+  return {
+    tickets,
+    openTicket: tickets.find(t => !t.resolved_at) ?? null,
+    isLoading,
+    reportIssue,
+    resolveIssue,
+    refreshTickets: fetchTickets,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Hook for managing recurring locker lock/unlock schedules
+ * Schedules are executed server-side by run_locker_schedules (pg_cron)
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface LockerSchedule {
+  id: string;
+  name: string;
+  action: 'lock' | 'unlock';
+  // The zone the schedule applies to, at most one level set; none means every locker
+  building_id: string | null;
+  floor_id: string | null;
+  bank_id: string | null;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string | null;
+  timezone: string;
+  is_enabled: boolean;
+  created_by: string;
+  last_started_on: string | null;
+  last_ended_on: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LockerScheduleInput = Pick<
+  LockerSchedule,
+  | 'name'
+  | 'action'
+  | 'building_id'
+  | 'floor_id'
+  | 'bank_id'
+  | 'days_of_week'
+  | 'start_time'
+  | 'end_time'
+  | 'timezone'
+>;
+
+export function useLockerSchedules() {
+  const { profile } = useAuth();
+  const [schedules, setSchedules] = useState<LockerSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Timezones the server accepts for a schedule
+  const [timezones, setTimezones] = useState<string[]>([]);
+
+  const fetchSchedules = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('locker_schedules')
+        .select('*')
+        .order('start_time', { ascending: true });
+
+      if (error) throw error;
+      setSchedules((data || []) as LockerSchedule[]);
+    } catch (error) {
+      console.error('Error fetching locker schedules:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchSchedules();
+      setIsLoading(false);
+    };
+
+    if (profile) {
+      loadData();
+    }
+  }, [profile, fetchSchedules]);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    supabase.rpc('get_timezone_names').then(({ data, error }) => {
+      if (error) console.error('Error fetching timezones:', error);
+      setTimezones(data ?? []);
+    });
+  }, [profile]);
+
+  // Keep last run dates fresh while the scheduler works
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel('locker-schedules-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'locker_schedules' },
+        () => fetchSchedules()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile, fetchSchedules]);
+
+  const createSchedule = async (input: LockerScheduleInput) => {
+    if (!profile) return false;
+
+    try {
+      const { error } = await supabase
+        .from('locker_schedules')
+        .insert({ ...input, created_by: profile.id });
+
+      if (error) throw error;
+
+      toast.success('Schedule created');
+      await fetchSchedules();
+      return true;
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+      // A timezone the server does not know is refused here
+      toast.error('Failed to create schedule', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return false;
+    }
+  };
+
+  const updateSchedule = async (id: string, input: Partial<LockerScheduleInput> & { is_enabled?: boolean }) => {
+    try {
+      const { error } = await supabase
+        .from('locker_schedules')
+        .update(input)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await fetchSchedules();
+      return true;
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast.error('Failed to update schedule', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return false;
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('locker_schedules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      toast.success('Schedule deleted');
+      await fetchSchedules();
+      return true;
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      toast.error('Failed to delete schedule');
+      return false;
+    }
+  };
+
+  return {
+    schedules,
+    timezones,
+    isLoading,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    refreshSchedules: fetchSchedules,
+  };
+}
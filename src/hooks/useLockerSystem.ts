@@ -1,21 +1,29 @@
 /**
  * useLockerSystem Hook
  * Manages locker system state with Supabase real-time subscriptions
- * All authorization is enforced server-side via RLS policies
+ * All authorization is enforced server-side via RLS policies and RPCs,
+ * which also write the audit log in the same transaction
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   Locker, 
+  NewLocker,
+  LockerScope,
   LogEntry, 
   DbLocker, 
   DbLogEntry, 
   dbLockerToLocker, 
   dbLogToLogEntry,
-  SystemSettings 
+  SystemSettings,
+  DbExamSession,
+  ExamSession,
+  dbExamSessionToExamSession,
 } from '@/types';
-import { useAuth, UserProfile } from '@/contexts/AuthContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { DualControlAction, describeDualControlAction } from '@/hooks/useDualControl';
+import { RolloverAllocation } from '@/lib/lockerRollover';
 import { toast } from 'sonner';
 
 export interface Student {
@@ -24,11 +32,25 @@ export interface Student {
   username: string;
 }
 
+// A class the current student is enrolled in, with its home room
+interface Enrolment {
+  classId: string;
+  room: string | null;
+}
+
+// Whether an exam session covers a student with these enrolments
+const sessionCovers = (session: ExamSession, enrolments: Enrolment[]) =>
+  enrolments.some(e =>
+    session.classIds.includes(e.classId) || (e.room !== null && session.rooms.includes(e.room))
+  );
+
 export const useLockerSystem = () => {
   const { profile } = useAuth();
   const [lockers, setLockers] = useState<Locker[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [examMode, setExamMode] = useState(false);
+  const [examSessions, setExamSessions] = useState<ExamSession[]>([]);
+  const [enrolments, setEnrolments] = useState<Enrolment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [students, setStudents] = useState<Student[]>([]);
 
@@ -73,6 +95,31 @@ export const useLockerSystem = () => {
           const settings = settingsData.value as SystemSettings['exam_mode'];
           setExamMode(settings?.enabled ?? false);
         }
+
+        // Fetch running exam sessions (students only see the ones covering them)
+        const { data: sessionsData, error: sessionsError } = await supabase
+          .from('exam_sessions')
+          .select('*')
+          .is('ended_at', null)
+          .order('started_at');
+
+        if (sessionsError) throw sessionsError;
+        setExamSessions((sessionsData as DbExamSession[]).map(dbExamSessionToExamSession));
+
+        // Fetch the student's own enrolments, which decide the sessions they sit
+        if (profile.role === 'student') {
+          const { data: enrolmentsData, error: enrolmentsError } = await supabase
+            .from('student_classes')
+            .select('class_id, classes(room)')
+            .eq('student_id', profile.id);
+
+          if (enrolmentsError) throw enrolmentsError;
+          setEnrolments((enrolmentsData || []).map(e => ({
+            classId: e.class_id,
+            room: e.classes?.room ?? null,
+          })));
+        }
+
         // Fetch students (profiles with student role) - teachers only
         const { data: rolesData } = await supabase
           .from('user_roles')
@@ -138,6 +185,23 @@ export const useLockerSystem = () => {
       )
       .subscribe();
 
+    // Subscribe to exam sessions starting and ending
+    const sessionsChannel = supabase
+      .channel('exam-sessions-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'exam_sessions' },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const row = payload.new as DbExamSession;
+          setExamSessions(prev => {
+            const others = prev.filter(s => s.id !== row.id);
+            return row.ended_at ? others : [...others, dbExamSessionToExamSession(row)];
+          });
+        }
+      )
+      .subscribe();
+
     // Subscribe to activity logs
     const logsChannel = supabase
       .channel('logs-changes')
@@ -153,70 +217,53 @@ export const useLockerSystem = () => {
     return () => {
       supabase.removeChannel(lockersChannel);
       supabase.removeChannel(settingsChannel);
+      supabase.removeChannel(sessionsChannel);
       supabase.removeChannel(logsChannel);
     };
   }, [profile]);
 
-  // Add activity log entry
-  const addLog = useCallback(async (action: string, details: string, user: UserProfile) => {
-    const { error } = await supabase
-      .from('activity_logs')
-      .insert({
-        user_id: user.id,
-        user_name: user.name,
-        user_role: user.role,
-        action,
-        details,
-      });
+  // Report a client-side event (sign-out, desk actions). Locker changes are
+  // logged server-side in the same transaction as the change itself.
+  const addLog = useCallback(async (action: string, details: string) => {
+    const { error } = await supabase.rpc('log_activity', {
+      p_action: action,
+      p_details: details,
+    });
     
     if (error) {
       console.error('Error adding log:', error);
     }
   }, []);
 
-  // Lock a specific locker (teacher only - enforced by RLS)
+  // Lock a specific locker (teacher only - enforced server-side)
   const lockLocker = useCallback(async (lockerId: string) => {
     if (!profile) return;
     
-    const { error } = await supabase
-      .from('lockers')
-      .update({ 
-        status: 'locked',
-        locked_by: profile.id,
-        locked_at: new Date().toISOString()
-      })
-      .eq('id', lockerId);
+    const { error } = await supabase.rpc('set_locker_status', {
+      p_locker_id: lockerId,
+      p_status: 'locked',
+    });
     
     if (error) {
-      toast.error('Failed to lock locker', { description: 'Permission denied' });
+      toast.error('Failed to lock locker', { description: error.message });
       console.error('Error locking locker:', error);
-      return;
     }
+  }, [profile]);
 
-    await addLog('LOCKER_LOCK', `Locked locker ${lockerId}`, profile);
-  }, [profile, addLog]);
-
-  // Unlock a specific locker (teacher only - enforced by RLS)
+  // Unlock a specific locker (teacher only - enforced server-side)
   const unlockLocker = useCallback(async (lockerId: string) => {
     if (!profile) return;
     
-    const { error } = await supabase
-      .from('lockers')
-      .update({ 
-        status: 'unlocked',
-        locked_by: null,
-        locked_at: null
-      })
-      .eq('id', lockerId);
+    const { error } = await supabase.rpc('set_locker_status', {
+      p_locker_id: lockerId,
+      p_status: 'unlocked',
+    });
     
     if (error) {
-      toast.error('Failed to unlock locker', { description: 'Permission denied' });
+      toast.error('Failed to unlock locker', { description: error.message });
       console.error('Error unlocking locker:', error);
-      return;
     }
-
-    await addLog('LOCKER_UNLOCK', `Unlocked locker ${lockerId}`, profile);
-  }, [profile, addLog]);
+  }, [profile]);
 
   // Toggle locker status (for students with their own locker)
   const toggleLocker = useCallback(async (lockerId: string) => {
@@ -227,81 +274,113 @@ export const useLockerSystem = () => {
 
     const newStatus = locker.status === 'locked' ? 'unlocked' : 'locked';
     
-    const { error } = await supabase
-      .from('lockers')
-      .update({ 
-        status: newStatus,
-        locked_by: newStatus === 'locked' ? profile.id : null,
-        locked_at: newStatus === 'locked' ? new Date().toISOString() : null
-      })
-      .eq('id', lockerId);
+    const { error } = await supabase.rpc('set_locker_status', {
+      p_locker_id: lockerId,
+      p_status: newStatus,
+    });
     
     if (error) {
       toast.error(`Failed to ${newStatus === 'locked' ? 'lock' : 'unlock'} locker`);
       console.error('Error toggling locker:', error);
-      return;
     }
+  }, [profile, lockers]);
+
+  // Re-send the current status to a locker whose last command failed (teacher only)
+  const retryLockerCommand = useCallback(async (lockerId: string) => {
+    if (!profile) return;
 
-    await addLog(
-      newStatus === 'locked' ? 'LOCKER_LOCK' : 'LOCKER_UNLOCK',
-      `${newStatus === 'locked' ? 'Locked' : 'Unlocked'} locker ${lockerId}`,
-      profile
-    );
-  }, [profile, lockers, addLog]);
+    const { error } = await supabase.rpc('retry_locker_command', { p_locker_id: lockerId });
 
-  // Lock all lockers (teacher only - enforced by RLS)
-  const lockAllLockers = useCallback(async () => {
+    if (error) {
+      toast.error('Failed to retry locker command', { description: error.message });
+      console.error('Error retrying locker command:', error);
+    }
+  }, [profile]);
+
+  // Propose a bulk lock/unlock or exam mode switch; it runs once a second
+  // teacher/admin approves it (two-person authorization, enforced server-side)
+  const proposeDualControlAction = useCallback(async (action: DualControlAction, scope?: LockerScope) => {
     if (!profile) return;
-    
-    const { error } = await supabase
-      .from('lockers')
-      .update({ 
-        status: 'locked',
-        locked_by: profile.id,
-        locked_at: new Date().toISOString()
-      })
-      .neq('status', 'locked');
-    
+
+    const { error } = await supabase.rpc('propose_dual_control_action', {
+      p_action: action,
+      p_bank_ids: scope?.bankIds,
+      p_scope_label: scope?.label,
+    });
+
+    const summary = describeDualControlAction({ action, scope_label: scope?.label ?? null, exam_title: null });
+
     if (error) {
-      toast.error('Failed to lock all lockers', { description: 'Permission denied' });
-      console.error('Error locking all lockers:', error);
+      toast.error(`Failed to propose: ${summary}`, { description: error.message });
+      console.error('Error proposing dual control action:', error);
       return;
     }
 
-    await addLog('LOCK_ALL', 'Emergency: Locked all lockers', profile);
-    toast.success('All Lockers Locked', { description: 'Emergency lockdown completed' });
-  }, [profile, addLog]);
+    toast.success('Waiting for a second approval', {
+      description: `${summary} takes effect once another teacher or admin approves it`,
+    });
+  }, [profile]);
+
+  // Lock all lockers, or every locker in a zone (needs a second approver)
+  const lockAllLockers = useCallback(async (scope?: LockerScope) => {
+    await proposeDualControlAction('lock_all', scope);
+  }, [proposeDualControlAction]);
+
+  // Unlock all lockers, or every locker in a zone (needs a second approver)
+  const unlockAllLockers = useCallback(async (scope?: LockerScope) => {
+    await proposeDualControlAction('unlock_all', scope);
+  }, [proposeDualControlAction]);
 
-  // Toggle exam mode (teacher only - enforced by RLS)
+  // Switch exam mode (needs a second approver, logged by a trigger once applied)
   const toggleExamMode = useCallback(async () => {
-    if (!profile) return;
-    
-    const newMode = !examMode;
-    
-    const { error } = await supabase
-      .from('system_settings')
-      .update({ 
-        value: { enabled: newMode },
-        updated_by: profile.id,
-        updated_at: new Date().toISOString()
-      })
-      .eq('key', 'exam_mode');
-    
+    await proposeDualControlAction(examMode ? 'exam_mode_off' : 'exam_mode_on');
+  }, [proposeDualControlAction, examMode]);
+
+  // Propose an exam session for some classes and/or rooms; it starts once a
+  // second teacher/admin approves it. Only those students are restricted, and
+  // several sessions can run at once.
+  const startExamSession = useCallback(async (title: string, classIds: string[], rooms: string[]) => {
+    if (!profile) return false;
+
+    const { error } = await supabase.rpc('propose_dual_control_action', {
+      p_action: 'exam_session_start',
+      p_exam_title: title,
+      p_class_ids: classIds,
+      p_rooms: rooms,
+    });
+
     if (error) {
-      toast.error('Failed to toggle exam mode', { description: 'Permission denied' });
-      console.error('Error toggling exam mode:', error);
-      return;
+      toast.error('Failed to propose exam session', { description: error.message });
+      console.error('Error proposing exam session:', error);
+      return false;
+    }
+
+    return true;
+  }, [profile]);
+
+  // End a running exam session (its starter or an admin)
+  const endExamSession = useCallback(async (sessionId: string) => {
+    if (!profile) return false;
+
+    const { error } = await supabase.rpc('end_exam_session', { p_session_id: sessionId });
+
+    if (error) {
+      toast.error('Failed to end exam session', { description: error.message });
+      console.error('Error ending exam session:', error);
+      return false;
     }
 
-    await addLog(
-      newMode ? 'EXAM_MODE_ON' : 'EXAM_MODE_OFF',
-      `${newMode ? 'Enabled' : 'Disabled'} exam mode`,
-      profile
-    );
-  }, [profile, examMode, addLog]);
+    return true;
+  }, [profile]);
+
+  // Running sessions that restrict the current student, decided from their enrolments
+  const myExamSessions = useMemo(
+    () => examSessions.filter(session => sessionCovers(session, enrolments)),
+    [examSessions, enrolments]
+  );
 
   // Add a new locker (teacher only)
-  const addLocker = useCallback(async (locker: Omit<Locker, 'status'> & { location: string }) => {
+  const addLocker = useCallback(async (locker: NewLocker) => {
     if (!profile) return;
     
     const { error } = await supabase
@@ -312,6 +391,7 @@ export const useLockerSystem = () => {
         student_name: locker.studentName,
         status: 'locked',
         location: locker.location,
+        bank_id: locker.bankId,
       });
     
     if (error) {
@@ -320,18 +400,16 @@ export const useLockerSystem = () => {
       return false;
     }
 
-    await addLog('LOCKER_ADD', `Added locker ${locker.id} at ${locker.location}`, profile);
     return true;
-  }, [profile, addLog]);
+  }, [profile]);
 
-  // Update a locker (teacher only)
+  // Update a locker's location or zone (teacher only); assignment goes through assignLocker
   const updateLocker = useCallback(async (lockerId: string, updates: Partial<Locker>) => {
     if (!profile) return;
     
     const dbUpdates: Partial<DbLocker> = {};
-    if (updates.studentId !== undefined) dbUpdates.student_id = updates.studentId;
-    if (updates.studentName !== undefined) dbUpdates.student_name = updates.studentName;
     if (updates.location !== undefined) dbUpdates.location = updates.location;
+    if (updates.bankId !== undefined) dbUpdates.bank_id = updates.bankId;
     
     const { error } = await supabase
       .from('lockers')
@@ -344,9 +422,8 @@ export const useLockerSystem = () => {
       return false;
     }
 
-    await addLog('LOCKER_UPDATE', `Updated locker ${lockerId}`, profile);
     return true;
-  }, [profile, addLog]);
+  }, [profile]);
 
   // Delete a locker (teacher only)
   const deleteLocker = useCallback(async (lockerId: string) => {
@@ -363,24 +440,60 @@ export const useLockerSystem = () => {
       return false;
     }
 
-    await addLog('LOCKER_DELETE', `Deleted locker ${lockerId}`, profile);
     return true;
-  }, [profile, addLog]);
+  }, [profile]);
+
+  // Create or update many lockers at once, e.g. from a CSV import (teacher only).
+  // Runs in one server-side transaction, so a bad row imports nothing.
+  const importLockers = useCallback(async (rows: NewLocker[]) => {
+    if (!profile) return false;
+
+    const { error } = await supabase.rpc('import_lockers', {
+      p_rows: rows.map(row => ({
+        id: row.id,
+        location: row.location,
+        student_id: row.studentId,
+      })),
+    });
 
-  // Assign locker to student
+    if (error) {
+      toast.error('Failed to import lockers', { description: error.message });
+      console.error('Error importing lockers:', error);
+      return false;
+    }
+
+    return true;
+  }, [profile]);
+
+  // Year-end rollover: release every assignment, then apply the planned
+  // allocations in the same transaction (admin only)
+  const rolloverLockers = useCallback(async (allocations: RolloverAllocation[]) => {
+    if (!profile) return false;
+
+    const { error } = await supabase.rpc('rollover_lockers', {
+      p_allocations: allocations.map(a => ({
+        locker_id: a.lockerId,
+        student_id: a.studentId,
+      })),
+    });
+
+    if (error) {
+      toast.error('Failed to roll over lockers', { description: error.message });
+      console.error('Error rolling over lockers:', error);
+      return false;
+    }
+
+    return true;
+  }, [profile]);
+
+  // Assign locker to student (server enforces one locker per student)
   const assignLocker = useCallback(async (lockerId: string, studentId: string | null) => {
     if (!profile) return false;
     
-    const student = studentId ? students.find(s => s.id === studentId) : null;
-    const studentName = student?.name || 'Unassigned';
-    
-    const { error } = await supabase
-      .from('lockers')
-      .update({
-        student_id: studentId,
-        student_name: studentName,
-      })
-      .eq('id', lockerId);
+    const { error } = await supabase.rpc('assign_locker', {
+      p_locker_id: lockerId,
+      p_student_id: studentId,
+    });
     
     if (error) {
       toast.error('Failed to assign locker', { description: error.message });
@@ -388,33 +501,51 @@ export const useLockerSystem = () => {
       return false;
     }
 
-    // Also update the student's profile with their locker_id
-    if (studentId) {
-      await supabase
-        .from('profiles')
-        .update({ locker_id: lockerId })
-        .eq('id', studentId);
+    return true;
+  }, [profile]);
+
+  // Move a student to an empty locker, keeping their assignment history
+  const transferLocker = useCallback(async (studentId: string, toLockerId: string) => {
+    if (!profile) return false;
+
+    const { error } = await supabase.rpc('transfer_locker', {
+      p_student_id: studentId,
+      p_to_locker_id: toLockerId,
+    });
+
+    if (error) {
+      toast.error('Failed to transfer locker', { description: error.message });
+      console.error('Error transferring locker:', error);
+      return false;
     }
 
-    await addLog('LOCKER_ASSIGN', `Assigned locker ${lockerId} to ${studentName}`, profile);
     return true;
-  }, [profile, students, addLog]);
+  }, [profile]);
 
   return {
     lockers,
     logs,
     examMode,
+    examSessions,
+    myExamSessions,
     isLoading,
     students,
     lockLocker,
     unlockLocker,
     toggleLocker,
+    retryLockerCommand,
     lockAllLockers,
+    unlockAllLockers,
     toggleExamMode,
+    startExamSession,
+    endExamSession,
     addLocker,
     updateLocker,
     deleteLocker,
     assignLocker,
+    transferLocker,
+    importLockers,
+    rolloverLockers,
     addLog,
   };
 };
@@ -0,0 +1,178 @@
+/**
+ * Hook for the building -> floor -> bank locker hierarchy
+ * Provides the layout, admin CRUD and helpers to resolve a zone to its banks
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { LockerScope } from '@/types';
+import { toast } from 'sonner';
+
+export interface Building {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface Floor {
+  id: string;
+  building_id: string;
+  name: string;
+  level: number;
+  created_at: string;
+}
+
+export interface LockerBank {
+  id: string;
+  floor_id: string;
+  name: string;
+  created_at: string;
+}
+
+export type ZoneLevel = 'building' | 'floor' | 'bank';
+
+export function useLockerZones() {
+  const { profile } = useAuth();
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [floors, setFloors] = useState<Floor[]>([]);
+  const [banks, setBanks] = useState<LockerBank[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchZones = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const [buildingsRes, floorsRes, banksRes] = await Promise.all([
+        supabase.from('buildings').select('*').order('name'),
+        supabase.from('floors').select('*').order('level'),
+        supabase.from('locker_banks').select('*').order('name'),
+      ]);
+
+      if (buildingsRes.error) throw buildingsRes.error;
+      if (floorsRes.error) throw floorsRes.error;
+      if (banksRes.error) throw banksRes.error;
+
+      setBuildings(buildingsRes.data || []);
+      setFloors(floorsRes.data || []);
+      setBanks(banksRes.data || []);
+    } catch (error) {
+      console.error('Error fetching locker zones:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchZones();
+      setIsLoading(false);
+    };
+
+    if (profile) {
+      loadData();
+    }
+  }, [profile, fetchZones]);
+
+  // Full path of a bank, e.g. "Main Building › Floor 2 › Bank A"
+  const getBankPath = useCallback((bankId: string | null): string | null => {
+    const bank = banks.find(b => b.id === bankId);
+    if (!bank) return null;
+    const floor = floors.find(f => f.id === bank.floor_id);
+    const building = buildings.find(b => b.id === floor?.building_id);
+    return [building?.name, floor?.name, bank.name].filter(Boolean).join(' › ');
+  }, [buildings, floors, banks]);
+
+  // Resolve a building, floor or bank to the banks it contains
+  const getScope = useCallback((level: ZoneLevel, id: string): LockerScope | null => {
+    if (level === 'bank') {
+      const path = getBankPath(id);
+      return path ? { label: path, bankIds: [id] } : null;
+    }
+
+    if (level === 'floor') {
+      const floor = floors.find(f => f.id === id);
+      if (!floor) return null;
+      const building = buildings.find(b => b.id === floor.building_id);
+      return {
+        label: [building?.name, floor.name].filter(Boolean).join(' › '),
+        bankIds: banks.filter(b => b.floor_id === id).map(b => b.id),
+      };
+    }
+
+    const building = buildings.find(b => b.id === id);
+    if (!building) return null;
+    const floorIds = floors.filter(f => f.building_id === id).map(f => f.id);
+    return {
+      label: building.name,
+      bankIds: banks.filter(b => floorIds.includes(b.floor_id)).map(b => b.id),
+    };
+  }, [buildings, floors, banks, getBankPath]);
+
+  const createBuilding = async (name: string) => {
+    const { error } = await supabase.from('buildings').insert({ name });
+
+    if (error) {
+      toast.error('Failed to add building', { description: error.message });
+      console.error('Error creating building:', error);
+      return false;
+    }
+
+    await fetchZones();
+    return true;
+  };
+
+  const createFloor = async (buildingId: string, name: string, level: number) => {
+    const { error } = await supabase.from('floors').insert({ building_id: buildingId, name, level });
+
+    if (error) {
+      toast.error('Failed to add floor', { description: error.message });
+      console.error('Error creating floor:', error);
+      return false;
+    }
+
+    await fetchZones();
+    return true;
+  };
+
+  const createBank = async (floorId: string, name: string) => {
+    const { error } = await supabase.from('locker_banks').insert({ floor_id: floorId, name });
+
+    if (error) {
+      toast.error('Failed to add bank', { description: error.message });
+      console.error('Error creating bank:', error);
+      return false;
+    }
+
+    await fetchZones();
+    return true;
+  };
+
+  // Deleting a zone removes everything below it; lockers are kept but lose their bank
+  const deleteZone = async (level: ZoneLevel, id: string) => {
+    const table = level === 'building' ? 'buildings' : level === 'floor' ? 'floors' : 'locker_banks';
+    const { error } = await supabase.from(table).delete().eq('id', id);
+
+    if (error) {
+      toast.error(`Failed to delete ${level}`, { description: error.message });
+      console.error(`Error deleting ${level}:`, error);
+      return false;
+    }
+
+    await fetchZones();
+    return true;
+  };
+
+  return {
+    buildings,
+    floors,
+    banks,
+    isLoading,
+    getBankPath,
+    getScope,
+    createBuilding,
+    createFloor,
+    createBank,
+    deleteZone,
+    refreshZones: fetchZones,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Hook for locker unlock requests
+ * Students ask for a staff-locked locker to be opened; teachers approve or
+ * deny from a realtime queue. Timed approvals are re-locked server-side.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+
+export interface UnlockRequest {
+  id: string;
+  locker_id: string;
+  student_id: string;
+  student_name: string;
+  reason: string;
+  status: 'pending' | 'approved' | 'denied';
+  response_message: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  relock_at: string | null;
+  relocked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function useUnlockRequests() {
+  const { profile } = useAuth();
+  const [requests, setRequests] = useState<UnlockRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Students only see their own requests (RLS)
+  const fetchRequests = useCallback(async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('locker_unlock_requests')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setRequests((data || []) as UnlockRequest[]);
+    } catch (error) {
+      console.error('Error fetching unlock requests:', error);
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setIsLoading(true);
+      await fetchRequests();
+      setIsLoading(false);
+    };
+
+    if (profile) {
+      loadData();
+    }
+  }, [profile, fetchRequests]);
+
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel('locker-unlock-requests-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'locker_unlock_requests' },
+        () => fetchRequests()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile, fetchRequests]);
+
+  // Ask for the current student's locker to be opened
+  const requestUnlock = async (lockerId: string, reason: string) => {
+    const { error } = await supabase.rpc('request_locker_unlock', {
+      p_locker_id: lockerId,
+      p_reason: reason,
+    });
+
+    if (error) {
+      toast.error('Failed to send request', { description: error.message });
+      console.error('Error requesting unlock:', error);
+      return false;
+    }
+
+    toast.success('Unlock requested', { description: 'A teacher will review your request' });
+    await fetchRequests();
+    return true;
+  };
+
+  // Approve a request; with unlockMinutes the locker re-locks automatically
+  const approveRequest = async (requestId: string, unlockMinutes: number | null, message?: string) => {
+    const { error } = await supabase.rpc('review_locker_unlock_request', {
+      p_request_id: requestId,
+      p_approve: true,
+      p_message: message,
+      p_unlock_minutes: unlockMinutes ?? undefined,
+    });
+
+    if (error) {
+      toast.error('Failed to approve request', { description: error.message });
+      console.error('Error approving unlock request:', error);
+      return false;
+    }
+
+    await fetchRequests();
+    return true;
+  };
+
+  const denyRequest = async (requestId: string, message: string) => {
+    const { error } = await supabase.rpc('review_locker_unlock_request', {
+      p_request_id: requestId,
+      p_approve: false,
+      p_message: message,
+    });
+
+    if (error) {
+      toast.error('Failed to deny request', { description: error.message });
+      console.error('Error denying unlock request:', error);
+      return false;
+    }
+
+    await fetchRequests();
+    return true;
+  };
+
+  return {
+    requests,
+    pendingRequests: requests.filter(r => r.status === 'pending'),
+    isLoading,
+    requestUnlock,
+    approveRequest,
+    denyRequest,
+    refreshRequests: fetchRequests,
+  };
+}
@@ -142,30 +142,182 @@ export type Database = {
           },
         ]
       }
+      buildings: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
       classes: {
         Row: {
           created_at: string
           id: string
           name: string
+          room: string | null
           year: number
         }
         Insert: {
           created_at?: string
           id?: string
           name: string
+          room?: string | null
           year?: number
         }
         Update: {
           created_at?: string
           id?: string
           name?: string
+          room?: string | null
           year?: number
         }
         Relationships: []
       }
+      desk_device_tokens: {
+        Row: {
+          desk_id: string
+          issued_at: string
+          issued_by: string
+          last_used_at: string | null
+          token_hash: string
+        }
+        Insert: {
+          desk_id: string
+          issued_at?: string
+          issued_by: string
+          last_used_at?: string | null
+          token_hash: string
+        }
+        Update: {
+          desk_id?: string
+          issued_at?: string
+          issued_by?: string
+          last_used_at?: string | null
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "desk_device_tokens_desk_id_fkey"
+            columns: ["desk_id"]
+            isOneToOne: true
+            referencedRelation: "desks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      desks: {
+        Row: {
+          assigned_student_id: string | null
+          created_at: string
+          current_user_id: string | null
+          current_user_name: string | null
+          id: string
+          is_idle: boolean
+          last_heartbeat_at: string | null
+          mode: string
+          room: string
+          seat: string | null
+          updated_at: string
+        }
+        Insert: {
+          assigned_student_id?: string | null
+          created_at?: string
+          current_user_id?: string | null
+          current_user_name?: string | null
+          id: string
+          is_idle?: boolean
+          last_heartbeat_at?: string | null
+          mode?: string
+          room: string
+          seat?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assigned_student_id?: string | null
+          created_at?: string
+          current_user_id?: string | null
+          current_user_name?: string | null
+          id?: string
+          is_idle?: boolean
+          last_heartbeat_at?: string | null
+          mode?: string
+          room?: string
+          seat?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      dual_control_requests: {
+        Row: {
+          action: string
+          created_at: string
+          exam_class_ids: string[] | null
+          exam_rooms: string[] | null
+          exam_title: string | null
+          expires_at: string
+          id: string
+          proposed_by: string
+          proposed_by_name: string
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_by_name: string | null
+          scope_bank_ids: string[] | null
+          scope_label: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          exam_class_ids?: string[] | null
+          exam_rooms?: string[] | null
+          exam_title?: string | null
+          expires_at: string
+          id?: string
+          proposed_by: string
+          proposed_by_name: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_name?: string | null
+          scope_bank_ids?: string[] | null
+          scope_label?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          exam_class_ids?: string[] | null
+          exam_rooms?: string[] | null
+          exam_title?: string | null
+          expires_at?: string
+          id?: string
+          proposed_by?: string
+          proposed_by_name?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_name?: string | null
+          scope_bank_ids?: string[] | null
+          scope_label?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       exam_questions: {
         Row: {
-          correct_answer: string | null
+          correct_answer: Json | null
           created_at: string
           exam_id: string
           id: string
@@ -176,7 +328,7 @@ export type Database = {
           question_type: string
         }
         Insert: {
-          correct_answer?: string | null
+          correct_answer?: Json | null
           created_at?: string
           exam_id: string
           id?: string
@@ -187,7 +339,7 @@ export type Database = {
           question_type?: string
         }
         Update: {
-          correct_answer?: string | null
+          correct_answer?: Json | null
           created_at?: string
           exam_id?: string
           id?: string
@@ -207,6 +359,68 @@ export type Database = {
           },
         ]
       }
+      exam_sessions: {
+        Row: {
+          class_ids: string[]
+          created_at: string
+          ended_at: string | null
+          ended_by: string | null
+          ended_by_name: string | null
+          ends_at: string | null
+          exam_id: string | null
+          id: string
+          locked_locker_ids: string[]
+          rooms: string[]
+          started_at: string
+          started_by: string
+          started_by_name: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          class_ids?: string[]
+          created_at?: string
+          ended_at?: string | null
+          ended_by?: string | null
+          ended_by_name?: string | null
+          ends_at?: string | null
+          exam_id?: string | null
+          id?: string
+          locked_locker_ids?: string[]
+          rooms?: string[]
+          started_at?: string
+          started_by: string
+          started_by_name: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          class_ids?: string[]
+          created_at?: string
+          ended_at?: string | null
+          ended_by?: string | null
+          ended_by_name?: string | null
+          ends_at?: string | null
+          exam_id?: string | null
+          id?: string
+          locked_locker_ids?: string[]
+          rooms?: string[]
+          started_at?: string
+          started_by?: string
+          started_by_name?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_sessions_exam_id_fkey"
+            columns: ["exam_id"]
+            isOneToOne: false
+            referencedRelation: "exams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exam_submissions: {
         Row: {
           answers: Json
@@ -245,17 +459,64 @@ export type Database = {
           },
         ]
       }
+      exam_tool_uses: {
+        Row: {
+          created_at: string
+          desk_id: string | null
+          id: string
+          session_id: string | null
+          student_id: string
+          student_name: string
+          tool: string
+          used_at: string
+        }
+        Insert: {
+          created_at?: string
+          desk_id?: string | null
+          id?: string
+          session_id?: string | null
+          student_id: string
+          student_name: string
+          tool: string
+          used_at: string
+        }
+        Update: {
+          created_at?: string
+          desk_id?: string | null
+          id?: string
+          session_id?: string | null
+          student_id?: string
+          student_name?: string
+          tool?: string
+          used_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exam_tool_uses_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "exam_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exams: {
         Row: {
+          allowed_material_ids: string[]
+          allowed_tools: string[]
+          auto_exam_mode: boolean
           auto_submit: boolean
           class_id: string
           created_at: string
           created_by: string
           description: string | null
           duration_minutes: number
+          formula_sheet_name: string | null
+          formula_sheet_path: string | null
           id: string
           is_online: boolean
           is_published: boolean
+          lock_lockers: boolean
           max_score: number
           scheduled_end: string
           scheduled_start: string
@@ -264,15 +525,21 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          allowed_material_ids?: string[]
+          allowed_tools?: string[]
+          auto_exam_mode?: boolean
           auto_submit?: boolean
           class_id: string
           created_at?: string
           created_by: string
           description?: string | null
           duration_minutes?: number
+          formula_sheet_name?: string | null
+          formula_sheet_path?: string | null
           id?: string
           is_online?: boolean
           is_published?: boolean
+          lock_lockers?: boolean
           max_score?: number
           scheduled_end: string
           scheduled_start: string
@@ -281,15 +548,21 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          allowed_material_ids?: string[]
+          allowed_tools?: string[]
+          auto_exam_mode?: boolean
           auto_submit?: boolean
           class_id?: string
           created_at?: string
           created_by?: string
           description?: string | null
           duration_minutes?: number
+          formula_sheet_name?: string | null
+          formula_sheet_path?: string | null
           id?: string
           is_online?: boolean
           is_published?: boolean
+          lock_lockers?: boolean
           max_score?: number
           scheduled_end?: string
           scheduled_start?: string
@@ -350,9 +623,42 @@ export type Database = {
         }
         Relationships: []
       }
+      floors: {
+        Row: {
+          building_id: string
+          created_at: string
+          id: string
+          level: number
+          name: string
+        }
+        Insert: {
+          building_id: string
+          created_at?: string
+          id?: string
+          level?: number
+          name: string
+        }
+        Update: {
+          building_id?: string
+          created_at?: string
+          id?: string
+          level?: number
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "floors_building_id_fkey"
+            columns: ["building_id"]
+            isOneToOne: false
+            referencedRelation: "buildings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       grades: {
         Row: {
           assignment_submission_id: string | null
+          breakdown: Json | null
           exam_submission_id: string | null
           feedback: string | null
           graded_at: string
@@ -365,6 +671,7 @@ export type Database = {
         }
         Insert: {
           assignment_submission_id?: string | null
+          breakdown?: Json | null
           exam_submission_id?: string | null
           feedback?: string | null
           graded_at?: string
@@ -377,6 +684,7 @@ export type Database = {
         }
         Update: {
           assignment_submission_id?: string | null
+          breakdown?: Json | null
           exam_submission_id?: string | null
           feedback?: string | null
           graded_at?: string
@@ -457,41 +765,699 @@ export type Database = {
           },
         ]
       }
+      locker_assignments: {
+        Row: {
+          assigned_at: string
+          assigned_by: string | null
+          end_reason: string | null
+          id: string
+          locker_id: string
+          released_at: string | null
+          released_by: string | null
+          student_id: string
+          student_name: string
+          transferred_to: string | null
+        }
+        Insert: {
+          assigned_at?: string
+          assigned_by?: string | null
+          end_reason?: string | null
+          id?: string
+          locker_id: string
+          released_at?: string | null
+          released_by?: string | null
+          student_id: string
+          student_name: string
+          transferred_to?: string | null
+        }
+        Update: {
+          assigned_at?: string
+          assigned_by?: string | null
+          end_reason?: string | null
+          id?: string
+          locker_id?: string
+          released_at?: string | null
+          released_by?: string | null
+          student_id?: string
+          student_name?: string
+          transferred_to?: string | null
+        }
+        Relationships: []
+      }
+      locker_banks: {
+        Row: {
+          created_at: string
+          floor_id: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          floor_id: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          floor_id?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_banks_floor_id_fkey"
+            columns: ["floor_id"]
+            isOneToOne: false
+            referencedRelation: "floors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_commands: {
+        Row: {
+          action: string
+          completed_at: string | null
+          controller_id: string
+          created_at: string
+          error: string | null
+          id: string
+          locker_id: string
+          requested_by: string | null
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          action: string
+          completed_at?: string | null
+          controller_id: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          locker_id: string
+          requested_by?: string | null
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          action?: string
+          completed_at?: string | null
+          controller_id?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          locker_id?: string
+          requested_by?: string | null
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_commands_controller_id_fkey"
+            columns: ["controller_id"]
+            isOneToOne: false
+            referencedRelation: "locker_controllers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locker_commands_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_controllers: {
+        Row: {
+          created_at: string
+          endpoint: string
+          id: string
+          last_seen_at: string | null
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          endpoint: string
+          id: string
+          last_seen_at?: string | null
+          name: string
+        }
+        Update: {
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
+      locker_device_events: {
+        Row: {
+          controller_id: string
+          controller_slot: number
+          detail: string | null
+          event_type: string
+          id: string
+          locker_id: string | null
+          occurred_at: string
+          received_at: string
+        }
+        Insert: {
+          controller_id: string
+          controller_slot: number
+          detail?: string | null
+          event_type: string
+          id: string
+          locker_id?: string | null
+          occurred_at: string
+          received_at?: string
+        }
+        Update: {
+          controller_id?: string
+          controller_slot?: number
+          detail?: string | null
+          event_type?: string
+          id?: string
+          locker_id?: string | null
+          occurred_at?: string
+          received_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_device_events_controller_id_fkey"
+            columns: ["controller_id"]
+            isOneToOne: false
+            referencedRelation: "locker_controllers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locker_device_events_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_events: {
+        Row: {
+          actor_id: string | null
+          actor_name: string
+          actor_role: string
+          created_at: string
+          event: string
+          id: string
+          locker_id: string
+          status: string
+          student_name: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name: string
+          actor_role: string
+          created_at?: string
+          event: string
+          id?: string
+          locker_id: string
+          status: string
+          student_name?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string
+          actor_role?: string
+          created_at?: string
+          event?: string
+          id?: string
+          locker_id?: string
+          status?: string
+          student_name?: string | null
+        }
+        Relationships: []
+      }
+      locker_incident_notes: {
+        Row: {
+          author_id: string
+          author_name: string
+          created_at: string
+          id: string
+          incident_id: string
+          locker_id: string
+          note: string
+        }
+        Insert: {
+          author_id: string
+          author_name: string
+          created_at?: string
+          id?: string
+          incident_id: string
+          locker_id: string
+          note: string
+        }
+        Update: {
+          author_id?: string
+          author_name?: string
+          created_at?: string
+          id?: string
+          incident_id?: string
+          locker_id?: string
+          note?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_incident_notes_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "locker_incidents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locker_incident_notes_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_incidents: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          acknowledged_by_name: string | null
+          closed_at: string | null
+          closed_by: string | null
+          closed_by_name: string | null
+          created_at: string
+          event_count: number
+          event_type: string
+          first_event_at: string
+          id: string
+          last_detail: string | null
+          last_event_at: string
+          locker_id: string
+          severity: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_name?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          event_count?: number
+          event_type: string
+          first_event_at: string
+          id?: string
+          last_detail?: string | null
+          last_event_at: string
+          locker_id: string
+          severity: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_name?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          created_at?: string
+          event_count?: number
+          event_type?: string
+          first_event_at?: string
+          id?: string
+          last_detail?: string | null
+          last_event_at?: string
+          locker_id?: string
+          severity?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_incidents_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_maintenance_tickets: {
+        Row: {
+          id: string
+          issue: string
+          locker_id: string
+          reported_at: string
+          reported_by: string
+          reported_by_name: string
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          id?: string
+          issue: string
+          locker_id: string
+          reported_at?: string
+          reported_by: string
+          reported_by_name: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          id?: string
+          issue?: string
+          locker_id?: string
+          reported_at?: string
+          reported_by?: string
+          reported_by_name?: string
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_maintenance_tickets_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_pins: {
+        Row: {
+          created_at: string
+          pin_hash: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          pin_hash: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          pin_hash?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      locker_schedules: {
+        Row: {
+          action: string
+          bank_id: string | null
+          building_id: string | null
+          created_at: string
+          created_by: string
+          days_of_week: number[]
+          end_time: string | null
+          floor_id: string | null
+          id: string
+          is_enabled: boolean
+          last_ended_on: string | null
+          last_started_on: string | null
+          name: string
+          start_time: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          action: string
+          bank_id?: string | null
+          building_id?: string | null
+          created_at?: string
+          created_by: string
+          days_of_week?: number[]
+          end_time?: string | null
+          floor_id?: string | null
+          id?: string
+          is_enabled?: boolean
+          last_ended_on?: string | null
+          last_started_on?: string | null
+          name: string
+          start_time: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          action?: string
+          bank_id?: string | null
+          building_id?: string | null
+          created_at?: string
+          created_by?: string
+          days_of_week?: number[]
+          end_time?: string | null
+          floor_id?: string | null
+          id?: string
+          is_enabled?: boolean
+          last_ended_on?: string | null
+          last_started_on?: string | null
+          name?: string
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_schedules_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "locker_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locker_schedules_building_id_fkey"
+            columns: ["building_id"]
+            isOneToOne: false
+            referencedRelation: "buildings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "locker_schedules_floor_id_fkey"
+            columns: ["floor_id"]
+            isOneToOne: false
+            referencedRelation: "floors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_unlock_attempts: {
+        Row: {
+          caller: string
+          code_id: string | null
+          created_at: string
+          id: string
+          locker_id: string
+          method: string | null
+          success: boolean
+        }
+        Insert: {
+          caller: string
+          code_id?: string | null
+          created_at?: string
+          id?: string
+          locker_id: string
+          method?: string | null
+          success: boolean
+        }
+        Update: {
+          caller?: string
+          code_id?: string | null
+          created_at?: string
+          id?: string
+          locker_id?: string
+          method?: string | null
+          success?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_unlock_attempts_code_id_fkey"
+            columns: ["code_id"]
+            isOneToOne: false
+            referencedRelation: "locker_unlock_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_unlock_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          expires_at: string
+          id: string
+          issued_by: string
+          issued_for: string | null
+          locker_id: string
+          used_at: string | null
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          issued_by: string
+          issued_for?: string | null
+          locker_id: string
+          used_at?: string | null
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          issued_by?: string
+          issued_for?: string | null
+          locker_id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_unlock_codes_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locker_unlock_requests: {
+        Row: {
+          created_at: string
+          id: string
+          locker_id: string
+          reason: string
+          relock_at: string | null
+          relocked_at: string | null
+          response_message: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          student_id: string
+          student_name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          locker_id: string
+          reason: string
+          relock_at?: string | null
+          relocked_at?: string | null
+          response_message?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          student_id: string
+          student_name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          locker_id?: string
+          reason?: string
+          relock_at?: string | null
+          relocked_at?: string | null
+          response_message?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          student_id?: string
+          student_name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "locker_unlock_requests_locker_id_fkey"
+            columns: ["locker_id"]
+            isOneToOne: false
+            referencedRelation: "lockers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lockers: {
         Row: {
+          bank_id: string | null
+          command_error: string | null
+          command_state: string
+          command_updated_at: string | null
+          controller_id: string | null
+          controller_slot: number | null
           created_at: string
           id: string
           location: string
           locked_at: string | null
           locked_by: string | null
+          out_of_service: boolean
           status: string
           student_id: string | null
           student_name: string
           updated_at: string
         }
         Insert: {
+          bank_id?: string | null
+          command_error?: string | null
+          command_state?: string
+          command_updated_at?: string | null
+          controller_id?: string | null
+          controller_slot?: number | null
           created_at?: string
           id: string
           location: string
           locked_at?: string | null
           locked_by?: string | null
+          out_of_service?: boolean
           status?: string
           student_id?: string | null
           student_name?: string
           updated_at?: string
         }
         Update: {
+          bank_id?: string | null
+          command_error?: string | null
+          command_state?: string
+          command_updated_at?: string | null
+          controller_id?: string | null
+          controller_slot?: number | null
           created_at?: string
           id?: string
           location?: string
           locked_at?: string | null
           locked_by?: string | null
+          out_of_service?: boolean
           status?: string
           student_id?: string | null
           student_name?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "lockers_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "locker_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lockers_controller_id_fkey"
+            columns: ["controller_id"]
+            isOneToOne: false
+            referencedRelation: "locker_controllers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       material_assignments: {
         Row: {
@@ -660,6 +1626,48 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acknowledge_locker_incident: {
+        Args: { p_incident_id: string; p_note?: string }
+        Returns: undefined
+      }
+      add_locker_incident_note: {
+        Args: { p_incident_id: string; p_note: string }
+        Returns: undefined
+      }
+      approve_dual_control_action: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      assign_locker: {
+        Args: { p_locker_id: string; p_student_id: string | null }
+        Returns: undefined
+      }
+      auto_grade_exam: { Args: { p_exam_id: string }; Returns: number }
+      check_research_access: {
+        Args: { p_target?: string; p_tool: string }
+        Returns: Json
+      }
+      close_locker_incident: {
+        Args: { p_incident_id: string; p_note: string }
+        Returns: undefined
+      }
+      desk_heartbeat: {
+        Args: { p_desk_id: string; p_idle?: boolean }
+        Returns: string
+      }
+      end_exam_session: { Args: { p_session_id: string }; Returns: undefined }
+      exam_session_covers: {
+        Args: { _class_ids: string[]; _rooms: string[]; _user_id: string }
+        Returns: boolean
+      }
+      exam_submission_deadline: {
+        Args: { _exam_id: string; _started_at: string }
+        Returns: string
+      }
+      expire_locker_commands: {
+        Args: { _timeout?: unknown }
+        Returns: number
+      }
       get_exam_questions_for_student: {
         Args: { p_exam_id: string }
         Returns: {
@@ -672,6 +1680,12 @@ export type Database = {
           question_type: string
         }[]
       }
+      get_exam_tool_policy: { Args: never; Returns: Json }
+      get_locker_analytics: {
+        Args: { p_days?: number; p_timezone?: string }
+        Returns: Json
+      }
+      get_timezone_names: { Args: never; Returns: string[] }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -683,6 +1697,80 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_lockers: { Args: { p_rows: Json }; Returns: Json }
+      issue_locker_unlock_code: {
+        Args: { p_locker_id: string; p_valid_minutes?: number }
+        Returns: Json
+      }
+      log_activity: {
+        Args: { p_action: string; p_details: string }
+        Returns: undefined
+      }
+      propose_dual_control_action: {
+        Args: {
+          p_action: string
+          p_bank_ids?: string[]
+          p_class_ids?: string[]
+          p_exam_title?: string
+          p_rooms?: string[]
+          p_scope_label?: string
+        }
+        Returns: string
+      }
+      provision_desk_token: { Args: { p_desk_id: string }; Returns: string }
+      record_exam_tool_use: {
+        Args: {
+          p_desk_id?: string
+          p_session_ids?: string[]
+          p_tool: string
+          p_used_at?: string
+        }
+        Returns: number
+      }
+      reject_dual_control_action: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      report_locker_issue: {
+        Args: { p_issue: string; p_locker_id: string }
+        Returns: string
+      }
+      request_locker_unlock: {
+        Args: { p_locker_id: string; p_reason: string }
+        Returns: string
+      }
+      resolve_locker_issue: {
+        Args: { p_locker_id: string; p_resolution_note?: string }
+        Returns: undefined
+      }
+      retry_locker_command: {
+        Args: { p_locker_id: string }
+        Returns: string
+      }
+      review_locker_unlock_request: {
+        Args: {
+          p_approve: boolean
+          p_message?: string
+          p_request_id: string
+          p_unlock_minutes?: number
+        }
+        Returns: undefined
+      }
+      revoke_desk_token: { Args: { p_desk_id: string }; Returns: undefined }
+      rollover_lockers: { Args: { p_allocations: Json }; Returns: Json }
+      set_locker_pin: { Args: { p_pin: string }; Returns: undefined }
+      set_locker_status: {
+        Args: { p_locker_id: string; p_status: string }
+        Returns: undefined
+      }
+      transfer_locker: {
+        Args: { p_student_id: string; p_to_locker_id: string; p_unlock?: boolean }
+        Returns: undefined
+      }
+      unlock_locker_with_code: {
+        Args: { p_code: string; p_locker_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "student" | "teacher" | "admin"
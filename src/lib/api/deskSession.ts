@@ -0,0 +1,81 @@
+/**
+ * Desk Kiosk API Client
+ * Device-token storage and sign-in for shared desk terminals via the
+ * desk-session edge function
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+type DeskSessionResponse<T> = {
+  success: boolean;
+  error?: string;
+} & Partial<T>;
+
+export type KioskDesk = {
+  id: string;
+  room: string;
+  seat: string | null;
+};
+
+const tokenKey = (deskId: string) => `slds-desk-token-${deskId}`;
+
+// The device token stays on the terminal across sessions; it is not user data
+export const deskTokenStore = {
+  get: (deskId: string) => localStorage.getItem(tokenKey(deskId)),
+  set: (deskId: string, token: string) => localStorage.setItem(tokenKey(deskId), token),
+  clear: (deskId: string) => localStorage.removeItem(tokenKey(deskId)),
+};
+
+// Kiosk URL an admin opens once on the terminal to provision it
+export const kioskUrl = (deskId: string, token: string) =>
+  `${window.location.origin}/desk/${encodeURIComponent(deskId)}#token=${token}`;
+
+async function invoke<T>(deskId: string, token: string, body: Record<string, unknown>): Promise<DeskSessionResponse<T>> {
+  const { data, error } = await supabase.functions.invoke('desk-session', {
+    body: { deskId, ...body },
+    headers: { 'x-desk-token': token },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      try {
+        const errorBody = await error.context.json();
+        if (errorBody && typeof errorBody.error === 'string') return errorBody;
+      } catch {
+        // Not a JSON body; fall back to the generic message
+      }
+    }
+    console.error('Desk session error:', error);
+    return { success: false, error: error.message } as DeskSessionResponse<T>;
+  }
+  return data;
+}
+
+export const deskSessionApi = {
+  /**
+   * Check the terminal's device token and load the desk it belongs to
+   */
+  verify(deskId: string, token: string) {
+    return invoke<{ desk: KioskDesk }>(deskId, token, { action: 'verify' });
+  },
+
+  /**
+   * Sign a student in at the desk and install the returned session
+   */
+  async signIn(deskId: string, token: string, username: string, password: string): Promise<DeskSessionResponse<object>> {
+    const result = await invoke<{ session: { access_token: string; refresh_token: string } }>(
+      deskId,
+      token,
+      { action: 'sign_in', username, password },
+    );
+    if (!result.success || !result.session) return { success: false, error: result.error };
+
+    const { error } = await supabase.auth.setSession(result.session);
+    if (error) {
+      console.error('Error installing desk session:', error);
+      return { success: false, error: error.message };
+    }
+    return { success: true };
+  },
+};
@@ -3,11 +3,15 @@
  * Provides methods to search and scrape the web via edge functions
  */
 
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 
 type FirecrawlResponse<T = any> = {
   success: boolean;
   error?: string;
+  /** EXAM_MODE_ACTIVE when exam restrictions refused the request */
+  code?: string;
+  exam?: { scope?: 'school' | 'session'; sessions: string[] };
   data?: T;
 };
 
@@ -41,6 +45,22 @@ type ScrapeOptions = {
   waitFor?: number;
 };
 
+/**
+ * Turns an invoke error into a response, keeping the function's own error
+ * body (such as an exam refusal) when it sent one
+ */
+async function toErrorResponse(error: Error): Promise<FirecrawlResponse> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body && typeof body.error === 'string') return body;
+    } catch {
+      // Not a JSON body; fall back to the generic message
+    }
+  }
+  return { success: false, error: error.message };
+}
+
 /**
  * Firecrawl API methods for web searching and scraping
  */
@@ -57,7 +77,7 @@ export const firecrawlApi = {
 
     if (error) {
       console.error('Firecrawl search error:', error);
-      return { success: false, error: error.message };
+      return toErrorResponse(error);
     }
     return data;
   },
@@ -74,7 +94,7 @@ export const firecrawlApi = {
 
     if (error) {
       console.error('Firecrawl scrape error:', error);
-      return { success: false, error: error.message };
+      return toErrorResponse(error);
     }
     return data;
   },
@@ -0,0 +1,207 @@
+/**
+ * Scientific calculator expression evaluation for the exam desk tools
+ * A small recursive-descent parser, so nothing typed is ever run as code and
+ * the calculator works without a network.
+ */
+
+export type AngleMode = 'deg' | 'rad';
+
+export class CalculatorError extends Error {}
+
+const FUNCTIONS: Record<string, (x: number, angle: AngleMode) => number> = {
+  sin: (x, a) => Math.sin(toRadians(x, a)),
+  cos: (x, a) => Math.cos(toRadians(x, a)),
+  tan: (x, a) => Math.tan(toRadians(x, a)),
+  asin: (x, a) => fromRadians(Math.asin(x), a),
+  acos: (x, a) => fromRadians(Math.acos(x), a),
+  atan: (x, a) => fromRadians(Math.atan(x), a),
+  sqrt: (x) => Math.sqrt(x),
+  ln: (x) => Math.log(x),
+  log: (x) => Math.log10(x),
+  abs: (x) => Math.abs(x),
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  'π': Math.PI,
+  e: Math.E,
+};
+
+function toRadians(x: number, angle: AngleMode) {
+  return angle === 'deg' ? (x * Math.PI) / 180 : x;
+}
+
+function fromRadians(x: number, angle: AngleMode) {
+  return angle === 'deg' ? (x * 180) / Math.PI : x;
+}
+
+function factorial(n: number) {
+  if (!Number.isInteger(n) || n < 0) throw new CalculatorError('Factorial needs a whole number');
+  if (n > 170) return Infinity;
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const source = input.replace(/×/g, '*').replace(/÷/g, '/').replace(/−/g, '-');
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[\d.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new CalculatorError(`Unexpected "${ch}"`);
+      // A second decimal point, as in "1.2.3"
+      if (source[i + match[0].length] === '.') throw new CalculatorError('Unexpected "."');
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[a-zπ]/i.test(ch)) {
+      const match = /^([a-z]+|π)/i.exec(source.slice(i));
+      tokens.push({ type: 'name', value: match[0].toLowerCase() });
+      i += match[0].length;
+    } else if ('+-*/^()!%'.includes(ch)) {
+      tokens.push({ type: 'op', value: ch });
+      i++;
+    } else {
+      throw new CalculatorError(`Unexpected "${ch}"`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Evaluate an expression such as "2sin(30) + 3^2!" or "sqrt(2)/2".
+ * Implicit multiplication is supported ("2pi", "3(4+1)"); % divides by 100.
+ */
+export function evaluateExpression(input: string, angle: AngleMode = 'deg', ans = 0): number {
+  const tokens = tokenize(input);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new CalculatorError(`Expected "${value}"`);
+    pos++;
+  };
+  // Let a trailing ")" be omitted, as handheld calculators do
+  const close = () => {
+    if (peek()) expect(')');
+  };
+
+  // expression := term (('+' | '-') term)*
+  const expression = (): number => {
+    let value = term();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].value;
+      const right = term();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := unary (('*' | '/' | implicit) unary)*
+  const term = (): number => {
+    let value = unary();
+    for (;;) {
+      if (isOp('*') || isOp('/')) {
+        const op = tokens[pos++].value;
+        const right = unary();
+        value = op === '*' ? value * right : value / right;
+      } else if (peek() && (peek().type !== 'op' || isOp('('))) {
+        value *= unary();
+      } else {
+        return value;
+      }
+    }
+  };
+
+  // unary := ('-' | '+') unary | power
+  const unary = (): number => {
+    if (isOp('-')) {
+      pos++;
+      return -unary();
+    }
+    if (isOp('+')) {
+      pos++;
+      return unary();
+    }
+    return power();
+  };
+
+  // power := postfix ('^' unary)?  (right-associative)
+  const power = (): number => {
+    const base = postfix();
+    if (isOp('^')) {
+      pos++;
+      return Math.pow(base, unary());
+    }
+    return base;
+  };
+
+  // postfix := primary ('!' | '%')*
+  const postfix = (): number => {
+    let value = primary();
+    while (isOp('!') || isOp('%')) {
+      value = tokens[pos++].value === '!' ? factorial(value) : value / 100;
+    }
+    return value;
+  };
+
+  const primary = (): number => {
+    const token = peek();
+    if (!token) throw new CalculatorError('Incomplete expression');
+
+    if (token.type === 'number') {
+      pos++;
+      return token.value;
+    }
+
+    if (token.type === 'name') {
+      pos++;
+      if (token.value === 'ans') return ans;
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      const fn = FUNCTIONS[token.value];
+      if (!fn) throw new CalculatorError(`Unknown function "${token.value}"`);
+      // Parentheses are optional for a single argument: "sin 30"
+      if (isOp('(')) {
+        pos++;
+        const arg = expression();
+        close();
+        return fn(arg, angle);
+      }
+      return fn(power(), angle);
+    }
+
+    if (isOp('(')) {
+      pos++;
+      const value = expression();
+      close();
+      return value;
+    }
+
+    throw new CalculatorError(`Unexpected "${token.value}"`);
+  };
+
+  const result = expression();
+  if (pos < tokens.length) throw new CalculatorError(`Unexpected "${tokens[pos].value}"`);
+  if (Number.isNaN(result)) throw new CalculatorError('Not a number');
+  return result;
+}
+
+/**
+ * Display a result the way a calculator does: up to 12 significant digits,
+ * without floating-point noise such as 0.30000000000000004
+ */
+export function formatResult(value: number): string {
+  if (!Number.isFinite(value)) return value > 0 ? '∞' : '-∞';
+  if (value !== 0 && (Math.abs(value) >= 1e12 || Math.abs(value) < 1e-9)) {
+    return value.toExponential(8).replace(/\.?0+e/, 'e');
+  }
+  return String(parseFloat(value.toPrecision(12)));
+}
@@ -0,0 +1,94 @@
+/**
+ * Minimal CSV helpers (RFC 4180 quoting) for spreadsheet import and export
+ */
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted fields, escaped quotes ("") and CRLF line endings.
+ * Blank lines are skipped, and the ' toCsv puts before formula-like cells is
+ * removed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark written by some spreadsheet apps
+  const input = text.replace(/^\uFEFF/, '');
+
+  const pushCell = () => {
+    row.push(cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell);
+    cell = '';
+  };
+
+  const endRow = () => {
+    pushCell();
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      pushCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Serialise rows to CSV, quoting cells that need it
+ * Text that a spreadsheet would read as a formula is prefixed with '.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows
+    .map(row =>
+      row
+        .map(value => {
+          let text = value == null ? '' : String(value);
+          if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+}
+
+/**
+ * Trigger a browser download of CSV content
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,210 @@
+/**
+ * Exam question kinds
+ * What each kind shows students (options), its answer key (correct_answer)
+ * and the shape of a student's answer. The server grades with the same
+ * schemas in exam_answer_score.
+ */
+
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'short_answer'
+  | 'numeric'
+  | 'matching'
+  | 'ordering'
+  | 'essay';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple_choice',
+  'true_false',
+  'short_answer',
+  'numeric',
+  'matching',
+  'ordering',
+  'essay',
+];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True / False',
+  short_answer: 'Short Answer',
+  numeric: 'Numeric',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  essay: 'Essay',
+};
+
+// Matching shows every prompt with the choices shuffled
+export type MatchingOptions = { prompts: string[]; choices: string[] };
+export type EssayOptions = { word_limit: number | null };
+export type NumericKey = { value: number; tolerance: number };
+
+// Multiple choice lists its choices; ordering lists its items shuffled
+export type QuestionOptions = string[] | MatchingOptions | EssayOptions;
+// The right choice, true/false, the accepted short answers, the numeric
+// value, the choice for each matching prompt, or the items in order
+export type AnswerKey = string | boolean | string[] | NumericKey;
+// Numeric answers are kept as typed; matching answers list the choice
+// picked for each prompt
+export type ExamAnswer = string | number | boolean | string[];
+
+export class QuestionDraftError extends Error {}
+
+/**
+ * Editor state for a new question; each kind reads the fields it needs
+ */
+export type QuestionDraft = {
+  question_text: string;
+  question_type: QuestionType;
+  points: number;
+  // Choices, accepted answers, items in order, or matching prompts
+  items: string[];
+  // The match for each prompt
+  matches: string[];
+  // The right choice, 'true' or 'false', the numeric value, or the essay word limit
+  answer: string;
+  tolerance: string;
+};
+
+const DRAFT_ITEM_COUNTS: Record<QuestionType, number> = {
+  multiple_choice: 4,
+  true_false: 0,
+  short_answer: 1,
+  numeric: 0,
+  matching: 3,
+  ordering: 3,
+  essay: 0,
+};
+
+export const emptyQuestionDraft = (question_type: QuestionType = 'multiple_choice'): QuestionDraft => ({
+  question_text: '',
+  question_type,
+  points: 1,
+  items: Array(DRAFT_ITEM_COUNTS[question_type]).fill(''),
+  matches: Array(DRAFT_ITEM_COUNTS[question_type]).fill(''),
+  answer: '',
+  tolerance: '0',
+});
+
+// Shuffled so the shown order does not give the answer away
+export function shuffled<T>(items: T[]): T[] {
+  const shuffle = () => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  };
+  const inOrder = (list: T[]) => list.every((item, i) => item === items[i]);
+
+  let result = shuffle();
+  for (let attempt = 0; attempt < 5 && items.length > 1 && inOrder(result); attempt++) {
+    result = shuffle();
+  }
+  return result;
+}
+
+const filled = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+
+/**
+ * The options and answer key a draft saves as
+ */
+export function buildQuestion(draft: QuestionDraft): { options: QuestionOptions | null; correct_answer: AnswerKey | null } {
+  switch (draft.question_type) {
+    case 'multiple_choice': {
+      const choices = filled(draft.items);
+      if (choices.length < 2) throw new QuestionDraftError('Add at least two options');
+      if (!choices.includes(draft.answer.trim())) throw new QuestionDraftError('Select the correct option');
+      return { options: choices, correct_answer: draft.answer.trim() };
+    }
+    case 'true_false':
+      if (draft.answer !== 'true' && draft.answer !== 'false') throw new QuestionDraftError('Select true or false');
+      return { options: null, correct_answer: draft.answer === 'true' };
+    case 'short_answer': {
+      // Without accepted answers every response is marked by hand
+      const accepted = filled(draft.items);
+      return { options: null, correct_answer: accepted.length > 0 ? accepted : null };
+    }
+    case 'numeric': {
+      const value = parseFloat(draft.answer);
+      const tolerance = draft.tolerance.trim() ? parseFloat(draft.tolerance) : 0;
+      if (!Number.isFinite(value)) throw new QuestionDraftError('Enter the correct value');
+      if (!Number.isFinite(tolerance) || tolerance < 0) throw new QuestionDraftError('Tolerance must be zero or more');
+      return { options: null, correct_answer: { value, tolerance } };
+    }
+    case 'matching': {
+      const pairs = draft.items
+        .map((prompt, i) => [prompt.trim(), (draft.matches[i] ?? '').trim()])
+        .filter(([prompt, match]) => prompt || match);
+      if (pairs.some(([prompt, match]) => !prompt || !match)) throw new QuestionDraftError('Give every prompt a match');
+      if (pairs.length < 2) throw new QuestionDraftError('Add at least two pairs');
+      const matches = pairs.map(([, match]) => match);
+      return {
+        options: { prompts: pairs.map(([prompt]) => prompt), choices: shuffled([...new Set(matches)]) },
+        correct_answer: matches,
+      };
+    }
+    case 'ordering': {
+      const items = filled(draft.items);
+      if (items.length < 2) throw new QuestionDraftError('Add at least two items');
+      if (new Set(items).size < items.length) throw new QuestionDraftError('Items must be different');
+      return { options: shuffled(items), correct_answer: items };
+    }
+    case 'essay': {
+      const wordLimit = parseInt(draft.answer);
+      return { options: { word_limit: wordLimit > 0 ? wordLimit : null }, correct_answer: null };
+    }
+  }
+}
+
+export const isAnswered = (answer: ExamAnswer | undefined) => {
+  if (answer === undefined || answer === null) return false;
+  if (typeof answer === 'string') return answer.trim() !== '';
+  if (Array.isArray(answer)) return answer.some(a => a.trim() !== '');
+  return true;
+};
+
+export const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * A student's answer as text, for teachers marking it
+ */
+export function formatAnswer(question: { question_type: string; options: QuestionOptions | null }, answer: ExamAnswer | undefined) {
+  if (!isAnswered(answer)) return '';
+  if (typeof answer === 'boolean') return answer ? 'True' : 'False';
+  if (!Array.isArray(answer)) return String(answer);
+
+  if (question.question_type === 'matching') {
+    const { prompts } = question.options as MatchingOptions;
+    return prompts.map((prompt, i) => `${prompt} → ${answer[i] || '—'}`).join('\n');
+  }
+  return answer.map((item, i) => `${i + 1}. ${item}`).join('\n');
+}
+
+/**
+ * The answer key as text, or null when answers are marked by hand
+ */
+export function describeAnswerKey(question: { question_type: string; options: QuestionOptions | null; correct_answer: AnswerKey | null }) {
+  const key = question.correct_answer;
+  if (key === null || key === undefined) return null;
+
+  switch (question.question_type as QuestionType) {
+    case 'true_false':
+      return key ? 'True' : 'False';
+    case 'short_answer':
+      return `Accepts ${(key as string[]).map(k => `"${k}"`).join(', ')}`;
+    case 'numeric': {
+      const { value, tolerance } = key as NumericKey;
+      return tolerance > 0 ? `${value} ± ${tolerance}` : String(value);
+    }
+    case 'matching': {
+      const { prompts } = question.options as MatchingOptions;
+      return prompts.map((prompt, i) => `${prompt} → ${(key as string[])[i]}`).join('; ');
+    }
+    case 'ordering':
+      return (key as string[]).join(' → ');
+    default:
+      return String(key);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Year-end locker rollover planning
+ * Allocates free lockers to the students of the chosen classes. Pure and
+ * deterministic, so the wizard's preview is exactly what gets committed.
+ */
+
+import { Locker } from '@/types';
+
+// same_bank: each class kept in one bank where it fits, spilling into the
+//   best-fitting bank otherwise; A-Z within the class
+// by_class: class after class through the lockers in order; A-Z within the class
+// alphabetical: every chosen student A-Z through the lockers in order
+export type RolloverRule = 'same_bank' | 'by_class' | 'alphabetical';
+
+export interface RolloverClass {
+  id: string;
+  name: string;
+  // Enrolled students; a student in several chosen classes is allocated once
+  students: { id: string; name: string }[];
+}
+
+export interface RolloverAllocation {
+  lockerId: string;
+  bankId: string | null;
+  studentId: string;
+  studentName: string;
+  className: string;
+}
+
+export interface RolloverPlan {
+  allocations: RolloverAllocation[];
+  // Students left without a locker because none were free
+  unallocated: { studentId: string; studentName: string; className: string }[];
+  // Lockers left free after allocation
+  freeLockers: number;
+}
+
+const byName = new Intl.Collator(undefined, { sensitivity: 'base' });
+const byLockerId = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Plan the allocation. Every in-service locker counts as free, since the
+ * rollover releases all current assignments first.
+ */
+export function planRollover(lockers: Locker[], classes: RolloverClass[], rule: RolloverRule): RolloverPlan {
+  // Lockers grouped by bank, banks and lockers in a stable order
+  const banks = new Map<string, Locker[]>();
+  lockers
+    .filter(l => !l.outOfService)
+    .sort((a, b) => byLockerId.compare(a.id, b.id))
+    .forEach(locker => {
+      const key = locker.bankId ?? '';
+      banks.set(key, [...(banks.get(key) ?? []), locker]);
+    });
+
+  // Each student once, under the first chosen class they belong to
+  const seen = new Set<string>();
+  const groups = classes.map(cls => ({
+    className: cls.name,
+    students: [...cls.students]
+      .sort((a, b) => byName.compare(a.name, b.name))
+      .filter(s => {
+        if (seen.has(s.id)) return false;
+        seen.add(s.id);
+        return true;
+      }),
+  }));
+
+  const queue = rule === 'alphabetical'
+    ? [{
+      className: '',
+      students: groups
+        .flatMap(g => g.students.map(s => ({ ...s, className: g.className })))
+        .sort((a, b) => byName.compare(a.name, b.name)),
+    }]
+    : groups.map(g => ({ className: g.className, students: g.students.map(s => ({ ...s, className: g.className })) }));
+
+  const allocations: RolloverAllocation[] = [];
+  const unallocated: RolloverPlan['unallocated'] = [];
+
+  const take = (bankKey: string) => {
+    const free = banks.get(bankKey);
+    const locker = free?.shift();
+    if (free && free.length === 0) banks.delete(bankKey);
+    return locker;
+  };
+
+  // Bank to start a group in: the smallest that fits it whole, else the roomiest
+  const pickBank = (size: number): string | undefined => {
+    const entries = [...banks.entries()];
+    const fitting = entries
+      .filter(([, free]) => free.length >= size)
+      .sort((a, b) => a[1].length - b[1].length);
+    if (fitting.length > 0) return fitting[0][0];
+    return entries.sort((a, b) => b[1].length - a[1].length)[0]?.[0];
+  };
+
+  // Plain sequential order: bank by bank
+  const nextInOrder = () => {
+    const first = [...banks.keys()][0];
+    return first === undefined ? undefined : take(first);
+  };
+
+  for (const group of queue) {
+    let bankKey = rule === 'same_bank' ? pickBank(group.students.length) : undefined;
+
+    group.students.forEach((student, index) => {
+      let locker = bankKey !== undefined ? take(bankKey) : undefined;
+
+      if (!locker && rule === 'same_bank') {
+        // Bank is full: continue the rest of the class in the best-fitting bank
+        bankKey = pickBank(group.students.length - index);
+        locker = bankKey !== undefined ? take(bankKey) : undefined;
+      } else if (!locker) {
+        locker = nextInOrder();
+      }
+
+      if (!locker) {
+        unallocated.push({ studentId: student.id, studentName: student.name, className: student.className });
+        return;
+      }
+
+      allocations.push({
+        lockerId: locker.id,
+        bankId: locker.bankId,
+        studentId: student.id,
+        studentName: student.name,
+        className: student.className,
+      });
+    });
+  }
+
+  return {
+    allocations,
+    unallocated,
+    freeLockers: [...banks.values()].reduce((n, free) => n + free.length, 0),
+  };
+}
@@ -260,6 +260,23 @@ export async function clearCompletedSyncItems(): Promise<void> {
   }
 }
 
+// Wipe everything cached for the signed-in user: downloaded materials,
+// unsynced changes, cached credentials and settings. Used when a session on a
+// shared desk ends so the next user finds nothing of theirs.
+export async function clearUserData(): Promise<void> {
+  const database = await getDB();
+  await Promise.all([
+    database.clear('materials'),
+    database.clear('files'),
+    database.clear('syncQueue'),
+    database.clear('authCache'),
+  ]);
+
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('slds-setting-'))
+    .forEach(key => localStorage.removeItem(key));
+}
+
 // User settings storage
 export async function saveUserSetting(key: string, value: unknown): Promise<void> {
   try {
@@ -308,6 +325,9 @@ export const offlineDB = {
   removeSyncItem,
   clearCompletedSyncItems,
   
+  // Session cleanup
+  clearUserData,
+  
   // User settings
   saveUserSetting,
   getUserSetting,
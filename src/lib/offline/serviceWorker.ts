@@ -80,3 +80,19 @@ export async function isServiceWorkerActive(): Promise<boolean> {
     return false;
   }
 }
+
+// Runtime caches (named in vite.config.ts) that can hold a user's API
+// responses or materials
+const USER_CACHE_NAMES = ['supabase-api-cache', 'supabase-auth-cache', 'learning-materials-cache'];
+
+export async function clearUserCaches(): Promise<void> {
+  if (!('caches' in window)) {
+    return;
+  }
+
+  try {
+    await Promise.all(USER_CACHE_NAMES.map(name => caches.delete(name)));
+  } catch (error) {
+    console.error('Error clearing user caches:', error);
+  }
+}
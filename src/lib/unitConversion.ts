@@ -0,0 +1,105 @@
+/**
+ * Unit conversion tables for the exam desk tools
+ * Each unit is defined by its factor to the category's SI base unit;
+ * temperature scales also carry an offset.
+ */
+
+export type UnitCategory = 'length' | 'mass' | 'volume' | 'area' | 'time' | 'speed' | 'temperature' | 'energy' | 'pressure';
+
+export interface Unit {
+  id: string;
+  label: string;
+  symbol: string;
+  // base = value * factor + offset
+  factor: number;
+  offset?: number;
+}
+
+export const UNIT_CATEGORY_LABELS: Record<UnitCategory, string> = {
+  length: 'Length',
+  mass: 'Mass',
+  volume: 'Volume',
+  area: 'Area',
+  time: 'Time',
+  speed: 'Speed',
+  temperature: 'Temperature',
+  energy: 'Energy',
+  pressure: 'Pressure',
+};
+
+export const UNITS: Record<UnitCategory, Unit[]> = {
+  length: [
+    { id: 'mm', label: 'Millimetre', symbol: 'mm', factor: 1e-3 },
+    { id: 'cm', label: 'Centimetre', symbol: 'cm', factor: 1e-2 },
+    { id: 'm', label: 'Metre', symbol: 'm', factor: 1 },
+    { id: 'km', label: 'Kilometre', symbol: 'km', factor: 1e3 },
+    { id: 'in', label: 'Inch', symbol: 'in', factor: 0.0254 },
+    { id: 'ft', label: 'Foot', symbol: 'ft', factor: 0.3048 },
+    { id: 'yd', label: 'Yard', symbol: 'yd', factor: 0.9144 },
+    { id: 'mi', label: 'Mile', symbol: 'mi', factor: 1609.344 },
+  ],
+  mass: [
+    { id: 'mg', label: 'Milligram', symbol: 'mg', factor: 1e-6 },
+    { id: 'g', label: 'Gram', symbol: 'g', factor: 1e-3 },
+    { id: 'kg', label: 'Kilogram', symbol: 'kg', factor: 1 },
+    { id: 't', label: 'Tonne', symbol: 't', factor: 1e3 },
+    { id: 'oz', label: 'Ounce', symbol: 'oz', factor: 0.028349523125 },
+    { id: 'lb', label: 'Pound', symbol: 'lb', factor: 0.45359237 },
+  ],
+  volume: [
+    { id: 'ml', label: 'Millilitre', symbol: 'mL', factor: 1e-6 },
+    { id: 'l', label: 'Litre', symbol: 'L', factor: 1e-3 },
+    { id: 'cm3', label: 'Cubic centimetre', symbol: 'cm³', factor: 1e-6 },
+    { id: 'm3', label: 'Cubic metre', symbol: 'm³', factor: 1 },
+    { id: 'gal', label: 'Gallon (US)', symbol: 'gal', factor: 0.003785411784 },
+  ],
+  area: [
+    { id: 'cm2', label: 'Square centimetre', symbol: 'cm²', factor: 1e-4 },
+    { id: 'm2', label: 'Square metre', symbol: 'm²', factor: 1 },
+    { id: 'ha', label: 'Hectare', symbol: 'ha', factor: 1e4 },
+    { id: 'km2', label: 'Square kilometre', symbol: 'km²', factor: 1e6 },
+    { id: 'acre', label: 'Acre', symbol: 'ac', factor: 4046.8564224 },
+  ],
+  time: [
+    { id: 'ms', label: 'Millisecond', symbol: 'ms', factor: 1e-3 },
+    { id: 's', label: 'Second', symbol: 's', factor: 1 },
+    { id: 'min', label: 'Minute', symbol: 'min', factor: 60 },
+    { id: 'h', label: 'Hour', symbol: 'h', factor: 3600 },
+    { id: 'd', label: 'Day', symbol: 'd', factor: 86400 },
+  ],
+  speed: [
+    { id: 'mps', label: 'Metres per second', symbol: 'm/s', factor: 1 },
+    { id: 'kmph', label: 'Kilometres per hour', symbol: 'km/h', factor: 1 / 3.6 },
+    { id: 'mph', label: 'Miles per hour', symbol: 'mph', factor: 0.44704 },
+    { id: 'kn', label: 'Knot', symbol: 'kn', factor: 1852 / 3600 },
+  ],
+  temperature: [
+    { id: 'c', label: 'Celsius', symbol: '°C', factor: 1, offset: 273.15 },
+    { id: 'f', label: 'Fahrenheit', symbol: '°F', factor: 5 / 9, offset: 273.15 - (32 * 5) / 9 },
+    { id: 'k', label: 'Kelvin', symbol: 'K', factor: 1 },
+  ],
+  energy: [
+    { id: 'j', label: 'Joule', symbol: 'J', factor: 1 },
+    { id: 'kj', label: 'Kilojoule', symbol: 'kJ', factor: 1e3 },
+    { id: 'cal', label: 'Calorie', symbol: 'cal', factor: 4.184 },
+    { id: 'kcal', label: 'Kilocalorie', symbol: 'kcal', factor: 4184 },
+    { id: 'kwh', label: 'Kilowatt hour', symbol: 'kWh', factor: 3.6e6 },
+    { id: 'ev', label: 'Electronvolt', symbol: 'eV', factor: 1.602176634e-19 },
+  ],
+  pressure: [
+    { id: 'pa', label: 'Pascal', symbol: 'Pa', factor: 1 },
+    { id: 'kpa', label: 'Kilopascal', symbol: 'kPa', factor: 1e3 },
+    { id: 'bar', label: 'Bar', symbol: 'bar', factor: 1e5 },
+    { id: 'atm', label: 'Atmosphere', symbol: 'atm', factor: 101325 },
+    { id: 'mmhg', label: 'Millimetre of mercury', symbol: 'mmHg', factor: 133.322387415 },
+    { id: 'psi', label: 'Pound per square inch', symbol: 'psi', factor: 6894.757293168 },
+  ],
+};
+
+/**
+ * Convert a value between two units of the same category
+ */
+export function convertUnit(value: number, from: Unit, to: Unit): number {
+  const base = value * from.factor + (from.offset ?? 0);
+  return (base - (to.offset ?? 0)) / to.factor;
+}
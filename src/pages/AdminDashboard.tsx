@@ -8,10 +8,21 @@ import SEOHead from '@/components/SEOHead';
 import { useApp } from '@/contexts/AppContext';
 import { Header } from '@/components/Header';
 import { LockerCard } from '@/components/LockerCard';
+import { UnlockCodeDialog } from '@/components/UnlockCodeDialog';
+import { LockerMaintenanceDialog } from '@/components/LockerMaintenanceDialog';
+import { LockerIncidentPanel } from '@/components/LockerIncidentPanel';
+import { LockerHistoryDrawer } from '@/components/LockerHistoryDrawer';
+import { DualControlQueue } from '@/components/DualControlQueue';
+import { ExamSessionsPanel } from '@/components/ExamSessionsPanel';
+import { AssignLockerDialog } from '@/components/AssignLockerDialog';
+import { Locker } from '@/types';
 import { ActivityLog } from '@/components/ActivityLog';
 import { StatusBadge } from '@/components/StatusBadge';
 import { MaterialUploader } from '@/components/LearningLibrary';
-import { SeedMaterials } from '@/components/Admin';
+import { SeedMaterials, LockerSchedules, LockerZones, LockerCsvTools, LockerRollover, LockerAnalytics, DeskRegistry } from '@/components/Admin';
+import { DeskRoomBoard } from '@/components/DeskRoomBoard';
+import { useLockerZones, ZoneLevel } from '@/hooks/useLockerZones';
+import { useDesks } from '@/hooks/useDesks';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -63,6 +74,7 @@ import {
   Users, 
   FileText,
   AlertTriangle,
+  Wrench,
   CheckCircle2,
   ShieldCheck,
   Plus,
@@ -77,6 +89,11 @@ import {
   UserX,
   BookOpen,
   MessageSquare,
+  Building2,
+  LayoutGrid,
+  Rows3,
+  BarChart3,
+  Monitor,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
@@ -96,35 +113,55 @@ const AdminDashboard: React.FC = () => {
     students,
     toggleExamMode,
     lockAllLockers,
+    unlockAllLockers,
     lockLocker,
     unlockLocker,
+    retryLockerCommand,
     addLocker,
     updateLocker,
     deleteLocker,
-    assignLocker,
   } = useApp();
+  const zones = useLockerZones();
+  const { getScope, getBankPath } = zones;
+  const desks = useDesks();
 
   // State for locker management dialogs
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-  const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
+  const [codeLocker, setCodeLocker] = useState<Locker | null>(null);
+  const [maintenanceLocker, setMaintenanceLocker] = useState<Locker | null>(null);
+  const [historyLocker, setHistoryLocker] = useState<Locker | null>(null);
+  const [assignTarget, setAssignTarget] = useState<Locker | null>(null);
   const [deleteConfirmLocker, setDeleteConfirmLocker] = useState<string | null>(null);
-  const [selectedLocker, setSelectedLocker] = useState<{ id: string; studentName: string; location: string; studentId: string | null } | null>(null);
-  const [newLocker, setNewLocker] = useState({ id: '', studentName: 'Unassigned', location: '' });
-  const [selectedStudentId, setSelectedStudentId] = useState<string>('');
+  const [selectedLocker, setSelectedLocker] = useState<{ id: string; studentName: string; location: string; studentId: string | null; bankId: string | null } | null>(null);
+  const [newLocker, setNewLocker] = useState({ id: '', studentName: 'Unassigned', location: '', bankId: null as string | null });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
-  const [lockerFilter, setLockerFilter] = useState<'all' | 'locked' | 'unlocked' | 'assigned' | 'unassigned'>('all');
+  const [lockerFilter, setLockerFilter] = useState<'all' | 'locked' | 'unlocked' | 'assigned' | 'unassigned' | 'pending' | 'fault' | 'out_of_service'>('all');
+  const [zoneFilter, setZoneFilter] = useState({ buildingId: 'all', floorId: 'all', bankId: 'all' });
+  const [groupByBank, setGroupByBank] = useState(false);
+  const [isZonesDialogOpen, setIsZonesDialogOpen] = useState(false);
+
+  // Most specific zone selected in the filters, used for filtering and zone bulk actions
+  const activeScope = useMemo(() => {
+    const [level, id]: [ZoneLevel, string] =
+      zoneFilter.bankId !== 'all' ? ['bank', zoneFilter.bankId] :
+      zoneFilter.floorId !== 'all' ? ['floor', zoneFilter.floorId] :
+      ['building', zoneFilter.buildingId];
+    return id === 'all' ? null : getScope(level, id);
+  }, [zoneFilter, getScope]);
 
   // Calculate statistics
   const stats = useMemo(() => {
     const locked = lockers.filter(l => l.status === 'locked').length;
     const unlocked = lockers.filter(l => l.status === 'unlocked').length;
     const assigned = lockers.filter(l => l.studentId).length;
-    const unassigned = lockers.filter(l => !l.studentId).length;
+    const unassigned = lockers.filter(l => !l.studentId && !l.outOfService).length;
     const activeStudents = students.filter(s => lockers.some(l => l.studentId === s.id)).length;
+    const faults = lockers.filter(l => l.commandState === 'timed_out' || l.commandState === 'jammed').length;
+    const outOfService = lockers.filter(l => l.outOfService).length;
     
-    return { locked, unlocked, assigned, unassigned, total: lockers.length, activeStudents, totalStudents: students.length };
+    return { locked, unlocked, assigned, unassigned, faults, outOfService, total: lockers.length, activeStudents, totalStudents: students.length };
   }, [lockers, students]);
 
   // Filter lockers based on search and filter
@@ -140,41 +177,47 @@ const AdminDashboard: React.FC = () => {
         (lockerFilter === 'locked' && locker.status === 'locked') ||
         (lockerFilter === 'unlocked' && locker.status === 'unlocked') ||
         (lockerFilter === 'assigned' && locker.studentId) ||
-        (lockerFilter === 'unassigned' && !locker.studentId);
+        (lockerFilter === 'unassigned' && !locker.studentId && !locker.outOfService) ||
+        (lockerFilter === 'pending' && (locker.commandState === 'requested' || locker.commandState === 'pending')) ||
+        (lockerFilter === 'fault' && (locker.commandState === 'timed_out' || locker.commandState === 'jammed')) ||
+        (lockerFilter === 'out_of_service' && locker.outOfService);
+
+      const matchesZone = !activeScope || (!!locker.bankId && activeScope.bankIds.includes(locker.bankId));
       
-      return matchesSearch && matchesFilter;
+      return matchesSearch && matchesFilter && matchesZone;
     });
-  }, [lockers, searchQuery, lockerFilter]);
+  }, [lockers, searchQuery, lockerFilter, activeScope]);
+
+  // Banks with their full path, for pickers
+  const bankOptions = useMemo(() => (
+    zones.banks
+      .map(bank => ({ id: bank.id, label: getBankPath(bank.id) ?? bank.name }))
+      .sort((a, b) => a.label.localeCompare(b.label))
+  ), [zones.banks, getBankPath]);
+
+  // Filtered lockers grouped by bank, ordered by zone path; lockers without a bank last
+  const lockerGroups = useMemo(() => {
+    const groups = new Map<string, Locker[]>();
+    filteredLockers.forEach(locker => {
+      const key = locker.bankId ?? '';
+      groups.set(key, [...(groups.get(key) ?? []), locker]);
+    });
+    return Array.from(groups.entries())
+      .map(([bankId, items]) => ({ bankId, label: getBankPath(bankId) ?? 'No zone', lockers: items }))
+      .sort((a, b) => (a.bankId ? 0 : 1) - (b.bankId ? 0 : 1) || a.label.localeCompare(b.label));
+  }, [filteredLockers, getBankPath]);
 
   // Handler functions
   const handleExamModeToggle = () => {
     toggleExamMode();
-    toast.success(
-      examMode ? 'Exam Mode Disabled' : 'Exam Mode Enabled',
-      {
-        description: examMode 
-          ? 'Students can now access all desk features' 
-          : 'Student desk access is now restricted',
-      }
-    );
   };
 
   const handleLockAll = () => {
     lockAllLockers();
-    toast.success('Emergency Lock Activated', {
-      description: 'All lockers have been secured'
-    });
   };
 
   const handleUnlockAll = () => {
-    lockers.forEach(locker => {
-      if (locker.status === 'locked') {
-        unlockLocker(locker.id);
-      }
-    });
-    toast.success('All Lockers Unlocked', {
-      description: 'All lockers have been released'
-    });
+    unlockAllLockers();
   };
 
   const handleAddLocker = async () => {
@@ -189,12 +232,13 @@ const AdminDashboard: React.FC = () => {
       studentId: null,
       studentName: newLocker.studentName || 'Unassigned',
       location: newLocker.location,
+      bankId: newLocker.bankId,
     });
     setIsSubmitting(false);
     
     if (success) {
       toast.success('Locker Added', { description: `Locker ${newLocker.id} has been created` });
-      setNewLocker({ id: '', studentName: 'Unassigned', location: '' });
+      setNewLocker({ id: '', studentName: 'Unassigned', location: '', bankId: null });
       setIsAddDialogOpen(false);
     }
   };
@@ -205,6 +249,7 @@ const AdminDashboard: React.FC = () => {
     setIsSubmitting(true);
     const success = await updateLocker(selectedLocker.id, {
       location: selectedLocker.location,
+      bankId: selectedLocker.bankId,
     });
     setIsSubmitting(false);
     
@@ -215,25 +260,6 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const handleAssignLocker = async () => {
-    if (!selectedLocker) return;
-    
-    setIsSubmitting(true);
-    const studentId = selectedStudentId === 'unassigned' ? null : selectedStudentId;
-    const success = await assignLocker(selectedLocker.id, studentId);
-    setIsSubmitting(false);
-    
-    if (success) {
-      const studentName = studentId 
-        ? students.find(s => s.id === studentId)?.name || 'Student'
-        : 'Unassigned';
-      toast.success('Locker Assigned', { description: `Locker ${selectedLocker.id} assigned to ${studentName}` });
-      setSelectedLocker(null);
-      setSelectedStudentId('');
-      setIsAssignDialogOpen(false);
-    }
-  };
-
   const handleDeleteLocker = async () => {
     if (!deleteConfirmLocker) return;
     
@@ -245,6 +271,60 @@ const AdminDashboard: React.FC = () => {
     setDeleteConfirmLocker(null);
   };
 
+  // Locker card with the admin overlay actions
+  const renderLockerCard = (locker: Locker) => (
+    <div key={locker.id} className="relative group">
+      <LockerCard
+        locker={locker}
+        showTeacherControls={true}
+        onLock={() => lockLocker(locker.id)}
+        onUnlock={() => unlockLocker(locker.id)}
+        onRetry={() => retryLockerCommand(locker.id)}
+        onIssueCode={() => setCodeLocker(locker)}
+        onMaintenance={() => setMaintenanceLocker(locker)}
+        onHistory={() => setHistoryLocker(locker)}
+      />
+      <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+        <Button
+          size="icon"
+          variant="secondary"
+          className="h-8 w-8"
+          title="Assign to student"
+          onClick={() => setAssignTarget(locker)}
+        >
+          <UserPlus size={14} />
+        </Button>
+        <Button
+          size="icon"
+          variant="secondary"
+          className="h-8 w-8"
+          title="Edit locker"
+          onClick={() => {
+            setSelectedLocker({
+              id: locker.id,
+              studentName: locker.studentName,
+              location: locker.location,
+              studentId: locker.studentId,
+              bankId: locker.bankId,
+            });
+            setIsEditDialogOpen(true);
+          }}
+        >
+          <Edit size={14} />
+        </Button>
+        <Button
+          size="icon"
+          variant="destructive"
+          className="h-8 w-8"
+          title="Delete locker"
+          onClick={() => setDeleteConfirmLocker(locker.id)}
+        >
+          <Trash2 size={14} />
+        </Button>
+      </div>
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -352,13 +432,22 @@ const AdminDashboard: React.FC = () => {
           </Card>
         </div>
 
+        {/* Hardware alarms, shown on every tab while any are active */}
+        <div className="mb-6 empty:hidden">
+          <LockerIncidentPanel />
+        </div>
+
         {/* Main Tabs */}
         <Tabs defaultValue="lockers" className="animate-slide-up">
-          <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-grid">
+          <TabsList className="grid w-full grid-cols-8 lg:w-auto lg:inline-grid">
             <TabsTrigger value="lockers" className="gap-2">
               <Lock size={16} />
               <span className="hidden sm:inline">Lockers</span>
             </TabsTrigger>
+            <TabsTrigger value="desks" className="gap-2">
+              <Monitor size={16} />
+              <span className="hidden sm:inline">Desks</span>
+            </TabsTrigger>
             <TabsTrigger value="users" className="gap-2">
               <Users size={16} />
               <span className="hidden sm:inline">Users</span>
@@ -379,6 +468,10 @@ const AdminDashboard: React.FC = () => {
               <Activity size={16} />
               <span className="hidden sm:inline">Activity</span>
             </TabsTrigger>
+            <TabsTrigger value="analytics" className="gap-2">
+              <BarChart3 size={16} />
+              <span className="hidden sm:inline">Analytics</span>
+            </TabsTrigger>
           </TabsList>
 
           {/* Lockers Tab */}
@@ -401,127 +494,226 @@ const AdminDashboard: React.FC = () => {
                     <SelectItem value="unlocked">Unlocked</SelectItem>
                     <SelectItem value="assigned">Assigned</SelectItem>
                     <SelectItem value="unassigned">Available</SelectItem>
+                    <SelectItem value="pending">Awaiting Lock</SelectItem>
+                    <SelectItem value="fault">Lock Faults</SelectItem>
+                    <SelectItem value="out_of_service">Out of Service</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
               
-              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button>
-                    <Plus size={16} className="mr-1" />
-                    Add Locker
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Add New Locker</DialogTitle>
-                    <DialogDescription>
-                      Create a new locker in the system
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="space-y-4 py-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="locker-id">Locker ID *</Label>
-                      <Input
-                        id="locker-id"
-                        placeholder="e.g., locker-C1"
-                        value={newLocker.id}
-                        onChange={(e) => setNewLocker({ ...newLocker, id: e.target.value })}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="locker-location">Location *</Label>
-                      <Input
-                        id="locker-location"
-                        placeholder="e.g., Row C, Position 1"
-                        value={newLocker.location}
-                        onChange={(e) => setNewLocker({ ...newLocker, location: e.target.value })}
-                      />
-                    </div>
-                  </div>
-                  <DialogFooter>
-                    <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button onClick={handleAddLocker} disabled={isSubmitting}>
-                      {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+              <div className="flex gap-2">
+                <LockerCsvTools getBankPath={getBankPath} />
+                <LockerRollover getBankPath={getBankPath} />
+                <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button>
+                      <Plus size={16} className="mr-1" />
                       Add Locker
                     </Button>
-                  </DialogFooter>
-                </DialogContent>
-              </Dialog>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add New Locker</DialogTitle>
+                      <DialogDescription>
+                        Create a new locker in the system
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="locker-id">Locker ID *</Label>
+                        <Input
+                          id="locker-id"
+                          placeholder="e.g., locker-C1"
+                          value={newLocker.id}
+                          onChange={(e) => setNewLocker({ ...newLocker, id: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="locker-location">Location *</Label>
+                        <Input
+                          id="locker-location"
+                          placeholder="e.g., Row C, Position 1"
+                          value={newLocker.location}
+                          onChange={(e) => setNewLocker({ ...newLocker, location: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Bank</Label>
+                        <Select
+                          value={newLocker.bankId ?? 'none'}
+                          onValueChange={(v) => setNewLocker({ ...newLocker, bankId: v === 'none' ? null : v })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No zone</SelectItem>
+                            {bankOptions.map(bank => (
+                              <SelectItem key={bank.id} value={bank.id}>{bank.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <DialogFooter>
+                      <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleAddLocker} disabled={isSubmitting}>
+                        {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+                        Add Locker
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </div>
+            </div>
+
+            {/* Zone filters */}
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={zoneFilter.buildingId}
+                onValueChange={(v) => setZoneFilter({ buildingId: v, floorId: 'all', bankId: 'all' })}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Building" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All buildings</SelectItem>
+                  {zones.buildings.map(building => (
+                    <SelectItem key={building.id} value={building.id}>{building.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={zoneFilter.floorId}
+                onValueChange={(v) => setZoneFilter({ ...zoneFilter, floorId: v, bankId: 'all' })}
+                disabled={zoneFilter.buildingId === 'all'}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Floor" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All floors</SelectItem>
+                  {zones.floors.filter(f => f.building_id === zoneFilter.buildingId).map(floor => (
+                    <SelectItem key={floor.id} value={floor.id}>{floor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={zoneFilter.bankId}
+                onValueChange={(v) => setZoneFilter({ ...zoneFilter, bankId: v })}
+                disabled={zoneFilter.floorId === 'all'}
+              >
+                <SelectTrigger className="w-[140px]">
+                  <SelectValue placeholder="Bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All banks</SelectItem>
+                  {zones.banks.filter(b => b.floor_id === zoneFilter.floorId).map(bank => (
+                    <SelectItem key={bank.id} value={bank.id}>{bank.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant={groupByBank ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setGroupByBank(!groupByBank)}
+                title={groupByBank ? 'Show as grid' : 'Group by bank'}
+              >
+                {groupByBank ? <LayoutGrid size={16} className="mr-1" /> : <Rows3 size={16} className="mr-1" />}
+                {groupByBank ? 'Grid' : 'By Bank'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setIsZonesDialogOpen(true)}>
+                <Building2 size={16} className="mr-1" />
+                Zones
+              </Button>
             </div>
 
+            {/* Zone-scoped bulk actions */}
+            {activeScope && (
+              <div className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border bg-secondary/50 text-sm">
+                <span className="flex items-center gap-2">
+                  <Building2 size={16} className="text-primary" />
+                  {activeScope.label} · {filteredLockers.length} lockers shown
+                </span>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => unlockAllLockers(activeScope)}>
+                    <LockOpen size={14} className="mr-1" />
+                    Unlock Zone
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => lockAllLockers(activeScope)}>
+                    <Lock size={14} className="mr-1" />
+                    Lock Zone
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {stats.faults > 0 && lockerFilter !== 'fault' && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-danger/30 bg-danger/5 text-sm">
+                <div className="flex items-center gap-2 text-danger">
+                  <AlertTriangle size={16} />
+                  <span>
+                    {stats.faults} {stats.faults === 1 ? 'locker has' : 'lockers have'} a lock command that did not take effect
+                  </span>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setLockerFilter('fault')}>
+                  Show
+                </Button>
+              </div>
+            )}
+
+            {stats.outOfService > 0 && lockerFilter !== 'out_of_service' && (
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-warning/30 bg-warning/5 text-sm">
+                <div className="flex items-center gap-2 text-warning">
+                  <Wrench size={16} />
+                  <span>
+                    {stats.outOfService} {stats.outOfService === 1 ? 'locker is' : 'lockers are'} out of service and skipped by bulk actions
+                  </span>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setLockerFilter('out_of_service')}>
+                  Show
+                </Button>
+              </div>
+            )}
+
             {filteredLockers.length === 0 ? (
               <Card>
                 <CardContent className="py-12 text-center text-muted-foreground">
                   <Lock size={48} className="mx-auto mb-4 opacity-40" />
                   <p className="text-lg font-medium">No lockers found</p>
-                  <p className="text-sm">{searchQuery || lockerFilter !== 'all' ? 'Try adjusting your filters' : 'Add your first locker to get started'}</p>
+                  <p className="text-sm">{searchQuery || lockerFilter !== 'all' || activeScope ? 'Try adjusting your filters' : 'Add your first locker to get started'}</p>
                 </CardContent>
               </Card>
-            ) : (
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-                {filteredLockers.map(locker => (
-                  <div key={locker.id} className="relative group">
-                    <LockerCard
-                      locker={locker}
-                      showTeacherControls={true}
-                      onLock={() => lockLocker(locker.id)}
-                      onUnlock={() => unlockLocker(locker.id)}
-                    />
-                    <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <Button
-                        size="icon"
-                        variant="secondary"
-                        className="h-8 w-8"
-                        title="Assign to student"
-                        onClick={() => {
-                          setSelectedLocker({
-                            id: locker.id,
-                            studentName: locker.studentName,
-                            location: locker.location,
-                            studentId: locker.studentId,
-                          });
-                          setSelectedStudentId(locker.studentId || 'unassigned');
-                          setIsAssignDialogOpen(true);
-                        }}
-                      >
-                        <UserPlus size={14} />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="secondary"
-                        className="h-8 w-8"
-                        title="Edit locker"
-                        onClick={() => {
-                          setSelectedLocker({
-                            id: locker.id,
-                            studentName: locker.studentName,
-                            location: locker.location,
-                            studentId: locker.studentId,
-                          });
-                          setIsEditDialogOpen(true);
-                        }}
-                      >
-                        <Edit size={14} />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="destructive"
-                        className="h-8 w-8"
-                        title="Delete locker"
-                        onClick={() => setDeleteConfirmLocker(locker.id)}
-                      >
-                        <Trash2 size={14} />
-                      </Button>
+            ) : groupByBank ? (
+              <div className="space-y-6">
+                {lockerGroups.map(group => (
+                  <div key={group.bankId || 'none'} className="space-y-3">
+                    <h3 className="text-sm font-semibold flex items-center gap-2 text-muted-foreground">
+                      <Building2 size={14} />
+                      {group.label}
+                      <Badge variant="secondary" className="text-xs">{group.lockers.length}</Badge>
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                      {group.lockers.map(renderLockerCard)}
                     </div>
                   </div>
                 ))}
               </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                {filteredLockers.map(renderLockerCard)}
+              </div>
             )}
           </TabsContent>
 
+          {/* Desks Tab */}
+          <TabsContent value="desks" className="space-y-4 mt-4">
+            <DeskRoomBoard desks={desks} />
+            <DeskRegistry desks={desks} />
+          </TabsContent>
+
           {/* Users Tab */}
           <TabsContent value="users" className="space-y-4 mt-4">
             <Card>
@@ -609,10 +801,10 @@ const AdminDashboard: React.FC = () => {
                 <CardHeader className="pb-2">
                   <CardTitle className="text-base flex items-center gap-2">
                     <FileText size={18} className={examMode ? 'text-warning' : 'text-muted-foreground'} />
-                    Exam Mode
+                    School-wide Exam Mode
                   </CardTitle>
                   <CardDescription>
-                    Restrict student desk access during examinations
+                    Restrict every student's desk access for whole-school exams
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -643,7 +835,7 @@ const AdminDashboard: React.FC = () => {
                     Emergency Controls
                   </CardTitle>
                   <CardDescription>
-                    Override locker access for safety and operations
+                    Override locker access for safety and operations · a second teacher or admin must approve
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
@@ -667,6 +859,15 @@ const AdminDashboard: React.FC = () => {
               </Card>
             </div>
 
+            {/* Exam sessions for individual classes and rooms */}
+            <ExamSessionsPanel />
+
+            {/* Proposals waiting for a second approver */}
+            <DualControlQueue />
+
+            {/* Scheduled lock/unlock rules */}
+            <LockerSchedules zones={zones} />
+
             {/* System Status */}
             <Card className="bg-secondary/50 border-dashed">
               <CardContent className="py-4">
@@ -702,8 +903,31 @@ const AdminDashboard: React.FC = () => {
               title="System Activity Log"
             />
           </TabsContent>
+
+          {/* Analytics Tab */}
+          <TabsContent value="analytics" className="mt-4">
+            <LockerAnalytics zones={zones} />
+          </TabsContent>
         </Tabs>
 
+        {/* Zones Dialog */}
+        <Dialog open={isZonesDialogOpen} onOpenChange={setIsZonesDialogOpen}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Locker Zones</DialogTitle>
+              <DialogDescription>
+                Organise lockers into buildings, floors and banks
+              </DialogDescription>
+            </DialogHeader>
+            <LockerZones zones={zones} lockers={lockers} />
+          </DialogContent>
+        </Dialog>
+
+        {/* One-time unlock code dialog */}
+        <UnlockCodeDialog locker={codeLocker} onClose={() => setCodeLocker(null)} />
+        <LockerMaintenanceDialog locker={maintenanceLocker} onClose={() => setMaintenanceLocker(null)} />
+        <LockerHistoryDrawer locker={historyLocker} onClose={() => setHistoryLocker(null)} />
+
         {/* Edit Locker Dialog */}
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent>
@@ -726,58 +950,39 @@ const AdminDashboard: React.FC = () => {
                   onChange={(e) => setSelectedLocker(prev => prev ? { ...prev, location: e.target.value } : null)}
                 />
               </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleEditLocker} disabled={isSubmitting}>
-                {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
-                Save Changes
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
-
-        {/* Assign Locker Dialog */}
-        <Dialog open={isAssignDialogOpen} onOpenChange={setIsAssignDialogOpen}>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Assign Locker</DialogTitle>
-              <DialogDescription>
-                Assign locker {selectedLocker?.id} to a student
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
               <div className="space-y-2">
-                <Label htmlFor="assign-student">Select Student</Label>
-                <Select value={selectedStudentId} onValueChange={setSelectedStudentId}>
+                <Label>Bank</Label>
+                <Select
+                  value={selectedLocker?.bankId ?? 'none'}
+                  onValueChange={(v) => setSelectedLocker(prev => prev ? { ...prev, bankId: v === 'none' ? null : v } : null)}
+                >
                   <SelectTrigger>
-                    <SelectValue placeholder="Choose a student" />
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="unassigned">Unassigned</SelectItem>
-                    {students.map(student => (
-                      <SelectItem key={student.id} value={student.id}>
-                        {student.name}
-                      </SelectItem>
+                    <SelectItem value="none">No zone</SelectItem>
+                    {bankOptions.map(bank => (
+                      <SelectItem key={bank.id} value={bank.id}>{bank.label}</SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
             <DialogFooter>
-              <Button variant="outline" onClick={() => setIsAssignDialogOpen(false)}>
+              <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleAssignLocker} disabled={isSubmitting}>
+              <Button onClick={handleEditLocker} disabled={isSubmitting}>
                 {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
-                Assign Locker
+                Save Changes
               </Button>
             </DialogFooter>
           </DialogContent>
         </Dialog>
 
+        {/* Assign Locker Dialog */}
+        <AssignLockerDialog locker={assignTarget} onClose={() => setAssignTarget(null)} />
+
         {/* Delete Confirmation Dialog */}
         <AlertDialog open={!!deleteConfirmLocker} onOpenChange={(open) => !open && setDeleteConfirmLocker(null)}>
           <AlertDialogContent>
@@ -0,0 +1,306 @@
+/**
+ * DeskKiosk Page Component
+ * Shared desk terminal at /desk/:deskId. The terminal holds a device token
+ * provisioned by an admin; students sign in with their username and
+ * password, are signed out after a period without input, and every session
+ * ends by wiping their offline data from the terminal.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import SEOHead from '@/components/SEOHead';
+import { DeskInterface } from '@/components/DeskInterface';
+import { useAuth } from '@/contexts/AuthContext';
+import { useApp } from '@/contexts/AppContext';
+import { useOffline } from '@/contexts/OfflineContext';
+import { deskSessionApi, deskTokenStore, KioskDesk } from '@/lib/api/deskSession';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Monitor, LogOut, Loader2, AlertTriangle, KeyRound, Timer } from 'lucide-react';
+import { toast } from 'sonner';
+
+// Sign out after this long without keyboard, mouse or touch input
+const IDLE_LOGOUT_MS = 10 * 60_000;
+// Warn the student this long before the idle sign-out
+const IDLE_WARNING_MS = 60_000;
+
+type SetupState = 'checking' | 'unprovisioned' | 'ready';
+
+const enterFullscreen = () => {
+  if (!document.fullscreenElement && document.documentElement.requestFullscreen) {
+    document.documentElement.requestFullscreen().catch(() => {
+      // Not allowed without a user gesture or by the browser's kiosk policy
+    });
+  }
+};
+
+const DeskKiosk: React.FC = () => {
+  const { deskId = '' } = useParams<{ deskId: string }>();
+  const { profile, isLoading } = useAuth();
+  const { logout } = useApp();
+  const { clearOfflineData } = useOffline();
+
+  const [setup, setSetup] = useState<SetupState>('checking');
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [desk, setDesk] = useState<KioskDesk | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [isEnding, setIsEnding] = useState(false);
+
+  const lastInputRef = useRef(Date.now());
+  const [idleRemaining, setIdleRemaining] = useState<number | null>(null);
+
+  const verifyToken = useCallback(async (token: string) => {
+    setSetup('checking');
+    const result = await deskSessionApi.verify(deskId, token);
+
+    if (result.success && result.desk) {
+      deskTokenStore.set(deskId, token);
+      setDesk(result.desk);
+      setSetupError(null);
+      setSetup('ready');
+    } else {
+      deskTokenStore.clear(deskId);
+      setSetupError(result.error ?? 'This terminal could not be verified');
+      setSetup('unprovisioned');
+    }
+  }, [deskId]);
+
+  // A provisioning link carries the token in the fragment; keep it out of the address bar
+  useEffect(() => {
+    const fromLink = new URLSearchParams(window.location.hash.slice(1)).get('token');
+    if (fromLink) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    const token = fromLink ?? deskTokenStore.get(deskId);
+    if (token) {
+      verifyToken(token);
+    } else {
+      setSetup('unprovisioned');
+    }
+  }, [deskId, verifyToken]);
+
+  // Lock the terminal down: no context menu, no dragging content out
+  useEffect(() => {
+    const block = (e: Event) => e.preventDefault();
+    document.addEventListener('contextmenu', block);
+    document.addEventListener('dragstart', block);
+    return () => {
+      document.removeEventListener('contextmenu', block);
+      document.removeEventListener('dragstart', block);
+    };
+  }, []);
+
+  const endSession = useCallback(async (reason: 'manual' | 'idle') => {
+    setIsEnding(true);
+    await logout();
+    await clearOfflineData();
+    setIsEnding(false);
+    setIdleRemaining(null);
+    setUsername('');
+    setPassword('');
+
+    if (reason === 'idle') {
+      toast.info('Signed out after inactivity', { description: 'Your session data was removed from this desk.' });
+    }
+  }, [logout, clearOfflineData]);
+
+  // Idle sign-out while someone is signed in
+  useEffect(() => {
+    if (!profile) return;
+
+    lastInputRef.current = Date.now();
+    const markActive = () => {
+      lastInputRef.current = Date.now();
+    };
+    const events = ['keydown', 'pointerdown', 'pointermove', 'touchstart'] as const;
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const timer = setInterval(() => {
+      const remaining = IDLE_LOGOUT_MS - (Date.now() - lastInputRef.current);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        endSession('idle');
+      } else {
+        setIdleRemaining(remaining <= IDLE_WARNING_MS ? remaining : null);
+      }
+    }, 1000);
+
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(timer);
+    };
+  }, [profile, endSession]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const token = deskTokenStore.get(deskId);
+    if (!username.trim() || !password || !token) return;
+
+    enterFullscreen();
+    setIsSigningIn(true);
+    setSignInError(null);
+    const result = await deskSessionApi.signIn(deskId, token, username.trim(), password);
+    setIsSigningIn(false);
+    setPassword('');
+
+    if (!result.success) {
+      setSignInError(result.error ?? 'Sign-in failed');
+    }
+  };
+
+  const handleProvision = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (tokenInput.trim()) {
+      verifyToken(tokenInput.trim());
+      setTokenInput('');
+    }
+  };
+
+  const deskLabel = desk ? `Desk ${desk.id} · Room ${desk.room}${desk.seat ? ` · ${desk.seat}` : ''}` : `Desk ${deskId}`;
+
+  if (setup === 'checking' || isLoading || isEnding) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (setup === 'unprovisioned') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4 select-none">
+        <SEOHead title="Desk Terminal" description="Shared desk terminal." path={`/desk/${deskId}`} noIndex />
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <KeyRound size={36} className="mx-auto text-muted-foreground mb-2" />
+            <CardTitle>Terminal Not Set Up</CardTitle>
+            <CardDescription>
+              {setupError ?? `Desk ${deskId} needs a kiosk token from an administrator.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleProvision} className="space-y-3">
+              <Label htmlFor="desk-token">Kiosk token</Label>
+              <Input
+                id="desk-token"
+                type="password"
+                autoComplete="off"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+              />
+              <Button type="submit" className="w-full" disabled={!tokenInput.trim()}>
+                Set Up Terminal
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4 select-none">
+        <SEOHead title="Desk Terminal" description="Sign in at this desk." path={`/desk/${deskId}`} noIndex />
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <Monitor size={36} className="mx-auto text-primary mb-2" />
+            <CardTitle>{deskLabel}</CardTitle>
+            <CardDescription>Sign in with your school username and password</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSignIn} className="space-y-4">
+              {signInError && (
+                <div className="flex items-center gap-2 rounded-lg bg-danger/10 p-3 text-sm text-danger">
+                  <AlertTriangle size={16} />
+                  {signInError}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-username">Username</Label>
+                <Input
+                  id="kiosk-username"
+                  autoComplete="off"
+                  autoCapitalize="none"
+                  autoFocus
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="h-12 text-lg"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-password">Password</Label>
+                <Input
+                  id="kiosk-password"
+                  type="password"
+                  autoComplete="off"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="h-12 text-lg"
+                />
+              </div>
+              <Button
+                type="submit"
+                size="lg"
+                className="w-full"
+                disabled={isSigningIn || !username.trim() || !password}
+              >
+                {isSigningIn && <Loader2 size={16} className="mr-2 animate-spin" />}
+                Sign In
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col select-none">
+      <SEOHead title="Desk Terminal" description="Shared desk terminal." path={`/desk/${deskId}`} noIndex />
+
+      <div className="flex items-center justify-between gap-4 border-b px-4 py-3">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Monitor size={16} />
+          {deskLabel}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="font-medium">{profile.name}</span>
+          <Button variant="outline" onClick={() => endSession('manual')}>
+            <LogOut size={16} className="mr-2" />
+            Sign Out
+          </Button>
+        </div>
+      </div>
+
+      {idleRemaining !== null && (
+        <div className="flex items-center justify-center gap-2 bg-warning/10 px-4 py-2 text-sm text-warning">
+          <Timer size={16} />
+          Signing out in {Math.ceil(idleRemaining / 1000)}s due to inactivity. Touch the screen to stay signed in.
+        </div>
+      )}
+
+      <main className="flex-1 container max-w-4xl py-6">
+        {profile.role === 'student' ? (
+          <DeskInterface deskId={deskId} />
+        ) : (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Desk terminals are for students. Sign out to free this desk.
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DeskKiosk;
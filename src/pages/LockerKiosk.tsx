@@ -0,0 +1,116 @@
+/**
+ * LockerKiosk Page Component
+ * Shared locker-bank kiosk at /locker-kiosk. Opens a locker with the owner's
+ * PIN or a teacher-issued one-time code; no sign-in required.
+ */
+
+import React, { useEffect, useState } from 'react';
+import SEOHead from '@/components/SEOHead';
+import { unlockWithCode, KioskUnlockResult } from '@/hooks/useLockerCodes';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, LockOpen, AlertTriangle, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+// How long a result stays on screen before the kiosk resets
+const RESET_AFTER_MS = 8000;
+
+const LockerKiosk: React.FC = () => {
+  const [lockerId, setLockerId] = useState('');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [result, setResult] = useState<KioskUnlockResult | null>(null);
+
+  // Clear the screen for the next person
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => {
+      setResult(null);
+      setLockerId('');
+      setCode('');
+    }, RESET_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [result]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lockerId.trim() || !code) return;
+
+    setSubmitting(true);
+    const outcome = await unlockWithCode(lockerId.trim(), code);
+    setSubmitting(false);
+    setCode('');
+    setResult(outcome);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <SEOHead title="Locker Kiosk" description="Open your locker with a PIN or unlock code." path="/locker-kiosk" noIndex />
+
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <KeyRound size={36} className="mx-auto text-primary mb-2" />
+          <CardTitle>Open a Locker</CardTitle>
+          <CardDescription>Enter your locker number and your PIN or one-time code</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {result && (
+            <div
+              className={cn(
+                'flex items-center gap-3 rounded-lg p-4',
+                result.success ? 'bg-success/10 text-success' : 'bg-danger/10 text-danger'
+              )}
+            >
+              {result.success ? <LockOpen size={24} /> : <AlertTriangle size={24} />}
+              <div>
+                <p className="font-semibold">
+                  {result.success ? `Locker ${result.locker_id} unlocked` : result.error}
+                </p>
+                {!result.success && result.attempts_remaining !== undefined && (
+                  <p className="text-sm">
+                    {result.attempts_remaining} attempt{result.attempts_remaining === 1 ? '' : 's'} left
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-locker">Locker</Label>
+              <Input
+                id="kiosk-locker"
+                placeholder="e.g. locker-C1"
+                autoComplete="off"
+                className="text-lg"
+                value={lockerId}
+                onChange={(e) => setLockerId(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-code">PIN or code</Label>
+              <Input
+                id="kiosk-code"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={8}
+                className="text-lg tracking-widest"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              />
+            </div>
+            <Button type="submit" size="lg" className="w-full" disabled={submitting || !lockerId.trim() || !code}>
+              {submitting ? <Loader2 size={18} className="mr-2 animate-spin" /> : <LockOpen size={18} className="mr-2" />}
+              Unlock
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default LockerKiosk;
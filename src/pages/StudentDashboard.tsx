@@ -9,6 +9,10 @@ import SEOHead from '@/components/SEOHead';
 import { useApp } from '@/contexts/AppContext';
 import { Header } from '@/components/Header';
 import { LockerCard } from '@/components/LockerCard';
+import { LockerPinCard } from '@/components/LockerPinCard';
+import { RequestUnlockDialog } from '@/components/RequestUnlockDialog';
+import { useUnlockRequests } from '@/hooks/useUnlockRequests';
+import { Locker } from '@/types';
 import { DeskInterface } from '@/components/DeskInterface';
 import { ActivityLog } from '@/components/ActivityLog';
 import { LearningLibrary } from '@/components/LearningLibrary';
@@ -25,10 +29,15 @@ import { format } from 'date-fns';
  */
 const StudentDashboard: React.FC = () => {
   const { currentUser, lockers, logs, toggleLocker, isLoading } = useApp();
+  const { requests, requestUnlock } = useUnlockRequests();
+  const [requestLocker, setRequestLocker] = useState<Locker | null>(null);
 
   // Find the student's assigned locker
   const myLocker = lockers.find(l => l.studentId === currentUser?.id || l.id === currentUser?.locker_id);
 
+  // Latest unlock request for the student's locker (newest first)
+  const myRequest = myLocker ? requests.find(r => r.locker_id === myLocker.id) ?? null : null;
+
   // Filter logs to show only this student's actions
   const myLogs = logs.filter(log => log.userId === currentUser?.id);
 
@@ -101,6 +110,8 @@ const StudentDashboard: React.FC = () => {
                       locker={myLocker}
                       isOwner={true}
                       onToggle={() => toggleLocker(myLocker.id)}
+                      onRequestUnlock={() => setRequestLocker(myLocker)}
+                      unlockRequest={myRequest}
                     />
                   </div>
                 ) : (
@@ -113,6 +124,9 @@ const StudentDashboard: React.FC = () => {
                   </Card>
                 )}
 
+                {/* Kiosk PIN */}
+                {myLocker && <LockerPinCard />}
+
                 {/* My Classes */}
                 <StudentClasses />
 
@@ -182,6 +196,12 @@ const StudentDashboard: React.FC = () => {
           </TabsContent>
         </Tabs>
       </main>
+
+      <RequestUnlockDialog
+        locker={requestLocker}
+        onClose={() => setRequestLocker(null)}
+        onSubmit={(reason) => requestUnlock(requestLocker!.id, reason)}
+      />
     </div>
   );
 };
@@ -9,6 +9,17 @@ import SEOHead from '@/components/SEOHead';
 import { useApp } from '@/contexts/AppContext';
 import { Header } from '@/components/Header';
 import { LockerCard } from '@/components/LockerCard';
+import { UnlockCodeDialog } from '@/components/UnlockCodeDialog';
+import { LockerMaintenanceDialog } from '@/components/LockerMaintenanceDialog';
+import { LockerIncidentPanel } from '@/components/LockerIncidentPanel';
+import { LockerHistoryDrawer } from '@/components/LockerHistoryDrawer';
+import { AssignLockerDialog } from '@/components/AssignLockerDialog';
+import { UnlockRequestQueue } from '@/components/UnlockRequestQueue';
+import { DualControlQueue } from '@/components/DualControlQueue';
+import { ExamSessionsPanel } from '@/components/ExamSessionsPanel';
+import { DeskRoomBoard } from '@/components/DeskRoomBoard';
+import { useDesks } from '@/hooks/useDesks';
+import { Locker } from '@/types';
 import { ActivityLog } from '@/components/ActivityLog';
 import { StatusBadge } from '@/components/StatusBadge';
 import { MaterialUploader } from '@/components/LearningLibrary';
@@ -39,13 +50,6 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import { 
   GraduationCap, 
   Clock, 
@@ -63,6 +67,7 @@ import {
   UserPlus,
   BookOpen,
   LayoutDashboard,
+  Monitor,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
@@ -79,25 +84,27 @@ const TeacherDashboard: React.FC = () => {
     examMode, 
     logs,
     isLoading,
-    students,
     toggleExamMode,
     lockAllLockers,
     lockLocker,
     unlockLocker,
+    retryLockerCommand,
     addLocker,
     updateLocker,
     deleteLocker,
-    assignLocker,
   } = useApp();
+  const desks = useDesks();
 
   // State for locker management dialogs
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-  const [isAssignDialogOpen, setIsAssignDialogOpen] = useState(false);
+  const [codeLocker, setCodeLocker] = useState<Locker | null>(null);
+  const [maintenanceLocker, setMaintenanceLocker] = useState<Locker | null>(null);
+  const [historyLocker, setHistoryLocker] = useState<Locker | null>(null);
+  const [assignTarget, setAssignTarget] = useState<Locker | null>(null);
   const [deleteConfirmLocker, setDeleteConfirmLocker] = useState<string | null>(null);
   const [selectedLocker, setSelectedLocker] = useState<{ id: string; studentName: string; location: string; studentId: string | null } | null>(null);
   const [newLocker, setNewLocker] = useState({ id: '', studentName: 'Unassigned', location: '' });
-  const [selectedStudentId, setSelectedStudentId] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Calculate statistics
@@ -109,14 +116,6 @@ const TeacherDashboard: React.FC = () => {
    */
   const handleExamModeToggle = () => {
     toggleExamMode();
-    toast.success(
-      examMode ? 'Exam Mode Disabled' : 'Exam Mode Enabled',
-      {
-        description: examMode 
-          ? 'Students can now access all desk features' 
-          : 'Student desk access is now restricted',
-      }
-    );
   };
 
   /**
@@ -141,6 +140,7 @@ const TeacherDashboard: React.FC = () => {
       studentId: null,
       studentName: newLocker.studentName || 'Unassigned',
       location: newLocker.location,
+      bankId: null,
     });
     setIsSubmitting(false);
     
@@ -170,28 +170,6 @@ const TeacherDashboard: React.FC = () => {
     }
   };
 
-  /**
-   * Handle assigning a locker to a student
-   */
-  const handleAssignLocker = async () => {
-    if (!selectedLocker) return;
-    
-    setIsSubmitting(true);
-    const studentId = selectedStudentId === 'unassigned' ? null : selectedStudentId;
-    const success = await assignLocker(selectedLocker.id, studentId);
-    setIsSubmitting(false);
-    
-    if (success) {
-      const studentName = studentId 
-        ? students.find(s => s.id === studentId)?.name || 'Student'
-        : 'Unassigned';
-      toast.success('Locker Assigned', { description: `Locker ${selectedLocker.id} assigned to ${studentName}` });
-      setSelectedLocker(null);
-      setSelectedStudentId('');
-      setIsAssignDialogOpen(false);
-    }
-  };
-
   /**
    * Handle deleting a locker
    */
@@ -238,6 +216,11 @@ const TeacherDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Hardware alarms, shown on every tab while any are active */}
+        <div className="mb-6 empty:hidden">
+          <LockerIncidentPanel />
+        </div>
+
         {/* Main Tabs */}
         <Tabs defaultValue="dashboard" className="animate-slide-up">
           <TabsList className="mb-4 flex-wrap">
@@ -261,8 +244,16 @@ const TeacherDashboard: React.FC = () => {
               <BookOpen size={16} />
               Materials
             </TabsTrigger>
+            <TabsTrigger value="desks" className="gap-2">
+              <Monitor size={16} />
+              Desks
+            </TabsTrigger>
           </TabsList>
 
+          <TabsContent value="desks">
+            <DeskRoomBoard desks={desks} />
+          </TabsContent>
+
           <TabsContent value="classes">
             <ClassManagement />
           </TabsContent>
@@ -279,10 +270,10 @@ const TeacherDashboard: React.FC = () => {
             <CardHeader className="pb-2">
               <CardTitle className="text-base flex items-center gap-2">
                 <FileText size={18} className={examMode ? 'text-warning' : 'text-muted-foreground'} />
-                Exam Mode
+                School-wide Exam Mode
               </CardTitle>
               <CardDescription>
-                Restrict student desk access during exams
+                Restrict every student's desk access for whole-school exams
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -338,7 +329,7 @@ const TeacherDashboard: React.FC = () => {
                 Emergency Controls
               </CardTitle>
               <CardDescription>
-                Quick actions for security
+                Quick actions for security · a second teacher or admin must approve
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -444,6 +435,10 @@ const TeacherDashboard: React.FC = () => {
                       showTeacherControls={true}
                       onLock={() => lockLocker(locker.id)}
                       onUnlock={() => unlockLocker(locker.id)}
+                      onRetry={() => retryLockerCommand(locker.id)}
+                      onIssueCode={() => setCodeLocker(locker)}
+                      onMaintenance={() => setMaintenanceLocker(locker)}
+                      onHistory={() => setHistoryLocker(locker)}
                     />
                     {/* Edit/Delete/Assign buttons overlay */}
                     <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -452,16 +447,7 @@ const TeacherDashboard: React.FC = () => {
                         variant="secondary"
                         className="h-8 w-8"
                         title="Assign to student"
-                        onClick={() => {
-                          setSelectedLocker({
-                            id: locker.id,
-                            studentName: locker.studentName,
-                            location: locker.location,
-                            studentId: locker.studentId,
-                          });
-                          setSelectedStudentId(locker.studentId || 'unassigned');
-                          setIsAssignDialogOpen(true);
-                        }}
+                        onClick={() => setAssignTarget(locker)}
                       >
                         <UserPlus size={14} />
                       </Button>
@@ -498,8 +484,11 @@ const TeacherDashboard: React.FC = () => {
             )}
           </div>
 
-          {/* Right column - Activity Log */}
+          {/* Right column - Exam sessions, approval queues and Activity Log */}
           <div className="space-y-4 animate-slide-up" style={{ animationDelay: '0.2s' }}>
+            <ExamSessionsPanel />
+            <DualControlQueue />
+            <UnlockRequestQueue />
             <h2 className="text-lg font-semibold flex items-center gap-2">
               <span className="w-1.5 h-5 bg-primary rounded-full" />
               System Activity
@@ -549,6 +538,11 @@ const TeacherDashboard: React.FC = () => {
         </Tabs>
       </main>
 
+      {/* One-time unlock code dialog */}
+      <UnlockCodeDialog locker={codeLocker} onClose={() => setCodeLocker(null)} />
+      <LockerMaintenanceDialog locker={maintenanceLocker} onClose={() => setMaintenanceLocker(null)} />
+      <LockerHistoryDrawer locker={historyLocker} onClose={() => setHistoryLocker(null)} />
+
       {/* Edit Locker Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
@@ -581,54 +575,7 @@ const TeacherDashboard: React.FC = () => {
       </Dialog>
 
       {/* Assign Locker Dialog */}
-      <Dialog open={isAssignDialogOpen} onOpenChange={setIsAssignDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Assign Locker</DialogTitle>
-            <DialogDescription>
-              Assign locker {selectedLocker?.id} to a student
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4 py-4">
-            <div className="space-y-2">
-              <Label>Current Assignment</Label>
-              <p className="text-sm text-muted-foreground">
-                {selectedLocker?.studentName || 'Unassigned'}
-              </p>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="assign-student">Assign to Student</Label>
-              <Select value={selectedStudentId} onValueChange={setSelectedStudentId}>
-                <SelectTrigger id="assign-student">
-                  <SelectValue placeholder="Select a student..." />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="unassigned">Unassigned</SelectItem>
-                  {students.map((student) => (
-                    <SelectItem key={student.id} value={student.id}>
-                      {student.name} ({student.username})
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {students.length === 0 && (
-                <p className="text-xs text-muted-foreground">
-                  No registered students found
-                </p>
-              )}
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setIsAssignDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleAssignLocker} disabled={isSubmitting}>
-              {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
-              Assign Locker
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <AssignLockerDialog locker={assignTarget} onClose={() => setAssignTarget(null)} />
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteConfirmLocker} onOpenChange={() => setDeleteConfirmLocker(null)}>
@@ -5,6 +5,9 @@
 // Locker status types
 export type LockerStatus = 'locked' | 'unlocked';
 
+// Lifecycle of the last hardware command sent to a locker
+export type LockerCommandState = 'requested' | 'pending' | 'confirmed' | 'timed_out' | 'jammed';
+
 // Desk mode types
 export type DeskMode = 'normal' | 'exam';
 
@@ -18,8 +21,15 @@ export interface DbLocker {
   student_name: string;
   status: string;
   location: string;
+  bank_id: string | null;
   locked_by: string | null;
   locked_at: string | null;
+  out_of_service: boolean;
+  controller_id: string | null;
+  controller_slot: number | null;
+  command_state: string;
+  command_error: string | null;
+  command_updated_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -31,6 +41,94 @@ export interface Locker {
   studentName: string;
   status: LockerStatus;
   location: string;
+  bankId: string | null;
+  // Who locked it; a student cannot open a locker someone else locked
+  lockedBy: string | null;
+  // Open maintenance ticket: no assignment, no bulk operations
+  outOfService: boolean;
+  commandState: LockerCommandState;
+  commandError: string | null;
+}
+
+// Fields supplied when creating a locker
+export type NewLocker = Pick<Locker, 'id' | 'studentId' | 'studentName' | 'location' | 'bankId'>;
+
+// A building, floor or bank targeted by a bulk locker operation
+export interface LockerScope {
+  // Human-readable zone path, e.g. "Main Building › Floor 2"
+  label: string;
+  // Every bank inside the zone
+  bankIds: string[];
+}
+
+// Database exam session (matches Supabase table)
+export interface DbExamSession {
+  id: string;
+  title: string;
+  class_ids: string[];
+  rooms: string[];
+  started_by: string;
+  started_by_name: string;
+  started_at: string;
+  ended_at: string | null;
+  ended_by: string | null;
+  ended_by_name: string | null;
+  exam_id: string | null;
+  ends_at: string | null;
+  locked_locker_ids: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Exam session restricting the students of some classes and/or rooms
+// (frontend format)
+export interface ExamSession {
+  id: string;
+  title: string;
+  classIds: string[];
+  // Home rooms; covers every student enrolled in a class taught there
+  rooms: string[];
+  // Only they or an admin can end it
+  startedBy: string;
+  startedByName: string;
+  startedAt: Date;
+  // Set when the scheduler started it from a published exam
+  examId: string | null;
+  endsAt: Date | null;
+  // Lockers held locked until the session ends
+  lockedLockerCount: number;
+}
+
+// Desk board status: offline once heartbeats stop arriving
+export type DeskStatus = 'online' | 'idle' | 'exam' | 'offline';
+
+// Database Desk entity (matches Supabase table)
+export interface DbDesk {
+  id: string;
+  room: string;
+  seat: string | null;
+  assigned_student_id: string | null;
+  current_user_id: string | null;
+  current_user_name: string | null;
+  mode: string;
+  is_idle: boolean;
+  last_heartbeat_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Physical desk terminal (frontend format)
+export interface Desk {
+  id: string;
+  room: string;
+  seat: string | null;
+  // Reserved for this student; null for a shared desk
+  assignedStudentId: string | null;
+  // Whoever sent the last heartbeat
+  currentUserName: string | null;
+  mode: DeskMode;
+  isIdle: boolean;
+  lastHeartbeatAt: Date | null;
 }
 
 // Database Activity log entry (matches Supabase table)
@@ -38,7 +136,7 @@ export interface DbLogEntry {
   id: string;
   user_id: string;
   user_name: string;
-  user_role: 'student' | 'teacher';
+  user_role: 'student' | 'teacher' | 'admin' | 'system';
   action: string;
   details: string | null;
   created_at: string;
@@ -50,7 +148,7 @@ export interface LogEntry {
   timestamp: Date;
   userId: string;
   userName: string;
-  userRole: 'student' | 'teacher';
+  userRole: 'student' | 'teacher' | 'admin' | 'system';
   action: string;
   details: string;
 }
@@ -79,6 +177,11 @@ export const dbLockerToLocker = (dbLocker: DbLocker): Locker => ({
   studentName: dbLocker.student_name,
   status: dbLocker.status as LockerStatus,
   location: dbLocker.location,
+  bankId: dbLocker.bank_id,
+  lockedBy: dbLocker.locked_by,
+  outOfService: dbLocker.out_of_service,
+  commandState: dbLocker.command_state as LockerCommandState,
+  commandError: dbLocker.command_error,
 });
 
 // Helper to convert database log to frontend format
@@ -91,3 +194,29 @@ export const dbLogToLogEntry = (dbLog: DbLogEntry): LogEntry => ({
   action: dbLog.action,
   details: dbLog.details || '',
 });
+
+// Helper to convert database exam session to frontend format
+export const dbExamSessionToExamSession = (dbSession: DbExamSession): ExamSession => ({
+  id: dbSession.id,
+  title: dbSession.title,
+  classIds: dbSession.class_ids,
+  rooms: dbSession.rooms,
+  startedBy: dbSession.started_by,
+  startedByName: dbSession.started_by_name,
+  startedAt: new Date(dbSession.started_at),
+  examId: dbSession.exam_id,
+  endsAt: dbSession.ends_at ? new Date(dbSession.ends_at) : null,
+  lockedLockerCount: dbSession.locked_locker_ids.length,
+});
+
+// Helper to convert database desk to frontend format
+export const dbDeskToDesk = (dbDesk: DbDesk): Desk => ({
+  id: dbDesk.id,
+  room: dbDesk.room,
+  seat: dbDesk.seat,
+  assignedStudentId: dbDesk.assigned_student_id,
+  currentUserName: dbDesk.current_user_name,
+  mode: dbDesk.mode as DeskMode,
+  isIdle: dbDesk.is_idle,
+  lastHeartbeatAt: dbDesk.last_heartbeat_at ? new Date(dbDesk.last_heartbeat_at) : null,
+});
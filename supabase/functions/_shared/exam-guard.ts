@@ -0,0 +1,56 @@
+/**
+ * Exam restriction check shared by the research edge functions
+ * Runs check_research_access with the caller's own client, so the decision
+ * and the audit entry for a blocked attempt both happen in the database
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type ResearchTool = 'web search' | 'web scrape';
+
+interface ResearchAccess {
+  allowed: boolean;
+  scope?: 'school' | 'session';
+  sessions?: string[];
+}
+
+/**
+ * Returns a 403 response with a structured EXAM_MODE_ACTIVE error when exam
+ * restrictions apply to the caller, or null when the request may go ahead
+ */
+export async function refuseDuringExam(
+  supabase: SupabaseClient,
+  tool: ResearchTool,
+  target: string,
+  corsHeaders: Record<string, string>,
+): Promise<Response | null> {
+  const { data, error } = await supabase.rpc('check_research_access', {
+    p_tool: tool,
+    p_target: target.substring(0, 200),
+  });
+
+  // Fail closed: no research while the restriction cannot be checked
+  if (error) {
+    console.error('Exam restriction check failed:', error.message);
+    return new Response(
+      JSON.stringify({ success: false, error: 'Could not verify exam restrictions' }),
+      { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const access = data as ResearchAccess;
+  if (access.allowed) return null;
+
+  const sessions = access.sessions ?? [];
+  return new Response(
+    JSON.stringify({
+      success: false,
+      code: 'EXAM_MODE_ACTIVE',
+      error: access.scope === 'school' || sessions.length === 0
+        ? 'Research is disabled during exam mode'
+        : `Research is disabled during your exam (${sessions.join(', ')})`,
+      exam: { scope: access.scope, sessions },
+    }),
+    { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Locker Command Signing
+ * HMAC-SHA256 helpers shared by the locker-bridge function, the on-site
+ * bridge agent and the locker bank simulator
+ */
+
+export type LockerAction = 'lock' | 'unlock';
+
+export type CommandResult = 'confirmed' | 'failed';
+
+// Command sent to a locker controller
+export interface SignedCommand {
+  id: string;
+  lockerId: string;
+  slot: number;
+  action: LockerAction;
+  issuedAt: string;
+  signature: string;
+}
+
+// Controller's answer to a command
+export interface SignedAck {
+  commandId: string;
+  result: CommandResult;
+  state: 'locked' | 'unlocked';
+  error?: string;
+  reportedAt: string;
+  signature: string;
+}
+
+// Alarm raised by a controller on its own, e.g. a door forced open
+export type DeviceEventType = 'forced_open' | 'door_ajar' | 'low_battery';
+
+export interface SignedDeviceEvent {
+  // Generated by the controller so a re-sent event is only stored once
+  id: string;
+  controllerId: string;
+  slot: number;
+  type: DeviceEventType;
+  detail?: string;
+  occurredAt: string;
+  signature: string;
+}
+
+// Requests and signed messages older than this are rejected as replays
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * Sign a message with the given shared secret
+ */
+export async function sign(secret: string, message: string): Promise<string> {
+  const key = await importKey(secret);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+/**
+ * Verify a hex signature using a constant-time comparison
+ */
+export async function verify(secret: string, message: string, signature: string): Promise<boolean> {
+  const expected = await sign(secret, message);
+  if (expected.length !== signature.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Check that an ISO timestamp is within the allowed clock skew
+ */
+export function isFresh(timestamp: string, now = Date.now()): boolean {
+  const time = Date.parse(timestamp);
+  return !Number.isNaN(time) && Math.abs(now - time) <= MAX_CLOCK_SKEW_MS;
+}
+
+export const commandPayload = (command: Omit<SignedCommand, 'signature'>): string =>
+  [command.id, command.lockerId, command.slot, command.action, command.issuedAt].join('.');
+
+export const ackPayload = (ack: Omit<SignedAck, 'signature'>): string =>
+  [ack.commandId, ack.result, ack.state, ack.error ?? '', ack.reportedAt].join('.');
+
+export const deviceEventPayload = (event: Omit<SignedDeviceEvent, 'signature'>): string =>
+  [event.id, event.controllerId, event.slot, event.type, event.detail ?? '', event.occurredAt].join('.');
+
+// Bridge agent requests are signed over the timestamp header and raw body
+export const requestPayload = (timestamp: string, body: string): string =>
+  `${timestamp}.${body}`;
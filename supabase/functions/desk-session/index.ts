@@ -0,0 +1,145 @@
+/**
+ * Desk Session Edge Function
+ * Signs students in at a shared desk kiosk with their username and password.
+ * Authenticated with the desk's admin-provisioned device token instead of a
+ * user JWT; only students can sign in, and only at desks not reserved for
+ * someone else.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-desk-token',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Same answer for an unknown user, a wrong password and a non-student account
+const INVALID_CREDENTIALS = 'Invalid username or password';
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { action, deskId, username, password } = await req.json();
+    const deviceToken = req.headers.get('x-desk-token') ?? '';
+
+    if (!deskId || typeof deskId !== 'string') {
+      return json({ success: false, error: 'deskId is required' }, 400);
+    }
+
+    // Every request must come from a provisioned terminal for this desk
+    const { data: tokenValid, error: tokenError } = await admin.rpc('verify_desk_token', {
+      p_desk_id: deskId,
+      p_token: deviceToken,
+    });
+
+    if (tokenError) throw tokenError;
+    if (!tokenValid) {
+      console.warn('Rejected desk request with an invalid device token for desk', deskId);
+      return json({ success: false, error: 'This terminal is not provisioned for this desk' }, 401);
+    }
+
+    const { data: desk, error: deskError } = await admin
+      .from('desks')
+      .select('id, room, seat, assigned_student_id')
+      .eq('id', deskId)
+      .single();
+
+    if (deskError) throw deskError;
+
+    if (action === 'verify') {
+      return json({ success: true, desk: { id: desk.id, room: desk.room, seat: desk.seat } });
+    }
+
+    if (action !== 'sign_in') {
+      return json({ success: false, error: 'Unknown action' }, 400);
+    }
+
+    if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+      return json({ success: false, error: 'Username and password are required' }, 400);
+    }
+
+    // Case-insensitive but exact. LIKE wildcards are escaped, and PostgREST
+    // reads "*" as one too, so the match is checked again here.
+    const login = username.trim().toLowerCase();
+    const { data: candidates, error: profileError } = await admin
+      .from('profiles')
+      .select('id, username')
+      .ilike('username', login.replace(/[\\%_]/g, '\\$&'));
+
+    if (profileError) throw profileError;
+    const matches = (candidates ?? []).filter(p => p.username.toLowerCase() === login);
+    const profile = matches.length === 1 ? matches[0] : null;
+
+    if (!profile) {
+      return json({ success: false, error: INVALID_CREDENTIALS }, 401);
+    }
+
+    const { data: role } = await admin
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', profile.id)
+      .maybeSingle();
+
+    if (role?.role !== 'student') {
+      console.warn('Refused non-student sign-in at desk', deskId);
+      return json({ success: false, error: INVALID_CREDENTIALS }, 401);
+    }
+
+    const { data: userData, error: userError } = await admin.auth.admin.getUserById(profile.id);
+    if (userError || !userData.user?.email) {
+      console.error('Could not resolve account for desk sign-in:', userError?.message);
+      return json({ success: false, error: INVALID_CREDENTIALS }, 401);
+    }
+
+    // The password check itself is Supabase Auth's; the session goes back to the kiosk
+    const anon = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      auth: { persistSession: false },
+    });
+    const { data: signIn, error: signInError } = await anon.auth.signInWithPassword({
+      email: userData.user.email,
+      password,
+    });
+
+    if (signInError || !signIn.session) {
+      return json({ success: false, error: INVALID_CREDENTIALS }, 401);
+    }
+
+    // Checked after the password so a reserved desk cannot confirm a username
+    if (desk.assigned_student_id && desk.assigned_student_id !== profile.id) {
+      await anon.auth.signOut({ scope: 'local' });
+      return json({ success: false, error: `Desk ${desk.id} is reserved for another student` }, 403);
+    }
+
+    const { error: logError } = await admin.rpc('log_desk_sign_in', {
+      p_desk_id: desk.id,
+      p_student_id: profile.id,
+    });
+    if (logError) console.error('Failed to log desk sign-in:', logError.message);
+
+    console.log('Student', profile.id, 'signed in at desk', desk.id);
+    return json({
+      success: true,
+      session: {
+        access_token: signIn.session.access_token,
+        refresh_token: signIn.session.refresh_token,
+      },
+    });
+  } catch (error) {
+    console.error('Error in desk session:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Desk sign-in failed';
+    return json({ success: false, error: errorMessage }, 500);
+  }
+});
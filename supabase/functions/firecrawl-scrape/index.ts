@@ -5,6 +5,7 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { refuseDuringExam } from '../_shared/exam-guard.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -137,6 +138,13 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Exam restrictions are enforced here too, not only in the UI
+    const examRefusal = await refuseDuringExam(supabase, 'web scrape', formattedUrl, corsHeaders);
+    if (examRefusal) {
+      console.warn('Blocked scrape during exam by user', user.id);
+      return examRefusal;
+    }
+
     console.log('User', user.id, 'scraping URL:', formattedUrl.substring(0, 100));
 
     const response = await fetch('https://api.firecrawl.dev/v1/scrape', {
@@ -5,6 +5,7 @@
  */
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { refuseDuringExam } from '../_shared/exam-guard.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -99,6 +100,13 @@ Deno.serve(async (req) => {
       );
     }
 
+    // Exam restrictions are enforced here too, not only in the UI
+    const examRefusal = await refuseDuringExam(supabase, 'web search', query, corsHeaders);
+    if (examRefusal) {
+      console.warn('Blocked search during exam by user', user.id);
+      return examRefusal;
+    }
+
     const apiKey = Deno.env.get('FIRECRAWL_API_KEY');
     if (!apiKey) {
       console.error('FIRECRAWL_API_KEY not configured');
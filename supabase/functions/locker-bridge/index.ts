@@ -0,0 +1,223 @@
+/**
+ * Locker Bridge Edge Function
+ * Hands queued locker commands to the on-site bridge agent and records
+ * the results and alarm events reported back by locker controllers.
+ * Authenticated with an HMAC shared secret instead of a user JWT.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  SignedAck,
+  SignedCommand,
+  SignedDeviceEvent,
+  ackPayload,
+  commandPayload,
+  deviceEventPayload,
+  isFresh,
+  requestPayload,
+  sign,
+  verify,
+} from '../_shared/locker-signing.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-bridge-timestamp, x-bridge-signature',
+};
+
+// Maximum number of commands handed out per pull
+const PULL_LIMIT = 50;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const bridgeSecret = Deno.env.get('LOCKER_BRIDGE_SECRET');
+    const controllerSecret = Deno.env.get('LOCKER_CONTROLLER_SECRET');
+    if (!bridgeSecret || !controllerSecret) {
+      console.error('Locker bridge secrets not configured');
+      return json({ success: false, error: 'Locker bridge not configured' }, 500);
+    }
+
+    // Verify the agent's request signature
+    const timestamp = req.headers.get('x-bridge-timestamp') ?? '';
+    const signature = req.headers.get('x-bridge-signature') ?? '';
+    const rawBody = await req.text();
+
+    if (!isFresh(timestamp) || !(await verify(bridgeSecret, requestPayload(timestamp, rawBody), signature))) {
+      console.warn('Rejected unsigned or stale bridge request');
+      return json({ success: false, error: 'Invalid bridge signature' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { action, controllers, acks, events } = JSON.parse(rawBody || '{}');
+    const now = new Date().toISOString();
+
+    // Record which controllers the agent is currently connected to
+    if (Array.isArray(controllers) && controllers.length > 0) {
+      await supabase
+        .from('locker_controllers')
+        .update({ last_seen_at: now })
+        .in('id', controllers);
+    }
+
+    if (action === 'pull') {
+      const { data: pending, error: pendingError } = await supabase
+        .from('locker_commands')
+        .select('id')
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(PULL_LIMIT);
+
+      if (pendingError) throw pendingError;
+      if (!pending || pending.length === 0) {
+        return json({ success: true, commands: [] });
+      }
+
+      // Claim the commands; the status filter keeps concurrent pulls from double-sending
+      const { data: claimed, error: claimError } = await supabase
+        .from('locker_commands')
+        .update({ status: 'sent', sent_at: now })
+        .in('id', pending.map(c => c.id))
+        .eq('status', 'pending')
+        .select('id, locker_id, action, controller:locker_controllers(id, endpoint), locker:lockers(controller_slot)');
+
+      if (claimError) throw claimError;
+
+      // A locker without a slot cannot be addressed; guessing one could open
+      // someone else's locker, so its commands fail instead
+      const unmapped = (claimed || []).filter(row => row.locker?.controller_slot == null);
+      if (unmapped.length > 0) {
+        const { error: unmappedError } = await supabase
+          .from('locker_commands')
+          .update({ status: 'jammed', error: 'Locker has no controller slot', completed_at: now })
+          .in('id', unmapped.map(row => row.id));
+
+        if (unmappedError) throw unmappedError;
+        console.warn('Skipped', unmapped.length, 'locker commands without a controller slot');
+      }
+
+      const mapped = (claimed || []).filter(row => row.locker?.controller_slot != null);
+      const commands = await Promise.all(mapped.map(async (row) => {
+        const unsigned: Omit<SignedCommand, 'signature'> = {
+          id: row.id,
+          lockerId: row.locker_id,
+          slot: row.locker!.controller_slot!,
+          action: row.action,
+          issuedAt: now,
+        };
+        return {
+          controllerId: row.controller?.id,
+          endpoint: row.controller?.endpoint,
+          command: { ...unsigned, signature: await sign(controllerSecret, commandPayload(unsigned)) },
+        };
+      }));
+
+      console.log('Dispatched', commands.length, 'locker commands');
+      return json({ success: true, commands });
+    }
+
+    if (action === 'report') {
+      if (!Array.isArray(acks)) {
+        return json({ success: false, error: 'acks array is required' }, 400);
+      }
+
+      const results: { commandId: string; status: string }[] = [];
+
+      for (const ack of acks as SignedAck[]) {
+        // Acks must carry the controller's signature; the agent only relays them
+        const { signature: ackSignature, ...unsigned } = ack;
+        if (!(await verify(controllerSecret, ackPayload(unsigned), ackSignature ?? ''))) {
+          console.warn('Rejected ack with invalid signature for command', ack.commandId);
+          results.push({ commandId: ack.commandId, status: 'rejected' });
+          continue;
+        }
+
+        // A late answer still replaces a timeout: it tells us where the lock really is
+        const { data: updated, error: updateError } = await supabase
+          .from('locker_commands')
+          .update({
+            status: ack.result === 'confirmed' ? 'confirmed' : 'jammed',
+            error: ack.error ?? null,
+            completed_at: ack.reportedAt,
+          })
+          .eq('id', ack.commandId)
+          .in('status', ['sent', 'timed_out'])
+          .select('id');
+
+        // Unknown ids and commands already answered match nothing
+        const status = updateError ? 'error' : updated && updated.length > 0 ? 'recorded' : 'unmatched';
+        if (status === 'unmatched') console.warn('Ack matched no open command', ack.commandId);
+        results.push({ commandId: ack.commandId, status });
+      }
+
+      const unmatched = results.filter(r => r.status === 'unmatched').map(r => r.commandId);
+      return json({ success: true, results, unmatched });
+    }
+
+    if (action === 'events') {
+      if (!Array.isArray(events)) {
+        return json({ success: false, error: 'events array is required' }, 400);
+      }
+
+      const results: { eventId: string; status: string }[] = [];
+
+      for (const event of events as SignedDeviceEvent[]) {
+        // Events are signed by the controller; the agent only relays them
+        const { signature: eventSignature, ...unsigned } = event;
+        if (!(await verify(controllerSecret, deviceEventPayload(unsigned), eventSignature ?? ''))) {
+          console.warn('Rejected device event with invalid signature', event.id);
+          results.push({ eventId: event.id, status: 'rejected' });
+          continue;
+        }
+
+        const { data: locker } = await supabase
+          .from('lockers')
+          .select('id')
+          .eq('controller_id', event.controllerId)
+          .eq('controller_slot', event.slot)
+          .maybeSingle();
+
+        // Re-sent events keep their id and are ignored; the incident trigger runs once
+        const { error: insertError } = await supabase
+          .from('locker_device_events')
+          .upsert({
+            id: event.id,
+            controller_id: event.controllerId,
+            controller_slot: event.slot,
+            locker_id: locker?.id ?? null,
+            event_type: event.type,
+            detail: event.detail ?? null,
+            occurred_at: event.occurredAt,
+          }, { onConflict: 'id', ignoreDuplicates: true });
+
+        if (insertError) {
+          console.error('Failed to store device event', event.id, insertError);
+        } else {
+          console.log(`Device event ${event.type} on ${event.controllerId} slot ${event.slot}`);
+        }
+        results.push({ eventId: event.id, status: insertError ? 'error' : 'recorded' });
+      }
+
+      return json({ success: true, results });
+    }
+
+    return json({ success: false, error: 'Unknown action' }, 400);
+  } catch (error) {
+    console.error('Locker bridge error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Locker bridge failure';
+    return json({ success: false, error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,85 @@
+-- Hardware locker controllers (one per physical locker bank)
+CREATE TABLE public.locker_controllers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- WebSocket URL the on-site bridge agent uses to reach the controller
+  endpoint TEXT NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.locker_controllers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view controllers"
+ON public.locker_controllers FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins manage controllers"
+ON public.locker_controllers FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+-- Map each locker to its controller and the slot it occupies on that controller
+ALTER TABLE public.lockers
+  ADD COLUMN controller_id TEXT REFERENCES public.locker_controllers(id) ON DELETE SET NULL,
+  ADD COLUMN controller_slot INTEGER;
+
+-- Commands queued for delivery to locker controllers
+CREATE TABLE public.locker_commands (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  locker_id TEXT NOT NULL REFERENCES public.lockers(id) ON DELETE CASCADE,
+  controller_id TEXT NOT NULL REFERENCES public.locker_controllers(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('lock', 'unlock')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'confirmed', 'failed')),
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX locker_commands_pending_idx
+ON public.locker_commands (created_at)
+WHERE status = 'pending';
+
+ALTER TABLE public.locker_commands ENABLE ROW LEVEL SECURITY;
+
+-- Commands are only written by the trigger below and the bridge function (service role)
+CREATE POLICY "Teachers view locker commands"
+ON public.locker_commands FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view locker commands"
+ON public.locker_commands FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Queue a hardware command whenever a wired locker changes status
+CREATE OR REPLACE FUNCTION public.queue_locker_command()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.controller_id IS NULL OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.locker_commands (locker_id, controller_id, action, requested_by)
+  VALUES (
+    NEW.id,
+    NEW.controller_id,
+    CASE WHEN NEW.status = 'locked' THEN 'lock' ELSE 'unlock' END,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_locker_command_on_status_change
+AFTER UPDATE OF status ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_locker_command();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_commands;
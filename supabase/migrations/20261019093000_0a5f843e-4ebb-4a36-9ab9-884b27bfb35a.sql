@@ -0,0 +1,128 @@
+-- Command lifecycle: controller failures are reported as jams, and commands
+-- that get no answer in time are marked as timed out
+ALTER TABLE public.locker_commands DROP CONSTRAINT locker_commands_status_check;
+
+UPDATE public.locker_commands SET status = 'jammed' WHERE status = 'failed';
+
+ALTER TABLE public.locker_commands
+  ADD CONSTRAINT locker_commands_status_check
+  CHECK (status IN ('pending', 'sent', 'confirmed', 'jammed', 'timed_out'));
+
+-- Per-locker state of the most recent hardware command
+-- requested: queued, not yet picked up by the bridge
+-- pending:   delivered to the controller, waiting for an answer
+-- confirmed: the lock reported the new position (or the locker has no controller)
+ALTER TABLE public.lockers
+  ADD COLUMN command_state TEXT NOT NULL DEFAULT 'confirmed'
+    CHECK (command_state IN ('requested', 'pending', 'confirmed', 'timed_out', 'jammed')),
+  ADD COLUMN command_error TEXT,
+  ADD COLUMN command_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Mirror the latest command's status onto its locker
+CREATE OR REPLACE FUNCTION public.sync_locker_command_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Ignore updates to commands that have since been superseded
+  IF EXISTS (
+    SELECT 1 FROM public.locker_commands
+    WHERE locker_id = NEW.locker_id
+      AND created_at > NEW.created_at
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.lockers
+  SET
+    command_state = CASE NEW.status
+      WHEN 'pending' THEN 'requested'
+      WHEN 'sent' THEN 'pending'
+      ELSE NEW.status
+    END,
+    command_error = NEW.error,
+    command_updated_at = now()
+  WHERE id = NEW.locker_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_locker_command_state_on_change
+AFTER INSERT OR UPDATE OF status ON public.locker_commands
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_locker_command_state();
+
+-- Mark commands with no controller answer as timed out
+CREATE OR REPLACE FUNCTION public.expire_locker_commands(_timeout INTERVAL DEFAULT interval '30 seconds')
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count INTEGER;
+BEGIN
+  UPDATE public.locker_commands
+  SET
+    status = 'timed_out',
+    error = CASE WHEN status = 'pending' THEN 'Bridge did not pick up the command' ELSE 'Controller did not respond' END,
+    completed_at = now()
+  WHERE status IN ('pending', 'sent')
+    AND created_at < now() - _timeout;
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_locker_commands(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Re-send the current status of a locker whose last command failed
+CREATE OR REPLACE FUNCTION public.retry_locker_command(p_locker_id TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  command_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can retry locker commands';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF target.controller_id IS NULL THEN
+    RAISE EXCEPTION 'Locker % is not connected to a controller', p_locker_id;
+  END IF;
+
+  INSERT INTO public.locker_commands (locker_id, controller_id, action, requested_by)
+  VALUES (
+    target.id,
+    target.controller_id,
+    CASE WHEN target.status = 'locked' THEN 'lock' ELSE 'unlock' END,
+    auth.uid()
+  )
+  RETURNING id INTO command_id;
+
+  RETURN command_id;
+END;
+$$;
+
+-- Sweep for unanswered commands every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'expire-locker-commands',
+  '* * * * *',
+  $$SELECT public.expire_locker_commands()$$
+);
@@ -0,0 +1,181 @@
+-- Allow admin and system (automated) entries in the audit log
+ALTER TABLE public.activity_logs DROP CONSTRAINT activity_logs_user_role_check;
+ALTER TABLE public.activity_logs
+  ADD CONSTRAINT activity_logs_user_role_check
+  CHECK (user_role IN ('student', 'teacher', 'admin', 'system'));
+
+-- Recurring locker lock/unlock rules
+CREATE TABLE public.locker_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- Status applied when the window opens; the opposite is applied when it closes
+  action TEXT NOT NULL CHECK (action IN ('lock', 'unlock')),
+  -- Lockers whose location contains this text; NULL targets every locker
+  location_filter TEXT,
+  -- 0 = Sunday ... 6 = Saturday
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  start_time TIME NOT NULL,
+  -- NULL means a one-off change at start_time with no revert
+  end_time TIME CHECK (end_time IS NULL OR end_time > start_time),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  -- Local dates on which the window was last opened / closed
+  last_started_on DATE,
+  last_ended_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.locker_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view locker schedules"
+ON public.locker_schedules FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins manage locker schedules"
+ON public.locker_schedules FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_locker_schedules_updated_at
+BEFORE UPDATE ON public.locker_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Timezones the server knows, for picking a schedule's zone
+CREATE OR REPLACE FUNCTION public.get_timezone_names()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT array_agg(name ORDER BY name) FROM pg_timezone_names WHERE name !~ '^(posix|Etc)/'
+$$;
+
+-- A misspelt timezone is refused on save rather than failing at run time
+CREATE OR REPLACE FUNCTION public.check_locker_schedule_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone "%"', NEW.timezone;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_locker_schedule_timezone
+BEFORE INSERT OR UPDATE OF timezone ON public.locker_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.check_locker_schedule_timezone();
+
+-- Apply a schedule's status to its lockers and log the change against the schedule
+CREATE OR REPLACE FUNCTION public.apply_locker_schedule(_schedule public.locker_schedules, _status TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_count INTEGER;
+BEGIN
+  UPDATE public.lockers
+  SET
+    status = _status,
+    locked_by = CASE WHEN _status = 'locked' THEN _schedule.created_by ELSE NULL END,
+    locked_at = CASE WHEN _status = 'locked' THEN now() ELSE NULL END
+  WHERE status <> _status
+    AND (_schedule.location_filter IS NULL OR location ILIKE '%' || _schedule.location_filter || '%');
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (
+    _schedule.created_by,
+    'Schedule: ' || _schedule.name,
+    'system',
+    CASE WHEN _status = 'locked' THEN 'SCHEDULE_LOCK' ELSE 'SCHEDULE_UNLOCK' END,
+    format(
+      '%s %s locker(s)%s (schedule %s)',
+      CASE WHEN _status = 'locked' THEN 'Locked' ELSE 'Unlocked' END,
+      changed_count,
+      COALESCE(' matching "' || _schedule.location_filter || '"', ''),
+      _schedule.id
+    )
+  );
+
+  RETURN changed_count;
+END;
+$$;
+
+-- Open and close schedule windows that are due; run every minute by pg_cron
+CREATE OR REPLACE FUNCTION public.run_locker_schedules()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  schedule public.locker_schedules%ROWTYPE;
+  local_now TIMESTAMP;
+  window_status TEXT;
+  revert_status TEXT;
+  applied INTEGER := 0;
+BEGIN
+  FOR schedule IN
+    SELECT * FROM public.locker_schedules WHERE is_enabled
+  LOOP
+    -- A schedule that fails is skipped without holding up the others
+    BEGIN
+      local_now := now() AT TIME ZONE schedule.timezone;
+
+      IF NOT (EXTRACT(DOW FROM local_now)::SMALLINT = ANY (schedule.days_of_week)) THEN
+        CONTINUE;
+      END IF;
+
+      window_status := CASE WHEN schedule.action = 'lock' THEN 'locked' ELSE 'unlocked' END;
+      revert_status := CASE WHEN schedule.action = 'lock' THEN 'unlocked' ELSE 'locked' END;
+
+      -- Window opens
+      IF local_now::TIME >= schedule.start_time
+        AND (schedule.end_time IS NULL OR local_now::TIME < schedule.end_time)
+        AND schedule.last_started_on IS DISTINCT FROM local_now::DATE
+      THEN
+        PERFORM public.apply_locker_schedule(schedule, window_status);
+        UPDATE public.locker_schedules SET last_started_on = local_now::DATE WHERE id = schedule.id;
+        applied := applied + 1;
+
+      -- Window closes (only if it was opened today)
+      ELSIF schedule.end_time IS NOT NULL
+        AND local_now::TIME >= schedule.end_time
+        AND schedule.last_started_on = local_now::DATE
+        AND schedule.last_ended_on IS DISTINCT FROM local_now::DATE
+      THEN
+        PERFORM public.apply_locker_schedule(schedule, revert_status);
+        UPDATE public.locker_schedules SET last_ended_on = local_now::DATE WHERE id = schedule.id;
+        applied := applied + 1;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Locker schedule % failed: %', schedule.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN applied;
+END;
+$$;
+
+-- Scheduler-only functions must not be callable through the API
+REVOKE EXECUTE ON FUNCTION public.apply_locker_schedule(public.locker_schedules, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.run_locker_schedules() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'run-locker-schedules',
+  '* * * * *',
+  $$SELECT public.run_locker_schedules()$$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_schedules;
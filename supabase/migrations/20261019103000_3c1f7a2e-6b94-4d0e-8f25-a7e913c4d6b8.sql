@@ -0,0 +1,337 @@
+-- Locker-bank kiosk access: student PINs and teacher-issued one-time unlock codes
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- One PIN per student, stored as a bcrypt hash
+CREATE TABLE public.locker_pins (
+  student_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.locker_pins ENABLE ROW LEVEL SECURITY;
+
+-- Students can see whether they have a PIN; PINs are only written through set_locker_pin
+CREATE POLICY "Students view own pin"
+ON public.locker_pins FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE TRIGGER update_locker_pins_updated_at
+BEFORE UPDATE ON public.locker_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Single-use codes issued by staff for one locker
+CREATE TABLE public.locker_unlock_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  locker_id TEXT NOT NULL REFERENCES public.lockers(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  issued_by UUID NOT NULL REFERENCES auth.users(id),
+  -- The student the code was handed to (the locker's owner at issue time)
+  issued_for UUID REFERENCES auth.users(id),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_unlock_codes_active
+ON public.locker_unlock_codes (locker_id)
+WHERE used_at IS NULL;
+
+ALTER TABLE public.locker_unlock_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view unlock codes"
+ON public.locker_unlock_codes FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view unlock codes"
+ON public.locker_unlock_codes FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Every kiosk attempt, used for rate limiting and auditing
+CREATE TABLE public.locker_unlock_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  locker_id TEXT NOT NULL,
+  -- The client address the attempt came from, see kiosk_caller
+  caller TEXT NOT NULL,
+  method TEXT CHECK (method IN ('pin', 'code')),
+  code_id UUID REFERENCES public.locker_unlock_codes(id) ON DELETE SET NULL,
+  success BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_unlock_attempts_recent
+ON public.locker_unlock_attempts (locker_id, created_at DESC);
+
+CREATE INDEX idx_locker_unlock_attempts_caller
+ON public.locker_unlock_attempts (caller, created_at DESC);
+
+ALTER TABLE public.locker_unlock_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view unlock attempts"
+ON public.locker_unlock_attempts FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view unlock attempts"
+ON public.locker_unlock_attempts FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Set or change the calling student's locker PIN
+CREATE OR REPLACE FUNCTION public.set_locker_pin(p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  student public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO student FROM public.profiles WHERE id = auth.uid();
+
+  IF NOT FOUND OR NOT has_role(auth.uid(), 'student'::app_role) THEN
+    RAISE EXCEPTION 'Only students can set a locker PIN';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.locker_pins (student_id, pin_hash)
+  VALUES (student.id, crypt(p_pin, gen_salt('bf')))
+  ON CONFLICT (student_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (student.id, student.name, 'student', 'LOCKER_PIN_SET', 'Set a new locker PIN');
+END;
+$$;
+
+-- Issue a one-time code for a locker; the plain code is only ever returned here
+CREATE OR REPLACE FUNCTION public.issue_locker_unlock_code(p_locker_id TEXT, p_valid_minutes INTEGER DEFAULT 15)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  issuer public.profiles%ROWTYPE;
+  issuer_role TEXT;
+  target public.lockers%ROWTYPE;
+  plain_code TEXT;
+  new_code public.locker_unlock_codes%ROWTYPE;
+BEGIN
+  IF has_role(auth.uid(), 'admin'::app_role) THEN
+    issuer_role := 'admin';
+  ELSIF has_role(auth.uid(), 'teacher'::app_role) THEN
+    issuer_role := 'teacher';
+  ELSE
+    RAISE EXCEPTION 'Only teachers and admins can issue unlock codes';
+  END IF;
+
+  IF p_valid_minutes < 1 OR p_valid_minutes > 1440 THEN
+    RAISE EXCEPTION 'Codes must be valid for between 1 minute and 24 hours';
+  END IF;
+
+  SELECT * INTO issuer FROM public.profiles WHERE id = auth.uid();
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  -- Six random digits from a cryptographic source
+  plain_code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::bigint) % 1000000)::TEXT, 6, '0');
+
+  INSERT INTO public.locker_unlock_codes (locker_id, code_hash, issued_by, issued_for, expires_at)
+  VALUES (
+    target.id,
+    crypt(plain_code, gen_salt('bf')),
+    issuer.id,
+    target.student_id,
+    now() + make_interval(mins => p_valid_minutes)
+  )
+  RETURNING * INTO new_code;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (
+    issuer.id,
+    issuer.name,
+    issuer_role,
+    'UNLOCK_CODE_ISSUED',
+    format('Issued one-time code %s for locker %s, valid %s min', new_code.id, target.id, p_valid_minutes)
+  );
+
+  RETURN jsonb_build_object('id', new_code.id, 'code', plain_code, 'expires_at', new_code.expires_at);
+END;
+$$;
+
+-- The address of the client, as the hosting edge proxy sets it in
+-- cf-connecting-ip. x-forwarded-for and x-real-ip are not used: a client can
+-- send its own, and nothing in front of the API replaces them.
+CREATE OR REPLACE FUNCTION public.kiosk_caller()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(nullif(trim(headers->>'cf-connecting-ip'), ''), 'unknown')
+  FROM (SELECT nullif(current_setting('request.headers', true), '')::json AS headers) AS request
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kiosk_caller() FROM PUBLIC, anon, authenticated;
+
+-- Why a kiosk may not open a locker right now, or NULL when it may. A staff
+-- lock is only lifted by staff.
+CREATE OR REPLACE FUNCTION public.kiosk_unlock_refusal(_locker public.lockers)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _locker.locked_by IS NOT NULL AND _locker.locked_by IS DISTINCT FROM _locker.student_id
+      THEN 'This locker has been locked by staff. Ask a teacher to open it.'
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.kiosk_unlock_refusal(public.lockers) FROM PUBLIC, anon, authenticated;
+
+-- Unlock a locker at a kiosk with the owner's PIN or a one-time code.
+-- Returns a result object rather than raising so failed attempts are recorded.
+CREATE OR REPLACE FUNCTION public.unlock_locker_with_code(p_locker_id TEXT, p_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  -- Per locker, so a PIN cannot be guessed from many addresses; per caller
+  -- higher, as a school's kiosks may share one address
+  max_locker_failures CONSTANT INTEGER := 5;
+  max_caller_failures CONSTANT INTEGER := 20;
+  lockout CONSTANT INTERVAL := interval '15 minutes';
+  caller TEXT := kiosk_caller();
+  target public.lockers%ROWTYPE;
+  caller_failures INTEGER := 0;
+  locker_failures INTEGER;
+  attempts_left INTEGER;
+  refusal TEXT;
+  stored_pin TEXT;
+  candidate public.locker_unlock_codes%ROWTYPE;
+  matched public.locker_unlock_codes%ROWTYPE;
+  issuer_name TEXT;
+  holder_name TEXT;
+BEGIN
+  -- Callers without a known address share no bucket; the locker cap still applies
+  IF caller <> 'unknown' THEN
+    SELECT count(*) INTO caller_failures
+    FROM public.locker_unlock_attempts
+    WHERE locker_unlock_attempts.caller = unlock_locker_with_code.caller
+      AND NOT success
+      AND created_at > now() - lockout;
+  END IF;
+
+  IF caller_failures >= max_caller_failures THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Too many failed attempts. Try again later or ask a teacher.',
+      'locked_out', true
+    );
+  END IF;
+
+  -- Locked so concurrent guesses at one locker are counted in turn
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.locker_unlock_attempts (locker_id, caller, success) VALUES (p_locker_id, caller, false);
+    RETURN jsonb_build_object('success', false, 'error', 'Locker not found');
+  END IF;
+
+  SELECT count(*) INTO locker_failures
+  FROM public.locker_unlock_attempts
+  WHERE locker_id = target.id
+    AND NOT success
+    AND created_at > now() - lockout;
+
+  IF locker_failures >= max_locker_failures THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Too many failed attempts. Try again later or ask a teacher.',
+      'locked_out', true
+    );
+  END IF;
+
+  attempts_left := least(max_caller_failures - caller_failures, max_locker_failures - locker_failures) - 1;
+
+  refusal := kiosk_unlock_refusal(target);
+
+  IF refusal IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', refusal);
+  END IF;
+
+  IF coalesce(p_code, '') !~ '^[0-9]{4,8}$' THEN
+    INSERT INTO public.locker_unlock_attempts (locker_id, caller, success) VALUES (target.id, caller, false);
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid code', 'attempts_remaining', attempts_left);
+  END IF;
+
+  -- The owner's PIN
+  IF target.student_id IS NOT NULL THEN
+    SELECT pin_hash INTO stored_pin FROM public.locker_pins WHERE student_id = target.student_id;
+
+    IF stored_pin IS NOT NULL AND crypt(p_code, stored_pin) = stored_pin THEN
+      INSERT INTO public.locker_unlock_attempts (locker_id, caller, method, success) VALUES (target.id, caller, 'pin', true);
+
+      UPDATE public.lockers SET status = 'unlocked', locked_by = NULL, locked_at = NULL WHERE id = target.id;
+
+      INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+      VALUES (target.student_id, target.student_name, 'student', 'KIOSK_UNLOCK_PIN',
+        format('Unlocked locker %s with PIN', target.id));
+
+      RETURN jsonb_build_object('success', true, 'method', 'pin', 'locker_id', target.id);
+    END IF;
+  END IF;
+
+  -- An unused, unexpired one-time code for this locker
+  FOR candidate IN
+    SELECT * FROM public.locker_unlock_codes
+    WHERE locker_id = target.id
+      AND used_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE
+  LOOP
+    IF crypt(p_code, candidate.code_hash) = candidate.code_hash THEN
+      matched := candidate;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF matched.id IS NULL THEN
+    INSERT INTO public.locker_unlock_attempts (locker_id, caller, success) VALUES (target.id, caller, false);
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid code', 'attempts_remaining', attempts_left);
+  END IF;
+
+  UPDATE public.locker_unlock_codes SET used_at = now() WHERE id = matched.id;
+
+  INSERT INTO public.locker_unlock_attempts (locker_id, caller, method, code_id, success)
+  VALUES (target.id, caller, 'code', matched.id, true);
+
+  UPDATE public.lockers SET status = 'unlocked', locked_by = NULL, locked_at = NULL WHERE id = target.id;
+
+  SELECT name INTO issuer_name FROM public.profiles WHERE id = matched.issued_by;
+  SELECT name INTO holder_name FROM public.profiles WHERE id = matched.issued_for;
+
+  -- Attribute the unlock to the student the code was issued to, or to the issuer
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (
+    coalesce(matched.issued_for, matched.issued_by),
+    coalesce(holder_name, issuer_name, 'Unknown'),
+    CASE WHEN matched.issued_for IS NOT NULL THEN 'student' ELSE 'teacher' END,
+    'KIOSK_UNLOCK_CODE',
+    format('Unlocked locker %s with one-time code %s issued by %s', target.id, matched.id, coalesce(issuer_name, 'staff'))
+  );
+
+  RETURN jsonb_build_object('success', true, 'method', 'code', 'locker_id', target.id);
+END;
+$$;
+
+-- Kiosks run without a signed-in user
+GRANT EXECUTE ON FUNCTION public.unlock_locker_with_code(TEXT, TEXT) TO anon, authenticated;
@@ -0,0 +1,69 @@
+-- Physical locker hierarchy: building -> floor -> bank -> locker
+CREATE TABLE public.buildings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.floors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  building_id UUID NOT NULL REFERENCES public.buildings(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- Used for ordering floors within a building (0 = ground floor)
+  level INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (building_id, name)
+);
+
+CREATE TABLE public.locker_banks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  floor_id UUID NOT NULL REFERENCES public.floors(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (floor_id, name)
+);
+
+-- location stays as the position within the bank (e.g. "Row C, Position 1")
+ALTER TABLE public.lockers
+  ADD COLUMN bank_id UUID REFERENCES public.locker_banks(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_lockers_bank_id ON public.lockers (bank_id);
+CREATE INDEX idx_floors_building_id ON public.floors (building_id);
+CREATE INDEX idx_locker_banks_floor_id ON public.locker_banks (floor_id);
+
+ALTER TABLE public.buildings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.floors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.locker_banks ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can see where lockers are
+CREATE POLICY "Authenticated users view buildings"
+ON public.buildings FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users view floors"
+ON public.floors FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users view locker banks"
+ON public.locker_banks FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- Only admins change the layout
+CREATE POLICY "Admins manage buildings"
+ON public.buildings FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins manage floors"
+ON public.floors FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins manage locker banks"
+ON public.locker_banks FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.buildings;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.floors;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_banks;
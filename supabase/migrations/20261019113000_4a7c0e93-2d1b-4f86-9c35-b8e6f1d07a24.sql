@@ -0,0 +1,247 @@
+-- One locker per student, with a full assignment history
+
+-- Resolve existing double assignments: keep each student's most recently updated locker
+UPDATE public.lockers
+SET student_id = NULL, student_name = 'Unassigned'
+WHERE id IN (
+  SELECT id FROM (
+    SELECT id, row_number() OVER (PARTITION BY student_id ORDER BY updated_at DESC) AS rn
+    FROM public.lockers
+    WHERE student_id IS NOT NULL
+  ) ranked
+  WHERE rn > 1
+);
+
+CREATE UNIQUE INDEX lockers_one_per_student
+ON public.lockers (student_id)
+WHERE student_id IS NOT NULL;
+
+-- profiles.locker_id mirrors lockers.student_id; repair any drift
+UPDATE public.profiles p
+SET locker_id = l.id
+FROM public.lockers l
+WHERE l.student_id = p.id
+  AND p.locker_id IS DISTINCT FROM l.id;
+
+UPDATE public.profiles p
+SET locker_id = NULL
+WHERE p.locker_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.lockers l WHERE l.id = p.locker_id AND l.student_id = p.id);
+
+-- Every period a student held a locker
+CREATE TABLE public.locker_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key: history outlives deleted lockers
+  locker_id TEXT NOT NULL,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_name TEXT NOT NULL,
+  assigned_by UUID REFERENCES auth.users(id),
+  assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  released_by UUID REFERENCES auth.users(id),
+  released_at TIMESTAMP WITH TIME ZONE,
+  end_reason TEXT CHECK (end_reason IN ('unassigned', 'reassigned', 'transferred', 'locker_deleted')),
+  -- Set when the student moved to another locker
+  transferred_to TEXT
+);
+
+CREATE INDEX idx_locker_assignments_locker ON public.locker_assignments (locker_id, assigned_at DESC);
+CREATE INDEX idx_locker_assignments_student ON public.locker_assignments (student_id, assigned_at DESC);
+
+CREATE UNIQUE INDEX locker_assignments_one_open_per_locker
+ON public.locker_assignments (locker_id)
+WHERE released_at IS NULL;
+
+ALTER TABLE public.locker_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students view own assignment history"
+ON public.locker_assignments FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE POLICY "Teachers view assignment history"
+ON public.locker_assignments FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view assignment history"
+ON public.locker_assignments FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Open history rows for current holders
+INSERT INTO public.locker_assignments (locker_id, student_id, student_name, assigned_at)
+SELECT id, student_id, student_name, updated_at
+FROM public.lockers
+WHERE student_id IS NOT NULL;
+
+-- Record every change of holder and keep profiles.locker_id in sync, whichever
+-- path changed the locker. RPCs can label the change via app.assignment_reason.
+CREATE OR REPLACE FUNCTION public.track_locker_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reason TEXT := nullif(current_setting('app.assignment_reason', true), '');
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.student_id IS NOT NULL THEN
+    UPDATE public.locker_assignments
+    SET
+      released_at = now(),
+      released_by = auth.uid(),
+      end_reason = CASE
+        WHEN TG_OP = 'DELETE' THEN 'locker_deleted'
+        ELSE coalesce(reason, CASE WHEN NEW.student_id IS NULL THEN 'unassigned' ELSE 'reassigned' END)
+      END
+    WHERE locker_id = OLD.id AND released_at IS NULL;
+
+    UPDATE public.profiles SET locker_id = NULL WHERE id = OLD.student_id AND locker_id = OLD.id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.student_id IS NOT NULL THEN
+    INSERT INTO public.locker_assignments (locker_id, student_id, student_name, assigned_by)
+    VALUES (NEW.id, NEW.student_id, NEW.student_name, auth.uid());
+
+    UPDATE public.profiles SET locker_id = NEW.id WHERE id = NEW.student_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_locker_assignment_on_insert
+AFTER INSERT ON public.lockers
+FOR EACH ROW
+WHEN (NEW.student_id IS NOT NULL)
+EXECUTE FUNCTION public.track_locker_assignment();
+
+CREATE TRIGGER track_locker_assignment_on_update
+AFTER UPDATE OF student_id ON public.lockers
+FOR EACH ROW
+WHEN (OLD.student_id IS DISTINCT FROM NEW.student_id)
+EXECUTE FUNCTION public.track_locker_assignment();
+
+CREATE TRIGGER track_locker_assignment_on_delete
+AFTER DELETE ON public.lockers
+FOR EACH ROW
+WHEN (OLD.student_id IS NOT NULL)
+EXECUTE FUNCTION public.track_locker_assignment();
+
+-- Assign a locker to a student, or clear it when p_student_id is NULL
+CREATE OR REPLACE FUNCTION public.assign_locker(p_locker_id TEXT, p_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  student public.profiles%ROWTYPE;
+  current_locker TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can assign lockers';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF p_student_id IS NULL THEN
+    UPDATE public.lockers SET student_id = NULL, student_name = 'Unassigned' WHERE id = target.id;
+    RETURN;
+  END IF;
+
+  IF target.student_id = p_student_id THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO student FROM public.profiles WHERE id = p_student_id;
+
+  IF NOT FOUND OR NOT has_role(p_student_id, 'student'::app_role) THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  SELECT id INTO current_locker FROM public.lockers WHERE student_id = p_student_id FOR UPDATE;
+
+  IF current_locker IS NOT NULL THEN
+    RAISE EXCEPTION '% already has locker %. Transfer them instead.', student.name, current_locker
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  UPDATE public.lockers SET student_id = student.id, student_name = student.name WHERE id = target.id;
+END;
+$$;
+
+-- Move a student from their current locker to an empty one, keeping their history.
+-- Both lockers are unlocked by default so their belongings can be moved across.
+CREATE OR REPLACE FUNCTION public.transfer_locker(p_student_id UUID, p_to_locker_id TEXT, p_unlock BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source public.lockers%ROWTYPE;
+  target public.lockers%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can transfer lockers';
+  END IF;
+
+  SELECT * INTO source FROM public.lockers WHERE student_id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student has no locker to transfer from';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_to_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_to_locker_id;
+  END IF;
+
+  IF target.id = source.id THEN
+    RAISE EXCEPTION 'Student already has locker %', target.id;
+  END IF;
+
+  IF target.student_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Locker % is already assigned to %', target.id, target.student_name;
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', 'transferred', true);
+
+  UPDATE public.lockers
+  SET
+    student_id = NULL,
+    student_name = 'Unassigned',
+    status = CASE WHEN p_unlock THEN 'unlocked' ELSE status END,
+    locked_by = CASE WHEN p_unlock THEN NULL ELSE locked_by END,
+    locked_at = CASE WHEN p_unlock THEN NULL ELSE locked_at END
+  WHERE id = source.id;
+
+  UPDATE public.locker_assignments
+  SET transferred_to = target.id
+  WHERE locker_id = source.id
+    AND student_id = p_student_id
+    AND end_reason = 'transferred'
+    AND released_at = now();
+
+  UPDATE public.lockers
+  SET
+    student_id = source.student_id,
+    student_name = source.student_name,
+    status = CASE WHEN p_unlock THEN 'unlocked' ELSE status END,
+    locked_by = CASE WHEN p_unlock THEN NULL ELSE locked_by END,
+    locked_at = CASE WHEN p_unlock THEN NULL ELSE locked_at END
+  WHERE id = target.id;
+
+  PERFORM set_config('app.assignment_reason', '', true);
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_assignments;
@@ -0,0 +1,465 @@
+-- Trusted audit trail: locker changes and their activity_logs rows are written
+-- together server-side, and clients can no longer insert log entries directly
+
+-- Write a log entry attributed to the calling user (internal helper)
+CREATE OR REPLACE FUNCTION public.write_activity_log(_action TEXT, _details TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO actor FROM public.profiles WHERE id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No profile for the current user';
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (actor.id, actor.name, coalesce(get_user_role(actor.id)::TEXT, 'student'), _action, _details);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.write_activity_log(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Events only the client can observe (sign-out, desk actions). Locker and
+-- settings changes are logged by the functions and triggers below instead.
+CREATE OR REPLACE FUNCTION public.log_activity(p_action TEXT, p_details TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_action NOT IN ('LOGIN', 'LOGOUT', 'RESEARCH_ACCESS', 'RESEARCH_BLOCKED', 'EXAM_ACTION') THEN
+    RAISE EXCEPTION 'Action % cannot be logged by clients', p_action;
+  END IF;
+
+  PERFORM write_activity_log(p_action, left(p_details, 500));
+END;
+$$;
+
+-- Lock or unlock one locker. Staff can change any locker, students only their own.
+CREATE OR REPLACE FUNCTION public.set_locker_status(p_locker_id TEXT, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+BEGIN
+  IF p_status NOT IN ('locked', 'unlocked') THEN
+    RAISE EXCEPTION 'Invalid locker status %', p_status;
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF NOT (
+    has_role(auth.uid(), 'teacher'::app_role)
+    OR has_role(auth.uid(), 'admin'::app_role)
+    OR target.student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You do not have access to locker %', p_locker_id;
+  END IF;
+
+  UPDATE public.lockers
+  SET
+    status = p_status,
+    locked_by = CASE WHEN p_status = 'locked' THEN auth.uid() ELSE NULL END,
+    locked_at = CASE WHEN p_status = 'locked' THEN now() ELSE NULL END
+  WHERE id = target.id;
+
+  PERFORM write_activity_log(
+    CASE WHEN p_status = 'locked' THEN 'LOCKER_LOCK' ELSE 'LOCKER_UNLOCK' END,
+    format('%s locker %s', CASE WHEN p_status = 'locked' THEN 'Locked' ELSE 'Unlocked' END, target.id)
+  );
+END;
+$$;
+
+-- Lock or unlock every locker, or only those in the given banks (a zone).
+-- Returns the number of lockers that changed.
+CREATE OR REPLACE FUNCTION public.set_all_lockers_status(
+  p_status TEXT,
+  p_bank_ids UUID[] DEFAULT NULL,
+  p_scope_label TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can change all lockers';
+  END IF;
+
+  IF p_status NOT IN ('locked', 'unlocked') THEN
+    RAISE EXCEPTION 'Invalid locker status %', p_status;
+  END IF;
+
+  UPDATE public.lockers
+  SET
+    status = p_status,
+    locked_by = CASE WHEN p_status = 'locked' THEN auth.uid() ELSE NULL END,
+    locked_at = CASE WHEN p_status = 'locked' THEN now() ELSE NULL END
+  WHERE status <> p_status
+    AND (p_bank_ids IS NULL OR bank_id = ANY (p_bank_ids));
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  IF p_bank_ids IS NULL THEN
+    PERFORM write_activity_log(
+      CASE WHEN p_status = 'locked' THEN 'LOCK_ALL' ELSE 'UNLOCK_ALL' END,
+      format('%s all lockers (%s changed)',
+        CASE WHEN p_status = 'locked' THEN 'Emergency: Locked' ELSE 'Unlocked' END, affected)
+    );
+  ELSE
+    PERFORM write_activity_log(
+      CASE WHEN p_status = 'locked' THEN 'LOCK_ZONE' ELSE 'UNLOCK_ZONE' END,
+      format('%s all lockers in %s (%s changed)',
+        CASE WHEN p_status = 'locked' THEN 'Locked' ELSE 'Unlocked' END,
+        coalesce(p_scope_label, 'selected zone'), affected)
+    );
+  END IF;
+
+  RETURN affected;
+END;
+$$;
+
+-- Create or update many lockers in one transaction, e.g. from a CSV import.
+-- Rows: [{ id, location, student_id }]. Existing lockers keep their status and zone.
+CREATE OR REPLACE FUNCTION public.import_lockers(p_rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  row_data JSONB;
+  student public.profiles%ROWTYPE;
+  target_id TEXT;
+  row_student_id UUID;
+  created INTEGER := 0;
+  updated INTEGER := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can import lockers';
+  END IF;
+
+  -- Per-locker add/update entries are replaced by the single summary below
+  PERFORM set_config('app.skip_locker_log', 'on', true);
+
+  FOR row_data IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    target_id := nullif(trim(row_data->>'id'), '');
+    row_student_id := nullif(row_data->>'student_id', '')::UUID;
+
+    IF target_id IS NULL OR nullif(trim(row_data->>'location'), '') IS NULL THEN
+      RAISE EXCEPTION 'Every imported locker needs an id and a location';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.lockers WHERE id = target_id) THEN
+      UPDATE public.lockers SET location = trim(row_data->>'location') WHERE id = target_id;
+      updated := updated + 1;
+    ELSE
+      INSERT INTO public.lockers (id, location, status)
+      VALUES (target_id, trim(row_data->>'location'), 'locked');
+      created := created + 1;
+    END IF;
+
+    -- Same rules as a manual assignment, including one locker per student
+    IF row_student_id IS NOT NULL THEN
+      SELECT * INTO student FROM public.profiles WHERE id = row_student_id;
+
+      IF NOT FOUND OR NOT has_role(row_student_id, 'student'::app_role) THEN
+        RAISE EXCEPTION 'Student not found for locker %', target_id;
+      END IF;
+
+      IF EXISTS (SELECT 1 FROM public.lockers l WHERE l.student_id = student.id AND l.id <> target_id) THEN
+        RAISE EXCEPTION '% already has a locker; locker % was not imported', student.name, target_id
+          USING ERRCODE = 'unique_violation';
+      END IF;
+
+      UPDATE public.lockers
+      SET student_id = student.id, student_name = student.name
+      WHERE id = target_id AND lockers.student_id IS DISTINCT FROM student.id;
+    ELSE
+      UPDATE public.lockers
+      SET student_id = NULL, student_name = 'Unassigned'
+      WHERE id = target_id AND lockers.student_id IS NOT NULL;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.skip_locker_log', '', true);
+
+  PERFORM write_activity_log(
+    'LOCKER_IMPORT',
+    format('Imported %s lockers from CSV (%s new, %s updated)', created + updated, created, updated)
+  );
+
+  RETURN jsonb_build_object('created', created, 'updated', updated);
+END;
+$$;
+
+-- Log locker additions, edits and deletions made by signed-in users
+CREATE OR REPLACE FUNCTION public.log_locker_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR current_setting('app.skip_locker_log', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM write_activity_log('LOCKER_ADD', format('Added locker %s at %s%s', NEW.id, NEW.location,
+      CASE WHEN NEW.student_id IS NOT NULL THEN ' for ' || NEW.student_name ELSE '' END));
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM write_activity_log('LOCKER_UPDATE', format('Updated locker %s', NEW.id));
+  ELSE
+    PERFORM write_activity_log('LOCKER_DELETE', format('Deleted locker %s', OLD.id));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_locker_insert
+AFTER INSERT ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.log_locker_change();
+
+CREATE TRIGGER log_locker_update
+AFTER UPDATE OF location, bank_id ON public.lockers
+FOR EACH ROW
+WHEN (OLD.location IS DISTINCT FROM NEW.location OR OLD.bank_id IS DISTINCT FROM NEW.bank_id)
+EXECUTE FUNCTION public.log_locker_change();
+
+CREATE TRIGGER log_locker_delete
+AFTER DELETE ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.log_locker_change();
+
+-- Log exam mode being switched, whichever path changed the setting
+CREATE OR REPLACE FUNCTION public.log_exam_mode_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  enabled BOOLEAN := coalesce((NEW.value->>'enabled')::BOOLEAN, false);
+BEGIN
+  IF enabled = coalesce((OLD.value->>'enabled')::BOOLEAN, false) THEN
+    RETURN NULL;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    PERFORM write_activity_log(
+      CASE WHEN enabled THEN 'EXAM_MODE_ON' ELSE 'EXAM_MODE_OFF' END,
+      format('%s exam mode', CASE WHEN enabled THEN 'Enabled' ELSE 'Disabled' END)
+    );
+  ELSIF NEW.updated_by IS NOT NULL THEN
+    INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+    VALUES (
+      NEW.updated_by,
+      'System',
+      'system',
+      CASE WHEN enabled THEN 'EXAM_MODE_ON' ELSE 'EXAM_MODE_OFF' END,
+      format('%s exam mode', CASE WHEN enabled THEN 'Enabled' ELSE 'Disabled' END)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_exam_mode_change
+AFTER UPDATE OF value ON public.system_settings
+FOR EACH ROW
+WHEN (NEW.key = 'exam_mode')
+EXECUTE FUNCTION public.log_exam_mode_change();
+
+-- Assignment and transfer now log in the same transaction
+CREATE OR REPLACE FUNCTION public.assign_locker(p_locker_id TEXT, p_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  student public.profiles%ROWTYPE;
+  current_locker TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can assign lockers';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF p_student_id IS NULL THEN
+    IF target.student_id IS NOT NULL THEN
+      UPDATE public.lockers SET student_id = NULL, student_name = 'Unassigned' WHERE id = target.id;
+      PERFORM write_activity_log('LOCKER_ASSIGN', format('Unassigned %s from locker %s', target.student_name, target.id));
+    END IF;
+    RETURN;
+  END IF;
+
+  IF target.student_id = p_student_id THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO student FROM public.profiles WHERE id = p_student_id;
+
+  IF NOT FOUND OR NOT has_role(p_student_id, 'student'::app_role) THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  SELECT id INTO current_locker FROM public.lockers WHERE student_id = p_student_id FOR UPDATE;
+
+  IF current_locker IS NOT NULL THEN
+    RAISE EXCEPTION '% already has locker %. Transfer them instead.', student.name, current_locker
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  UPDATE public.lockers SET student_id = student.id, student_name = student.name WHERE id = target.id;
+
+  PERFORM write_activity_log('LOCKER_ASSIGN', format('Assigned locker %s to %s', target.id, student.name));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transfer_locker(p_student_id UUID, p_to_locker_id TEXT, p_unlock BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source public.lockers%ROWTYPE;
+  target public.lockers%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can transfer lockers';
+  END IF;
+
+  SELECT * INTO source FROM public.lockers WHERE student_id = p_student_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student has no locker to transfer from';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_to_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_to_locker_id;
+  END IF;
+
+  IF target.id = source.id THEN
+    RAISE EXCEPTION 'Student already has locker %', target.id;
+  END IF;
+
+  IF target.student_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Locker % is already assigned to %', target.id, target.student_name;
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', 'transferred', true);
+
+  UPDATE public.lockers
+  SET
+    student_id = NULL,
+    student_name = 'Unassigned',
+    status = CASE WHEN p_unlock THEN 'unlocked' ELSE status END,
+    locked_by = CASE WHEN p_unlock THEN NULL ELSE locked_by END,
+    locked_at = CASE WHEN p_unlock THEN NULL ELSE locked_at END
+  WHERE id = source.id;
+
+  UPDATE public.locker_assignments
+  SET transferred_to = target.id
+  WHERE locker_id = source.id
+    AND student_id = p_student_id
+    AND end_reason = 'transferred'
+    AND released_at = now();
+
+  UPDATE public.lockers
+  SET
+    student_id = source.student_id,
+    student_name = source.student_name,
+    status = CASE WHEN p_unlock THEN 'unlocked' ELSE status END,
+    locked_by = CASE WHEN p_unlock THEN NULL ELSE locked_by END,
+    locked_at = CASE WHEN p_unlock THEN NULL ELSE locked_at END
+  WHERE id = target.id;
+
+  PERFORM set_config('app.assignment_reason', '', true);
+
+  PERFORM write_activity_log(
+    'LOCKER_TRANSFER',
+    format('Transferred %s from locker %s to %s', source.student_name, source.id, target.id)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.retry_locker_command(p_locker_id TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  command_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can retry locker commands';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF target.controller_id IS NULL THEN
+    RAISE EXCEPTION 'Locker % is not connected to a controller', p_locker_id;
+  END IF;
+
+  INSERT INTO public.locker_commands (locker_id, controller_id, action, requested_by)
+  VALUES (
+    target.id,
+    target.controller_id,
+    CASE WHEN target.status = 'locked' THEN 'lock' ELSE 'unlock' END,
+    auth.uid()
+  )
+  RETURNING id INTO command_id;
+
+  PERFORM write_activity_log('LOCKER_RETRY', format('Retried hardware command for locker %s', target.id));
+
+  RETURN command_id;
+END;
+$$;
+
+-- Clients lose direct write access to the audit table
+DROP POLICY IF EXISTS "Users insert own logs" ON public.activity_logs;
+DROP POLICY IF EXISTS "Admins insert logs" ON public.activity_logs;
+REVOKE INSERT, UPDATE, DELETE ON public.activity_logs FROM anon, authenticated;
+
+-- Status and assignment columns can only change through the functions above;
+-- students change their own locker through set_locker_status
+DROP POLICY IF EXISTS "Students update own locker" ON public.lockers;
+REVOKE UPDATE ON public.lockers FROM anon, authenticated;
+GRANT UPDATE (location, bank_id, controller_id, controller_slot) ON public.lockers TO authenticated;
@@ -0,0 +1,246 @@
+-- Students ask for a staff-locked locker to be opened; teachers approve
+-- (optionally for a limited time) or deny with a message
+
+CREATE TABLE public.locker_unlock_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  locker_id TEXT NOT NULL REFERENCES public.lockers(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_name TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (length(trim(reason)) BETWEEN 1 AND 500),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  -- Shown to the student, e.g. why the request was denied
+  response_message TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- Timed approvals re-lock the locker at relock_at
+  relock_at TIMESTAMP WITH TIME ZONE,
+  relocked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_unlock_requests_student ON public.locker_unlock_requests (student_id, created_at DESC);
+CREATE INDEX idx_locker_unlock_requests_relock ON public.locker_unlock_requests (relock_at)
+WHERE relock_at IS NOT NULL AND relocked_at IS NULL;
+
+CREATE UNIQUE INDEX locker_unlock_requests_one_pending
+ON public.locker_unlock_requests (locker_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.locker_unlock_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students view own unlock requests"
+ON public.locker_unlock_requests FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE POLICY "Teachers view unlock requests"
+ON public.locker_unlock_requests FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view unlock requests"
+ON public.locker_unlock_requests FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_locker_unlock_requests_updated_at
+BEFORE UPDATE ON public.locker_unlock_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Students can no longer open a locker that staff (or a schedule) locked
+CREATE OR REPLACE FUNCTION public.set_locker_status(p_locker_id TEXT, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  is_staff BOOLEAN := has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role);
+BEGIN
+  IF p_status NOT IN ('locked', 'unlocked') THEN
+    RAISE EXCEPTION 'Invalid locker status %', p_status;
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF NOT (is_staff OR target.student_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have access to locker %', p_locker_id;
+  END IF;
+
+  IF NOT is_staff AND p_status = 'unlocked' AND target.status = 'locked'
+    AND target.locked_by IS NOT NULL AND target.locked_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Locker % was locked by staff. Request an unlock instead.', p_locker_id;
+  END IF;
+
+  UPDATE public.lockers
+  SET
+    status = p_status,
+    locked_by = CASE WHEN p_status = 'locked' THEN auth.uid() ELSE NULL END,
+    locked_at = CASE WHEN p_status = 'locked' THEN now() ELSE NULL END
+  WHERE id = target.id;
+
+  PERFORM write_activity_log(
+    CASE WHEN p_status = 'locked' THEN 'LOCKER_LOCK' ELSE 'LOCKER_UNLOCK' END,
+    format('%s locker %s', CASE WHEN p_status = 'locked' THEN 'Locked' ELSE 'Unlocked' END, target.id)
+  );
+END;
+$$;
+
+-- Ask for the caller's own staff-locked locker to be opened
+CREATE OR REPLACE FUNCTION public.request_locker_unlock(p_locker_id TEXT, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  request_id UUID;
+BEGIN
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id;
+
+  IF NOT FOUND OR target.student_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only request access to your own locker';
+  END IF;
+
+  IF target.status <> 'locked' THEN
+    RAISE EXCEPTION 'Locker % is already unlocked', target.id;
+  END IF;
+
+  IF nullif(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please give a reason for the request';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.locker_unlock_requests WHERE locker_id = target.id AND status = 'pending') THEN
+    RAISE EXCEPTION 'You already have a pending request for locker %', target.id;
+  END IF;
+
+  INSERT INTO public.locker_unlock_requests (locker_id, student_id, student_name, reason)
+  VALUES (target.id, target.student_id, target.student_name, trim(p_reason))
+  RETURNING id INTO request_id;
+
+  PERFORM write_activity_log('UNLOCK_REQUESTED', format('Requested unlock of locker %s: %s', target.id, left(trim(p_reason), 200)));
+
+  RETURN request_id;
+END;
+$$;
+
+-- Approve (optionally for p_unlock_minutes) or deny a pending request
+CREATE OR REPLACE FUNCTION public.review_locker_unlock_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_message TEXT DEFAULT NULL,
+  p_unlock_minutes INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.locker_unlock_requests%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can review unlock requests';
+  END IF;
+
+  SELECT * INTO request FROM public.locker_unlock_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unlock request not found';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', request.status;
+  END IF;
+
+  IF p_unlock_minutes IS NOT NULL AND p_unlock_minutes NOT BETWEEN 1 AND 480 THEN
+    RAISE EXCEPTION 'Timed unlocks must last between 1 and 480 minutes';
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.locker_unlock_requests
+    SET status = 'denied', response_message = nullif(trim(p_message), ''), reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = request.id;
+
+    PERFORM write_activity_log(
+      'UNLOCK_REQUEST_DENIED',
+      format('Denied %s''s request to unlock locker %s', request.student_name, request.locker_id)
+    );
+    RETURN;
+  END IF;
+
+  UPDATE public.locker_unlock_requests
+  SET
+    status = 'approved',
+    response_message = nullif(trim(p_message), ''),
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    relock_at = CASE WHEN p_unlock_minutes IS NULL THEN NULL ELSE now() + make_interval(mins => p_unlock_minutes) END
+  WHERE id = request.id;
+
+  UPDATE public.lockers
+  SET status = 'unlocked', locked_by = NULL, locked_at = NULL
+  WHERE id = request.locker_id;
+
+  PERFORM write_activity_log(
+    'UNLOCK_REQUEST_APPROVED',
+    format('Approved %s''s request to unlock locker %s%s', request.student_name, request.locker_id,
+      CASE WHEN p_unlock_minutes IS NULL THEN '' ELSE format(' for %s min', p_unlock_minutes) END)
+  );
+END;
+$$;
+
+-- Re-lock lockers whose timed approval has run out (scheduler only)
+CREATE OR REPLACE FUNCTION public.relock_expired_unlocks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.locker_unlock_requests%ROWTYPE;
+  relocked INTEGER := 0;
+BEGIN
+  FOR request IN
+    SELECT * FROM public.locker_unlock_requests
+    WHERE status = 'approved' AND relock_at <= now() AND relocked_at IS NULL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.locker_unlock_requests SET relocked_at = now() WHERE id = request.id;
+
+    -- Left alone if someone already re-locked it or it changed hands
+    UPDATE public.lockers
+    SET status = 'locked', locked_by = request.reviewed_by, locked_at = now()
+    WHERE id = request.locker_id AND status = 'unlocked' AND student_id = request.student_id;
+
+    IF FOUND THEN
+      INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+      VALUES (
+        request.reviewed_by,
+        'Timed unlock',
+        'system',
+        'TIMED_RELOCK',
+        format('Re-locked locker %s after a timed unlock for %s', request.locker_id, request.student_name)
+      );
+      relocked := relocked + 1;
+    END IF;
+  END LOOP;
+
+  RETURN relocked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.relock_expired_unlocks() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'relock-expired-unlocks',
+  '* * * * *',
+  $$SELECT public.relock_expired_unlocks()$$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_unlock_requests;
@@ -0,0 +1,388 @@
+-- Out-of-service lockers: a maintenance ticket takes a locker out of
+-- assignment and bulk operations until it is resolved
+
+ALTER TABLE public.lockers ADD COLUMN out_of_service BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.locker_maintenance_tickets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  locker_id TEXT NOT NULL REFERENCES public.lockers(id) ON DELETE CASCADE,
+  issue TEXT NOT NULL CHECK (length(trim(issue)) BETWEEN 1 AND 1000),
+  reported_by UUID NOT NULL REFERENCES auth.users(id),
+  reported_by_name TEXT NOT NULL,
+  reported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT
+);
+
+CREATE INDEX idx_locker_maintenance_tickets_locker ON public.locker_maintenance_tickets (locker_id, reported_at DESC);
+
+CREATE UNIQUE INDEX locker_maintenance_tickets_one_open
+ON public.locker_maintenance_tickets (locker_id)
+WHERE resolved_at IS NULL;
+
+ALTER TABLE public.locker_maintenance_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view maintenance tickets"
+ON public.locker_maintenance_tickets FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view maintenance tickets"
+ON public.locker_maintenance_tickets FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Open a ticket and take the locker out of service
+CREATE OR REPLACE FUNCTION public.report_locker_issue(p_locker_id TEXT, p_issue TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  ticket_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can take lockers out of service';
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF target.out_of_service THEN
+    RAISE EXCEPTION 'Locker % is already out of service', target.id;
+  END IF;
+
+  IF nullif(trim(p_issue), '') IS NULL THEN
+    RAISE EXCEPTION 'Please describe the issue';
+  END IF;
+
+  INSERT INTO public.locker_maintenance_tickets (locker_id, issue, reported_by, reported_by_name)
+  SELECT target.id, trim(p_issue), p.id, p.name FROM public.profiles p WHERE p.id = auth.uid()
+  RETURNING id INTO ticket_id;
+
+  UPDATE public.lockers SET out_of_service = true WHERE id = target.id;
+
+  PERFORM write_activity_log('LOCKER_OUT_OF_SERVICE', format('Took locker %s out of service: %s', target.id, left(trim(p_issue), 200)));
+
+  RETURN ticket_id;
+END;
+$$;
+
+-- Close the open ticket and return the locker to service
+CREATE OR REPLACE FUNCTION public.resolve_locker_issue(p_locker_id TEXT, p_resolution_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can return lockers to service';
+  END IF;
+
+  UPDATE public.locker_maintenance_tickets
+  SET resolved_at = now(), resolved_by = auth.uid(), resolution_note = nullif(trim(p_resolution_note), '')
+  WHERE locker_id = p_locker_id AND resolved_at IS NULL;
+
+  UPDATE public.lockers SET out_of_service = false WHERE id = p_locker_id AND out_of_service;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % is not out of service', p_locker_id;
+  END IF;
+
+  PERFORM write_activity_log('LOCKER_BACK_IN_SERVICE', format('Returned locker %s to service', p_locker_id));
+END;
+$$;
+
+-- Students cannot operate an out-of-service locker; staff still can, for repairs
+CREATE OR REPLACE FUNCTION public.set_locker_status(p_locker_id TEXT, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.lockers%ROWTYPE;
+  is_staff BOOLEAN := has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role);
+BEGIN
+  IF p_status NOT IN ('locked', 'unlocked') THEN
+    RAISE EXCEPTION 'Invalid locker status %', p_status;
+  END IF;
+
+  SELECT * INTO target FROM public.lockers WHERE id = p_locker_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Locker % not found', p_locker_id;
+  END IF;
+
+  IF NOT (is_staff OR target.student_id = auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have access to locker %', p_locker_id;
+  END IF;
+
+  IF NOT is_staff AND target.out_of_service THEN
+    RAISE EXCEPTION 'Locker % is out of service. Ask a teacher for help.', p_locker_id;
+  END IF;
+
+  IF NOT is_staff AND p_status = 'unlocked' AND target.status = 'locked'
+    AND target.locked_by IS NOT NULL AND target.locked_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Locker % was locked by staff. Request an unlock instead.', p_locker_id;
+  END IF;
+
+  UPDATE public.lockers
+  SET
+    status = p_status,
+    locked_by = CASE WHEN p_status = 'locked' THEN auth.uid() ELSE NULL END,
+    locked_at = CASE WHEN p_status = 'locked' THEN now() ELSE NULL END
+  WHERE id = target.id;
+
+  PERFORM write_activity_log(
+    CASE WHEN p_status = 'locked' THEN 'LOCKER_LOCK' ELSE 'LOCKER_UNLOCK' END,
+    format('%s locker %s', CASE WHEN p_status = 'locked' THEN 'Locked' ELSE 'Unlocked' END, target.id)
+  );
+END;
+$$;
+
+-- Bulk operations skip out-of-service lockers
+CREATE OR REPLACE FUNCTION public.set_all_lockers_status(
+  p_status TEXT,
+  p_bank_ids UUID[] DEFAULT NULL,
+  p_scope_label TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  affected INTEGER;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can change all lockers';
+  END IF;
+
+  IF p_status NOT IN ('locked', 'unlocked') THEN
+    RAISE EXCEPTION 'Invalid locker status %', p_status;
+  END IF;
+
+  UPDATE public.lockers
+  SET
+    status = p_status,
+    locked_by = CASE WHEN p_status = 'locked' THEN auth.uid() ELSE NULL END,
+    locked_at = CASE WHEN p_status = 'locked' THEN now() ELSE NULL END
+  WHERE status <> p_status
+    AND NOT out_of_service
+    AND (p_bank_ids IS NULL OR bank_id = ANY (p_bank_ids));
+
+  GET DIAGNOSTICS affected = ROW_COUNT;
+
+  IF p_bank_ids IS NULL THEN
+    PERFORM write_activity_log(
+      CASE WHEN p_status = 'locked' THEN 'LOCK_ALL' ELSE 'UNLOCK_ALL' END,
+      format('%s all lockers (%s changed)',
+        CASE WHEN p_status = 'locked' THEN 'Emergency: Locked' ELSE 'Unlocked' END, affected)
+    );
+  ELSE
+    PERFORM write_activity_log(
+      CASE WHEN p_status = 'locked' THEN 'LOCK_ZONE' ELSE 'UNLOCK_ZONE' END,
+      format('%s all lockers in %s (%s changed)',
+        CASE WHEN p_status = 'locked' THEN 'Locked' ELSE 'Unlocked' END,
+        coalesce(p_scope_label, 'selected zone'), affected)
+    );
+  END IF;
+
+  RETURN affected;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_locker_schedule(_schedule public.locker_schedules, _status TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_count INTEGER;
+BEGIN
+  UPDATE public.lockers
+  SET
+    status = _status,
+    locked_by = CASE WHEN _status = 'locked' THEN _schedule.created_by ELSE NULL END,
+    locked_at = CASE WHEN _status = 'locked' THEN now() ELSE NULL END
+  WHERE status <> _status
+    AND NOT out_of_service
+    AND (_schedule.location_filter IS NULL OR location ILIKE '%' || _schedule.location_filter || '%');
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (
+    _schedule.created_by,
+    'Schedule: ' || _schedule.name,
+    'system',
+    CASE WHEN _status = 'locked' THEN 'SCHEDULE_LOCK' ELSE 'SCHEDULE_UNLOCK' END,
+    format(
+      '%s %s locker(s)%s (schedule %s)',
+      CASE WHEN _status = 'locked' THEN 'Locked' ELSE 'Unlocked' END,
+      changed_count,
+      COALESCE(' matching "' || _schedule.location_filter || '"', ''),
+      _schedule.id
+    )
+  );
+
+  RETURN changed_count;
+END;
+$$;
+
+-- Out-of-service lockers cannot be given to a student
+CREATE OR REPLACE FUNCTION public.check_locker_in_service()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.out_of_service AND NEW.student_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.student_id IS DISTINCT FROM NEW.student_id) THEN
+    RAISE EXCEPTION 'Locker % is out of service and cannot be assigned', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_locker_in_service
+BEFORE INSERT OR UPDATE OF student_id ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.check_locker_in_service();
+
+-- Kiosks cannot open an out-of-service locker either
+CREATE OR REPLACE FUNCTION public.kiosk_unlock_refusal(_locker public.lockers)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _locker.out_of_service
+      THEN 'This locker is out of service. Ask a teacher for help.'
+    WHEN _locker.locked_by IS NOT NULL AND _locker.locked_by IS DISTINCT FROM _locker.student_id
+      THEN 'This locker has been locked by staff. Ask a teacher to open it.'
+  END
+$$;
+
+-- Unlock requests for an out-of-service locker cannot be approved
+CREATE OR REPLACE FUNCTION public.review_locker_unlock_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_message TEXT DEFAULT NULL,
+  p_unlock_minutes INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.locker_unlock_requests%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can review unlock requests';
+  END IF;
+
+  SELECT * INTO request FROM public.locker_unlock_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unlock request not found';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', request.status;
+  END IF;
+
+  IF p_unlock_minutes IS NOT NULL AND p_unlock_minutes NOT BETWEEN 1 AND 480 THEN
+    RAISE EXCEPTION 'Timed unlocks must last between 1 and 480 minutes';
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.locker_unlock_requests
+    SET status = 'denied', response_message = nullif(trim(p_message), ''), reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = request.id;
+
+    PERFORM write_activity_log(
+      'UNLOCK_REQUEST_DENIED',
+      format('Denied %s''s request to unlock locker %s', request.student_name, request.locker_id)
+    );
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.lockers WHERE id = request.locker_id AND out_of_service) THEN
+    RAISE EXCEPTION 'Locker % is out of service. Resolve its ticket before approving.', request.locker_id;
+  END IF;
+
+  UPDATE public.locker_unlock_requests
+  SET
+    status = 'approved',
+    response_message = nullif(trim(p_message), ''),
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    relock_at = CASE WHEN p_unlock_minutes IS NULL THEN NULL ELSE now() + make_interval(mins => p_unlock_minutes) END
+  WHERE id = request.id;
+
+  UPDATE public.lockers
+  SET status = 'unlocked', locked_by = NULL, locked_at = NULL
+  WHERE id = request.locker_id;
+
+  PERFORM write_activity_log(
+    'UNLOCK_REQUEST_APPROVED',
+    format('Approved %s''s request to unlock locker %s%s', request.student_name, request.locker_id,
+      CASE WHEN p_unlock_minutes IS NULL THEN '' ELSE format(' for %s min', p_unlock_minutes) END)
+  );
+END;
+$$;
+
+-- Timed unlocks do not re-lock an out-of-service locker
+CREATE OR REPLACE FUNCTION public.relock_expired_unlocks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.locker_unlock_requests%ROWTYPE;
+  relocked INTEGER := 0;
+BEGIN
+  FOR request IN
+    SELECT * FROM public.locker_unlock_requests
+    WHERE status = 'approved' AND relock_at <= now() AND relocked_at IS NULL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.locker_unlock_requests SET relocked_at = now() WHERE id = request.id;
+
+    -- Left alone if someone already re-locked it, it changed hands or it is
+    -- out of service
+    UPDATE public.lockers
+    SET status = 'locked', locked_by = request.reviewed_by, locked_at = now()
+    WHERE id = request.locker_id AND status = 'unlocked' AND student_id = request.student_id
+      AND NOT out_of_service;
+
+    IF FOUND THEN
+      INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+      VALUES (
+        request.reviewed_by,
+        'Timed unlock',
+        'system',
+        'TIMED_RELOCK',
+        format('Re-locked locker %s after a timed unlock for %s', request.locker_id, request.student_name)
+      );
+      relocked := relocked + 1;
+    END IF;
+  END LOOP;
+
+  RETURN relocked;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_maintenance_tickets;
@@ -0,0 +1,231 @@
+-- Per-locker event history (every lock, unlock and assignment change with
+-- its actor) and usage analytics built on it
+
+CREATE TABLE public.locker_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- No foreign key: history outlives deleted lockers
+  locker_id TEXT NOT NULL,
+  event TEXT NOT NULL CHECK (event IN (
+    'added', 'deleted', 'locked', 'unlocked', 'assigned', 'unassigned', 'out_of_service', 'back_in_service'
+  )),
+  -- Locker status after the event
+  status TEXT NOT NULL,
+  -- Student the event concerns (assignment changes) or the holder at the time
+  student_name TEXT,
+  -- NULL for scheduler, kiosk and other automated changes
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_name TEXT NOT NULL,
+  actor_role TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_events_locker ON public.locker_events (locker_id, created_at DESC);
+CREATE INDEX idx_locker_events_created ON public.locker_events (created_at);
+
+ALTER TABLE public.locker_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view locker events"
+ON public.locker_events FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view locker events"
+ON public.locker_events FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Seed the timeline with known assignment periods and each locker's current state
+INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role, created_at)
+SELECT a.locker_id, 'assigned', coalesce(l.status, 'locked'), a.student_name, a.assigned_by,
+  coalesce(p.name, 'System'), CASE WHEN a.assigned_by IS NULL THEN 'system' ELSE coalesce(get_user_role(a.assigned_by)::TEXT, 'system') END,
+  a.assigned_at
+FROM public.locker_assignments a
+LEFT JOIN public.lockers l ON l.id = a.locker_id
+LEFT JOIN public.profiles p ON p.id = a.assigned_by;
+
+INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role, created_at)
+SELECT l.id, l.status, l.status, nullif(l.student_name, 'Unassigned'), l.locked_by,
+  coalesce(p.name, 'System'), CASE WHEN l.locked_by IS NULL THEN 'system' ELSE coalesce(get_user_role(l.locked_by)::TEXT, 'system') END,
+  coalesce(l.locked_at, l.updated_at)
+FROM public.lockers l
+LEFT JOIN public.profiles p ON p.id = l.locked_by;
+
+-- Record every change to a locker, whichever path made it
+CREATE OR REPLACE FUNCTION public.record_locker_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor public.profiles%ROWTYPE;
+  actor_name TEXT := 'System';
+  actor_role TEXT := 'system';
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT * INTO actor FROM public.profiles WHERE id = auth.uid();
+    IF FOUND THEN
+      actor_name := actor.name;
+      actor_role := coalesce(get_user_role(actor.id)::TEXT, 'student');
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role)
+    VALUES (OLD.id, 'deleted', OLD.status, nullif(OLD.student_name, 'Unassigned'), actor.id, actor_name, actor_role);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role)
+    VALUES (NEW.id, 'added', NEW.status, NULL, actor.id, actor_name, actor_role);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.student_id IS NOT NULL AND OLD.student_id IS DISTINCT FROM NEW.student_id THEN
+    INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role)
+    VALUES (NEW.id, 'unassigned', NEW.status, OLD.student_name, actor.id, actor_name, actor_role);
+  END IF;
+
+  IF NEW.student_id IS NOT NULL AND (TG_OP = 'INSERT' OR OLD.student_id IS DISTINCT FROM NEW.student_id) THEN
+    INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role)
+    VALUES (NEW.id, 'assigned', NEW.status, NEW.student_name, actor.id, actor_name, actor_role);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role)
+    VALUES (NEW.id, NEW.status, NEW.status, nullif(NEW.student_name, 'Unassigned'), actor.id, actor_name, actor_role);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.out_of_service IS DISTINCT FROM NEW.out_of_service THEN
+    INSERT INTO public.locker_events (locker_id, event, status, student_name, actor_id, actor_name, actor_role)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.out_of_service THEN 'out_of_service' ELSE 'back_in_service' END,
+      NEW.status, nullif(NEW.student_name, 'Unassigned'), actor.id, actor_name, actor_role
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_locker_event_on_insert
+AFTER INSERT ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_locker_event();
+
+CREATE TRIGGER record_locker_event_on_update
+AFTER UPDATE OF status, student_id, out_of_service ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_locker_event();
+
+CREATE TRIGGER record_locker_event_on_delete
+AFTER DELETE ON public.lockers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_locker_event();
+
+-- Usage over the last p_days: hours each locker stood open, lock/unlock
+-- activity by local hour of day, and how contested each locker was
+-- (status changes plus unlock requests)
+CREATE OR REPLACE FUNCTION public.get_locker_analytics(p_days INTEGER DEFAULT 30, p_timezone TEXT DEFAULT 'UTC')
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE;
+  hourly JSONB;
+  per_locker JSONB;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can view locker analytics';
+  END IF;
+
+  IF p_days NOT BETWEEN 1 AND 365 THEN
+    RAISE EXCEPTION 'Analytics window must be between 1 and 365 days';
+  END IF;
+
+  window_start := now() - make_interval(days => p_days);
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('hour', h.hour, 'unlocks', h.unlocks, 'locks', h.locks) ORDER BY h.hour), '[]'::jsonb)
+  INTO hourly
+  FROM (
+    SELECT
+      hours.hour,
+      count(e.id) FILTER (WHERE e.event = 'unlocked') AS unlocks,
+      count(e.id) FILTER (WHERE e.event = 'locked') AS locks
+    FROM generate_series(0, 23) AS hours(hour)
+    LEFT JOIN public.locker_events e
+      ON e.created_at >= window_start
+      AND e.event IN ('locked', 'unlocked')
+      AND extract(hour FROM e.created_at AT TIME ZONE p_timezone)::INTEGER = hours.hour
+    GROUP BY hours.hour
+  ) h;
+
+  WITH status_events AS (
+    SELECT locker_id, status, created_at
+    FROM public.locker_events
+    WHERE event IN ('added', 'locked', 'unlocked') AND created_at >= window_start
+  ),
+  -- State each locker was in when the window opened
+  opening_state AS (
+    SELECT l.id AS locker_id,
+      coalesce(
+        (SELECT e.status FROM public.locker_events e
+         WHERE e.locker_id = l.id AND e.event IN ('added', 'locked', 'unlocked') AND e.created_at < window_start
+         ORDER BY e.created_at DESC LIMIT 1),
+        CASE WHEN EXISTS (SELECT 1 FROM status_events s WHERE s.locker_id = l.id) THEN NULL ELSE l.status END
+      ) AS status,
+      window_start AS created_at
+    FROM public.lockers l
+  ),
+  timeline AS (
+    SELECT * FROM opening_state WHERE status IS NOT NULL
+    UNION ALL
+    SELECT * FROM status_events
+  ),
+  intervals AS (
+    SELECT locker_id, status, created_at AS started,
+      coalesce(lead(created_at) OVER (PARTITION BY locker_id ORDER BY created_at), now()) AS ended
+    FROM timeline
+  ),
+  open_time AS (
+    SELECT locker_id, sum(extract(epoch FROM ended - started)) / 3600.0 AS open_hours
+    FROM intervals
+    WHERE status = 'unlocked'
+    GROUP BY locker_id
+  ),
+  changes AS (
+    SELECT locker_id, count(*) AS status_changes
+    FROM public.locker_events
+    WHERE event IN ('locked', 'unlocked') AND created_at >= window_start
+    GROUP BY locker_id
+  ),
+  requests AS (
+    SELECT locker_id, count(*) AS unlock_requests
+    FROM public.locker_unlock_requests
+    WHERE created_at >= window_start
+    GROUP BY locker_id
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'locker_id', l.id,
+    'bank_id', l.bank_id,
+    'open_hours', round(coalesce(o.open_hours, 0)::NUMERIC, 2),
+    'status_changes', coalesce(c.status_changes, 0),
+    'unlock_requests', coalesce(r.unlock_requests, 0)
+  ) ORDER BY l.id), '[]'::jsonb)
+  INTO per_locker
+  FROM public.lockers l
+  LEFT JOIN open_time o ON o.locker_id = l.id
+  LEFT JOIN changes c ON c.locker_id = l.id
+  LEFT JOIN requests r ON r.locker_id = l.id;
+
+  RETURN jsonb_build_object(
+    'since', window_start,
+    'hourly', hourly,
+    'lockers', per_locker
+  );
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_events;
@@ -0,0 +1,290 @@
+-- Two-person authorization for safety-critical actions: locking or unlocking
+-- all lockers (or a whole zone) and switching exam mode. One teacher/admin
+-- proposes, a different one must approve before the proposal expires.
+
+CREATE TABLE public.dual_control_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  action TEXT NOT NULL CHECK (action IN ('lock_all', 'unlock_all', 'exam_mode_on', 'exam_mode_off')),
+  -- Zone the lock/unlock is limited to; NULL means every locker
+  scope_bank_ids UUID[],
+  scope_label TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'expired')),
+  proposed_by UUID NOT NULL REFERENCES auth.users(id),
+  proposed_by_name TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Second user who approved, rejected or cancelled the proposal
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_dual_control_requests_pending ON public.dual_control_requests (expires_at)
+WHERE status = 'pending';
+
+ALTER TABLE public.dual_control_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view dual control requests"
+ON public.dual_control_requests FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view dual control requests"
+ON public.dual_control_requests FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_dual_control_requests_updated_at
+BEFORE UPDATE ON public.dual_control_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How long a proposal waits for its second approver
+INSERT INTO public.system_settings (key, value)
+VALUES ('dual_control', '{"window_minutes": 10}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Exam mode can no longer be switched with a direct settings update, and
+-- only admins can change the approval window
+DROP POLICY IF EXISTS "Teachers modify settings" ON public.system_settings;
+DROP POLICY IF EXISTS "Admins modify settings" ON public.system_settings;
+
+CREATE POLICY "Teachers modify settings"
+ON public.system_settings FOR UPDATE
+USING (has_role(auth.uid(), 'teacher'::app_role) AND key NOT IN ('exam_mode', 'dual_control'))
+WITH CHECK (has_role(auth.uid(), 'teacher'::app_role) AND key NOT IN ('exam_mode', 'dual_control'));
+
+CREATE POLICY "Admins modify settings"
+ON public.system_settings FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role) AND key <> 'exam_mode')
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role) AND key <> 'exam_mode');
+
+-- Bulk lock/unlock is now only reachable through an approved proposal
+REVOKE EXECUTE ON FUNCTION public.set_all_lockers_status(TEXT, UUID[], TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.describe_dual_control_action(_request public.dual_control_requests)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _request.action
+    WHEN 'lock_all' THEN 'lock all lockers' || coalesce(' in ' || _request.scope_label, '')
+    WHEN 'unlock_all' THEN 'unlock all lockers' || coalesce(' in ' || _request.scope_label, '')
+    WHEN 'exam_mode_on' THEN 'enable exam mode'
+    WHEN 'exam_mode_off' THEN 'disable exam mode'
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.describe_dual_control_action(public.dual_control_requests) FROM PUBLIC, anon, authenticated;
+
+-- First step: record the proposal and wait for a second approver
+CREATE OR REPLACE FUNCTION public.propose_dual_control_action(
+  p_action TEXT,
+  p_bank_ids UUID[] DEFAULT NULL,
+  p_scope_label TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proposal public.dual_control_requests%ROWTYPE;
+  window_minutes INTEGER;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can propose this action';
+  END IF;
+
+  IF p_action NOT IN ('lock_all', 'unlock_all', 'exam_mode_on', 'exam_mode_off') THEN
+    RAISE EXCEPTION 'Invalid action %', p_action;
+  END IF;
+
+  IF p_action IN ('exam_mode_on', 'exam_mode_off') AND p_bank_ids IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam mode cannot be limited to a zone';
+  END IF;
+
+  IF p_action IN ('exam_mode_on', 'exam_mode_off') AND EXISTS (
+    SELECT 1 FROM public.system_settings
+    WHERE key = 'exam_mode' AND coalesce((value->>'enabled')::BOOLEAN, false) = (p_action = 'exam_mode_on')
+  ) THEN
+    RAISE EXCEPTION 'Exam mode is already %', CASE WHEN p_action = 'exam_mode_on' THEN 'on' ELSE 'off' END;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.dual_control_requests
+    WHERE action = p_action
+      AND status = 'pending'
+      AND expires_at > now()
+      AND scope_bank_ids IS NOT DISTINCT FROM p_bank_ids
+  ) THEN
+    RAISE EXCEPTION 'This action is already waiting for approval';
+  END IF;
+
+  SELECT coalesce((value->>'window_minutes')::INTEGER, 10) INTO window_minutes
+  FROM public.system_settings WHERE key = 'dual_control';
+
+  INSERT INTO public.dual_control_requests (action, scope_bank_ids, scope_label, proposed_by, proposed_by_name, expires_at)
+  SELECT p_action, p_bank_ids, CASE WHEN p_bank_ids IS NULL THEN NULL ELSE p_scope_label END,
+    p.id, p.name, now() + make_interval(mins => coalesce(window_minutes, 10))
+  FROM public.profiles p WHERE p.id = auth.uid()
+  RETURNING * INTO proposal;
+
+  PERFORM write_activity_log(
+    'DUAL_CONTROL_PROPOSED',
+    format('Proposed to %s (needs a second approval within %s min)',
+      describe_dual_control_action(proposal), coalesce(window_minutes, 10))
+  );
+
+  RETURN proposal.id;
+END;
+$$;
+
+-- Second step: a different teacher/admin approves and the action runs
+CREATE OR REPLACE FUNCTION public.approve_dual_control_action(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proposal public.dual_control_requests%ROWTYPE;
+  approver public.profiles%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can approve this action';
+  END IF;
+
+  SELECT * INTO proposal FROM public.dual_control_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', proposal.status;
+  END IF;
+
+  IF proposal.expires_at <= now() THEN
+    RAISE EXCEPTION 'This request has expired. Propose it again.';
+  END IF;
+
+  IF proposal.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'A second teacher or admin must approve your proposal';
+  END IF;
+
+  SELECT * INTO approver FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.dual_control_requests
+  SET status = 'approved', resolved_by = approver.id, resolved_by_name = approver.name, resolved_at = now()
+  WHERE id = proposal.id;
+
+  PERFORM write_activity_log(
+    'DUAL_CONTROL_APPROVED',
+    format('Approved %s''s proposal to %s', proposal.proposed_by_name, describe_dual_control_action(proposal))
+  );
+
+  IF proposal.action IN ('lock_all', 'unlock_all') THEN
+    PERFORM set_all_lockers_status(
+      CASE WHEN proposal.action = 'lock_all' THEN 'locked' ELSE 'unlocked' END,
+      proposal.scope_bank_ids,
+      proposal.scope_label
+    );
+  ELSE
+    UPDATE public.system_settings
+    SET value = jsonb_build_object('enabled', proposal.action = 'exam_mode_on'), updated_by = approver.id, updated_at = now()
+    WHERE key = 'exam_mode'
+      AND coalesce((value->>'enabled')::BOOLEAN, false) <> (proposal.action = 'exam_mode_on');
+  END IF;
+END;
+$$;
+
+-- The proposer withdraws their own proposal, or another teacher/admin rejects it
+CREATE OR REPLACE FUNCTION public.reject_dual_control_action(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proposal public.dual_control_requests%ROWTYPE;
+  reviewer public.profiles%ROWTYPE;
+  own_proposal BOOLEAN;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can reject this action';
+  END IF;
+
+  SELECT * INTO proposal FROM public.dual_control_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', proposal.status;
+  END IF;
+
+  SELECT * INTO reviewer FROM public.profiles WHERE id = auth.uid();
+  own_proposal := proposal.proposed_by = auth.uid();
+
+  UPDATE public.dual_control_requests
+  SET
+    status = CASE WHEN own_proposal THEN 'cancelled' ELSE 'rejected' END,
+    resolved_by = reviewer.id,
+    resolved_by_name = reviewer.name,
+    resolved_at = now()
+  WHERE id = proposal.id;
+
+  IF own_proposal THEN
+    PERFORM write_activity_log('DUAL_CONTROL_CANCELLED', format('Withdrew proposal to %s', describe_dual_control_action(proposal)));
+  ELSE
+    PERFORM write_activity_log(
+      'DUAL_CONTROL_REJECTED',
+      format('Rejected %s''s proposal to %s', proposal.proposed_by_name, describe_dual_control_action(proposal))
+    );
+  END IF;
+END;
+$$;
+
+-- Proposals nobody approved in time
+CREATE OR REPLACE FUNCTION public.expire_dual_control_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proposal public.dual_control_requests%ROWTYPE;
+  expired INTEGER := 0;
+BEGIN
+  FOR proposal IN
+    UPDATE public.dual_control_requests
+    SET status = 'expired', resolved_at = now()
+    WHERE status = 'pending' AND expires_at <= now()
+    RETURNING *
+  LOOP
+    INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+    VALUES (
+      proposal.proposed_by,
+      'Two-person authorization',
+      'system',
+      'DUAL_CONTROL_EXPIRED',
+      format('%s''s proposal to %s expired without a second approval',
+        proposal.proposed_by_name, describe_dual_control_action(proposal))
+    );
+    expired := expired + 1;
+  END LOOP;
+
+  RETURN expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_dual_control_requests() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-dual-control-requests',
+  '* * * * *',
+  $$SELECT public.expire_dual_control_requests()$$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.dual_control_requests;
@@ -0,0 +1,265 @@
+-- Tamper and alarm events reported by locker controllers (forced open, door
+-- left ajar, low battery) and the incidents staff work through for them
+
+CREATE TABLE public.locker_device_events (
+  -- Generated by the controller, so a re-sent event is stored once
+  id UUID NOT NULL PRIMARY KEY,
+  controller_id TEXT NOT NULL REFERENCES public.locker_controllers(id) ON DELETE CASCADE,
+  controller_slot INTEGER NOT NULL,
+  -- NULL when no locker is mapped to the slot
+  locker_id TEXT REFERENCES public.lockers(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('forced_open', 'door_ajar', 'low_battery')),
+  detail TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_device_events_locker ON public.locker_device_events (locker_id, occurred_at DESC);
+
+ALTER TABLE public.locker_device_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are only written by the bridge function (service role)
+CREATE POLICY "Teachers view device events"
+ON public.locker_device_events FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view device events"
+ON public.locker_device_events FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Repeated events of one kind on one locker roll up into a single incident
+-- until staff close it
+CREATE TABLE public.locker_incidents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  locker_id TEXT NOT NULL REFERENCES public.lockers(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('forced_open', 'door_ajar', 'low_battery')),
+  severity TEXT NOT NULL CHECK (severity IN ('critical', 'warning', 'info')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'closed')),
+  event_count INTEGER NOT NULL DEFAULT 1,
+  last_detail TEXT,
+  first_event_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_event_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  acknowledged_by UUID REFERENCES auth.users(id),
+  acknowledged_by_name TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id),
+  closed_by_name TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_incidents_locker ON public.locker_incidents (locker_id, created_at DESC);
+
+CREATE UNIQUE INDEX locker_incidents_one_active
+ON public.locker_incidents (locker_id, event_type)
+WHERE status <> 'closed';
+
+ALTER TABLE public.locker_incidents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view incidents"
+ON public.locker_incidents FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view incidents"
+ON public.locker_incidents FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_locker_incidents_updated_at
+BEFORE UPDATE ON public.locker_incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Staff notes, kept against the locker as well as the incident
+CREATE TABLE public.locker_incident_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.locker_incidents(id) ON DELETE CASCADE,
+  locker_id TEXT NOT NULL REFERENCES public.lockers(id) ON DELETE CASCADE,
+  note TEXT NOT NULL CHECK (length(trim(note)) BETWEEN 1 AND 1000),
+  author_id UUID NOT NULL REFERENCES auth.users(id),
+  author_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_locker_incident_notes_incident ON public.locker_incident_notes (incident_id, created_at);
+CREATE INDEX idx_locker_incident_notes_locker ON public.locker_incident_notes (locker_id, created_at DESC);
+
+ALTER TABLE public.locker_incident_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view incident notes"
+ON public.locker_incident_notes FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view incident notes"
+ON public.locker_incident_notes FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Open an incident for a new event, or add it to the active one
+CREATE OR REPLACE FUNCTION public.raise_locker_incident()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  active_id UUID;
+BEGIN
+  IF NEW.locker_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.locker_incidents
+  SET
+    event_count = event_count + 1,
+    last_detail = coalesce(NEW.detail, last_detail),
+    last_event_at = greatest(last_event_at, NEW.occurred_at)
+  WHERE locker_id = NEW.locker_id AND event_type = NEW.event_type AND status <> 'closed'
+  RETURNING id INTO active_id;
+
+  IF active_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.locker_incidents (locker_id, event_type, severity, last_detail, first_event_at, last_event_at)
+  VALUES (
+    NEW.locker_id,
+    NEW.event_type,
+    CASE NEW.event_type WHEN 'forced_open' THEN 'critical' WHEN 'door_ajar' THEN 'warning' ELSE 'info' END,
+    NEW.detail,
+    NEW.occurred_at,
+    NEW.occurred_at
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER raise_locker_incident
+AFTER INSERT ON public.locker_device_events
+FOR EACH ROW
+EXECUTE FUNCTION public.raise_locker_incident();
+
+CREATE OR REPLACE FUNCTION public.add_locker_incident_note(p_incident_id UUID, p_note TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  incident public.locker_incidents%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can add incident notes';
+  END IF;
+
+  IF nullif(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Note cannot be empty';
+  END IF;
+
+  SELECT * INTO incident FROM public.locker_incidents WHERE id = p_incident_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found';
+  END IF;
+
+  INSERT INTO public.locker_incident_notes (incident_id, locker_id, note, author_id, author_name)
+  SELECT incident.id, incident.locker_id, trim(p_note), p.id, p.name
+  FROM public.profiles p WHERE p.id = auth.uid();
+END;
+$$;
+
+-- Someone is looking into it; stops the alarm for everyone else
+CREATE OR REPLACE FUNCTION public.acknowledge_locker_incident(p_incident_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  incident public.locker_incidents%ROWTYPE;
+  reviewer public.profiles%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can acknowledge incidents';
+  END IF;
+
+  SELECT * INTO incident FROM public.locker_incidents WHERE id = p_incident_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found';
+  END IF;
+
+  IF incident.status <> 'open' THEN
+    RAISE EXCEPTION 'This incident has already been %', incident.status;
+  END IF;
+
+  SELECT * INTO reviewer FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.locker_incidents
+  SET status = 'acknowledged', acknowledged_by = reviewer.id, acknowledged_by_name = reviewer.name, acknowledged_at = now()
+  WHERE id = incident.id;
+
+  IF nullif(trim(p_note), '') IS NOT NULL THEN
+    PERFORM add_locker_incident_note(incident.id, p_note);
+  END IF;
+
+  PERFORM write_activity_log(
+    'LOCKER_INCIDENT_ACKNOWLEDGED',
+    format('Acknowledged %s alarm on locker %s', replace(incident.event_type, '_', ' '), incident.locker_id)
+  );
+END;
+$$;
+
+-- Close an open or acknowledged incident; a note on what was found is required
+CREATE OR REPLACE FUNCTION public.close_locker_incident(p_incident_id UUID, p_note TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  incident public.locker_incidents%ROWTYPE;
+  reviewer public.profiles%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can close incidents';
+  END IF;
+
+  IF nullif(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Describe what was found before closing the incident';
+  END IF;
+
+  SELECT * INTO incident FROM public.locker_incidents WHERE id = p_incident_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found';
+  END IF;
+
+  IF incident.status = 'closed' THEN
+    RAISE EXCEPTION 'This incident is already closed';
+  END IF;
+
+  SELECT * INTO reviewer FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.locker_incidents
+  SET
+    status = 'closed',
+    acknowledged_by = coalesce(acknowledged_by, reviewer.id),
+    acknowledged_by_name = coalesce(acknowledged_by_name, reviewer.name),
+    acknowledged_at = coalesce(acknowledged_at, now()),
+    closed_by = reviewer.id,
+    closed_by_name = reviewer.name,
+    closed_at = now()
+  WHERE id = incident.id;
+
+  PERFORM add_locker_incident_note(incident.id, p_note);
+
+  PERFORM write_activity_log(
+    'LOCKER_INCIDENT_CLOSED',
+    format('Closed %s incident on locker %s: %s', replace(incident.event_type, '_', ' '), incident.locker_id, left(trim(p_note), 200))
+  );
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_incidents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locker_incident_notes;
@@ -0,0 +1,74 @@
+-- Year-end rollover: release every locker assignment (kept in the history as
+-- 'rollover') and allocate lockers to the coming year's students in one go
+
+ALTER TABLE public.locker_assignments DROP CONSTRAINT locker_assignments_end_reason_check;
+ALTER TABLE public.locker_assignments
+  ADD CONSTRAINT locker_assignments_end_reason_check
+  CHECK (end_reason IN ('unassigned', 'reassigned', 'transferred', 'locker_deleted', 'rollover'));
+
+-- Allocations: [{ locker_id, student_id }], planned and previewed by the
+-- rollover wizard. Runs in one transaction, so a bad allocation rolls back
+-- the release as well.
+CREATE OR REPLACE FUNCTION public.rollover_lockers(p_allocations JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  allocation JSONB;
+  target public.lockers%ROWTYPE;
+  student public.profiles%ROWTYPE;
+  released INTEGER;
+  assigned INTEGER := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can run the locker rollover';
+  END IF;
+
+  PERFORM set_config('app.assignment_reason', 'rollover', true);
+
+  UPDATE public.lockers
+  SET student_id = NULL, student_name = 'Unassigned'
+  WHERE student_id IS NOT NULL;
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+
+  PERFORM set_config('app.assignment_reason', '', true);
+
+  FOR allocation IN SELECT * FROM jsonb_array_elements(coalesce(p_allocations, '[]'::jsonb))
+  LOOP
+    SELECT * INTO target FROM public.lockers WHERE id = allocation->>'locker_id' FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Locker % not found', allocation->>'locker_id';
+    END IF;
+
+    IF target.student_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Locker % is allocated twice', target.id;
+    END IF;
+
+    SELECT * INTO student FROM public.profiles WHERE id = (allocation->>'student_id')::UUID;
+
+    IF NOT FOUND OR NOT has_role(student.id, 'student'::app_role) THEN
+      RAISE EXCEPTION 'Student not found for locker %', target.id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.lockers l WHERE l.student_id = student.id) THEN
+      RAISE EXCEPTION '% is allocated more than one locker', student.name
+        USING ERRCODE = 'unique_violation';
+    END IF;
+
+    -- check_locker_in_service rejects out-of-service lockers
+    UPDATE public.lockers SET student_id = student.id, student_name = student.name WHERE id = target.id;
+    assigned := assigned + 1;
+  END LOOP;
+
+  PERFORM write_activity_log(
+    'LOCKER_ROLLOVER',
+    format('Year-end rollover: released %s assignments and allocated %s lockers', released, assigned)
+  );
+
+  RETURN jsonb_build_object('released', released, 'assigned', assigned);
+END;
+$$;
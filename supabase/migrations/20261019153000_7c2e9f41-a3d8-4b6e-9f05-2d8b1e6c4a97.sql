@@ -0,0 +1,357 @@
+-- Exam sessions scoped to classes and/or rooms, so one class's test no longer
+-- restricts every student in the school. Several sessions can run at once;
+-- the school-wide exam_mode switch stays for whole-school exams.
+
+-- Home room a class is taught in; room-scoped sessions cover its students
+ALTER TABLE public.classes ADD COLUMN room TEXT;
+
+CREATE TABLE public.exam_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL CHECK (length(trim(title)) BETWEEN 1 AND 200),
+  class_ids UUID[] NOT NULL DEFAULT '{}',
+  rooms TEXT[] NOT NULL DEFAULT '{}',
+  started_by UUID NOT NULL REFERENCES auth.users(id),
+  started_by_name TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- NULL while the session is running
+  ended_at TIMESTAMP WITH TIME ZONE,
+  ended_by UUID REFERENCES auth.users(id),
+  ended_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (cardinality(class_ids) > 0 OR cardinality(rooms) > 0)
+);
+
+CREATE INDEX idx_exam_sessions_active ON public.exam_sessions (started_at)
+WHERE ended_at IS NULL;
+
+ALTER TABLE public.exam_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_exam_sessions_updated_at
+BEFORE UPDATE ON public.exam_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether a session scope covers a student, through their class enrolments
+-- and those classes' rooms. The students' SELECT policy calls it, so it stays
+-- callable but only answers for the caller unless they are staff.
+CREATE OR REPLACE FUNCTION public.exam_session_covers(_class_ids UUID[], _rooms TEXT[], _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.student_classes sc
+    JOIN public.classes c ON c.id = sc.class_id
+    WHERE sc.student_id = _user_id
+      AND (c.id = ANY(_class_ids) OR c.room = ANY(_rooms))
+      AND (
+        _user_id = auth.uid()
+        OR has_role(auth.uid(), 'teacher'::app_role)
+        OR has_role(auth.uid(), 'admin'::app_role)
+      )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_session_covers(UUID[], TEXT[], UUID) FROM PUBLIC, anon;
+
+-- Whether exam restrictions currently apply to a user: the school-wide switch
+-- or a running session covering them
+CREATE OR REPLACE FUNCTION public.is_in_exam(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.system_settings
+    WHERE key = 'exam_mode' AND coalesce((value->>'enabled')::BOOLEAN, false)
+  ) OR EXISTS (
+    SELECT 1 FROM public.exam_sessions s
+    WHERE s.ended_at IS NULL AND exam_session_covers(s.class_ids, s.rooms, _user_id)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_in_exam(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE POLICY "Teachers view exam sessions"
+ON public.exam_sessions FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view exam sessions"
+ON public.exam_sessions FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Ended sessions stay visible so students receive the realtime update ending them
+CREATE POLICY "Students view their exam sessions"
+ON public.exam_sessions FOR SELECT
+USING (exam_session_covers(class_ids, rooms, auth.uid()));
+
+-- Starting a session goes through two-person authorization like the
+-- school-wide switch. Nothing records which classes a teacher teaches, so any
+-- scope could reach beyond their own.
+ALTER TABLE public.dual_control_requests
+  DROP CONSTRAINT dual_control_requests_action_check,
+  ADD CONSTRAINT dual_control_requests_action_check
+    CHECK (action IN ('lock_all', 'unlock_all', 'exam_mode_on', 'exam_mode_off', 'exam_session_start')),
+  -- Session an exam_session_start proposal starts; scope_label names its classes and rooms
+  ADD COLUMN exam_title TEXT,
+  ADD COLUMN exam_class_ids UUID[],
+  ADD COLUMN exam_rooms TEXT[];
+
+CREATE OR REPLACE FUNCTION public.describe_dual_control_action(_request public.dual_control_requests)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _request.action
+    WHEN 'lock_all' THEN 'lock all lockers' || coalesce(' in ' || _request.scope_label, '')
+    WHEN 'unlock_all' THEN 'unlock all lockers' || coalesce(' in ' || _request.scope_label, '')
+    WHEN 'exam_mode_on' THEN 'enable exam mode'
+    WHEN 'exam_mode_off' THEN 'disable exam mode'
+    WHEN 'exam_session_start' THEN format('start exam session "%s" for %s', _request.exam_title, _request.scope_label)
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.describe_dual_control_action(public.dual_control_requests) FROM PUBLIC, anon, authenticated;
+
+-- Approved exam_session_start proposals only; the proposer is the starter
+CREATE OR REPLACE FUNCTION public.start_exam_session(_proposal public.dual_control_requests)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  exam_session public.exam_sessions%ROWTYPE;
+BEGIN
+  INSERT INTO public.exam_sessions (title, class_ids, rooms, started_by, started_by_name)
+  VALUES (_proposal.exam_title, _proposal.exam_class_ids, _proposal.exam_rooms, _proposal.proposed_by, _proposal.proposed_by_name)
+  RETURNING * INTO exam_session;
+
+  PERFORM write_activity_log(
+    'EXAM_SESSION_STARTED',
+    format('Started exam session "%s" for %s, proposed by %s', exam_session.title, _proposal.scope_label, _proposal.proposed_by_name)
+  );
+
+  RETURN exam_session.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_exam_session(public.dual_control_requests) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.propose_dual_control_action(TEXT, UUID[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.propose_dual_control_action(
+  p_action TEXT,
+  p_bank_ids UUID[] DEFAULT NULL,
+  p_scope_label TEXT DEFAULT NULL,
+  p_exam_title TEXT DEFAULT NULL,
+  p_class_ids UUID[] DEFAULT NULL,
+  p_rooms TEXT[] DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proposal public.dual_control_requests%ROWTYPE;
+  window_minutes INTEGER;
+  session_title TEXT;
+  session_class_ids UUID[];
+  session_rooms TEXT[];
+  proposal_label TEXT := CASE WHEN p_bank_ids IS NULL THEN NULL ELSE p_scope_label END;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can propose this action';
+  END IF;
+
+  IF p_action NOT IN ('lock_all', 'unlock_all', 'exam_mode_on', 'exam_mode_off', 'exam_session_start') THEN
+    RAISE EXCEPTION 'Invalid action %', p_action;
+  END IF;
+
+  IF p_action IN ('exam_mode_on', 'exam_mode_off', 'exam_session_start') AND p_bank_ids IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam mode cannot be limited to a zone';
+  END IF;
+
+  IF p_action IN ('exam_mode_on', 'exam_mode_off') AND EXISTS (
+    SELECT 1 FROM public.system_settings
+    WHERE key = 'exam_mode' AND coalesce((value->>'enabled')::BOOLEAN, false) = (p_action = 'exam_mode_on')
+  ) THEN
+    RAISE EXCEPTION 'Exam mode is already %', CASE WHEN p_action = 'exam_mode_on' THEN 'on' ELSE 'off' END;
+  END IF;
+
+  IF p_action = 'exam_session_start' THEN
+    session_title := nullif(trim(p_exam_title), '');
+
+    IF session_title IS NULL THEN
+      RAISE EXCEPTION 'Give the exam session a title';
+    END IF;
+
+    SELECT coalesce(array_agg(DISTINCT cid), '{}') INTO session_class_ids
+    FROM unnest(coalesce(p_class_ids, '{}')) AS cid;
+
+    SELECT coalesce(array_agg(DISTINCT trim(r)), '{}') INTO session_rooms
+    FROM unnest(coalesce(p_rooms, '{}')) AS r
+    WHERE nullif(trim(r), '') IS NOT NULL;
+
+    IF cardinality(session_class_ids) = 0 AND cardinality(session_rooms) = 0 THEN
+      RAISE EXCEPTION 'Choose at least one class or room';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM unnest(session_class_ids) AS cid
+      WHERE NOT EXISTS (SELECT 1 FROM public.classes c WHERE c.id = cid)
+    ) THEN
+      RAISE EXCEPTION 'Class not found';
+    END IF;
+
+    -- Named from the database so approvers see what the session really covers
+    proposal_label := concat_ws(', ',
+      (SELECT string_agg(c.name, ', ' ORDER BY c.name) FROM public.classes c WHERE c.id = ANY(session_class_ids)),
+      (SELECT string_agg('room ' || r, ', ' ORDER BY r) FROM unnest(session_rooms) AS r)
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.dual_control_requests r
+    WHERE r.action = p_action
+      AND r.status = 'pending'
+      AND r.expires_at > now()
+      AND r.scope_bank_ids IS NOT DISTINCT FROM p_bank_ids
+      AND r.exam_class_ids IS NOT DISTINCT FROM session_class_ids
+      AND r.exam_rooms IS NOT DISTINCT FROM session_rooms
+  ) THEN
+    RAISE EXCEPTION 'This action is already waiting for approval';
+  END IF;
+
+  SELECT coalesce((value->>'window_minutes')::INTEGER, 10) INTO window_minutes
+  FROM public.system_settings WHERE key = 'dual_control';
+
+  INSERT INTO public.dual_control_requests (
+    action, scope_bank_ids, scope_label, exam_title, exam_class_ids, exam_rooms,
+    proposed_by, proposed_by_name, expires_at
+  )
+  SELECT p_action, p_bank_ids, proposal_label, session_title, session_class_ids, session_rooms,
+    p.id, p.name, now() + make_interval(mins => coalesce(window_minutes, 10))
+  FROM public.profiles p WHERE p.id = auth.uid()
+  RETURNING * INTO proposal;
+
+  PERFORM write_activity_log(
+    'DUAL_CONTROL_PROPOSED',
+    format('Proposed to %s (needs a second approval within %s min)',
+      describe_dual_control_action(proposal), coalesce(window_minutes, 10))
+  );
+
+  RETURN proposal.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_dual_control_action(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proposal public.dual_control_requests%ROWTYPE;
+  approver public.profiles%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can approve this action';
+  END IF;
+
+  SELECT * INTO proposal FROM public.dual_control_requests WHERE id = p_request_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF proposal.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', proposal.status;
+  END IF;
+
+  IF proposal.expires_at <= now() THEN
+    RAISE EXCEPTION 'This request has expired. Propose it again.';
+  END IF;
+
+  IF proposal.proposed_by = auth.uid() THEN
+    RAISE EXCEPTION 'A second teacher or admin must approve your proposal';
+  END IF;
+
+  SELECT * INTO approver FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.dual_control_requests
+  SET status = 'approved', resolved_by = approver.id, resolved_by_name = approver.name, resolved_at = now()
+  WHERE id = proposal.id;
+
+  PERFORM write_activity_log(
+    'DUAL_CONTROL_APPROVED',
+    format('Approved %s''s proposal to %s', proposal.proposed_by_name, describe_dual_control_action(proposal))
+  );
+
+  IF proposal.action IN ('lock_all', 'unlock_all') THEN
+    PERFORM set_all_lockers_status(
+      CASE WHEN proposal.action = 'lock_all' THEN 'locked' ELSE 'unlocked' END,
+      proposal.scope_bank_ids,
+      proposal.scope_label
+    );
+  ELSIF proposal.action = 'exam_session_start' THEN
+    PERFORM start_exam_session(proposal);
+  ELSE
+    UPDATE public.system_settings
+    SET value = jsonb_build_object('enabled', proposal.action = 'exam_mode_on'), updated_by = approver.id, updated_at = now()
+    WHERE key = 'exam_mode'
+      AND coalesce((value->>'enabled')::BOOLEAN, false) <> (proposal.action = 'exam_mode_on');
+  END IF;
+END;
+$$;
+
+-- Only the session's starter or an admin can end it
+CREATE OR REPLACE FUNCTION public.end_exam_session(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  exam_session public.exam_sessions%ROWTYPE;
+  reviewer public.profiles%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can end exam sessions';
+  END IF;
+
+  SELECT * INTO exam_session FROM public.exam_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam session not found';
+  END IF;
+
+  IF exam_session.started_by <> auth.uid() AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only whoever started this exam session or an admin can end it';
+  END IF;
+
+  IF exam_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This exam session has already ended';
+  END IF;
+
+  SELECT * INTO reviewer FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.exam_sessions
+  SET ended_at = now(), ended_by = reviewer.id, ended_by_name = reviewer.name
+  WHERE id = exam_session.id;
+
+  PERFORM write_activity_log(
+    'EXAM_SESSION_ENDED',
+    format('Ended exam session "%s"', exam_session.title)
+  );
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.exam_sessions;
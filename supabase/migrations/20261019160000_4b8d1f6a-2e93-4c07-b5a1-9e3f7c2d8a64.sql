@@ -0,0 +1,215 @@
+-- Exam sessions started and ended by the scheduler from published exams'
+-- scheduled_start/scheduled_end, optionally locking the enrolled students'
+-- lockers for the duration
+
+ALTER TABLE public.exams
+  ADD COLUMN auto_exam_mode BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN lock_lockers BOOLEAN NOT NULL DEFAULT false;
+
+-- exam_id and ends_at are set for sessions the scheduler started
+ALTER TABLE public.exam_sessions
+  ADD COLUMN exam_id UUID REFERENCES public.exams(id) ON DELETE SET NULL,
+  ADD COLUMN ends_at TIMESTAMP WITH TIME ZONE,
+  -- Lockers the session locked and holds until it ends
+  ADD COLUMN locked_locker_ids TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE UNIQUE INDEX exam_sessions_one_running_per_exam
+ON public.exam_sessions (exam_id)
+WHERE exam_id IS NOT NULL AND ended_at IS NULL;
+
+-- Hand locked-down lockers back to their students. They stay locked, but the
+-- student can open them again.
+CREATE OR REPLACE FUNCTION public.release_exam_lockdown(_session public.exam_sessions)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released INTEGER;
+BEGIN
+  UPDATE public.lockers
+  SET locked_by = student_id
+  WHERE id = ANY(_session.locked_locker_ids)
+    AND status = 'locked'
+    AND locked_by = _session.started_by;
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+-- Ending a scheduled session by hand is the override of the exam's author
+-- (its starter) or an admin: the scheduler will not start it again within the
+-- same exam window
+CREATE OR REPLACE FUNCTION public.end_exam_session(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  exam_session public.exam_sessions%ROWTYPE;
+  reviewer public.profiles%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can end exam sessions';
+  END IF;
+
+  SELECT * INTO exam_session FROM public.exam_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam session not found';
+  END IF;
+
+  IF exam_session.started_by <> auth.uid() AND NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only whoever started this exam session or an admin can end it';
+  END IF;
+
+  IF exam_session.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This exam session has already ended';
+  END IF;
+
+  SELECT * INTO reviewer FROM public.profiles WHERE id = auth.uid();
+
+  UPDATE public.exam_sessions
+  SET ended_at = now(), ended_by = reviewer.id, ended_by_name = reviewer.name
+  WHERE id = exam_session.id;
+
+  PERFORM release_exam_lockdown(exam_session);
+
+  PERFORM write_activity_log(
+    'EXAM_SESSION_ENDED',
+    format('Ended exam session "%s"%s', exam_session.title,
+      CASE WHEN exam_session.exam_id IS NOT NULL THEN ' ahead of its schedule' ELSE '' END)
+  );
+END;
+$$;
+
+-- Start sessions for published exams whose window has opened and end the ones
+-- whose window has closed; run every minute by pg_cron
+CREATE OR REPLACE FUNCTION public.sync_scheduled_exam_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  exam public.exams%ROWTYPE;
+  exam_session public.exam_sessions%ROWTYPE;
+  class_name TEXT;
+  locked_ids TEXT[];
+  transitions INTEGER := 0;
+BEGIN
+  -- Windows that opened. A session already started (or ended by a teacher)
+  -- within the current window is left alone.
+  FOR exam IN
+    SELECT e.* FROM public.exams e
+    WHERE e.is_published
+      AND e.auto_exam_mode
+      AND now() >= e.scheduled_start
+      AND now() < e.scheduled_end
+      AND NOT EXISTS (
+        SELECT 1 FROM public.exam_sessions s
+        WHERE s.exam_id = e.id AND (s.ended_at IS NULL OR s.ended_at > e.scheduled_start)
+      )
+    FOR UPDATE OF e SKIP LOCKED
+  LOOP
+    SELECT name INTO class_name FROM public.classes WHERE id = exam.class_id;
+    locked_ids := '{}';
+
+    IF exam.lock_lockers THEN
+      WITH locked AS (
+        UPDATE public.lockers l
+        SET status = 'locked', locked_by = exam.created_by, locked_at = now()
+        WHERE NOT l.out_of_service
+          AND l.student_id IN (SELECT sc.student_id FROM public.student_classes sc WHERE sc.class_id = exam.class_id)
+          -- Lockers staff already hold are not the session's to release
+          AND (l.status = 'unlocked' OR l.locked_by IS NULL OR l.locked_by = l.student_id)
+        RETURNING l.id
+      )
+      SELECT coalesce(array_agg(id), '{}') INTO locked_ids FROM locked;
+    END IF;
+
+    INSERT INTO public.exam_sessions (title, class_ids, started_by, started_by_name, exam_id, ends_at, locked_locker_ids)
+    VALUES (exam.title, ARRAY[exam.class_id], exam.created_by, 'Exam schedule', exam.id, exam.scheduled_end, locked_ids);
+
+    INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+    VALUES (
+      exam.created_by,
+      'Exam schedule',
+      'system',
+      'EXAM_SESSION_AUTO_STARTED',
+      format('Started exam session "%s" for %s%s', exam.title, coalesce(class_name, 'a deleted class'),
+        CASE WHEN exam.lock_lockers THEN format(' and locked %s locker(s)', cardinality(locked_ids)) ELSE '' END)
+    );
+
+    transitions := transitions + 1;
+  END LOOP;
+
+  -- Windows that closed, or exams unpublished, deleted or switched to manual
+  -- while their session ran
+  FOR exam_session IN
+    SELECT s.* FROM public.exam_sessions s
+    LEFT JOIN public.exams e ON e.id = s.exam_id
+    WHERE s.ended_at IS NULL
+      AND s.ends_at IS NOT NULL
+      AND (
+        e.id IS NULL
+        OR now() >= e.scheduled_end
+        OR NOT e.is_published
+        OR NOT e.auto_exam_mode
+      )
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    UPDATE public.exam_sessions
+    SET ended_at = now(), ended_by_name = 'Exam schedule'
+    WHERE id = exam_session.id;
+
+    INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+    VALUES (
+      exam_session.started_by,
+      'Exam schedule',
+      'system',
+      'EXAM_SESSION_AUTO_ENDED',
+      format('Ended exam session "%s"%s', exam_session.title,
+        CASE WHEN cardinality(exam_session.locked_locker_ids) > 0
+          THEN format(' and released %s locker(s)', release_exam_lockdown(exam_session))
+          ELSE '' END)
+    );
+
+    transitions := transitions + 1;
+  END LOOP;
+
+  RETURN transitions;
+END;
+$$;
+
+-- Kiosks cannot open a locker an exam session is holding
+CREATE OR REPLACE FUNCTION public.kiosk_unlock_refusal(_locker public.lockers)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _locker.out_of_service
+      THEN 'This locker is out of service. Ask a teacher for help.'
+    WHEN EXISTS (
+      SELECT 1 FROM public.exam_sessions
+      WHERE ended_at IS NULL AND _locker.id = ANY(locked_locker_ids)
+    )
+      THEN 'This locker is locked for an exam. It opens again when the exam ends.'
+    WHEN _locker.locked_by IS NOT NULL AND _locker.locked_by IS DISTINCT FROM _locker.student_id
+      THEN 'This locker has been locked by staff. Ask a teacher to open it.'
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_exam_lockdown(public.exam_sessions) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_scheduled_exam_sessions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'sync-scheduled-exam-sessions',
+  '* * * * *',
+  $$SELECT public.sync_scheduled_exam_sessions()$$
+);
@@ -0,0 +1,46 @@
+-- Server-side exam restriction for the research edge functions: they call this
+-- with the caller's token before reaching the web, so the check cannot be
+-- skipped by calling the functions directly
+
+CREATE OR REPLACE FUNCTION public.check_research_access(p_tool TEXT, p_target TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  school_wide BOOLEAN;
+  session_titles TEXT[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT coalesce((value->>'enabled')::BOOLEAN, false) INTO school_wide
+  FROM public.system_settings WHERE key = 'exam_mode';
+
+  SELECT coalesce(array_agg(s.title ORDER BY s.started_at), '{}') INTO session_titles
+  FROM public.exam_sessions s
+  WHERE s.ended_at IS NULL AND exam_session_covers(s.class_ids, s.rooms, auth.uid());
+
+  IF NOT coalesce(school_wide, false) AND cardinality(session_titles) = 0 THEN
+    RETURN jsonb_build_object('allowed', true);
+  END IF;
+
+  PERFORM write_activity_log(
+    'RESEARCH_BLOCKED',
+    left(format('Blocked %s during %s%s',
+      p_tool,
+      CASE WHEN school_wide THEN 'exam mode'
+        ELSE 'exam session ' || (SELECT string_agg(format('"%s"', t), ', ') FROM unnest(session_titles) AS t) END,
+      coalesce(': ' || nullif(trim(p_target), ''), '')
+    ), 500)
+  );
+
+  RETURN jsonb_build_object(
+    'allowed', false,
+    'scope', CASE WHEN school_wide THEN 'school' ELSE 'session' END,
+    'sessions', to_jsonb(session_titles)
+  );
+END;
+$$;
@@ -0,0 +1,89 @@
+-- Physical desks as first-class entities. Each desk terminal sends a
+-- heartbeat; the server records who is at the desk and the mode their exam
+-- restrictions put it in, and teachers watch the room board live.
+
+CREATE TABLE public.desks (
+  -- Label on the desk, e.g. "B12-04"
+  id TEXT NOT NULL PRIMARY KEY CHECK (length(trim(id)) BETWEEN 1 AND 50),
+  room TEXT NOT NULL CHECK (length(trim(room)) BETWEEN 1 AND 50),
+  seat TEXT,
+  -- Student the desk is reserved for; NULL for a shared desk
+  assigned_student_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Whoever sent the last heartbeat
+  current_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  current_user_name TEXT,
+  mode TEXT NOT NULL DEFAULT 'normal' CHECK (mode IN ('normal', 'exam')),
+  is_idle BOOLEAN NOT NULL DEFAULT false,
+  last_heartbeat_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_desks_room ON public.desks (room);
+
+ALTER TABLE public.desks ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_desks_updated_at
+BEFORE UPDATE ON public.desks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Teachers view desks"
+ON public.desks FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins manage desks"
+ON public.desks FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students view their desks"
+ON public.desks FOR SELECT
+USING (assigned_student_id = auth.uid() OR current_user_id = auth.uid());
+
+-- Heartbeat from a desk terminal. The mode comes from the caller's exam
+-- restrictions, never from the terminal, and is returned so the desk shows
+-- the same mode the board does.
+CREATE OR REPLACE FUNCTION public.desk_heartbeat(p_desk_id TEXT, p_idle BOOLEAN DEFAULT false)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  desk public.desks%ROWTYPE;
+  caller public.profiles%ROWTYPE;
+  desk_mode TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO desk FROM public.desks WHERE id = p_desk_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Desk not found';
+  END IF;
+
+  IF desk.assigned_student_id IS NOT NULL
+    AND desk.assigned_student_id <> auth.uid()
+    AND has_role(auth.uid(), 'student'::app_role) THEN
+    RAISE EXCEPTION 'Desk % is reserved for another student', desk.id;
+  END IF;
+
+  SELECT * INTO caller FROM public.profiles WHERE id = auth.uid();
+  desk_mode := CASE WHEN is_in_exam(auth.uid()) THEN 'exam' ELSE 'normal' END;
+
+  UPDATE public.desks
+  SET current_user_id = auth.uid(),
+      current_user_name = caller.name,
+      mode = desk_mode,
+      is_idle = coalesce(p_idle, false),
+      last_heartbeat_at = now()
+  WHERE id = desk.id;
+
+  RETURN desk_mode;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.desks;
@@ -0,0 +1,129 @@
+-- Device tokens for desk kiosks. An admin provisions a token per desk; the
+-- desk-session edge function checks it before signing a student in at that
+-- desk, so only provisioned terminals get the username sign-in.
+
+-- One token per desk, stored as a bcrypt hash
+CREATE TABLE public.desk_device_tokens (
+  desk_id TEXT NOT NULL PRIMARY KEY REFERENCES public.desks(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  token_hash TEXT NOT NULL,
+  issued_by UUID NOT NULL REFERENCES auth.users(id),
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.desk_device_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Admins see which desks are provisioned; tokens are only written through
+-- provision_desk_token and revoke_desk_token
+CREATE POLICY "Admins view desk tokens"
+ON public.desk_device_tokens FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Issue a new token for a desk, replacing any earlier one. The plain token is
+-- returned once and never stored.
+CREATE OR REPLACE FUNCTION public.provision_desk_token(p_desk_id TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  plain_token TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can provision desk terminals';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.desks WHERE id = p_desk_id) THEN
+    RAISE EXCEPTION 'Desk not found';
+  END IF;
+
+  plain_token := encode(gen_random_bytes(24), 'hex');
+
+  INSERT INTO public.desk_device_tokens (desk_id, token_hash, issued_by)
+  VALUES (p_desk_id, crypt(plain_token, gen_salt('bf')), auth.uid())
+  ON CONFLICT (desk_id) DO UPDATE
+  SET token_hash = EXCLUDED.token_hash,
+      issued_by = EXCLUDED.issued_by,
+      issued_at = now(),
+      last_used_at = NULL;
+
+  PERFORM write_activity_log('DESK_TOKEN_PROVISIONED', format('Provisioned kiosk token for desk %s', p_desk_id));
+
+  RETURN plain_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_desk_token(p_desk_id TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only admins can revoke desk terminals';
+  END IF;
+
+  DELETE FROM public.desk_device_tokens WHERE desk_id = p_desk_id;
+
+  IF FOUND THEN
+    PERFORM write_activity_log('DESK_TOKEN_REVOKED', format('Revoked kiosk token for desk %s', p_desk_id));
+  END IF;
+END;
+$$;
+
+-- Check a kiosk's token; called by the desk-session edge function only
+CREATE OR REPLACE FUNCTION public.verify_desk_token(p_desk_id TEXT, p_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  stored_hash TEXT;
+BEGIN
+  SELECT token_hash INTO stored_hash FROM public.desk_device_tokens WHERE desk_id = p_desk_id;
+
+  IF stored_hash IS NULL OR coalesce(p_token, '') = '' OR crypt(p_token, stored_hash) <> stored_hash THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.desk_device_tokens SET last_used_at = now() WHERE desk_id = p_desk_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_desk_token(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Log a kiosk sign-in for the student; called by the desk-session edge
+-- function only, which has no user session of its own to log with
+CREATE OR REPLACE FUNCTION public.log_desk_sign_in(p_desk_id TEXT, p_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  student public.profiles%ROWTYPE;
+  desk public.desks%ROWTYPE;
+BEGIN
+  SELECT * INTO student FROM public.profiles WHERE id = p_student_id;
+  SELECT * INTO desk FROM public.desks WHERE id = p_desk_id;
+
+  IF student.id IS NULL OR desk.id IS NULL THEN
+    RAISE EXCEPTION 'Unknown student or desk';
+  END IF;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (
+    student.id,
+    student.name,
+    coalesce(get_user_role(student.id)::TEXT, 'student'),
+    'DESK_LOGIN',
+    format('Signed in at desk %s (room %s)', desk.id, desk.room)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_desk_sign_in(TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,140 @@
+-- Per-exam allow-list of desk tools and library materials. While an exam's
+-- session covers a student, only what the exam allows is offered on their
+-- desk; the school-wide switch and sessions started by hand allow nothing.
+
+ALTER TABLE public.exams
+  ADD COLUMN allowed_tools TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (allowed_tools <@ ARRAY['calculator', 'unit_converter', 'formula_sheet', 'web_search']),
+  ADD COLUMN allowed_material_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- The tools and materials a user may use right now. When several exam
+-- restrictions apply at once, only what every one of them allows is allowed.
+CREATE OR REPLACE FUNCTION public.exam_tool_policy(_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy RECORD;
+  restricted BOOLEAN := false;
+  tools TEXT[];
+  material_ids UUID[];
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.system_settings
+    WHERE key = 'exam_mode' AND coalesce((value->>'enabled')::BOOLEAN, false)
+  ) THEN
+    RETURN jsonb_build_object('restricted', true, 'tools', '[]'::JSONB, 'material_ids', '[]'::JSONB);
+  END IF;
+
+  FOR policy IN
+    SELECT coalesce(e.allowed_tools, '{}') AS allowed_tools,
+           coalesce(e.allowed_material_ids, '{}') AS allowed_material_ids
+    FROM public.exam_sessions s
+    LEFT JOIN public.exams e ON e.id = s.exam_id
+    WHERE s.ended_at IS NULL AND exam_session_covers(s.class_ids, s.rooms, _user_id)
+  LOOP
+    IF NOT restricted THEN
+      restricted := true;
+      tools := policy.allowed_tools;
+      material_ids := policy.allowed_material_ids;
+    ELSE
+      tools := ARRAY(SELECT unnest(tools) INTERSECT SELECT unnest(policy.allowed_tools));
+      material_ids := ARRAY(SELECT unnest(material_ids) INTERSECT SELECT unnest(policy.allowed_material_ids));
+    END IF;
+  END LOOP;
+
+  IF NOT restricted THEN
+    RETURN jsonb_build_object('restricted', false);
+  END IF;
+
+  RETURN jsonb_build_object('restricted', true, 'tools', to_jsonb(tools), 'material_ids', to_jsonb(material_ids));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_tool_policy(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The caller's policy with the allowed materials spelled out; students
+-- cannot otherwise read materials that are not assigned to their classes
+CREATE OR REPLACE FUNCTION public.get_exam_tool_policy()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  policy := exam_tool_policy(auth.uid());
+
+  IF NOT (policy->>'restricted')::BOOLEAN THEN
+    RETURN policy;
+  END IF;
+
+  RETURN policy || jsonb_build_object('materials', coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'id', m.id,
+      'title', m.title,
+      'file_url', m.file_url,
+      'file_name', m.file_name,
+      'file_type', m.file_type
+    ) ORDER BY m.title)
+    FROM public.learning_materials m
+    WHERE m.id IN (SELECT jsonb_array_elements_text(policy->'material_ids')::UUID)
+  ), '[]'::JSONB));
+END;
+$$;
+
+-- Web research during an exam is refused unless every applicable exam allows it
+CREATE OR REPLACE FUNCTION public.check_research_access(p_tool TEXT, p_target TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB;
+  school_wide BOOLEAN;
+  session_titles TEXT[];
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  policy := exam_tool_policy(auth.uid());
+
+  IF NOT (policy->>'restricted')::BOOLEAN OR policy->'tools' ? 'web_search' THEN
+    RETURN jsonb_build_object('allowed', true);
+  END IF;
+
+  SELECT coalesce((value->>'enabled')::BOOLEAN, false) INTO school_wide
+  FROM public.system_settings WHERE key = 'exam_mode';
+
+  SELECT coalesce(array_agg(s.title ORDER BY s.started_at), '{}') INTO session_titles
+  FROM public.exam_sessions s
+  WHERE s.ended_at IS NULL AND exam_session_covers(s.class_ids, s.rooms, auth.uid());
+
+  PERFORM write_activity_log(
+    'RESEARCH_BLOCKED',
+    left(format('Blocked %s during %s%s',
+      p_tool,
+      CASE WHEN school_wide THEN 'exam mode'
+        ELSE 'exam session ' || (SELECT string_agg(format('"%s"', t), ', ') FROM unnest(session_titles) AS t) END,
+      coalesce(': ' || nullif(trim(p_target), ''), '')
+    ), 500)
+  );
+
+  RETURN jsonb_build_object(
+    'allowed', false,
+    'scope', CASE WHEN school_wide THEN 'school' ELSE 'session' END,
+    'sessions', to_jsonb(session_titles)
+  );
+END;
+$$;
@@ -0,0 +1,137 @@
+-- Offline desk tools for exams: a formula sheet the teacher uploads per exam,
+-- and a record of each calculator, unit converter and formula sheet use
+-- against the exam session that covered the student at the time.
+
+-- Storage path in the learning-materials bucket, and the uploaded file's name
+ALTER TABLE public.exams
+  ADD COLUMN formula_sheet_path TEXT,
+  ADD COLUMN formula_sheet_name TEXT;
+
+CREATE TABLE public.exam_tool_uses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- NULL when only the school-wide switch applied
+  session_id UUID REFERENCES public.exam_sessions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_name TEXT NOT NULL,
+  desk_id TEXT,
+  tool TEXT NOT NULL CHECK (tool IN ('calculator', 'unit_converter', 'formula_sheet')),
+  -- When the tool was opened on the desk; uses made offline arrive later
+  used_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_exam_tool_uses_session ON public.exam_tool_uses (session_id, used_at);
+
+ALTER TABLE public.exam_tool_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view exam tool uses"
+ON public.exam_tool_uses FOR SELECT
+USING (has_role(auth.uid(), 'teacher'::app_role));
+
+CREATE POLICY "Admins view exam tool uses"
+ON public.exam_tool_uses FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Students view their exam tool uses"
+ON public.exam_tool_uses FOR SELECT
+USING (student_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.exam_tool_uses;
+
+-- Record a tool use against the given sessions the caller's desk knew of.
+-- Only sessions that covered the caller when the tool was opened count.
+CREATE OR REPLACE FUNCTION public.record_exam_tool_use(
+  p_tool TEXT,
+  p_session_ids UUID[] DEFAULT '{}',
+  p_used_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  p_desk_id TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  use_time TIMESTAMP WITH TIME ZONE := least(coalesce(p_used_at, now()), now());
+  caller_name TEXT;
+  recorded INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT name INTO caller_name FROM public.profiles WHERE id = auth.uid();
+
+  INSERT INTO public.exam_tool_uses (session_id, student_id, student_name, desk_id, tool, used_at)
+  SELECT s.id, auth.uid(), coalesce(caller_name, 'Unknown'), p_desk_id, p_tool, use_time
+  FROM public.exam_sessions s
+  WHERE s.id = ANY(coalesce(p_session_ids, '{}'))
+    AND s.started_at <= use_time
+    AND (s.ended_at IS NULL OR s.ended_at >= use_time)
+    AND exam_session_covers(s.class_ids, s.rooms, auth.uid());
+
+  GET DIAGNOSTICS recorded = ROW_COUNT;
+
+  IF recorded = 0 AND EXISTS (
+    SELECT 1 FROM public.system_settings
+    WHERE key = 'exam_mode' AND coalesce((value->>'enabled')::BOOLEAN, false)
+  ) THEN
+    INSERT INTO public.exam_tool_uses (session_id, student_id, student_name, desk_id, tool, used_at)
+    VALUES (NULL, auth.uid(), coalesce(caller_name, 'Unknown'), p_desk_id, p_tool, use_time);
+    recorded := 1;
+  END IF;
+
+  RETURN recorded;
+END;
+$$;
+
+-- The caller's policy with the allowed materials, and the formula sheets of
+-- the running exams when the formula sheet is allowed
+CREATE OR REPLACE FUNCTION public.get_exam_tool_policy()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  policy JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  policy := exam_tool_policy(auth.uid());
+
+  IF NOT (policy->>'restricted')::BOOLEAN THEN
+    RETURN policy;
+  END IF;
+
+  RETURN policy || jsonb_build_object(
+    'materials', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'title', m.title,
+        'file_url', m.file_url,
+        'file_name', m.file_name,
+        'file_type', m.file_type
+      ) ORDER BY m.title)
+      FROM public.learning_materials m
+      WHERE m.id IN (SELECT jsonb_array_elements_text(policy->'material_ids')::UUID)
+    ), '[]'::JSONB),
+    'formula_sheets', CASE WHEN policy->'tools' ? 'formula_sheet' THEN coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'exam_id', e.id,
+        'title', e.title,
+        'file_path', e.formula_sheet_path,
+        'file_name', e.formula_sheet_name
+      ) ORDER BY e.title)
+      FROM public.exam_sessions s
+      JOIN public.exams e ON e.id = s.exam_id
+      WHERE s.ended_at IS NULL
+        AND e.formula_sheet_path IS NOT NULL
+        AND exam_session_covers(s.class_ids, s.rooms, auth.uid())
+    ), '[]'::JSONB) ELSE '[]'::JSONB END
+  );
+END;
+$$;
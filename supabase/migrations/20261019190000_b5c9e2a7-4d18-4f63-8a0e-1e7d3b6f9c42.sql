@@ -0,0 +1,195 @@
+-- Automatic grading of objective exam questions. Submitting an exam creates
+-- an unpublished grade scored from the answer key, with a per-question
+-- breakdown; only subjective items are left for the teacher to mark.
+
+-- One entry per question: question_id, max_points, points and status, where
+-- status is correct, incorrect, unanswered, needs_marking or marked, and
+-- points is NULL while the item needs marking
+ALTER TABLE public.grades ADD COLUMN breakdown JSONB;
+
+-- The fraction of a question's points an answer earns, or NULL when a
+-- teacher has to mark it
+CREATE OR REPLACE FUNCTION public.exam_answer_score(_question public.exam_questions, _answer TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  answer_key TEXT := nullif(trim(_question.correct_answer), '');
+BEGIN
+  IF answer_key IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  CASE _question.question_type
+    WHEN 'multiple_choice' THEN
+      RETURN CASE WHEN trim(_answer) = answer_key THEN 1 ELSE 0 END;
+    WHEN 'short_answer' THEN
+      -- A match with the key is right; anything else may still be, so a
+      -- teacher decides
+      IF lower(regexp_replace(trim(_answer), '\s+', ' ', 'g')) = lower(regexp_replace(answer_key, '\s+', ' ', 'g')) THEN
+        RETURN 1;
+      END IF;
+      RETURN NULL;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_answer_score(public.exam_questions, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Score a submitted exam into its unpublished grade, creating the grade if
+-- needed. Marks a teacher already gave to subjective items are kept;
+-- published grades are left alone.
+CREATE OR REPLACE FUNCTION public.auto_grade_exam_submission(p_submission_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission public.exam_submissions%ROWTYPE;
+  exam public.exams%ROWTYPE;
+  question public.exam_questions%ROWTYPE;
+  grade_id UUID;
+  grade_published BOOLEAN;
+  previous JSONB := '[]'::JSONB;
+  marked JSONB;
+  answer TEXT;
+  fraction NUMERIC;
+  item JSONB;
+  items JSONB := '[]'::JSONB;
+  earned NUMERIC := 0;
+  total NUMERIC := 0;
+BEGIN
+  SELECT * INTO submission FROM public.exam_submissions WHERE id = p_submission_id;
+  IF NOT FOUND OR submission.submitted_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO exam FROM public.exams WHERE id = submission.exam_id;
+
+  SELECT id, is_published, coalesce(breakdown, '[]'::JSONB)
+  INTO grade_id, grade_published, previous
+  FROM public.grades
+  WHERE exam_submission_id = submission.id
+  ORDER BY graded_at DESC
+  LIMIT 1;
+
+  IF grade_published THEN
+    RETURN grade_id;
+  END IF;
+
+  FOR question IN
+    SELECT * FROM public.exam_questions
+    WHERE exam_id = submission.exam_id
+    ORDER BY order_index, created_at
+  LOOP
+    answer := nullif(trim(submission.answers->>question.id::TEXT), '');
+    item := jsonb_build_object('question_id', question.id, 'max_points', question.points);
+    total := total + question.points;
+
+    IF answer IS NULL THEN
+      item := item || jsonb_build_object('points', 0, 'status', 'unanswered');
+    ELSE
+      fraction := exam_answer_score(question, answer);
+
+      IF fraction IS NOT NULL THEN
+        item := item || jsonb_build_object(
+          'points', round(question.points * fraction, 2),
+          'status', CASE WHEN fraction >= 1 THEN 'correct' ELSE 'incorrect' END
+        );
+      ELSE
+        SELECT e INTO marked
+        FROM jsonb_array_elements(coalesce(previous, '[]'::JSONB)) AS e
+        WHERE e->>'question_id' = question.id::TEXT AND e->>'status' = 'marked';
+
+        item := item || CASE
+          WHEN marked IS NOT NULL THEN jsonb_build_object('points', marked->'points', 'status', 'marked')
+          ELSE jsonb_build_object('points', NULL, 'status', 'needs_marking')
+        END;
+      END IF;
+    END IF;
+
+    earned := earned + coalesce((item->>'points')::NUMERIC, 0);
+    items := items || jsonb_build_array(item);
+  END LOOP;
+
+  IF grade_id IS NULL THEN
+    INSERT INTO public.grades (student_id, graded_by, exam_submission_id, score, max_score, breakdown)
+    VALUES (
+      submission.student_id,
+      exam.created_by,
+      submission.id,
+      CASE WHEN total > 0 THEN round(earned / total * exam.max_score, 2) ELSE 0 END,
+      exam.max_score,
+      items
+    )
+    RETURNING id INTO grade_id;
+  ELSE
+    UPDATE public.grades
+    SET score = CASE WHEN total > 0 THEN round(earned / total * exam.max_score, 2) ELSE 0 END,
+        max_score = exam.max_score,
+        breakdown = items,
+        graded_at = now()
+    WHERE id = grade_id;
+  END IF;
+
+  RETURN grade_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.auto_grade_exam_submission(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Grade each exam as it is submitted, by the student or by auto-submit
+CREATE OR REPLACE FUNCTION public.auto_grade_on_submit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM auto_grade_exam_submission(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER auto_grade_exam_submission_on_submit
+AFTER UPDATE OF submitted_at ON public.exam_submissions
+FOR EACH ROW
+WHEN (OLD.submitted_at IS NULL AND NEW.submitted_at IS NOT NULL)
+EXECUTE FUNCTION public.auto_grade_on_submit();
+
+-- Re-run the grader over an exam's unpublished grades, e.g. after the
+-- answer key was corrected. Returns the number of submissions graded.
+CREATE OR REPLACE FUNCTION public.auto_grade_exam(p_exam_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission_id UUID;
+  graded INTEGER := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'teacher'::app_role) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only teachers and admins can grade exams';
+  END IF;
+
+  FOR submission_id IN
+    SELECT s.id FROM public.exam_submissions s
+    WHERE s.exam_id = p_exam_id AND s.submitted_at IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.grades g
+        WHERE g.exam_submission_id = s.id AND g.is_published
+      )
+  LOOP
+    PERFORM auto_grade_exam_submission(submission_id);
+    graded := graded + 1;
+  END LOOP;
+
+  RETURN graded;
+END;
+$$;
@@ -0,0 +1,81 @@
+-- Personal exam deadlines. Each attempt gets the exam's duration from when
+-- the student started it, but never runs past the end of the exam window.
+
+CREATE OR REPLACE FUNCTION public.exam_submission_deadline(_exam_id UUID, _started_at TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT least(_started_at + make_interval(mins => e.duration_minutes), e.scheduled_end)
+  FROM public.exams e
+  WHERE e.id = _exam_id
+$$;
+
+-- Answers can be saved until the student's own deadline, with a short grace
+-- for the last save in flight. The update that submits the attempt sets
+-- submitted_at, so the new row is only checked for ownership.
+DROP POLICY "Students update own exam submissions" ON public.exam_submissions;
+
+CREATE POLICY "Students update own exam submissions"
+ON public.exam_submissions FOR UPDATE
+USING (
+  auth.uid() = student_id AND
+  submitted_at IS NULL AND
+  now() <= exam_submission_deadline(exam_id, started_at) + interval '30 seconds'
+)
+WITH CHECK (auth.uid() = student_id);
+
+-- The clock starts on the server and cannot be moved. Submissions are
+-- stamped no later than the deadline, and a save that lands after it
+-- submits the attempt when the exam auto-submits.
+CREATE OR REPLACE FUNCTION public.enforce_exam_submission_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deadline TIMESTAMPTZ;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.started_at := now();
+    RETURN NEW;
+  END IF;
+
+  NEW.started_at := OLD.started_at;
+
+  IF OLD.submitted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  deadline := exam_submission_deadline(NEW.exam_id, NEW.started_at);
+
+  IF NEW.submitted_at IS NOT NULL THEN
+    NEW.submitted_at := least(now(), deadline);
+  ELSIF now() > deadline AND EXISTS (
+    SELECT 1 FROM public.exams WHERE id = NEW.exam_id AND auto_submit
+  ) THEN
+    NEW.submitted_at := deadline;
+    NEW.is_auto_submitted := true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_exam_submission_deadline
+BEFORE INSERT OR UPDATE ON public.exam_submissions
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_exam_submission_deadline();
+
+-- Grade attempts the deadline trigger submits too; a column trigger only
+-- fires when the statement itself sets submitted_at
+DROP TRIGGER auto_grade_exam_submission_on_submit ON public.exam_submissions;
+
+CREATE TRIGGER auto_grade_exam_submission_on_submit
+AFTER UPDATE ON public.exam_submissions
+FOR EACH ROW
+WHEN (OLD.submitted_at IS NULL AND NEW.submitted_at IS NOT NULL)
+EXECUTE FUNCTION public.auto_grade_on_submit();
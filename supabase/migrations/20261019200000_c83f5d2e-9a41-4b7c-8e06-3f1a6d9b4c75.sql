@@ -0,0 +1,68 @@
+-- Server-side auto-submission. Attempts still open after their personal
+-- deadline, e.g. because the student closed the tab, are submitted with the
+-- answers last autosaved, and each one is logged. The submit trigger grades
+-- them like any other submission.
+
+-- Answers are keyed by question id
+ALTER TABLE public.exam_submissions
+  ADD CONSTRAINT exam_submissions_answers_check CHECK (jsonb_typeof(answers) = 'object');
+
+CREATE OR REPLACE FUNCTION public.finalize_expired_exam_submissions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired RECORD;
+  finalized INTEGER := 0;
+BEGIN
+  -- Past the save grace, so a submit already in flight from the browser
+  -- lands first
+  FOR expired IN
+    SELECT s.id, s.student_id, s.answers, e.title, p.name AS student_name,
+      exam_submission_deadline(s.exam_id, s.started_at) AS deadline
+    FROM public.exam_submissions s
+    JOIN public.exams e ON e.id = s.exam_id
+    LEFT JOIN public.profiles p ON p.id = s.student_id
+    WHERE s.submitted_at IS NULL
+      AND now() > exam_submission_deadline(s.exam_id, s.started_at) + interval '30 seconds'
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    -- One attempt that cannot be submitted or graded does not hold up the rest
+    BEGIN
+      UPDATE public.exam_submissions
+      SET submitted_at = expired.deadline, is_auto_submitted = true
+      WHERE id = expired.id;
+
+      INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+      VALUES (
+        expired.student_id,
+        'Exam timer',
+        'system',
+        'EXAM_AUTO_SUBMITTED',
+        format('Submitted %s''s attempt at "%s" when time ran out at %s, with %s saved answer(s)',
+          coalesce(expired.student_name, 'a student'), expired.title,
+          to_char(expired.deadline AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"'),
+          CASE WHEN jsonb_typeof(expired.answers) = 'object'
+            THEN (SELECT count(*) FROM jsonb_object_keys(expired.answers))
+            ELSE 0 END)
+      );
+
+      finalized := finalized + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not auto-submit exam submission %: %', expired.id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN finalized;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finalize_expired_exam_submissions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'finalize-expired-exam-submissions',
+  '* * * * *',
+  $$SELECT public.finalize_expired_exam_submissions()$$
+);
@@ -0,0 +1,216 @@
+-- Typed exam questions. Each kind keeps what students see in options and
+-- its answer key in correct_answer, now JSONB:
+--   multiple_choice  options: choices            key: the right choice
+--   true_false       options: NULL               key: true or false
+--   short_answer     options: NULL               key: accepted answers
+--   numeric          options: NULL               key: {value, tolerance}
+--   matching         options: {prompts, choices} key: the choice for each prompt
+--   ordering         options: items, shuffled    key: the items in order
+--   essay            options: {word_limit}       key: NULL, always marked
+-- Answers in exam_submissions are JSON of the matching shape: a string, a
+-- number, a boolean or a list of strings.
+ALTER TABLE public.exam_questions
+  ALTER COLUMN correct_answer TYPE JSONB USING CASE
+    WHEN nullif(trim(correct_answer), '') IS NULL THEN NULL
+    WHEN question_type = 'short_answer' THEN jsonb_build_array(trim(correct_answer))
+    ELSE to_jsonb(trim(correct_answer))
+  END;
+
+ALTER TABLE public.exam_questions
+  ADD CONSTRAINT exam_questions_question_type_check CHECK (
+    question_type IN ('multiple_choice', 'true_false', 'short_answer', 'numeric', 'matching', 'ordering', 'essay')
+  );
+
+-- No answer given: missing, blank text or a list of blanks
+CREATE OR REPLACE FUNCTION public.exam_answer_blank(_answer JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE jsonb_typeof(_answer)
+    WHEN 'string' THEN trim(_answer #>> '{}') = ''
+    WHEN 'array' THEN NOT EXISTS (SELECT 1 FROM jsonb_array_elements_text(_answer) AS v WHERE trim(v) <> '')
+    WHEN 'number' THEN false
+    WHEN 'boolean' THEN false
+    ELSE true
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_answer_blank(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Case- and whitespace-insensitive form of a text answer
+CREATE OR REPLACE FUNCTION public.exam_answer_normalize(_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT lower(regexp_replace(trim(_text), '\s+', ' ', 'g'))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_answer_normalize(TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION public.exam_answer_score(public.exam_questions, TEXT);
+
+-- The fraction of a question's points an answer earns, or NULL when a
+-- teacher has to mark it. Matching and ordering earn a share per item.
+CREATE OR REPLACE FUNCTION public.exam_answer_score(_question public.exam_questions, _answer JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  answer_key JSONB := _question.correct_answer;
+  given NUMERIC;
+  fraction NUMERIC;
+BEGIN
+  IF answer_key IS NULL OR jsonb_typeof(answer_key) = 'null' THEN
+    RETURN NULL;
+  END IF;
+
+  CASE _question.question_type
+    WHEN 'multiple_choice' THEN
+      RETURN CASE WHEN trim(_answer #>> '{}') = trim(answer_key #>> '{}') THEN 1 ELSE 0 END;
+    WHEN 'true_false' THEN
+      RETURN CASE WHEN _answer = answer_key THEN 1 ELSE 0 END;
+    WHEN 'short_answer' THEN
+      -- A match with an accepted answer is right; anything else may still
+      -- be, so a teacher decides
+      IF jsonb_typeof(answer_key) = 'array' AND EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(answer_key) AS v
+        WHERE exam_answer_normalize(v) = exam_answer_normalize(_answer #>> '{}')
+      ) THEN
+        RETURN 1;
+      END IF;
+      RETURN NULL;
+    WHEN 'numeric' THEN
+      IF (_answer #>> '{}') !~ '^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$' THEN
+        RETURN 0;
+      END IF;
+      -- Exponents past what NUMERIC holds, e.g. 1e200000, are wrong answers
+      BEGIN
+        given := (_answer #>> '{}')::NUMERIC;
+      EXCEPTION WHEN numeric_value_out_of_range OR invalid_text_representation THEN
+        RETURN 0;
+      END;
+      RETURN CASE
+        WHEN abs(given - (answer_key->>'value')::NUMERIC) <= coalesce((answer_key->>'tolerance')::NUMERIC, 0) THEN 1
+        ELSE 0
+      END;
+    WHEN 'matching', 'ordering' THEN
+      IF jsonb_typeof(_answer) <> 'array' OR jsonb_typeof(answer_key) <> 'array' THEN
+        RETURN 0;
+      END IF;
+      SELECT count(*) FILTER (WHERE a.value = k.value)::NUMERIC / nullif(count(*), 0)
+      INTO fraction
+      FROM jsonb_array_elements_text(answer_key) WITH ORDINALITY AS k(value, idx)
+      LEFT JOIN jsonb_array_elements_text(_answer) WITH ORDINALITY AS a(value, idx) ON a.idx = k.idx;
+      RETURN coalesce(fraction, 0);
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.exam_answer_score(public.exam_questions, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- As before, reading answers as JSON and giving part marks a status
+CREATE OR REPLACE FUNCTION public.auto_grade_exam_submission(p_submission_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission public.exam_submissions%ROWTYPE;
+  exam public.exams%ROWTYPE;
+  question public.exam_questions%ROWTYPE;
+  grade_id UUID;
+  grade_published BOOLEAN;
+  previous JSONB := '[]'::JSONB;
+  marked JSONB;
+  answer JSONB;
+  fraction NUMERIC;
+  item JSONB;
+  items JSONB := '[]'::JSONB;
+  earned NUMERIC := 0;
+  total NUMERIC := 0;
+BEGIN
+  SELECT * INTO submission FROM public.exam_submissions WHERE id = p_submission_id;
+  IF NOT FOUND OR submission.submitted_at IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO exam FROM public.exams WHERE id = submission.exam_id;
+
+  SELECT id, is_published, coalesce(breakdown, '[]'::JSONB)
+  INTO grade_id, grade_published, previous
+  FROM public.grades
+  WHERE exam_submission_id = submission.id
+  ORDER BY graded_at DESC
+  LIMIT 1;
+
+  IF grade_published THEN
+    RETURN grade_id;
+  END IF;
+
+  FOR question IN
+    SELECT * FROM public.exam_questions
+    WHERE exam_id = submission.exam_id
+    ORDER BY order_index, created_at
+  LOOP
+    answer := submission.answers->question.id::TEXT;
+    item := jsonb_build_object('question_id', question.id, 'max_points', question.points);
+    total := total + question.points;
+
+    IF exam_answer_blank(answer) THEN
+      item := item || jsonb_build_object('points', 0, 'status', 'unanswered');
+    ELSE
+      fraction := exam_answer_score(question, answer);
+
+      IF fraction IS NOT NULL THEN
+        item := item || jsonb_build_object(
+          'points', round(question.points * fraction, 2),
+          'status', CASE WHEN fraction >= 1 THEN 'correct' WHEN fraction > 0 THEN 'partial' ELSE 'incorrect' END
+        );
+      ELSE
+        SELECT e INTO marked
+        FROM jsonb_array_elements(coalesce(previous, '[]'::JSONB)) AS e
+        WHERE e->>'question_id' = question.id::TEXT AND e->>'status' = 'marked';
+
+        item := item || CASE
+          WHEN marked IS NOT NULL THEN jsonb_build_object('points', marked->'points', 'status', 'marked')
+          ELSE jsonb_build_object('points', NULL, 'status', 'needs_marking')
+        END;
+      END IF;
+    END IF;
+
+    earned := earned + coalesce((item->>'points')::NUMERIC, 0);
+    items := items || jsonb_build_array(item);
+  END LOOP;
+
+  IF grade_id IS NULL THEN
+    INSERT INTO public.grades (student_id, graded_by, exam_submission_id, score, max_score, breakdown)
+    VALUES (
+      submission.student_id,
+      exam.created_by,
+      submission.id,
+      CASE WHEN total > 0 THEN round(earned / total * exam.max_score, 2) ELSE 0 END,
+      exam.max_score,
+      items
+    )
+    RETURNING id INTO grade_id;
+  ELSE
+    UPDATE public.grades
+    SET score = CASE WHEN total > 0 THEN round(earned / total * exam.max_score, 2) ELSE 0 END,
+        max_score = exam.max_score,
+        breakdown = items,
+        graded_at = now()
+    WHERE id = grade_id;
+  END IF;
+
+  RETURN grade_id;
+END;
+$$;
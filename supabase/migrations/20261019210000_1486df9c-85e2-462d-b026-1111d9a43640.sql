@@ -0,0 +1,85 @@
+-- Locker schedules target a building, floor or bank instead of matching
+-- location text. A schedule goes with its zone, so deleting a zone never
+-- widens it to every locker.
+ALTER TABLE public.locker_schedules
+  DROP COLUMN location_filter,
+  ADD COLUMN building_id UUID REFERENCES public.buildings(id) ON DELETE CASCADE,
+  ADD COLUMN floor_id UUID REFERENCES public.floors(id) ON DELETE CASCADE,
+  ADD COLUMN bank_id UUID REFERENCES public.locker_banks(id) ON DELETE CASCADE,
+  -- At most one zone; none targets every locker
+  ADD CONSTRAINT locker_schedules_one_zone CHECK (num_nonnulls(building_id, floor_id, bank_id) <= 1);
+
+-- Zone path of a schedule, e.g. "Main Building › Floor 2", or NULL for every locker
+CREATE OR REPLACE FUNCTION public.locker_schedule_zone_label(_schedule public.locker_schedules)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _schedule.bank_id IS NOT NULL THEN (
+      SELECT concat_ws(' › ', bu.name, f.name, b.name)
+      FROM public.locker_banks b
+      JOIN public.floors f ON f.id = b.floor_id
+      JOIN public.buildings bu ON bu.id = f.building_id
+      WHERE b.id = _schedule.bank_id
+    )
+    WHEN _schedule.floor_id IS NOT NULL THEN (
+      SELECT concat_ws(' › ', bu.name, f.name)
+      FROM public.floors f
+      JOIN public.buildings bu ON bu.id = f.building_id
+      WHERE f.id = _schedule.floor_id
+    )
+    WHEN _schedule.building_id IS NOT NULL THEN (
+      SELECT name FROM public.buildings WHERE id = _schedule.building_id
+    )
+  END
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.locker_schedule_zone_label(public.locker_schedules) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.apply_locker_schedule(_schedule public.locker_schedules, _status TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_count INTEGER;
+BEGIN
+  UPDATE public.lockers
+  SET
+    status = _status,
+    locked_by = CASE WHEN _status = 'locked' THEN _schedule.created_by ELSE NULL END,
+    locked_at = CASE WHEN _status = 'locked' THEN now() ELSE NULL END
+  WHERE status <> _status
+    AND NOT out_of_service
+    AND (
+      num_nonnulls(_schedule.building_id, _schedule.floor_id, _schedule.bank_id) = 0
+      OR bank_id IN (
+        SELECT b.id FROM public.locker_banks b
+        JOIN public.floors f ON f.id = b.floor_id
+        WHERE b.id = _schedule.bank_id OR f.id = _schedule.floor_id OR f.building_id = _schedule.building_id
+      )
+    );
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+
+  INSERT INTO public.activity_logs (user_id, user_name, user_role, action, details)
+  VALUES (
+    _schedule.created_by,
+    'Schedule: ' || _schedule.name,
+    'system',
+    CASE WHEN _status = 'locked' THEN 'SCHEDULE_LOCK' ELSE 'SCHEDULE_UNLOCK' END,
+    format(
+      '%s %s locker(s) in %s (schedule %s)',
+      CASE WHEN _status = 'locked' THEN 'Locked' ELSE 'Unlocked' END,
+      changed_count,
+      coalesce(locker_schedule_zone_label(_schedule), 'all zones'),
+      _schedule.id
+    )
+  );
+
+  RETURN changed_count;
+END;
+$$;